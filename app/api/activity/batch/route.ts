@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/lib/db';
+import { authenticateChildDevice } from '@/lib/device-auth';
+import { BatchActivity, BatchSession, ingestActivityBatch, MAX_BATCH_SIZE } from '@/lib/activity-batch';
+
+// Activities and sessions queued on a device while it was offline. A paired device can send its own
+// child's records; a signed-in parent can send any of their children's.
+export async function POST(request: NextRequest) {
+  try {
+    let allowedChildIds: Set<string>;
+
+    const device = await authenticateChildDevice(request);
+    if (device) {
+      allowedChildIds = new Set([device.childId]);
+    } else {
+      const { userId } = await auth();
+      if (!userId) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
+
+      const children = await db.child.findMany({
+        where: { parent: { clerkId: userId } },
+        select: { id: true },
+      });
+      allowedChildIds = new Set(children.map(child => child.id));
+    }
+
+    const body = await request.json();
+    const activities: BatchActivity[] = Array.isArray(body.activities) ? body.activities : [];
+    const sessions: BatchSession[] = Array.isArray(body.sessions) ? body.sessions : [];
+
+    if (activities.length === 0 && sessions.length === 0) {
+      return NextResponse.json({ error: 'No activities or sessions to record' }, { status: 400 });
+    }
+
+    if (activities.length + sessions.length > MAX_BATCH_SIZE) {
+      return NextResponse.json({
+        error: `Batches are limited to ${MAX_BATCH_SIZE} activities and sessions`
+      }, { status: 400 });
+    }
+
+    const result = await ingestActivityBatch(activities, sessions, allowedChildIds);
+
+    const accepted = result.activities.filter(item => item.status === 'accepted').length;
+    const duplicates = result.activities.filter(item => item.status === 'duplicate').length;
+    const rejected = result.activities.filter(item => item.status === 'rejected').length;
+    console.log('📥 Activity batch:', { accepted, duplicates, rejected, sessions: result.sessions.length });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('❌ Activity batch error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to record activity batch',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { JobRunStatus, JobTrigger } from "@prisma/client";
+import { db } from "@/lib/db";
+import { isAdminUser } from "@/lib/admin";
+import { getJobDefinition, runJob } from "@/lib/jobs";
+
+async function checkAdmin() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  if (!(await isAdminUser(userId))) {
+    return NextResponse.json(
+      { error: "Admin access required" },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+// Run history for one job, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const denied = await checkAdmin();
+    if (denied) return denied;
+
+    const { name } = await params;
+
+    if (!getJobDefinition(name)) {
+      return NextResponse.json(
+        { error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50') || 50, 200);
+
+    const runs = await db.jobRun.findMany({
+      where: { jobName: name },
+      orderBy: { startedAt: 'desc' },
+      take: limit,
+    });
+
+    return NextResponse.json({
+      name,
+      runs,
+    });
+  } catch (error) {
+    console.error("Error fetching job runs:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Re-run a job now, regardless of its schedule. Waits for the run to finish.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const denied = await checkAdmin();
+    if (denied) return denied;
+
+    const { name } = await params;
+
+    if (!getJobDefinition(name)) {
+      return NextResponse.json(
+        { error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    const run = await runJob(name, JobTrigger.MANUAL);
+
+    if (!run) {
+      return NextResponse.json(
+        { error: "Job is already running" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: run.status === JobRunStatus.SUCCEEDED,
+      run,
+    });
+  } catch (error) {
+    console.error("Error running job:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/lib/db";
+import { isAdminUser } from "@/lib/admin";
+import { jobDefinitions } from "@/lib/jobs";
+
+// Every background job with its schedule, lock state and latest runs
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isAdminUser(userId))) {
+      return NextResponse.json(
+        { error: "Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const jobs = await db.job.findMany({
+      include: {
+        runs: {
+          orderBy: { startedAt: 'desc' },
+          take: 5,
+        },
+      },
+    });
+    const jobsByName = new Map(jobs.map(job => [job.name, job]));
+    const now = new Date();
+
+    return NextResponse.json({
+      jobs: jobDefinitions.map(definition => {
+        const job = jobsByName.get(definition.name);
+
+        return {
+          name: definition.name,
+          description: definition.description,
+          intervalMinutes: definition.intervalMinutes,
+          maxAttempts: definition.maxAttempts,
+          nextRunAt: job?.nextRunAt ?? null,
+          lastRunAt: job?.lastRunAt ?? null,
+          lastStatus: job?.lastStatus ?? null,
+          running: !!job?.lockedUntil && job.lockedUntil > now,
+          lockedBy: job?.lockedBy ?? null,
+          recentRuns: job?.runs ?? [],
+        };
+      }),
+    });
+  } catch (error) {
+    console.error("Error fetching jobs:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
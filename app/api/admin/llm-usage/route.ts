@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/lib/db";
+import { isAdminUser } from "@/lib/admin";
+
+// Tokens spent per parent over the last `days` days (default 30), biggest spenders first
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isAdminUser(userId))) {
+      return NextResponse.json(
+        { error: "Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const days = Math.min(Math.max(parseInt(request.nextUrl.searchParams.get("days") || "30") || 30, 1), 365);
+    const since = new Date();
+    since.setUTCHours(0, 0, 0, 0);
+    since.setUTCDate(since.getUTCDate() - (days - 1));
+
+    const usage = await db.llmUsage.groupBy({
+      by: ["parentId", "task"],
+      where: { date: { gte: since } },
+      _sum: {
+        requests: true,
+        promptTokens: true,
+        completionTokens: true,
+      },
+    });
+
+    const parents = await db.parent.findMany({
+      where: { id: { in: Array.from(new Set(usage.map(row => row.parentId))) } },
+      select: { id: true, email: true },
+    });
+    const emailById = new Map(parents.map(parent => [parent.id, parent.email]));
+
+    const byParent = new Map<string, {
+      parentId: string;
+      email: string | null;
+      requests: number;
+      promptTokens: number;
+      completionTokens: number;
+      tasks: Record<string, number>;
+    }>();
+
+    for (const row of usage) {
+      const totals = byParent.get(row.parentId) ?? {
+        parentId: row.parentId,
+        email: emailById.get(row.parentId) ?? null,
+        requests: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        tasks: {},
+      };
+
+      totals.requests += row._sum.requests ?? 0;
+      totals.promptTokens += row._sum.promptTokens ?? 0;
+      totals.completionTokens += row._sum.completionTokens ?? 0;
+      totals.tasks[row.task] = (row._sum.promptTokens ?? 0) + (row._sum.completionTokens ?? 0);
+      byParent.set(row.parentId, totals);
+    }
+
+    const parentsUsage = Array.from(byParent.values())
+      .sort((a, b) => (b.promptTokens + b.completionTokens) - (a.promptTokens + a.completionTokens));
+
+    return NextResponse.json({ since, days, parents: parentsUsage });
+  } catch (error) {
+    console.error("Error fetching LLM usage:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { getCurrentParent } from '@/lib/actions';
 import { db } from '@/lib/db';
+import { parseSuitability } from '@/lib/suitability';
+import { getCachedSummary } from '@/lib/video-metadata';
 
 export async function GET(request: NextRequest) {
   const { userId } = await auth();
@@ -61,9 +63,10 @@ export async function POST(request: NextRequest) {
       description,
       thumbnail,
       channelName,
-      duration,
-      summary
+      duration
     } = body;
+    // Keep a suitability assessment the parent already looked at, if it's well-formed
+    const suitability = parseSuitability(body.suitability);
 
     if (!childId || !youtubeId || !title) {
       return NextResponse.json({ 
@@ -80,6 +83,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Child not found or unauthorized' }, { status: 404 });
     }
 
+    // Fall back to the shared summary when the parent approves without opening the video
+    const summary = body.summary || await getCachedSummary(youtubeId) || '';
+
     // Create or update approved video
     const approvedVideo = await db.approvedVideo.upsert({
       where: {
@@ -95,6 +101,7 @@ export async function POST(request: NextRequest) {
         channelName,
         duration,
         summary,
+        ...(suitability && { suitability }),
       },
       create: {
         childId,
@@ -105,6 +112,7 @@ export async function POST(request: NextRequest) {
         channelName,
         duration,
         summary,
+        ...(suitability && { suitability }),
       },
     });
 
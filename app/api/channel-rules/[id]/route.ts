@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getCurrentParent } from '@/lib/actions';
+import { db } from '@/lib/db';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const parent = await getCurrentParent();
+
+    if (!parent) {
+      return NextResponse.json({ error: 'Parent not found' }, { status: 404 });
+    }
+
+    const { id: ruleId } = await params;
+
+    const deleted = await db.channelRule.deleteMany({
+      where: { id: ruleId, parentId: parent.id },
+    });
+
+    if (deleted.count === 0) {
+      return NextResponse.json({ error: 'Channel rule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error removing channel rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove channel rule' },
+      { status: 500 }
+    );
+  }
+}
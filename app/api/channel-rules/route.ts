@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getCurrentParent } from '@/lib/actions';
+import { db } from '@/lib/db';
+import { saveChannelRule, validateChannelRule } from '@/lib/channel-rules';
+
+// The family's channel rules, including every child's own rules
+export async function GET() {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const parent = await getCurrentParent();
+
+    if (!parent) {
+      return NextResponse.json({ error: 'Parent not found' }, { status: 404 });
+    }
+
+    const rules = await db.channelRule.findMany({
+      where: { parentId: parent.id },
+      include: {
+        child: {
+          select: {
+            name: true,
+          },
+        },
+      },
+      orderBy: { channelName: 'asc' },
+    });
+
+    return NextResponse.json({
+      rules: rules.map(rule => ({
+        id: rule.id,
+        channelId: rule.channelId,
+        channelName: rule.channelName,
+        rule: rule.rule,
+        childId: rule.childId,
+        childName: rule.child?.name ?? null,
+        autoApprove: rule.autoApprove,
+        createdAt: rule.createdAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching channel rules:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch channel rules' },
+      { status: 500 }
+    );
+  }
+}
+
+// Trust or block a channel for the family, or for one child when childId is given
+export async function POST(request: NextRequest) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const parent = await getCurrentParent();
+
+    if (!parent) {
+      return NextResponse.json({ error: 'Parent not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const input = {
+      channelId: body.channelId,
+      channelName: body.channelName,
+      rule: body.rule,
+      childId: body.childId || null,
+      autoApprove: !!body.autoApprove,
+    };
+
+    const ruleError = validateChannelRule(input);
+    if (ruleError) {
+      return NextResponse.json({ error: ruleError }, { status: 400 });
+    }
+
+    if (input.childId && !parent.children.some(child => child.id === input.childId)) {
+      return NextResponse.json({ error: 'Child not found or unauthorized' }, { status: 404 });
+    }
+
+    const rule = await saveChannelRule(parent.id, input);
+
+    console.log(`📺 ${rule.rule === 'BLOCK' ? 'Blocked' : 'Trusted'} channel ${rule.channelName}${rule.childId ? ` for child ${rule.childId}` : ' for the family'}`);
+
+    return NextResponse.json({ success: true, rule });
+  } catch (error) {
+    console.error('Error saving channel rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to save channel rule' },
+      { status: 500 }
+    );
+  }
+}
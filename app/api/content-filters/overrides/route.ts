@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getCurrentParent } from '@/lib/actions';
+import { db } from '@/lib/db';
+
+// Show a video the child's content filter hid
+export async function POST(request: NextRequest) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const parent = await getCurrentParent();
+
+    if (!parent) {
+      return NextResponse.json({ error: 'Parent not found' }, { status: 404 });
+    }
+
+    const { childId, youtubeId } = await request.json();
+
+    if (!childId || !youtubeId) {
+      return NextResponse.json({
+        error: 'Missing required fields: childId, youtubeId'
+      }, { status: 400 });
+    }
+
+    const child = parent.children.find(c => c.id === childId);
+
+    if (!child) {
+      return NextResponse.json({ error: 'Child not found or unauthorized' }, { status: 404 });
+    }
+
+    if (!child.contentFilterOverrides.includes(youtubeId)) {
+      await db.child.update({
+        where: { id: childId },
+        data: { contentFilterOverrides: { push: youtubeId } },
+      });
+    }
+
+    console.log(`🔓 Content filter override for child ${childId}: ${youtubeId}`);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error saving content filter override:', error);
+    return NextResponse.json(
+      { error: 'Failed to save override' },
+      { status: 500 }
+    );
+  }
+}
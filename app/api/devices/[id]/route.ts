@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/lib/db";
+
+// Revoke a paired device; its token stops working immediately
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id: deviceId } = await params;
+
+    const device = await db.childDevice.findFirst({
+      where: {
+        id: deviceId,
+        child: {
+          parent: {
+            clerkId: userId,
+          },
+        },
+      },
+    });
+
+    if (!device) {
+      return NextResponse.json(
+        { error: "Device not found" },
+        { status: 404 }
+      );
+    }
+
+    await db.childDevice.update({
+      where: { id: device.id },
+      data: { revokedAt: device.revokedAt || new Date() },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: "Device access revoked",
+    });
+  } catch (error) {
+    console.error("Error revoking device:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/lib/db";
+import { createPairingCode } from "@/lib/device-auth";
+
+// Generate a short-lived code the kids device can exchange for a token
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { childId } = body;
+
+    if (!childId) {
+      return NextResponse.json(
+        { error: "Child ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const child = await db.child.findFirst({
+      where: {
+        id: childId,
+        parent: {
+          clerkId: userId,
+        },
+      },
+    });
+
+    if (!child) {
+      return NextResponse.json(
+        { error: "Child not found or unauthorized" },
+        { status: 404 }
+      );
+    }
+
+    const pairingCode = await createPairingCode(child.id);
+
+    return NextResponse.json({
+      code: pairingCode.code,
+      childId: child.id,
+      childName: child.name,
+      expiresAt: pairingCode.expiresAt.toISOString(),
+    });
+  } catch (error) {
+    console.error("Error creating pairing code:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/lib/db";
+
+// List the kids devices paired with this parent's children
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const childId = searchParams.get('childId');
+
+    const whereClause: any = {
+      child: {
+        parent: {
+          clerkId: userId,
+        },
+      },
+    };
+
+    if (childId) {
+      whereClause.childId = childId;
+    }
+
+    const devices = await db.childDevice.findMany({
+      where: whereClause,
+      include: {
+        child: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({
+      devices: devices.map(device => ({
+        id: device.id,
+        name: device.name,
+        childId: device.childId,
+        childName: device.child.name,
+        createdAt: device.createdAt.toISOString(),
+        lastUsedAt: device.lastUsedAt?.toISOString() || null,
+        revokedAt: device.revokedAt?.toISOString() || null,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching devices:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/lib/db";
+import { formatDateOnly } from "@/lib/timezone";
+
+// One digest. ?format=html or ?format=markdown returns the rendered report itself.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id: digestId } = await params;
+
+    const digest = await db.weeklyDigest.findFirst({
+      where: {
+        id: digestId,
+        parent: {
+          clerkId: userId,
+        },
+      },
+      include: {
+        child: {
+          select: {
+            name: true,
+          },
+        },
+      },
+    });
+
+    if (!digest) {
+      return NextResponse.json(
+        { error: "Digest not found" },
+        { status: 404 }
+      );
+    }
+
+    const format = new URL(request.url).searchParams.get('format');
+
+    if (format === 'html') {
+      return new NextResponse(digest.html, {
+        headers: { 'Content-Type': 'text/html; charset=utf-8' },
+      });
+    }
+
+    if (format === 'markdown') {
+      return new NextResponse(digest.markdown, {
+        headers: { 'Content-Type': 'text/markdown; charset=utf-8' },
+      });
+    }
+
+    return NextResponse.json({
+      id: digest.id,
+      childId: digest.childId,
+      childName: digest.child.name,
+      weekStart: formatDateOnly(digest.weekStart),
+      weekEnd: formatDateOnly(digest.weekEnd),
+      report: digest.report,
+      markdown: digest.markdown,
+      html: digest.html,
+      deliveredAt: digest.deliveredAt,
+      deliveredVia: digest.deliveredVia,
+      deliveryError: digest.deliveryError,
+    });
+  } catch (error) {
+    console.error("Error fetching digest:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/lib/db";
+import { digestChildSelect, generateWeeklyDigest, getLastCompletedWeek } from "@/lib/digest";
+import { formatDateOnly } from "@/lib/timezone";
+
+// Archive of the parent's weekly digests, newest week first
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const childId = searchParams.get('childId');
+
+    const parent = await db.parent.findUnique({
+      where: { clerkId: userId },
+    });
+
+    if (!parent) {
+      return NextResponse.json(
+        { error: "Parent not found" },
+        { status: 404 }
+      );
+    }
+
+    const digests = await db.weeklyDigest.findMany({
+      where: {
+        parentId: parent.id,
+        ...(childId && { childId }),
+      },
+      select: {
+        id: true,
+        childId: true,
+        weekStart: true,
+        weekEnd: true,
+        deliveredAt: true,
+        deliveredVia: true,
+        deliveryError: true,
+        createdAt: true,
+        child: {
+          select: {
+            name: true,
+          },
+        },
+      },
+      orderBy: [
+        { weekStart: 'desc' },
+        { createdAt: 'desc' },
+      ],
+    });
+
+    return NextResponse.json({
+      digests: digests.map(digest => ({
+        id: digest.id,
+        childId: digest.childId,
+        childName: digest.child.name,
+        weekStart: formatDateOnly(digest.weekStart),
+        weekEnd: formatDateOnly(digest.weekEnd),
+        deliveredAt: digest.deliveredAt,
+        deliveredVia: digest.deliveredVia,
+        deliveryError: digest.deliveryError,
+        createdAt: digest.createdAt,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching digests:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Build (or rebuild) the digest for the last completed week, for one child or all of them.
+// This only archives the digest; delivery is left to the weekly job.
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { childId } = body;
+
+    const children = await db.child.findMany({
+      where: {
+        parent: {
+          clerkId: userId,
+        },
+        ...(childId && { id: childId }),
+      },
+      select: digestChildSelect,
+    });
+
+    if (children.length === 0) {
+      return NextResponse.json(
+        { error: "Child not found or unauthorized" },
+        { status: 404 }
+      );
+    }
+
+    const digests = [];
+    for (const child of children) {
+      const { weekStart } = getLastCompletedWeek(child.timezone);
+      const digest = await generateWeeklyDigest(child, weekStart);
+      digests.push({ id: digest.id, childId: child.id, weekStart });
+    }
+
+    return NextResponse.json({
+      success: true,
+      digests,
+    });
+  } catch (error) {
+    console.error("Error generating digests:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { VideoSource } from "@prisma/client";
+import { db } from "@/lib/db";
+import { authenticateChildDevice } from "@/lib/device-auth";
+
+// Parent-provided videos the device may download for travel mode. Anything missing from this list
+// has been removed by the parent, and the device deletes its copy.
+export async function GET(request: NextRequest) {
+  try {
+    const device = await authenticateChildDevice(request);
+    if (!device) {
+      return NextResponse.json(
+        { error: "Unauthorized device" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const childId = searchParams.get('childId') || device.childId;
+
+    if (childId !== device.childId) {
+      return NextResponse.json(
+        { error: "Device is not paired with this child" },
+        { status: 403 }
+      );
+    }
+
+    const videos = await db.approvedVideo.findMany({
+      where: {
+        childId,
+        source: VideoSource.LOCAL_MEDIA,
+        mediaUrl: { not: null },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const media = videos.map(video => ({
+      approvedVideoId: video.id,
+      childId: video.childId,
+      youtubeId: video.youtubeId,
+      title: video.title,
+      thumbnail: video.thumbnail,
+      duration: video.duration,
+      mediaUrl: video.mediaUrl,
+      sizeBytes: video.mediaSizeBytes,
+      mimeType: video.mediaMimeType,
+      updatedAt: video.updatedAt,
+    }));
+
+    return NextResponse.json({ media });
+  } catch (error) {
+    console.error("Error fetching offline media:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { redeemPairingCode } from "@/lib/device-auth";
+
+// Exchange a parent-issued pairing code for a device token bound to one child
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { code, deviceName } = body;
+
+    if (!code) {
+      return NextResponse.json(
+        { error: "Pairing code is required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await redeemPairingCode(code, deviceName || 'Kids device');
+
+    if (!result) {
+      return NextResponse.json(
+        { error: "Invalid or expired pairing code" },
+        { status: 400 }
+      );
+    }
+
+    console.log(`🔗 Device ${result.device.id} paired with child ${result.child.id}`);
+
+    return NextResponse.json({
+      success: true,
+      token: result.token,
+      deviceId: result.device.id,
+      child: result.child,
+    });
+  } catch (error) {
+    console.error("Error pairing device:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
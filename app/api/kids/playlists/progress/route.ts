@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { authenticateChildDevice } from "@/lib/device-auth";
+
+// Mark a playlist item as completed for the paired child
+export async function POST(request: NextRequest) {
+  try {
+    const device = await authenticateChildDevice(request);
+    if (!device) {
+      return NextResponse.json(
+        { error: "Unauthorized device" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { playlistItemId } = body;
+    const childId = body.childId || device.childId;
+
+    if (!playlistItemId) {
+      return NextResponse.json(
+        { error: "Playlist item ID is required" },
+        { status: 400 }
+      );
+    }
+
+    if (childId !== device.childId) {
+      return NextResponse.json(
+        { error: "Device is not paired with this child" },
+        { status: 403 }
+      );
+    }
+
+    // Only items from playlists assigned to this child count
+    const item = await db.playlistItem.findFirst({
+      where: {
+        id: playlistItemId,
+        playlist: {
+          assignments: { some: { childId } },
+        },
+      },
+    });
+
+    if (!item) {
+      return NextResponse.json(
+        { error: "Playlist item not found" },
+        { status: 404 }
+      );
+    }
+
+    await db.playlistItemProgress.upsert({
+      where: {
+        childId_playlistItemId: { childId, playlistItemId },
+      },
+      create: { childId, playlistItemId },
+      update: {},
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: "Playlist item marked as completed",
+    });
+  } catch (error) {
+    console.error("Error updating playlist progress:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { authenticateChildDevice } from "@/lib/device-auth";
+import { getPlaylistsForChild } from "@/lib/playlists";
+import { getScreenTimeStatus } from "@/lib/screen-time";
+import { getViewingWindowStatus } from "@/lib/viewing-windows";
+import { getLocalDateString } from "@/lib/timezone";
+
+export async function GET(request: NextRequest) {
+  try {
+    const device = await authenticateChildDevice(request);
+    if (!device) {
+      return NextResponse.json(
+        { error: "Unauthorized device" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const childId = searchParams.get('childId') || device.childId;
+
+    if (childId !== device.childId) {
+      return NextResponse.json(
+        { error: "Device is not paired with this child" },
+        { status: 403 }
+      );
+    }
+
+    const child = await db.child.findUnique({
+      where: { id: childId },
+    });
+
+    if (!child) {
+      return NextResponse.json(
+        { error: "Child not found" },
+        { status: 404 }
+      );
+    }
+
+    // Playlists are locked by the same viewing hours and screen-time budget as the daily feed
+    const viewingWindow = getViewingWindowStatus(child);
+    if (!viewingWindow.isOpen) {
+      return NextResponse.json({
+        playlists: [],
+        locked: true,
+        viewingWindow,
+      });
+    }
+
+    const screenTime = await getScreenTimeStatus(child, getLocalDateString(new Date(), child.timezone));
+    if (screenTime.isTimeUp) {
+      return NextResponse.json({
+        playlists: [],
+        screenTime,
+        viewingWindow,
+      });
+    }
+
+    const playlists = await getPlaylistsForChild(childId);
+
+    return NextResponse.json({ playlists, screenTime, viewingWindow });
+  } catch (error) {
+    console.error("Error fetching kids playlists:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,95 +1,106 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
+import { authenticateChildDevice } from "@/lib/device-auth";
+import { getScreenTimeStatus } from "@/lib/screen-time";
+import { getViewingWindowStatus } from "@/lib/viewing-windows";
+import { expandScheduleRules } from "@/lib/recurrence";
+import { carryOverVideos } from "@/lib/carryover";
+import { getLocalDateString, isValidDateString, parseDateOnly } from "@/lib/timezone";
+import { getPlaybackPositions } from "@/lib/playback-positions";
 
-// Function to handle carrying over unwatched videos from previous days
-async function handleVideoCarryover(childId: string, currentDate: string) {
-  const today = new Date(currentDate);
-
-  console.log(`🔄 Checking carryover for child ${childId} on ${currentDate}`);
-
-  // Find unwatched scheduled videos from previous days
-  const unwatchedVideos = await db.scheduledVideo.findMany({
-    where: {
-      childId,
-      scheduledDate: {
-        lt: today,
-      },
-      isActive: true,
-      isWatched: false,
-    },
-    include: {
-      approvedVideo: {
-        select: {
-          title: true,
-        },
-      },
-    },
-  });
-
-  console.log(`📋 Found ${unwatchedVideos.length} unwatched videos from previous days for child ${childId}`);
-
-  let carriedOverCount = 0;
-
-  // Carry over each unwatched video to today
-  for (const video of unwatchedVideos) {
-    // Check if this video is already scheduled for today
-    const existingToday = await db.scheduledVideo.findFirst({
-      where: {
-        childId,
-        approvedVideoId: video.approvedVideoId,
-        scheduledDate: today,
-      },
-    });
+export async function GET(request: NextRequest) {
+  try {
+    const device = await authenticateChildDevice(request);
+    if (!device) {
+      return NextResponse.json(
+        { error: "Unauthorized device" },
+        { status: 401 }
+      );
+    }
 
-    if (!existingToday) {
-      // Create a new entry for today with carryover flag
-      await db.scheduledVideo.create({
-        data: {
-          childId: video.childId,
-          approvedVideoId: video.approvedVideoId,
-          scheduledDate: today,
-          originalDate: video.originalDate,
-          carriedOver: true,
-        },
-      });
+    const { searchParams } = new URL(request.url);
+    const childId = searchParams.get('childId') || device.childId;
+    const date = searchParams.get('date');
 
-      console.log(`↪ Carried over "${video.approvedVideo.title}" to ${currentDate}`);
-      carriedOverCount++;
+    if (childId !== device.childId) {
+      return NextResponse.json(
+        { error: "Device is not paired with this child" },
+        { status: 403 }
+      );
     }
 
-    // Mark the old entry as inactive
-    await db.scheduledVideo.update({
-      where: { id: video.id },
-      data: { isActive: false },
+    const child = await db.child.findUnique({
+      where: { id: childId },
     });
-  }
 
-  console.log(`✅ Carryover complete for child ${childId}: ${carriedOverCount} videos carried over to ${currentDate}`);
-}
+    if (!child) {
+      return NextResponse.json(
+        { error: "Child not found" },
+        { status: 404 }
+      );
+    }
 
-export async function GET(request: NextRequest) {
-  try {
-    const { searchParams } = new URL(request.url);
-    const childId = searchParams.get('childId');
-    const currentDate = searchParams.get('date') || new Date().toISOString().split('T')[0];
+    if (date && !isValidDateString(date)) {
+      return NextResponse.json(
+        { error: "Invalid date, expected YYYY-MM-DD" },
+        { status: 400 }
+      );
+    }
 
-    if (!childId) {
+    // The app may look back at an earlier day's list, but never ahead: a future date would pull
+    // schedules and carryover forward early. Limits always apply to the child's real local today.
+    const today = getLocalDateString(new Date(), child.timezone);
+    if (date && date > today) {
       return NextResponse.json(
-        { error: "Child ID is required" },
+        { error: "Date cannot be in the future" },
         { status: 400 }
       );
     }
+    const currentDate = date || today;
+
+    // Outside the allowed viewing hours the feed is locked
+    const viewingWindow = getViewingWindowStatus(child);
+    if (!viewingWindow.isOpen) {
+      console.log(`🔒 Viewing window closed for child ${childId}, next opens at ${viewingWindow.nextOpensAt}`);
+
+      return NextResponse.json({
+        videos: [],
+        total: 0,
+        currentDate,
+        locked: true,
+        viewingWindow,
+      });
+    }
 
     console.log(`🎬 Fetching scheduled videos for child ${childId} on ${currentDate}`);
 
-    // First, handle carryover logic - move unwatched videos from previous days to today
-    await handleVideoCarryover(childId, currentDate);
+    if (currentDate === today) {
+      // Materialize today's occurrences of any recurring schedules
+      await expandScheduleRules(childId, currentDate);
+
+      // Then bring unwatched videos from previous days forward under the child's carryover policy
+      await carryOverVideos(child, currentDate);
+    }
+
+    // Stop serving videos once today's screen-time budget is spent
+    const screenTime = await getScreenTimeStatus(child, today);
+    if (screenTime.isTimeUp) {
+      console.log(`⏰ Daily screen time used up for child ${childId} on ${today}`);
+
+      return NextResponse.json({
+        videos: [],
+        total: 0,
+        currentDate,
+        screenTime,
+        viewingWindow,
+      });
+    }
 
     // Get all active scheduled videos for today (including carried over ones)
     const scheduledVideos = await db.scheduledVideo.findMany({
       where: {
         childId,
-        scheduledDate: new Date(currentDate),
+        scheduledDate: parseDateOnly(currentDate),
         isActive: true,
         isWatched: false, // Only show unwatched videos
       },
@@ -104,6 +115,8 @@ export async function GET(request: NextRequest) {
             channelName: true,
             duration: true,
             summary: true,
+            source: true,
+            mediaUrl: true,
           },
         },
       },
@@ -113,6 +126,9 @@ export async function GET(request: NextRequest) {
       ],
     });
 
+    // Partly watched videos carry where they left off, for resuming and the "continue watching" row
+    const positions = await getPlaybackPositions(childId, scheduledVideos.map(schedule => schedule.approvedVideo.youtubeId));
+
     // Transform for mobile app
     const videosForKids = scheduledVideos.map(schedule => ({
       id: schedule.approvedVideo.youtubeId,
@@ -129,6 +145,12 @@ export async function GET(request: NextRequest) {
       isScheduled: true,
       carriedOver: schedule.carriedOver,
       scheduledVideoId: schedule.id, // Include the scheduled video ID for tracking
+      approvedVideoId: schedule.approvedVideo.id,
+      source: schedule.approvedVideo.source,
+      mediaUrl: schedule.approvedVideo.mediaUrl,
+      resumePosition: positions.get(schedule.approvedVideo.youtubeId)?.position ?? 0,
+      progress: positions.get(schedule.approvedVideo.youtubeId)?.progress ?? null,
+      lastWatchedAt: positions.get(schedule.approvedVideo.youtubeId)?.updatedAt ?? null,
     }));
 
     console.log(`✅ Found ${videosForKids.length} scheduled videos for child ${childId}`);
@@ -137,6 +159,8 @@ export async function GET(request: NextRequest) {
       videos: videosForKids,
       total: videosForKids.length,
       currentDate,
+      screenTime,
+      viewingWindow,
     });
   } catch (error) {
     console.error("Error fetching scheduled videos for kids:", error);
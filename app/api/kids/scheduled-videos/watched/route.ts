@@ -1,25 +1,62 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
+import { authenticateChildDevice } from "@/lib/device-auth";
+import { getViewingWindowStatus } from "@/lib/viewing-windows";
 
 export async function POST(request: NextRequest) {
   try {
+    const device = await authenticateChildDevice(request);
+    if (!device) {
+      return NextResponse.json(
+        { error: "Unauthorized device" },
+        { status: 401 }
+      );
+    }
+
     const body = await request.json();
-    const { scheduledVideoId, childId } = body;
+    const { scheduledVideoId } = body;
+    const childId = body.childId || device.childId;
 
-    if (!scheduledVideoId || !childId) {
+    if (!scheduledVideoId) {
       return NextResponse.json(
-        { error: "Scheduled video ID and child ID are required" },
+        { error: "Scheduled video ID is required" },
         { status: 400 }
       );
     }
 
+    if (childId !== device.childId) {
+      return NextResponse.json(
+        { error: "Device is not paired with this child" },
+        { status: 403 }
+      );
+    }
+
+    const child = await db.child.findUnique({
+      where: { id: childId },
+    });
+
+    if (!child) {
+      return NextResponse.json(
+        { error: "Child not found" },
+        { status: 404 }
+      );
+    }
+
+    const viewingWindow = getViewingWindowStatus(child);
+    if (!viewingWindow.isOpen) {
+      return NextResponse.json(
+        { error: "Outside allowed viewing hours", viewingWindow },
+        { status: 403 }
+      );
+    }
+
     console.log(`📺 Marking scheduled video ${scheduledVideoId} as watched for child ${childId}`);
 
-    // Update the scheduled video as watched
-    const updatedScheduledVideo = await db.scheduledVideo.update({
+    // Scoped to the child, so an unknown ID or another child's video is a 404 rather than an error
+    const updated = await db.scheduledVideo.updateMany({
       where: {
         id: scheduledVideoId,
-        childId: childId, // Ensure the child owns this scheduled video
+        childId: childId,
       },
       data: {
         isWatched: true,
@@ -27,7 +64,14 @@ export async function POST(request: NextRequest) {
       },
     });
 
-    console.log(`✅ Scheduled video marked as watched:`, updatedScheduledVideo.id);
+    if (updated.count === 0) {
+      return NextResponse.json(
+        { error: "Scheduled video not found" },
+        { status: 404 }
+      );
+    }
+
+    console.log(`✅ Scheduled video marked as watched:`, scheduledVideoId);
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { authenticateChildDevice } from "@/lib/device-auth";
+import { getScreenTimeStatus } from "@/lib/screen-time";
+import { getLocalDateString } from "@/lib/timezone";
+
+// Polled by the kids player so the "time's up" decision is made server-side
+export async function GET(request: NextRequest) {
+  try {
+    const device = await authenticateChildDevice(request);
+    if (!device) {
+      return NextResponse.json(
+        { error: "Unauthorized device" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const childId = searchParams.get('childId') || device.childId;
+
+    if (childId !== device.childId) {
+      return NextResponse.json(
+        { error: "Device is not paired with this child" },
+        { status: 403 }
+      );
+    }
+
+    const child = await db.child.findUnique({
+      where: { id: childId },
+    });
+
+    if (!child) {
+      return NextResponse.json(
+        { error: "Child not found" },
+        { status: 404 }
+      );
+    }
+
+    // Always the child's real local day; letting the device pick one would let it dodge the limit
+    const today = getLocalDateString(new Date(), child.timezone);
+    const screenTime = await getScreenTimeStatus(child, today);
+
+    return NextResponse.json({ screenTime });
+  } catch (error) {
+    console.error("Error fetching screen time status:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { db } from '@/lib/db';
+import { DailyStats, loadDailyStats } from '@/lib/activity-rollups';
+import { addDays, getLocalDateString, getLocalDayRange } from '@/lib/timezone';
 
 export async function GET(request: NextRequest) {
   try {
@@ -12,9 +14,7 @@ export async function GET(request: NextRequest) {
 
     const { searchParams } = new URL(request.url);
     const childId = searchParams.get('childId');
-    const days = parseInt(searchParams.get('days') || '7'); // Default to 7 days
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - days);
+    const days = Math.max(parseInt(searchParams.get('days') || '7') || 7, 1); // Default to 7 days
 
     // Verify the child belongs to the authenticated user (if childId provided)
     let children = [];
@@ -45,34 +45,31 @@ export async function GET(request: NextRequest) {
 
     const childIds = children.map(c => c.id);
 
-    // Get activity overview
-    const totalActivities = await db.videoActivity.count({
-      where: {
-        childId: { in: childIds },
-        createdAt: { gte: startDate }
-      }
-    });
-
-    const totalSessions = await db.appSession.count({
-      where: {
-        childId: { in: childIds },
-        startTime: { gte: startDate }
-      }
-    });
-
-    // Get watch time statistics
-    const watchTimeStats = await db.videoActivity.aggregate({
-      where: {
-        childId: { in: childIds },
-        createdAt: { gte: startDate }
-      },
-      _sum: {
-        watchTimeSeconds: true
-      },
-      _avg: {
-        completionRate: true
-      }
-    });
+    // The window covers the last `days` calendar days in each child's timezone (today included).
+    // Aggregate queries start from the earliest of those local midnights.
+    const now = new Date();
+    const startDate = children.reduce((earliest, child) => {
+      const firstDay = addDays(getLocalDateString(now, child.timezone), -(days - 1));
+      const { start } = getLocalDayRange(firstDay, child.timezone);
+      return start < earliest ? start : earliest;
+    }, now);
+
+    // Daily totals per child; long ranges come from the ChildActivity rollups
+    const dailyStats = await loadDailyStats(children, days);
+    const sum = (pick: (day: DailyStats) => number) =>
+      dailyStats.reduce((total, day) => total + pick(day), 0);
+
+    const totalActivities = sum(day => day.activities);
+    const totalSessions = sum(day => day.sessions);
+    const totalWatchTimeSeconds = sum(day => day.watchTime);
+    const totalSessionTimeSeconds = sum(day => day.sessionTime);
+
+    // Average of the daily completion rates, weighted by plays
+    const ratedDays = dailyStats.filter(day => day.completionRate !== null);
+    const ratedWeight = ratedDays.reduce((total, day) => total + Math.max(day.plays, 1), 0);
+    const averageCompletionRate = ratedWeight > 0
+      ? ratedDays.reduce((total, day) => total + day.completionRate! * Math.max(day.plays, 1), 0) / ratedWeight
+      : 0;
 
     // Get unique videos watched
     const uniqueVideosWatched = await db.videoActivity.groupBy({
@@ -106,19 +103,18 @@ export async function GET(request: NextRequest) {
       take: 10
     });
 
-    // Get daily activity breakdown
-    const dailyActivity = await db.$queryRaw`
-      SELECT 
-        DATE(created_at) as date,
-        COUNT(*) as activities_count,
-        SUM(watch_time_seconds) as total_watch_time,
-        COUNT(DISTINCT youtube_id) as unique_videos
-      FROM video_activities 
-      WHERE child_id = ANY(${childIds}) 
-        AND created_at >= ${startDate}
-      GROUP BY DATE(created_at)
-      ORDER BY date DESC
-    `;
+    // Get daily activity breakdown, bucketed by each child's local calendar day
+    const dailyByDate = new Map<string, { date: string; activities_count: number; total_watch_time: number; unique_videos: number }>();
+    for (const day of dailyStats) {
+      if (day.activities === 0) continue;
+
+      const entry = dailyByDate.get(day.date) || { date: day.date, activities_count: 0, total_watch_time: 0, unique_videos: 0 };
+      entry.activities_count += day.activities;
+      entry.total_watch_time += day.watchTime;
+      entry.unique_videos += day.uniqueVideos;
+      dailyByDate.set(day.date, entry);
+    }
+    const dailyActivity = Array.from(dailyByDate.values()).sort((a, b) => b.date.localeCompare(a.date));
 
     // Get top channels
     const topChannels = await db.videoActivity.groupBy({
@@ -175,11 +171,11 @@ export async function GET(request: NextRequest) {
       overview: {
         totalActivities,
         totalSessions,
-        totalWatchTimeSeconds: watchTimeStats._sum.watchTimeSeconds || 0,
-        averageCompletionRate: Math.round((watchTimeStats._avg.completionRate || 0) * 100) / 100,
+        totalWatchTimeSeconds,
+        averageCompletionRate: Math.round(averageCompletionRate * 100) / 100,
         uniqueVideosWatched: uniqueVideosWatched.length,
-        totalSessionTimeSeconds: sessionStats._sum.duration || 0,
-        averageSessionTimeSeconds: Math.round(sessionStats._avg.duration || 0)
+        totalSessionTimeSeconds,
+        averageSessionTimeSeconds: totalSessions > 0 ? Math.round(totalSessionTimeSeconds / totalSessions) : 0
       },
       mostWatchedVideos: mostWatchedVideos.map(video => ({
         youtubeId: video.youtubeId,
@@ -205,7 +201,7 @@ export async function GET(request: NextRequest) {
       })),
       dateRange: {
         startDate: startDate.toISOString(),
-        endDate: new Date().toISOString(),
+        endDate: now.toISOString(),
         days
       }
     });
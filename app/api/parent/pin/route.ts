@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth, clerkClient } from "@clerk/nextjs/server";
+import { db } from "@/lib/db";
+import { canResetPin, checkParentPin, isPinLocked, setParentPin, validatePin } from "@/lib/parent-pin";
+
+// A freshly signed-in parent may replace a PIN they've forgotten
+async function signedInRecently(sessionId: string | null): Promise<boolean> {
+  if (!sessionId) return false;
+
+  try {
+    const session = await (await clerkClient()).sessions.getSession(sessionId);
+    return canResetPin(session.createdAt);
+  } catch (error) {
+    console.error("Error reading session:", error);
+    return false;
+  }
+}
+
+// Whether the parent has a PIN yet, and whether it's locked after too many wrong guesses
+export async function GET() {
+  try {
+    const { userId, sessionId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const parent = await db.parent.findUnique({
+      where: { clerkId: userId },
+      select: { pinHash: true, pinLockedUntil: true },
+    });
+
+    if (!parent) {
+      return NextResponse.json(
+        { error: "Parent not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      hasPin: parent.pinHash !== null,
+      lockedUntil: isPinLocked(parent.pinLockedUntil) ? parent.pinLockedUntil.toISOString() : null,
+      canReset: await signedInRecently(sessionId),
+    });
+  } catch (error) {
+    console.error("Error fetching parent PIN status:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Check a PIN entered on the device
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { pin } = await request.json();
+    if (typeof pin !== "string") {
+      return NextResponse.json(
+        { error: "PIN is required" },
+        { status: 400 }
+      );
+    }
+
+    const parent = await db.parent.findUnique({ where: { clerkId: userId } });
+    if (!parent) {
+      return NextResponse.json(
+        { error: "Parent not found" },
+        { status: 404 }
+      );
+    }
+
+    const result = await checkParentPin(parent.id, pin);
+
+    return NextResponse.json(
+      result.status === "locked"
+        ? { status: result.status, lockedUntil: result.lockedUntil.toISOString() }
+        : result
+    );
+  } catch (error) {
+    console.error("Error checking parent PIN:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Set the PIN the first time, change it (with the current PIN), or replace a forgotten one right
+// after signing in again
+export async function PUT(request: NextRequest) {
+  try {
+    const { userId, sessionId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { pin, currentPin } = await request.json();
+
+    const validationError = validatePin(pin);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const parent = await db.parent.findUnique({ where: { clerkId: userId } });
+    if (!parent) {
+      return NextResponse.json(
+        { error: "Parent not found" },
+        { status: 404 }
+      );
+    }
+
+    if (parent.pinHash && !(await signedInRecently(sessionId))) {
+      const check = typeof currentPin === "string" ? await checkParentPin(parent.id, currentPin) : null;
+
+      if (check?.status === "locked") {
+        return NextResponse.json(
+          { error: "Too many wrong PINs; try again later or sign in again to reset it" },
+          { status: 423 }
+        );
+      }
+      if (check?.status !== "ok") {
+        return NextResponse.json(
+          { error: "Current PIN is incorrect" },
+          { status: 403 }
+        );
+      }
+    }
+
+    await setParentPin(parent.id, pin);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error setting parent PIN:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/lib/db";
+import { playlistInclude, savePlaylist, validatePlaylistInput } from "@/lib/playlists";
+
+async function getParentPlaylist(userId: string, playlistId: string) {
+  const parent = await db.parent.findUnique({
+    where: { clerkId: userId },
+  });
+
+  if (!parent) return null;
+
+  const playlist = await db.playlist.findFirst({
+    where: {
+      id: playlistId,
+      parentId: parent.id,
+    },
+    include: playlistInclude,
+  });
+
+  return playlist ? { parent, playlist } : null;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const result = await getParentPlaylist(userId, id);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: "Playlist not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ playlist: result.playlist });
+  } catch (error) {
+    console.error("Error fetching playlist:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const result = await getParentPlaylist(userId, id);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: "Playlist not found" },
+        { status: 404 }
+      );
+    }
+
+    // Fields left out of the body keep their current values
+    const body = await request.json();
+    const input = {
+      title: body.title ?? result.playlist.title,
+      description: body.description !== undefined ? body.description : result.playlist.description,
+      approvedVideoIds: body.approvedVideoIds ?? result.playlist.items.map(item => item.approvedVideoId),
+      childIds: body.childIds ?? result.playlist.assignments.map(assignment => assignment.childId),
+    };
+
+    const validationError = await validatePlaylistInput(result.parent.id, input);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const playlist = await savePlaylist(result.parent.id, input, id);
+
+    return NextResponse.json({
+      success: true,
+      playlist,
+    });
+  } catch (error) {
+    console.error("Error updating playlist:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const result = await getParentPlaylist(userId, id);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: "Playlist not found" },
+        { status: 404 }
+      );
+    }
+
+    await db.playlist.delete({
+      where: { id },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: "Playlist deleted successfully",
+    });
+  } catch (error) {
+    console.error("Error deleting playlist:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
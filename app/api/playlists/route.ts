@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/lib/db";
+import { playlistInclude, savePlaylist, validatePlaylistInput } from "@/lib/playlists";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const childId = searchParams.get('childId');
+
+    const parent = await db.parent.findUnique({
+      where: { clerkId: userId },
+    });
+
+    if (!parent) {
+      return NextResponse.json(
+        { error: "Parent not found" },
+        { status: 404 }
+      );
+    }
+
+    const playlists = await db.playlist.findMany({
+      where: {
+        parentId: parent.id,
+        ...(childId && { assignments: { some: { childId } } }),
+      },
+      include: playlistInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({ playlists });
+  } catch (error) {
+    console.error("Error fetching playlists:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const input = {
+      title: body.title,
+      description: body.description,
+      approvedVideoIds: body.approvedVideoIds || [],
+      childIds: body.childIds || [],
+    };
+
+    const parent = await db.parent.findUnique({
+      where: { clerkId: userId },
+    });
+
+    if (!parent) {
+      return NextResponse.json(
+        { error: "Parent not found" },
+        { status: 404 }
+      );
+    }
+
+    const validationError = await validatePlaylistInput(parent.id, input);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const playlist = await savePlaylist(parent.id, input);
+
+    return NextResponse.json({
+      success: true,
+      playlist,
+    });
+  } catch (error) {
+    console.error("Error creating playlist:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -5,7 +5,10 @@ import { calculateAge } from '@/lib/utils';
 import { getRecommendationsForChild, searchVideosAdvanced, SearchFilters } from '@/lib/youtube';
 import { recommendationsThrottle } from '@/lib/throttle';
 import { serverDeduplicator } from '@/lib/requestDeduplication';
-import { getSearchTermsForCategory } from '@/lib/growth-categories';
+import { getCategoriesForAge, getSearchTermsForCategory } from '@/lib/growth-categories';
+import { getChannelRulesForChild } from '@/lib/channel-rules';
+import { ContentFilter } from '@/lib/content-filters';
+import { getWatchProfile, PROFILE_WINDOW_DAYS, rankRecommendations } from '@/lib/recommendation-ranking';
 
 // Helper functions
 function getCategoryKeywords(category: string): string {
@@ -113,6 +116,15 @@ export async function GET(request: NextRequest) {
       });
     }
 
+    // Family and per-child channel rules: blocked channels are dropped, trusted ones ranked first
+    const channelRules = await getChannelRulesForChild(parent.id, child.id);
+
+    // The child's banned words and topics; matches come back in `filtered` with the reason
+    const contentFilter: ContentFilter = {
+      keywords: child.blockedKeywords,
+      overrides: new Set(child.contentFilterOverrides),
+    };
+
     // Build search filters
     const filters: SearchFilters = {};
     if (category && category !== 'all') filters.category = category as any;
@@ -133,6 +145,8 @@ export async function GET(request: NextRequest) {
       result = await searchVideosAdvanced(searchQuery, {
         maxResults,
         pageToken: pageToken || undefined,
+        channelRules,
+        contentFilter,
         filters: searchFilters
       });
     } else if (category && category !== 'all') {
@@ -158,48 +172,73 @@ export async function GET(request: NextRequest) {
       result = await searchVideosAdvanced(categoryQuery, {
         maxResults,
         pageToken: pageToken || undefined,
+        channelRules,
+        contentFilter,
         filters
       });
     } else {
       // Get recommendations based on child's interests
       console.log('🎬 Fetching YouTube recommendations based on interests...');
-      const videos = await getRecommendationsForChild(child.interests, childAge, {
+      result = await getRecommendationsForChild(child.interests, childAge, {
         maxResults,
         pageToken: pageToken || undefined,
-        filters
+        channelRules,
+        contentFilter,
+        filters,
+        // The parent's mix rules for this child: per-channel cap, interest and skill area coverage
+        diversity: {
+          settings: child,
+          interests: child.interests,
+          skillAreas: getCategoriesForAge(child.birthday),
+        },
       });
-      
-      result = {
-        videos,
-        nextPageToken: undefined,
-        totalResults: videos.length
-      };
     }
     
-    console.log('📊 Videos retrieved:', result.videos.length);
+    console.log('📊 Videos retrieved:', result.videos.length, 'hidden by content filters:', result.filtered.length);
+
+    // Hidden videos are sent along with why, so the parent can review them and show them anyway
+    const filtered = result.filtered.map(({ video, reason }) => ({
+      ...video,
+      summary: '',
+      filterReason: reason,
+    }));
     
     if (result.videos.length === 0) {
       console.log('⚠️ No videos found');
       return NextResponse.json({ 
         recommendations: [],
+        filtered,
         nextPageToken: result.nextPageToken,
         totalResults: Math.min(result.totalResults || 0, 1000),
-        message: searchQuery 
+        message: filtered.length > 0
+          ? 'Every video found was hidden by this child\'s content filters.'
+          : searchQuery 
           ? 'No videos found for your search. Try different keywords or filters.'
           : 'No recommendations found. Try updating the child\'s interests or check your YouTube API configuration.' 
       });
     }
 
+    // Re-ordered within the page by the child's watch history, unless the parent picked a sort
+    const watchProfile = await getWatchProfile(child.id, child.birthday);
+    const ranked = rankRecommendations(result.videos, watchProfile, child, {
+      channelRules,
+      reorder: !sortBy || sortBy === 'relevance',
+      defaultReason: searchQuery ? 'Matches your search' : undefined,
+    });
+    console.log('🎯 Ranked with', watchProfile.videosWatched, 'watched videos from the last', PROFILE_WINDOW_DAYS, 'days');
+
     // Return videos without summaries for faster loading
-    const recommendations = result.videos.map((video) => ({
+    const recommendations = ranked.map((video) => ({
       ...video,
       summary: '', // Empty summary - will be generated on demand
+      trustedChannel: channelRules.allowed.has(video.channelId),
     }));
 
     console.log('✅ Recommendations prepared:', recommendations.length);
 
         return NextResponse.json({ 
           recommendations,
+          filtered,
           nextPageToken: result.nextPageToken,
           totalResults: Math.min(result.totalResults || 0, 1000)
         });
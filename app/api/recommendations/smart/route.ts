@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getCurrentParent } from '@/lib/actions';
+import { recommendationsThrottle } from '@/lib/throttle';
+import { getChannelRulesForChild } from '@/lib/channel-rules';
+import { MAX_SMART_SEARCH_LENGTH, runSmartSearch } from '@/lib/smart-search';
+
+// Natural-language search: the parent describes what they want and gets one ranked page back,
+// along with the searches it was turned into
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { childId, query, maxResults } = await request.json();
+    const text = typeof query === 'string' ? query.trim() : '';
+
+    if (!childId || !text) {
+      return NextResponse.json({
+        error: 'Child ID and search text are required'
+      }, { status: 400 });
+    }
+
+    if (text.length > MAX_SMART_SEARCH_LENGTH) {
+      return NextResponse.json({
+        error: `Searches must be ${MAX_SMART_SEARCH_LENGTH} characters or fewer`
+      }, { status: 400 });
+    }
+
+    // Shares the recommendations budget, since each smart search makes several YouTube searches
+    const throttleKey = `${userId}-${childId}`;
+    if (!recommendationsThrottle.isAllowed(throttleKey)) {
+      const retryAfter = Math.ceil(recommendationsThrottle.getTimeUntilReset(throttleKey) / 1000);
+      return NextResponse.json({
+        error: 'Too many requests. Please wait before trying again.',
+        retryAfter,
+      }, {
+        status: 429,
+        headers: { 'Retry-After': retryAfter.toString() }
+      });
+    }
+
+    const parent = await getCurrentParent();
+    if (!parent) {
+      return NextResponse.json({ error: 'Parent not found' }, { status: 404 });
+    }
+
+    const child = parent.children.find(c => c.id === childId);
+    if (!child) {
+      return NextResponse.json({ error: 'Child not found' }, { status: 404 });
+    }
+
+    console.log('🧠 Smart search for', child.name, ':', text);
+
+    const channelRules = await getChannelRulesForChild(parent.id, child.id);
+
+    const result = await runSmartSearch(text, child, {
+      maxResults: Math.min(parseInt(maxResults) || 30, 50),
+      channelRules,
+      contentFilter: {
+        keywords: child.blockedKeywords,
+        overrides: new Set(child.contentFilterOverrides),
+      },
+      parentId: parent.id,
+    });
+
+    const recommendations = result.videos.map(video => ({
+      ...video,
+      summary: '',
+      trustedChannel: channelRules.allowed.has(video.channelId),
+    }));
+
+    const filtered = result.filtered.map(({ video, reason }) => ({
+      ...video,
+      summary: '',
+      filterReason: reason,
+    }));
+
+    console.log('✅ Smart search found', recommendations.length, 'videos, hidden:', filtered.length);
+
+    return NextResponse.json({
+      recommendations,
+      filtered,
+      plan: result.plan,
+      totalResults: recommendations.length,
+      ...(recommendations.length === 0 && {
+        message: filtered.length > 0
+          ? 'Every video found was hidden by this child\'s content filters.'
+          : 'No videos matched. Try describing it differently.',
+      }),
+    });
+  } catch (error) {
+    console.error('❌ Smart search error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to run smart search',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,95 +1,50 @@
 import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
 import { db } from "@/lib/db";
+import { isAdminUser } from "@/lib/admin";
+import { runEndOfDayCarryover } from "@/lib/carryover";
+import { formatDateOnly, getLocalDateString, isValidDateString, parseDateOnly } from "@/lib/timezone";
 
-// This endpoint can be called by a cron job or similar to handle end-of-day carryover
+// End-of-day carryover. The job runner (lib/jobs.ts) runs this hourly; admins can also trigger it
+// for a specific date. Each child's carryover policy decides whether videos move, wait or expire.
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { date } = body; // Date to process carryover for (format: YYYY-MM-DD)
-    
-    if (!date) {
+    const { userId } = await auth();
+
+    if (!userId) {
       return NextResponse.json(
-        { error: "Date is required" },
-        { status: 400 }
+        { error: "Unauthorized" },
+        { status: 401 }
       );
     }
 
-    const processDate = new Date(date);
-    const nextDay = new Date(processDate);
-    nextDay.setDate(nextDay.getDate() + 1);
-
-    console.log(`🔄 Processing end-of-day carryover for ${date} to ${nextDay.toISOString().split('T')[0]}`);
-
-    // Find all unwatched scheduled videos for the specified date
-    const unwatchedVideos = await db.scheduledVideo.findMany({
-      where: {
-        scheduledDate: processDate,
-        isActive: true,
-        isWatched: false,
-      },
-      include: {
-        child: {
-          select: {
-            id: true,
-            name: true,
-          },
-        },
-        approvedVideo: {
-          select: {
-            id: true,
-            title: true,
-          },
-        },
-      },
-    });
-
-    console.log(`📋 Found ${unwatchedVideos.length} unwatched videos to carry over`);
-
-    let carriedOverCount = 0;
-
-    // Process each unwatched video
-    for (const video of unwatchedVideos) {
-      // Check if this video is already scheduled for the next day
-      const existingNextDay = await db.scheduledVideo.findFirst({
-        where: {
-          childId: video.childId,
-          approvedVideoId: video.approvedVideoId,
-          scheduledDate: nextDay,
-        },
-      });
-
-      if (!existingNextDay) {
-        // Create a new entry for the next day with carryover flag
-        await db.scheduledVideo.create({
-          data: {
-            childId: video.childId,
-            approvedVideoId: video.approvedVideoId,
-            scheduledDate: nextDay,
-            originalDate: video.originalDate,
-            carriedOver: true,
-          },
-        });
+    if (!(await isAdminUser(userId))) {
+      return NextResponse.json(
+        { error: "Admin access required" },
+        { status: 403 }
+      );
+    }
 
-        console.log(`↪ Carried over "${video.approvedVideo.title}" for ${video.child.name} to ${nextDay.toISOString().split('T')[0]}`);
-        carriedOverCount++;
-      }
+    const body = await request.json().catch(() => ({}));
+    const { date } = body; // Date to process carryover for (format: YYYY-MM-DD), defaults to each child's yesterday
 
-      // Mark the current day's entry as inactive (but keep it for history)
-      await db.scheduledVideo.update({
-        where: { id: video.id },
-        data: { isActive: false },
-      });
+    if (date && !isValidDateString(date)) {
+      return NextResponse.json(
+        { error: "Invalid date, expected YYYY-MM-DD" },
+        { status: 400 }
+      );
     }
 
-    console.log(`✅ Carryover complete: ${carriedOverCount} videos carried over to ${nextDay.toISOString().split('T')[0]}`);
+    const summary = await runEndOfDayCarryover(date);
+    const processed = summary.processedDates.join(', ') || 'no finished days';
+
+    console.log(`✅ End-of-day carryover complete for ${processed}`);
 
     return NextResponse.json({
       success: true,
-      date: date,
-      nextDate: nextDay.toISOString().split('T')[0],
-      unwatchedVideosFound: unwatchedVideos.length,
-      videosCarriedOver: carriedOverCount,
-      message: `Successfully processed carryover for ${date}`,
+      date: date || null,
+      ...summary,
+      message: `Successfully processed carryover for ${processed}`,
     });
   } catch (error) {
     console.error("Error processing carryover:", error);
@@ -103,15 +58,38 @@ export async function POST(request: NextRequest) {
 // GET endpoint to check what would be carried over (for testing)
 export async function GET(request: NextRequest) {
   try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isAdminUser(userId))) {
+      return NextResponse.json(
+        { error: "Admin access required" },
+        { status: 403 }
+      );
+    }
+
     const { searchParams } = new URL(request.url);
-    const date = searchParams.get('date') || new Date().toISOString().split('T')[0];
-    
-    const processDate = new Date(date);
+    const date = searchParams.get('date'); // Defaults to each child's local today
+
+    if (date && !isValidDateString(date)) {
+      return NextResponse.json(
+        { error: "Invalid date, expected YYYY-MM-DD" },
+        { status: 400 }
+      );
+    }
+
+    const now = new Date();
 
     // Find all unwatched scheduled videos for the specified date
-    const unwatchedVideos = await db.scheduledVideo.findMany({
+    const candidates = await db.scheduledVideo.findMany({
       where: {
-        scheduledDate: processDate,
+        ...(date && { scheduledDate: parseDateOnly(date) }),
         isActive: true,
         isWatched: false,
       },
@@ -120,6 +98,7 @@ export async function GET(request: NextRequest) {
           select: {
             id: true,
             name: true,
+            timezone: true,
           },
         },
         approvedVideo: {
@@ -131,13 +110,20 @@ export async function GET(request: NextRequest) {
       },
     });
 
+    const unwatchedVideos = date
+      ? candidates
+      : candidates.filter(video =>
+          formatDateOnly(video.scheduledDate) === getLocalDateString(now, video.child.timezone)
+        );
+
     return NextResponse.json({
       date: date,
       unwatchedVideos: unwatchedVideos.map(video => ({
         childName: video.child.name,
         videoTitle: video.approvedVideo.title,
-        originalDate: video.originalDate.toISOString().split('T')[0],
+        originalDate: formatDateOnly(video.originalDate),
         carriedOver: video.carriedOver,
+        carryoverReason: video.carryoverReason,
       })),
       count: unwatchedVideos.length,
     });
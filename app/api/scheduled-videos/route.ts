@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { db } from "@/lib/db";
+import { describeRecurrence, toRuleData, validateRecurrence } from "@/lib/recurrence";
+import { formatDateOnly, isValidDateString, parseDateOnly } from "@/lib/timezone";
 
 export async function GET(request: NextRequest) {
   try {
@@ -61,13 +63,16 @@ export async function GET(request: NextRequest) {
       console.log('📅 Filtering scheduled videos for child:', child.name);
     }
 
-    // Filter by date if provided
+    // Filter by date if provided. Dates are the family's calendar day, independent of server time.
     if (date) {
-      const targetDate = new Date(date);
-      whereClause.scheduledDate = {
-        gte: new Date(targetDate.getFullYear(), targetDate.getMonth(), targetDate.getDate()),
-        lt: new Date(targetDate.getFullYear(), targetDate.getMonth(), targetDate.getDate() + 1),
-      };
+      if (!isValidDateString(date)) {
+        return NextResponse.json(
+          { error: "Invalid date, expected YYYY-MM-DD" },
+          { status: 400 }
+        );
+      }
+
+      whereClause.scheduledDate = parseDateOnly(date);
       console.log('📅 Filtering scheduled videos for date:', date);
     }
 
@@ -105,7 +110,7 @@ export async function GET(request: NextRequest) {
       title: schedule.approvedVideo.title,
       thumbnail: schedule.approvedVideo.thumbnail,
       duration: schedule.approvedVideo.duration || "0:00",
-      scheduledDate: schedule.scheduledDate.toISOString().split('T')[0],
+      scheduledDate: formatDateOnly(schedule.scheduledDate),
       childrenIds: [schedule.childId],
       childrenNames: [schedule.child.name],
       youtubeId: schedule.approvedVideo.youtubeId,
@@ -114,10 +119,54 @@ export async function GET(request: NextRequest) {
       carriedOver: schedule.carriedOver,
     }));
 
+    // Recurring schedules are expanded lazily, so upcoming occurrences are listed as rules
+    const scheduleRules = await db.scheduleRule.findMany({
+      where: {
+        child: {
+          parentId: parent.id,
+        },
+        ...(childId && { childId }),
+      },
+      include: {
+        child: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        approvedVideo: {
+          select: {
+            id: true,
+            youtubeId: true,
+            title: true,
+            thumbnail: true,
+            channelName: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
     console.log(`📅 Returning ${transformedVideos.length} scheduled videos${childId ? ` for child ${childId}` : ' for all children'}`);
 
     return NextResponse.json({
       scheduledVideos: transformedVideos,
+      scheduleRules: scheduleRules.map(rule => ({
+        id: rule.id,
+        childId: rule.childId,
+        childName: rule.child.name,
+        approvedVideoId: rule.approvedVideoId,
+        title: rule.approvedVideo.title,
+        thumbnail: rule.approvedVideo.thumbnail,
+        channelName: rule.approvedVideo.channelName,
+        youtubeId: rule.approvedVideo.youtubeId,
+        frequency: rule.frequency,
+        daysOfWeek: rule.daysOfWeek,
+        intervalDays: rule.intervalDays,
+        startDate: formatDateOnly(rule.startDate),
+        endDate: rule.endDate ? formatDateOnly(rule.endDate) : null,
+        description: describeRecurrence(rule),
+      })),
     });
   } catch (error) {
     console.error("Error fetching scheduled videos:", error);
@@ -140,7 +189,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { approvedVideoIds, childrenIds, scheduledDate } = body;
+    const { approvedVideoIds, childrenIds, scheduledDate, recurrence } = body;
 
     if (!approvedVideoIds || !Array.isArray(approvedVideoIds) || approvedVideoIds.length === 0 || 
         !childrenIds || !Array.isArray(childrenIds) || childrenIds.length === 0 || !scheduledDate) {
@@ -150,6 +199,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!isValidDateString(scheduledDate)) {
+      return NextResponse.json(
+        { error: "Invalid date, expected YYYY-MM-DD" },
+        { status: 400 }
+      );
+    }
+
     // Get the parent
     const parent = await db.parent.findUnique({
       where: { clerkId: userId },
@@ -194,6 +250,37 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Recurring schedules are stored as rules and expanded when the kids feed is requested
+    if (recurrence) {
+      const recurrenceError = validateRecurrence(recurrence, scheduledDate);
+      if (recurrenceError) {
+        return NextResponse.json(
+          { error: recurrenceError },
+          { status: 400 }
+        );
+      }
+
+      // All or nothing, so a failure part way doesn't leave some children on the schedule
+      const scheduleRules = await db.$transaction(
+        childrenIds.flatMap((childId: string) =>
+          approvedVideoIds.map((approvedVideoId: string) =>
+            db.scheduleRule.create({
+              data: {
+                childId,
+                approvedVideoId,
+                ...toRuleData(recurrence, scheduledDate),
+              },
+            })
+          )
+        )
+      );
+
+      return NextResponse.json({
+        success: true,
+        scheduleRules,
+      });
+    }
+
     // Create scheduled videos for each combination of child and video
     const scheduledVideos = [];
     
@@ -203,8 +290,8 @@ export async function POST(request: NextRequest) {
           data: {
             childId,
             approvedVideoId,
-            scheduledDate: new Date(scheduledDate),
-            originalDate: new Date(scheduledDate),
+            scheduledDate: parseDateOnly(scheduledDate),
+            originalDate: parseDateOnly(scheduledDate),
           },
           include: {
             child: {
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/lib/db";
+import { clearFutureOccurrences, toRuleData, validateRecurrence } from "@/lib/recurrence";
+import { formatDateOnly, getLocalDateString } from "@/lib/timezone";
+
+async function getParentRule(userId: string, ruleId: string) {
+  const parent = await db.parent.findUnique({
+    where: { clerkId: userId },
+  });
+
+  if (!parent) return null;
+
+  return db.scheduleRule.findFirst({
+    where: {
+      id: ruleId,
+      child: {
+        parentId: parent.id,
+      },
+    },
+    include: {
+      child: {
+        select: {
+          timezone: true,
+        },
+      },
+    },
+  });
+}
+
+// Change a recurring schedule. Unwatched occurrences from today on are regenerated from the
+// new rule; earlier days and watched occurrences are kept as history.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id: ruleId } = await params;
+    const rule = await getParentRule(userId, ruleId);
+
+    if (!rule) {
+      return NextResponse.json(
+        { error: "Schedule rule not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { recurrence } = body;
+    const startDate = body.startDate || formatDateOnly(rule.startDate);
+
+    if (!recurrence) {
+      return NextResponse.json(
+        { error: "Recurrence is required" },
+        { status: 400 }
+      );
+    }
+
+    const recurrenceError = validateRecurrence(recurrence, startDate);
+    if (recurrenceError) {
+      return NextResponse.json(
+        { error: recurrenceError },
+        { status: 400 }
+      );
+    }
+
+    const today = getLocalDateString(new Date(), rule.child.timezone);
+    const cleared = await clearFutureOccurrences(ruleId, today);
+
+    const updatedRule = await db.scheduleRule.update({
+      where: { id: ruleId },
+      data: toRuleData(recurrence, startDate),
+    });
+
+    console.log(`🔁 Updated schedule rule ${ruleId}, cleared ${cleared.count} upcoming occurrences`);
+
+    return NextResponse.json({
+      success: true,
+      scheduleRule: updatedRule,
+    });
+  } catch (error) {
+    console.error("Error updating schedule rule:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id: ruleId } = await params;
+    const rule = await getParentRule(userId, ruleId);
+
+    if (!rule) {
+      return NextResponse.json(
+        { error: "Schedule rule not found" },
+        { status: 404 }
+      );
+    }
+
+    // Past occurrences stay (unlinked from the rule) so watch history is preserved
+    const today = getLocalDateString(new Date(), rule.child.timezone);
+    await clearFutureOccurrences(ruleId, today);
+
+    await db.scheduleRule.delete({
+      where: { id: ruleId },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: "Recurring schedule removed successfully",
+    });
+  } catch (error) {
+    console.error("Error deleting schedule rule:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/lib/db";
+import { isValidDateString, parseDateOnly } from "@/lib/timezone";
+
+async function getParentStaleVideo(userId: string, scheduleId: string) {
+  const parent = await db.parent.findUnique({
+    where: { clerkId: userId },
+  });
+
+  if (!parent) return null;
+
+  return db.scheduledVideo.findFirst({
+    where: {
+      id: scheduleId,
+      child: {
+        parentId: parent.id,
+      },
+      isStale: true,
+    },
+  });
+}
+
+// Give a stale video another go on a new date. The stale entry stays as history.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id: scheduleId } = await params;
+    const staleVideo = await getParentStaleVideo(userId, scheduleId);
+
+    if (!staleVideo) {
+      return NextResponse.json(
+        { error: "Stale video not found" },
+        { status: 404 }
+      );
+    }
+
+    const { date } = await request.json();
+
+    if (!date || !isValidDateString(date)) {
+      return NextResponse.json(
+        { error: "Date is required (format: YYYY-MM-DD)" },
+        { status: 400 }
+      );
+    }
+
+    const scheduledDate = parseDateOnly(date);
+
+    await db.$transaction([
+      db.scheduledVideo.upsert({
+        where: {
+          childId_approvedVideoId_scheduledDate: {
+            childId: staleVideo.childId,
+            approvedVideoId: staleVideo.approvedVideoId,
+            scheduledDate,
+          },
+        },
+        update: {
+          isActive: true,
+        },
+        create: {
+          childId: staleVideo.childId,
+          approvedVideoId: staleVideo.approvedVideoId,
+          scheduledDate,
+          originalDate: scheduledDate,
+        },
+      }),
+      db.scheduledVideo.update({
+        where: { id: staleVideo.id },
+        data: { isStale: false },
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      message: `Video rescheduled for ${date}`,
+    });
+  } catch (error) {
+    console.error("Error rescheduling stale video:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Clear a stale video from the review list without scheduling it again
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id: scheduleId } = await params;
+    const staleVideo = await getParentStaleVideo(userId, scheduleId);
+
+    if (!staleVideo) {
+      return NextResponse.json(
+        { error: "Stale video not found" },
+        { status: 404 }
+      );
+    }
+
+    await db.scheduledVideo.update({
+      where: { id: staleVideo.id },
+      data: { isStale: false },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: "Stale video dismissed",
+    });
+  } catch (error) {
+    console.error("Error dismissing stale video:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
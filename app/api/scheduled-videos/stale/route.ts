@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/lib/db";
+import { formatDateOnly } from "@/lib/timezone";
+
+// Scheduled videos that expired unwatched under the child's carryover policy, for the parent to review
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const childId = searchParams.get('childId');
+
+    const parent = await db.parent.findUnique({
+      where: { clerkId: userId },
+    });
+
+    if (!parent) {
+      return NextResponse.json(
+        { error: "Parent not found" },
+        { status: 404 }
+      );
+    }
+
+    const staleVideos = await db.scheduledVideo.findMany({
+      where: {
+        child: {
+          parentId: parent.id,
+        },
+        ...(childId && { childId }),
+        isStale: true,
+      },
+      include: {
+        child: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        approvedVideo: {
+          select: {
+            id: true,
+            youtubeId: true,
+            title: true,
+            thumbnail: true,
+            channelName: true,
+            duration: true,
+          },
+        },
+      },
+      orderBy: [
+        { carryoverAt: 'desc' },
+        { scheduledDate: 'desc' },
+      ],
+    });
+
+    return NextResponse.json({
+      staleVideos: staleVideos.map(video => ({
+        id: video.id,
+        childId: video.childId,
+        childName: video.child.name,
+        approvedVideoId: video.approvedVideoId,
+        youtubeId: video.approvedVideo.youtubeId,
+        title: video.approvedVideo.title,
+        thumbnail: video.approvedVideo.thumbnail,
+        channelName: video.approvedVideo.channelName,
+        duration: video.approvedVideo.duration,
+        scheduledDate: formatDateOnly(video.scheduledDate),
+        originalDate: formatDateOnly(video.originalDate),
+        reason: video.carryoverReason,
+        expiredAt: video.carryoverAt,
+      })),
+      count: staleVideos.length,
+    });
+  } catch (error) {
+    console.error("Error fetching stale scheduled videos:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,31 +1,33 @@
 import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { isAdminUser } from "@/lib/admin";
+import { runEndOfDayCarryover } from "@/lib/carryover";
+import { addDays, formatDateOnly, isValidDateString } from "@/lib/timezone";
 
 // Test endpoint to manually trigger carryover for testing
 export async function POST(request: NextRequest) {
   try {
+    const { userId } = await auth();
+
+    if (!userId || !(await isAdminUser(userId))) {
+      return NextResponse.json(
+        { error: "Admin access required" },
+        { status: 403 }
+      );
+    }
+
     const body = await request.json();
     const { date } = body;
     
-    if (!date) {
+    if (!date || !isValidDateString(date)) {
       return NextResponse.json(
         { error: "Date is required (format: YYYY-MM-DD)" },
         { status: 400 }
       );
     }
 
-    // Call the carryover API
-    const carryoverResponse = await fetch(
-      `${process.env.NEXTAUTH_URL || 'http://localhost:3000'}/api/scheduled-videos/carryover`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ date }),
-      }
-    );
-
-    const carryoverResult = await carryoverResponse.json();
+    // Run the same carryover the job runner uses
+    const carryoverResult = await runEndOfDayCarryover(date);
 
     return NextResponse.json({
       success: true,
@@ -44,10 +46,9 @@ export async function POST(request: NextRequest) {
 // GET endpoint to check current status
 export async function GET() {
   try {
-    const today = new Date().toISOString().split('T')[0];
-    const yesterday = new Date();
-    yesterday.setDate(yesterday.getDate() - 1);
-    const yesterdayStr = yesterday.toISOString().split('T')[0];
+    // Server-side UTC dates; the carryover itself works on each child's local day
+    const today = formatDateOnly(new Date());
+    const yesterdayStr = addDays(today, -1);
 
     return NextResponse.json({
       message: "Test carryover endpoint",
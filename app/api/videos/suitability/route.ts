@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getCurrentParent } from '@/lib/actions';
+import { db } from '@/lib/db';
+import { assessVideoSuitability } from '@/lib/openai';
+import { parseSuitability, SuitabilityError } from '@/lib/suitability';
+import { getTranscriptDigest } from '@/lib/transcripts';
+
+// Assess a video's suitability. The result is saved on every copy of the video the family has
+// approved, and reused from there unless `refresh` is set.
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { youtubeId, title, description, channelName, tags, duration, refresh } = await request.json();
+
+    if (!youtubeId || !title) {
+      return NextResponse.json({ 
+        error: 'YouTube ID and title are required' 
+      }, { status: 400 });
+    }
+
+    const parent = await getCurrentParent();
+    if (!parent) {
+      return NextResponse.json({ error: 'Parent not found' }, { status: 404 });
+    }
+
+    const approvedCopies = await db.approvedVideo.findMany({
+      where: {
+        youtubeId,
+        child: {
+          parentId: parent.id,
+        },
+      },
+      select: {
+        suitability: true,
+      },
+    });
+
+    if (!refresh) {
+      const stored = approvedCopies.map(copy => parseSuitability(copy.suitability)).find(Boolean);
+      if (stored) {
+        return NextResponse.json({ suitability: stored });
+      }
+    }
+
+    console.log('🛡️ Assessing suitability for:', title);
+
+    const suitability = await assessVideoSuitability({
+      title,
+      description: description || '',
+      channelName: channelName || '',
+      tags: Array.isArray(tags) ? tags : [],
+      duration,
+      transcriptDigest: (await getTranscriptDigest(youtubeId, parent.id))?.digest,
+    }, parent.id);
+
+    if (approvedCopies.length > 0) {
+      await db.approvedVideo.updateMany({
+        where: {
+          youtubeId,
+          child: {
+            parentId: parent.id,
+          },
+        },
+        data: { suitability },
+      });
+    }
+
+    console.log('✅ Suitability assessed:', suitability.ageBand, suitability.educationalValue);
+
+    return NextResponse.json({ suitability });
+  } catch (error) {
+    console.error('❌ Suitability assessment error:', error);
+
+    if (error instanceof SuitabilityError) {
+      return NextResponse.json(
+        { error: 'The assessment came back malformed. Please try again.' },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      { 
+        error: 'Failed to assess video',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
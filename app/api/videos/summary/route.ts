@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { getCurrentParent } from '@/lib/actions';
 import { generateVideoSummary } from '@/lib/openai';
+import { getVideoSummary } from '@/lib/video-metadata';
 
 export async function POST(request: NextRequest) {
   try {
@@ -10,7 +11,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const { videoTitle, videoDescription, childId } = await request.json();
+    const { youtubeId, videoTitle, videoDescription, childId } = await request.json();
 
     if (!videoTitle || !childId) {
       return NextResponse.json({ 
@@ -34,12 +35,17 @@ export async function POST(request: NextRequest) {
     // Calculate child age from birthday
     const childAge = Math.floor((Date.now() - new Date(child.birthday).getTime()) / (365.25 * 24 * 60 * 60 * 1000));
 
-    // Generate the summary for this specific video
-    const summary = await generateVideoSummary(
+    // Summaries don't depend on the child, so a video YouTube knows is summarized once, from what
+    // YouTube says about it, and cached. Anything else gets a summary of its own.
+    const sharedSummary = youtubeId
+      ? await getVideoSummary(youtubeId, parent.id, { title: videoTitle, description: videoDescription })
+      : null;
+    const summary = sharedSummary || await generateVideoSummary(
       videoTitle,
       videoDescription || '',
       childAge,
-      child.interests
+      child.interests,
+      { parentId: parent.id }
     );
 
     console.log('✅ Summary generated successfully');
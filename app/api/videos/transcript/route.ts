@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { VideoTranscript } from '@prisma/client';
+import { getCurrentParent } from '@/lib/actions';
+import { db } from '@/lib/db';
+import {
+  getTranscriptForParent,
+  parseTranscriptFile,
+  saveUploadedTranscript,
+  validateTranscript,
+} from '@/lib/transcripts';
+
+function describeTranscript(transcript: VideoTranscript | null) {
+  return transcript && {
+    source: transcript.source,
+    language: transcript.language,
+    length: transcript.text.length,
+    summarized: !!transcript.digest,
+    updatedAt: transcript.updatedAt,
+  };
+}
+
+// Which transcript summaries and content checks of this video will use, if any
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const youtubeId = request.nextUrl.searchParams.get('youtubeId');
+    if (!youtubeId) {
+      return NextResponse.json({ error: 'YouTube ID is required' }, { status: 400 });
+    }
+
+    const parent = await getCurrentParent();
+    if (!parent) {
+      return NextResponse.json({ error: 'Parent not found' }, { status: 404 });
+    }
+
+    const transcript = await getTranscriptForParent(youtubeId, parent.id);
+
+    return NextResponse.json({ transcript: describeTranscript(transcript) });
+  } catch (error) {
+    console.error('❌ Transcript lookup error:', error);
+    return NextResponse.json(
+      { error: 'Failed to look up transcript' },
+      { status: 500 }
+    );
+  }
+}
+
+// Upload a transcript (.txt, .srt or .vtt contents) for a video without usable captions
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { youtubeId, content } = await request.json();
+    if (!youtubeId || typeof content !== 'string') {
+      return NextResponse.json({
+        error: 'YouTube ID and transcript content are required'
+      }, { status: 400 });
+    }
+
+    const parent = await getCurrentParent();
+    if (!parent) {
+      return NextResponse.json({ error: 'Parent not found' }, { status: 404 });
+    }
+
+    const text = parseTranscriptFile(content);
+    const validationError = validateTranscript(text);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const transcript = await saveUploadedTranscript(parent.id, youtubeId, text);
+
+    console.log('📝 Transcript uploaded for', youtubeId, `(${text.length} characters)`);
+
+    return NextResponse.json({ transcript: describeTranscript(transcript) });
+  } catch (error) {
+    console.error('❌ Transcript upload error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save transcript' },
+      { status: 500 }
+    );
+  }
+}
+
+// Remove the parent's upload, going back to YouTube's captions
+export async function DELETE(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const youtubeId = request.nextUrl.searchParams.get('youtubeId');
+    if (!youtubeId) {
+      return NextResponse.json({ error: 'YouTube ID is required' }, { status: 400 });
+    }
+
+    const parent = await getCurrentParent();
+    if (!parent) {
+      return NextResponse.json({ error: 'Parent not found' }, { status: 404 });
+    }
+
+    await db.videoTranscript.deleteMany({
+      where: {
+        youtubeId,
+        parentId: parent.id,
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('❌ Transcript delete error:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove transcript' },
+      { status: 500 }
+    );
+  }
+}
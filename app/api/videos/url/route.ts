@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
+import { VideoSource } from '@prisma/client';
+import { db } from '@/lib/db';
+import { getCurrentParent } from '@/lib/actions';
+import { getPlaybackPositions } from '@/lib/playback-positions';
+import { getPlaybackUrls, PlayableVideo } from '@/lib/video-sources';
 
 export async function GET(request: NextRequest) {
   try {
@@ -10,25 +15,49 @@ export async function GET(request: NextRequest) {
 
     const searchParams = request.nextUrl.searchParams;
     const youtubeId = searchParams.get('youtubeId');
+    const approvedVideoId = searchParams.get('approvedVideoId');
 
-    if (!youtubeId) {
-      return NextResponse.json({ error: 'YouTube ID required' }, { status: 400 });
+    const childId = searchParams.get('childId');
+
+    if (!youtubeId && !approvedVideoId) {
+      return NextResponse.json({ error: 'YouTube ID or approved video ID required' }, { status: 400 });
     }
 
-    // Generate YouTube embed URL for mobile video players
-    const embedUrl = `https://www.youtube.com/embed/${youtubeId}?autoplay=1&playsinline=1&rel=0&showinfo=0&controls=1`;
-    
-    // Also provide iframe embed URL for webview
-    const iframeUrl = `https://www.youtube-nocookie.com/embed/${youtubeId}?autoplay=1&playsinline=1&rel=0&showinfo=0&controls=1`;
-    
-    // Provide direct YouTube URL as fallback
-    const watchUrl = `https://www.youtube.com/watch?v=${youtubeId}`;
+    const parent = childId || approvedVideoId ? await getCurrentParent() : null;
+    if (childId && !parent?.children.some(child => child.id === childId)) {
+      return NextResponse.json({ error: 'Child not found' }, { status: 404 });
+    }
+
+    // An approved video can come from any source; a bare YouTube ID is always YouTube
+    let video: PlayableVideo = { source: VideoSource.YOUTUBE, youtubeId: youtubeId || '', mediaUrl: null };
+    if (approvedVideoId) {
+      const approved = parent && await db.approvedVideo.findFirst({
+        where: { id: approvedVideoId, child: { parentId: parent.id } },
+        select: { source: true, youtubeId: true, mediaUrl: true },
+      });
+      if (!approved) {
+        return NextResponse.json({ error: 'Video not found' }, { status: 404 });
+      }
+      video = approved;
+    }
+
+    // With a child, playback starts where they left off
+    let resumePosition = 0;
+    if (childId) {
+      const positions = await getPlaybackPositions(childId, [video.youtubeId]);
+      resumePosition = positions.get(video.youtubeId)?.position ?? 0;
+    }
+
+    const { player, embedUrl, iframeUrl, watchUrl } = getPlaybackUrls(video, resumePosition);
 
     return NextResponse.json({
-      youtubeId,
+      youtubeId: video.youtubeId,
+      source: video.source,
+      player,
       embedUrl,
-      iframeUrl,
+      iframeUrl: iframeUrl || embedUrl,
       watchUrl,
+      resumePosition,
       success: true
     });
 
@@ -1,12 +1,17 @@
 import { getCurrentParent } from "@/lib/actions";
 import { db } from "@/lib/db";
 import { calculateAge } from "@/lib/utils";
+import { loadDailyStats } from "@/lib/activity-rollups";
+import { addDays, getLocalDateString, getLocalDayRange } from "@/lib/timezone";
+import Link from "next/link";
 import { BarChart3, TrendingUp, Clock, Users, Play, ThumbsUp, Star, Activity, Eye, Target, Calendar } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { SidebarTrigger } from "@/components/ui/sidebar";
 
-export default async function AnalyticsPage() {
+const RANGE_OPTIONS = [7, 30, 90];
+
+export default async function AnalyticsPage({ searchParams }: { searchParams: Promise<{ days?: string }> }) {
   const parent = await getCurrentParent();
   
   if (!parent) {
@@ -19,18 +24,36 @@ export default async function AnalyticsPage() {
     );
   }
 
+  const { days: daysParam } = await searchParams;
+  const days = RANGE_OPTIONS.includes(Number(daysParam)) ? Number(daysParam) : 7;
+
   // Get basic data
   const totalChildren = parent.children.length;
   const childIds = parent.children.map(child => child.id);
   
-  // Get video activity statistics
-  const sevenDaysAgo = new Date();
-  sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
+  // The range is the last `days` calendar days in each child's timezone. Daily numbers for
+  // long ranges come from the ChildActivity rollups instead of the raw activity log.
+  const dailyStats = await loadDailyStats(parent.children, days);
+
+  const now = new Date();
+  const rangeStart = parent.children.reduce((earliest, child) => {
+    const firstDay = addDays(getLocalDateString(now, child.timezone), -(days - 1));
+    const { start } = getLocalDayRange(firstDay, child.timezone);
+    return start < earliest ? start : earliest;
+  }, now);
+
+  const totalActivities = dailyStats.reduce((sum, day) => sum + day.activities, 0);
+  const totalWatchTime = dailyStats.reduce((sum, day) => sum + day.watchTime, 0);
+  const completedVideos = dailyStats.reduce((sum, day) => sum + day.completions, 0);
+  const totalSessions = dailyStats.reduce((sum, day) => sum + day.sessions, 0);
+  const averageSessionDuration = totalSessions > 0 
+    ? Math.round(dailyStats.reduce((sum, day) => sum + day.sessionTime, 0) / totalSessions)
+    : 0;
 
   const recentActivities = await db.videoActivity.findMany({
     where: {
       childId: { in: childIds },
-      createdAt: { gte: sevenDaysAgo }
+      createdAt: { gte: rangeStart }
     },
     include: {
       child: {
@@ -40,153 +63,97 @@ export default async function AnalyticsPage() {
         select: { title: true, thumbnail: true, channelName: true }
       }
     },
-    orderBy: { createdAt: 'desc' }
+    orderBy: { createdAt: 'desc' },
+    take: 10
   });
 
-  const totalActivities = recentActivities.length;
-  const totalWatchTime = recentActivities.reduce((sum, activity) => sum + (activity.watchTimeSeconds || 0), 0);
-  const completedVideos = recentActivities.filter(activity => activity.activityType === 'COMPLETE').length;
-  const uniqueVideosWatched = new Set(recentActivities
-    .filter(activity => ['PLAY', 'COMPLETE'].includes(activity.activityType))
-    .map(activity => activity.youtubeId)
-  ).size;
-
-  // Get session statistics
-  const recentSessions = await db.appSession.findMany({
+  // Get most watched videos
+  const videoStats = await db.videoActivity.groupBy({
+    by: ['youtubeId', 'videoTitle', 'channelName'],
     where: {
       childId: { in: childIds },
-      startTime: { gte: sevenDaysAgo }
+      createdAt: { gte: rangeStart },
+      activityType: { in: ['PLAY', 'COMPLETE'] }
     },
-    include: {
-      child: {
-        select: { id: true, name: true, birthday: true }
-      }
-    },
-    orderBy: { startTime: 'desc' }
+    _count: { id: true },
+    _sum: { watchTimeSeconds: true },
+    orderBy: { _count: { id: 'desc' } },
+    take: 5
   });
 
-  const totalSessions = recentSessions.length;
-  const averageSessionDuration = totalSessions > 0 
-    ? Math.round(recentSessions.reduce((sum, session) => sum + (session.duration || 0), 0) / totalSessions)
-    : 0;
+  const mostWatchedVideos = videoStats.map(video => ({
+    youtubeId: video.youtubeId,
+    title: video.videoTitle,
+    channelName: video.channelName,
+    watchCount: video._count.id,
+    totalWatchTime: video._sum.watchTimeSeconds || 0
+  }));
 
-  // Get most watched videos
-  const videoStats = recentActivities
-    .filter(activity => ['PLAY', 'COMPLETE'].includes(activity.activityType))
-    .reduce((acc, activity) => {
-      const key = activity.youtubeId;
-      if (!acc[key]) {
-        acc[key] = {
-          youtubeId: activity.youtubeId,
-          title: activity.videoTitle,
-          channelName: activity.channelName,
-          watchCount: 0,
-          totalWatchTime: 0,
-          completions: 0
-        };
-      }
-      acc[key].watchCount++;
-      acc[key].totalWatchTime += (activity.watchTimeSeconds || 0);
-      if (activity.activityType === 'COMPLETE') {
-        acc[key].completions++;
-      }
-      return acc;
-    }, {} as Record<string, any>);
-
-  const mostWatchedVideos = Object.values(videoStats)
-    .sort((a: any, b: any) => b.watchCount - a.watchCount)
-    .slice(0, 5);
+  // Distinct videos per child across the whole range (daily unique counts can't simply be added up)
+  const watchedPairs = await db.videoActivity.groupBy({
+    by: ['childId', 'youtubeId'],
+    where: {
+      childId: { in: childIds },
+      createdAt: { gte: rangeStart },
+      activityType: { in: ['PLAY', 'COMPLETE'] }
+    }
+  });
 
   // Get activity by child
   const activityByChild = parent.children.map(child => {
-    const childActivities = recentActivities.filter(activity => activity.childId === child.id);
-    const childSessions = recentSessions.filter(session => session.childId === child.id);
-    const childWatchTime = childActivities.reduce((sum, activity) => sum + (activity.watchTimeSeconds || 0), 0);
-    const childCompletions = childActivities.filter(activity => activity.activityType === 'COMPLETE').length;
-    const uniqueVideos = new Set(childActivities
-      .filter(activity => ['PLAY', 'COMPLETE'].includes(activity.activityType))
-      .map(activity => activity.youtubeId)
-    ).size;
+    const childDays = dailyStats.filter(day => day.childId === child.id);
+    const childSessions = childDays.reduce((sum, day) => sum + day.sessions, 0);
 
     return {
       ...child,
-      totalActivities: childActivities.length,
-      totalSessions: childSessions.length,
-      watchTimeSeconds: childWatchTime,
-      completedVideos: childCompletions,
-      uniqueVideosWatched: uniqueVideos,
-      averageSessionDuration: childSessions.length > 0 
-        ? Math.round(childSessions.reduce((sum, session) => sum + (session.duration || 0), 0) / childSessions.length)
+      totalActivities: childDays.reduce((sum, day) => sum + day.activities, 0),
+      totalSessions: childSessions,
+      watchTimeSeconds: childDays.reduce((sum, day) => sum + day.watchTime, 0),
+      completedVideos: childDays.reduce((sum, day) => sum + day.completions, 0),
+      uniqueVideosWatched: watchedPairs.filter(pair => pair.childId === child.id).length,
+      averageSessionDuration: childSessions > 0 
+        ? Math.round(childDays.reduce((sum, day) => sum + day.sessionTime, 0) / childSessions)
         : 0
     };
   });
 
   // Get daily activity trends
-  const dailyActivities = recentActivities.reduce((acc, activity) => {
-    const date = activity.createdAt.toISOString().split('T')[0];
-    if (!acc[date]) {
-      acc[date] = {
-        date,
+  const dailyActivities = dailyStats.reduce((acc, day) => {
+    if (day.activities === 0) return acc;
+    if (!acc[day.date]) {
+      acc[day.date] = {
+        date: day.date,
         activities: 0,
         watchTime: 0,
         completions: 0
       };
     }
-    acc[date].activities++;
-    acc[date].watchTime += (activity.watchTimeSeconds || 0);
-    if (activity.activityType === 'COMPLETE') {
-      acc[date].completions++;
-    }
+    acc[day.date].activities += day.activities;
+    acc[day.date].watchTime += day.watchTime;
+    acc[day.date].completions += day.completions;
     return acc;
   }, {} as Record<string, any>);
 
   const dailyTrends = Object.values(dailyActivities)
-    .sort((a: any, b: any) => a.date.localeCompare(b.date))
-    .slice(-7); // Last 7 days
+    .sort((a: any, b: any) => a.date.localeCompare(b.date));
 
   // Get per-child daily screen time
   const dailyScreenTimeByChild = parent.children.map(child => {
-    const childActivities = recentActivities.filter(activity => activity.childId === child.id);
-    
-    // Group by date
-    const dailyData = childActivities.reduce((acc, activity) => {
-      const date = activity.createdAt.toISOString().split('T')[0];
-      if (!acc[date]) {
-        acc[date] = {
-          date,
-          watchTime: 0,
-          activities: 0,
-          completions: 0
-        };
-      }
-      acc[date].watchTime += (activity.watchTimeSeconds || 0);
-      acc[date].activities++;
-      if (activity.activityType === 'COMPLETE') {
-        acc[date].completions++;
-      }
-      return acc;
-    }, {} as Record<string, any>);
-
-    // Create array of last 7 days with 0 values for missing days
-    const last7Days = [];
-    for (let i = 6; i >= 0; i--) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      const dateString = date.toISOString().split('T')[0];
-      
-      last7Days.push({
-        date: dateString,
-        watchTime: dailyData[dateString]?.watchTime || 0,
-        activities: dailyData[dateString]?.activities || 0,
-        completions: dailyData[dateString]?.completions || 0
-      });
-    }
+    const dailyData = dailyStats
+      .filter(day => day.childId === child.id)
+      .map(day => ({
+        date: day.date,
+        watchTime: day.watchTime,
+        activities: day.activities,
+        completions: day.completions
+      }));
+    const totalTime = dailyData.reduce((sum, day) => sum + day.watchTime, 0);
 
     return {
       child,
-      dailyData: last7Days,
-      totalWeeklyTime: last7Days.reduce((sum, day) => sum + day.watchTime, 0),
-      averageDailyTime: Math.round(last7Days.reduce((sum, day) => sum + day.watchTime, 0) / 7)
+      dailyData,
+      totalTime,
+      averageDailyTime: Math.round(totalTime / days)
     };
   });
 
@@ -202,7 +169,8 @@ export default async function AnalyticsPage() {
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', { 
       month: 'short', 
-      day: 'numeric' 
+      day: 'numeric',
+      timeZone: 'UTC'
     });
   };
 
@@ -218,10 +186,23 @@ export default async function AnalyticsPage() {
                 Analytics
               </h1>
               <p className="text-muted-foreground mt-1">
-                Monitor your children's app usage, watch time, and engagement patterns (Last 7 days).
+                Monitor your children's app usage, watch time, and engagement patterns (Last {days} days).
               </p>
             </div>
           </div>
+          <div className="flex items-center gap-2">
+            {RANGE_OPTIONS.map(option => (
+              <Link
+                key={option}
+                href={`/dashboard/analytics?days=${option}`}
+                className={`px-3 py-1.5 rounded-md text-sm font-medium border ${
+                  option === days ? "bg-primary text-primary-foreground border-primary" : "bg-background text-muted-foreground hover:text-foreground"
+                }`}
+              >
+                {option} days
+              </Link>
+            ))}
+          </div>
         </div>
       </div>
 
@@ -403,7 +384,7 @@ export default async function AnalyticsPage() {
                             <Badge variant="secondary" className="text-sm">{calculateAge(childData.child.birthday)} years old</Badge>
                           </div>
                           <div className="text-right">
-                            <p className="text-sm font-semibold text-primary">Weekly: {formatDuration(childData.totalWeeklyTime)}</p>
+                            <p className="text-sm font-semibold text-primary">Total: {formatDuration(childData.totalTime)}</p>
                             <p className="text-xs text-muted-foreground">Avg: {formatDuration(childData.averageDailyTime)}/day</p>
                           </div>
                         </div>
@@ -432,10 +413,10 @@ export default async function AnalyticsPage() {
                                   </div>
                                 </div>
                                 <div className="text-xs text-muted-foreground">
-                                  {new Date(day.date).toLocaleDateString('en-US', { weekday: 'short' })}
+                                  {new Date(day.date).toLocaleDateString('en-US', { weekday: 'short', timeZone: 'UTC' })}
                                 </div>
                                 <div className="text-xs text-muted-foreground">
-                                  {new Date(day.date).toLocaleDateString('en-US', { day: 'numeric' })}
+                                  {new Date(day.date).toLocaleDateString('en-US', { day: 'numeric', timeZone: 'UTC' })}
                                 </div>
                               </div>
                             );
@@ -464,7 +445,7 @@ export default async function AnalyticsPage() {
                           <div className="text-center">
                             <p className="text-muted-foreground">Active Days</p>
                             <p className="font-semibold text-primary">
-                              {childData.dailyData.filter((day: any) => day.watchTime > 0).length}/7
+                              {childData.dailyData.filter((day: any) => day.watchTime > 0).length}/{days}
                             </p>
                           </div>
                         </div>
@@ -489,7 +470,7 @@ export default async function AnalyticsPage() {
             <CardContent className="p-6">
               {recentActivities.length > 0 ? (
                 <div className="space-y-4">
-                  {recentActivities.slice(0, 10).map((activity) => (
+                  {recentActivities.map((activity) => (
                     <div key={activity.id} className="flex items-center space-x-4 p-4 bg-muted/20 rounded-lg">
                       <div className="w-12 h-12 flex-shrink-0">
                         {activity.approvedVideo?.thumbnail ? (
@@ -2,13 +2,16 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { getCurrentParent, removeApprovedVideo } from "@/lib/actions";
-import { Play, User, Plus } from "lucide-react";
+import { Play, User, Plus, ListVideo, Link2 } from "lucide-react";
 import Link from "next/link";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { SidebarTrigger } from "@/components/ui/sidebar";
 import ApprovedVideoCard from "@/components/dashboard/approved-video-card";
 import VideoDetailModal from "@/components/dashboard/video-detail-modal";
+import LinkedVideoCard from "@/components/dashboard/linked-video-card";
+import { calculateAge } from "@/lib/utils";
+import type { SuitabilityAssessment } from "@/lib/suitability";
 
 interface ApprovedVideo {
   id: string;
@@ -19,6 +22,9 @@ interface ApprovedVideo {
   channelName: string;
   duration: string;
   summary: string;
+  source: "YOUTUBE" | "VIMEO" | "STREAM_URL" | "LOCAL_MEDIA";
+  mediaUrl: string | null;
+  suitability: SuitabilityAssessment | null;
   watched: boolean;
   createdAt: Date;
   child: {
@@ -33,42 +39,45 @@ export default function ApprovedVideosPage() {
   const [approvedVideos, setApprovedVideos] = useState<ApprovedVideo[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [removingIds, setRemovingIds] = useState<Set<string>>(new Set());
+  const [childOptions, setChildOptions] = useState<{ id: string; name: string }[]>([]);
+  const [showLinkedVideo, setShowLinkedVideo] = useState(false);
   
   // Modal state
   const [selectedVideo, setSelectedVideo] = useState<any>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
 
   // Load approved videos
-  useEffect(() => {
-    async function loadApprovedVideos() {
-      try {
-        setIsLoading(true);
-        const parent = await getCurrentParent();
-        
-        if (!parent) {
-          setIsLoading(false);
-          return;
-        }
-
-        // Fetch approved videos via API
-        const response = await fetch('/api/approved-videos');
-        if (response.ok) {
-          const data = await response.json();
-          setApprovedVideos(data.approvedVideos || []);
-        } else {
-          console.error('Failed to fetch approved videos');
-          setApprovedVideos([]);
-        }
-        
-        setIsLoading(false);
-      } catch (error) {
-        console.error("Error loading approved videos:", error);
+  const loadApprovedVideos = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const parent = await getCurrentParent();
+      
+      if (!parent) {
         setIsLoading(false);
+        return;
       }
+      setChildOptions(parent.children.map(child => ({ id: child.id, name: child.name })));
+
+      // Fetch approved videos via API
+      const response = await fetch('/api/approved-videos');
+      if (response.ok) {
+        const data = await response.json();
+        setApprovedVideos(data.approvedVideos || []);
+      } else {
+        console.error('Failed to fetch approved videos');
+        setApprovedVideos([]);
+      }
+      
+      setIsLoading(false);
+    } catch (error) {
+      console.error("Error loading approved videos:", error);
+      setIsLoading(false);
     }
+  }, []);
 
+  useEffect(() => {
     loadApprovedVideos();
-  }, []);
+  }, [loadApprovedVideos]);
 
   const handleRemoveVideo = useCallback(async (videoId: string) => {
     if (removingIds.has(videoId)) return;
@@ -114,6 +123,9 @@ export default function ApprovedVideosPage() {
       viewCount: '0', // Not available for approved videos
       category: 'approved',
       summary: video.summary || '',
+      suitability: video.suitability,
+      childId: video.child.id,
+      childAge: calculateAge(video.child.birthday),
     };
     
     setSelectedVideo(videoForModal);
@@ -135,6 +147,23 @@ export default function ApprovedVideosPage() {
     return acc;
   }, {} as Record<string, ApprovedVideo[]>);
 
+  const addFromLinkButton = childOptions.length > 0 && (
+    <Button size="lg" variant="outline" onClick={() => setShowLinkedVideo(show => !show)}>
+      <Link2 className="h-4 w-4 mr-2" />
+      Add From a Link
+    </Button>
+  );
+
+  const linkedVideoCard = showLinkedVideo && (
+    <LinkedVideoCard
+      childOptions={childOptions}
+      onAdded={() => {
+        setShowLinkedVideo(false);
+        loadApprovedVideos();
+      }}
+    />
+  );
+
   if (isLoading) {
     return (
       <div className="flex h-full items-center justify-center">
@@ -162,12 +191,14 @@ export default function ApprovedVideosPage() {
                 </p>
               </div>
             </div>
+            {addFromLinkButton}
           </div>
         </div>
 
         {/* Main Content */}
         <div className="flex-1 overflow-auto bg-muted/20">
-          <div className="p-8">
+          <div className="p-8 space-y-6">
+            {linkedVideoCard}
             <Card className="bg-background">
               <CardContent className="p-16 text-center">
                 <Play className="h-20 w-20 text-muted-foreground mx-auto mb-6" />
@@ -204,18 +235,28 @@ export default function ApprovedVideosPage() {
               </p>
             </div>
           </div>
-          <Button asChild size="lg">
-            <Link href="/dashboard/recommendations">
-              <Plus className="h-4 w-4 mr-2" />
-              Add More Videos
-            </Link>
-          </Button>
+          <div className="flex items-center gap-3">
+            {addFromLinkButton}
+            <Button asChild size="lg" variant="outline">
+              <Link href="/dashboard/playlists">
+                <ListVideo className="h-4 w-4 mr-2" />
+                Playlists
+              </Link>
+            </Button>
+            <Button asChild size="lg">
+              <Link href="/dashboard/recommendations">
+                <Plus className="h-4 w-4 mr-2" />
+                Add More Videos
+              </Link>
+            </Button>
+          </div>
         </div>
       </div>
 
       {/* Main Content */}
       <div className="flex-1 overflow-auto bg-muted/20">
         <div className="space-y-6 p-6">
+          {linkedVideoCard}
 
           {Object.entries(videosByChild).map(([childName, videos]) => (
             <Card key={childName} className="bg-background">
@@ -250,6 +291,7 @@ export default function ApprovedVideosPage() {
         <VideoDetailModal
           video={selectedVideo}
           childId={selectedVideo.childId}
+          childAge={selectedVideo.childAge}
           isOpen={isModalOpen}
           onClose={handleCloseModal}
           onApprove={() => {}} // No approve action needed for already approved videos
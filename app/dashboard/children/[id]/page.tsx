@@ -2,14 +2,19 @@
 
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
-import { updateChildInterests, getCurrentParent } from "@/lib/actions";
+import { updateChildInterests, updateChildScreenTime, updateChildViewingWindows, updateChildCarryoverPolicy, updateChildBlockedKeywords, updateChildDiversity, getCurrentParent } from "@/lib/actions";
 import { calculateAge } from "@/lib/utils";
 import Link from "next/link";
-import { ArrowLeft, Save } from "lucide-react";
+import { ArrowLeft, Save, Clock, Moon, CalendarClock, ShieldAlert, Shuffle } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { SidebarTrigger } from "@/components/ui/sidebar";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import ChannelRulesCard from "@/components/dashboard/channel-rules-card";
 
 const INTEREST_OPTIONS = [
   "Science", "Math", "Art", "Music", "Sports", "Animals", "Nature", 
@@ -22,12 +27,63 @@ interface Child {
   name: string;
   birthday: Date;
   interests: string[];
+  weekdayLimitMinutes: number | null;
+  weekendLimitMinutes: number | null;
+  timezone: string;
+  weekdayWindows: string[];
+  weekendWindows: string[];
+  carryoverMode: CarryoverMode;
+  carryoverMaxDays: number | null;
+  carryoverDailyCap: number | null;
+  blockedKeywords: string[];
+  maxVideosPerChannel: number | null;
+  minVideosPerInterest: number;
+  minVideosPerSkillArea: number;
+  mixDurations: boolean;
+}
+
+type CarryoverMode = "CARRY" | "EXPIRE";
+
+// "07:00-08:00, 16:00-19:00" -> ["07:00-08:00", "16:00-19:00"]
+function parseWindows(value: string): string[] {
+  return value.split(",").map(window => window.trim()).filter(Boolean);
+}
+
+// "prank, scary, unboxing" -> ["prank", "scary", "unboxing"]
+function parseKeywords(value: string): string[] {
+  return value.split(",").map(keyword => keyword.trim()).filter(Boolean);
+}
+
+// Empty input means "no limit"
+function parseLimit(value: string): number | null {
+  const minutes = parseInt(value);
+  return isNaN(minutes) || minutes <= 0 ? null : minutes;
+}
+
+// Empty input means zero
+function parseCount(value: string): number {
+  const count = parseInt(value);
+  return isNaN(count) ? 0 : count;
 }
 
 export default function EditChildPage({ params }: { params: Promise<{ id: string }> }) {
   const router = useRouter();
   const [child, setChild] = useState<Child | null>(null);
   const [selectedInterests, setSelectedInterests] = useState<string[]>([]);
+  const [weekdayLimit, setWeekdayLimit] = useState("");
+  const [weekendLimit, setWeekendLimit] = useState("");
+  const [timezone, setTimezone] = useState("");
+  const [weekdayWindows, setWeekdayWindows] = useState("");
+  const [weekendWindows, setWeekendWindows] = useState("");
+  const [carryoverMode, setCarryoverMode] = useState<CarryoverMode>("CARRY");
+  const [carryoverMaxDays, setCarryoverMaxDays] = useState("");
+  const [carryoverDailyCap, setCarryoverDailyCap] = useState("");
+  const [blockedKeywords, setBlockedKeywords] = useState("");
+  const [maxVideosPerChannel, setMaxVideosPerChannel] = useState("");
+  const [minVideosPerInterest, setMinVideosPerInterest] = useState("");
+  const [minVideosPerSkillArea, setMinVideosPerSkillArea] = useState("");
+  const [mixDurations, setMixDurations] = useState(true);
+  const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [paramsData, setParamsData] = useState<{ id: string } | null>(null);
@@ -52,6 +108,23 @@ export default function EditChildPage({ params }: { params: Promise<{ id: string
         if (foundChild) {
           setChild(foundChild);
           setSelectedInterests(foundChild.interests);
+          setWeekdayLimit(foundChild.weekdayLimitMinutes?.toString() || "");
+          setWeekendLimit(foundChild.weekendLimitMinutes?.toString() || "");
+          setTimezone(
+            foundChild.timezone !== "UTC"
+              ? foundChild.timezone
+              : Intl.DateTimeFormat().resolvedOptions().timeZone
+          );
+          setWeekdayWindows(foundChild.weekdayWindows.join(", "));
+          setWeekendWindows(foundChild.weekendWindows.join(", "));
+          setCarryoverMode(foundChild.carryoverMode);
+          setCarryoverMaxDays(foundChild.carryoverMaxDays?.toString() || "");
+          setCarryoverDailyCap(foundChild.carryoverDailyCap?.toString() || "");
+          setBlockedKeywords(foundChild.blockedKeywords.join(", "));
+          setMaxVideosPerChannel(foundChild.maxVideosPerChannel?.toString() || "");
+          setMinVideosPerInterest(foundChild.minVideosPerInterest.toString());
+          setMinVideosPerSkillArea(foundChild.minVideosPerSkillArea.toString());
+          setMixDurations(foundChild.mixDurations);
         }
       } catch (error) {
         console.error("Error loading child:", error);
@@ -76,11 +149,34 @@ export default function EditChildPage({ params }: { params: Promise<{ id: string
     if (!child) return;
 
     setIsSubmitting(true);
+    setError(null);
     try {
       await updateChildInterests(child.id, selectedInterests);
+      await updateChildScreenTime(child.id, {
+        weekdayLimitMinutes: parseLimit(weekdayLimit),
+        weekendLimitMinutes: parseLimit(weekendLimit),
+      });
+      await updateChildViewingWindows(child.id, {
+        timezone,
+        weekdayWindows: parseWindows(weekdayWindows),
+        weekendWindows: parseWindows(weekendWindows),
+      });
+      await updateChildCarryoverPolicy(child.id, {
+        carryoverMode,
+        carryoverMaxDays: parseLimit(carryoverMaxDays),
+        carryoverDailyCap: parseLimit(carryoverDailyCap),
+      });
+      await updateChildBlockedKeywords(child.id, parseKeywords(blockedKeywords));
+      await updateChildDiversity(child.id, {
+        maxVideosPerChannel: parseLimit(maxVideosPerChannel),
+        minVideosPerInterest: parseCount(minVideosPerInterest),
+        minVideosPerSkillArea: parseCount(minVideosPerSkillArea),
+        mixDurations,
+      });
       router.push("/dashboard/children");
     } catch (error) {
       console.error("Error updating child:", error);
+      setError(error instanceof Error ? error.message : "Failed to save changes");
     } finally {
       setIsSubmitting(false);
     }
@@ -196,6 +292,245 @@ export default function EditChildPage({ params }: { params: Promise<{ id: string
               </CardContent>
             </Card>
 
+            <Card className="bg-background">
+              <CardHeader className="border-b px-6 py-5">
+                <CardTitle className="text-2xl font-semibold text-foreground font-serif-elegant flex items-center gap-2">
+                  <Clock className="h-5 w-5" />
+                  Daily Screen Time
+                </CardTitle>
+                <p className="text-muted-foreground text-lg mt-1">
+                  Once {child.name} has watched this many minutes in a day, the kids app stops playing videos until tomorrow. Leave empty for no limit.
+                </p>
+              </CardHeader>
+
+              <CardContent className="p-8">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div className="space-y-2">
+                    <Label htmlFor="weekdayLimit">Weekdays (minutes)</Label>
+                    <Input
+                      id="weekdayLimit"
+                      type="number"
+                      min={1}
+                      placeholder="No limit"
+                      value={weekdayLimit}
+                      onChange={(e) => setWeekdayLimit(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="weekendLimit">Weekends (minutes)</Label>
+                    <Input
+                      id="weekendLimit"
+                      type="number"
+                      min={1}
+                      placeholder="No limit"
+                      value={weekendLimit}
+                      onChange={(e) => setWeekendLimit(e.target.value)}
+                    />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-background">
+              <CardHeader className="border-b px-6 py-5">
+                <CardTitle className="text-2xl font-semibold text-foreground font-serif-elegant flex items-center gap-2">
+                  <Moon className="h-5 w-5" />
+                  Viewing Hours
+                </CardTitle>
+                <p className="text-muted-foreground text-lg mt-1">
+                  The kids app is locked outside these times. Use comma-separated ranges like 07:00-08:00, 16:00-19:00. Leave empty to allow viewing all day.
+                </p>
+              </CardHeader>
+
+              <CardContent className="p-8">
+                <div className="space-y-6">
+                  <div className="space-y-2">
+                    <Label htmlFor="timezone">Timezone</Label>
+                    <Input
+                      id="timezone"
+                      placeholder="America/Los_Angeles"
+                      value={timezone}
+                      onChange={(e) => setTimezone(e.target.value)}
+                    />
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-2">
+                      <Label htmlFor="weekdayWindows">Weekdays</Label>
+                      <Input
+                        id="weekdayWindows"
+                        placeholder="07:00-08:00, 16:00-19:00"
+                        value={weekdayWindows}
+                        onChange={(e) => setWeekdayWindows(e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="weekendWindows">Weekends</Label>
+                      <Input
+                        id="weekendWindows"
+                        placeholder="09:00-12:00, 15:00-19:00"
+                        value={weekendWindows}
+                        onChange={(e) => setWeekendWindows(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-background">
+              <CardHeader className="border-b px-6 py-5">
+                <CardTitle className="text-2xl font-semibold text-foreground font-serif-elegant flex items-center gap-2">
+                  <CalendarClock className="h-5 w-5" />
+                  Unwatched Videos
+                </CardTitle>
+                <p className="text-muted-foreground text-lg mt-1">
+                  Choose what happens to scheduled videos {child.name} didn&apos;t get to. Expired videos show up on the schedule page for you to review.
+                </p>
+              </CardHeader>
+
+              <CardContent className="p-8">
+                <div className="space-y-6">
+                  <div className="space-y-2">
+                    <Label>At the end of the day</Label>
+                    <Select value={carryoverMode} onValueChange={(value) => setCarryoverMode(value as CarryoverMode)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="CARRY">Carry them over to the next day</SelectItem>
+                        <SelectItem value="EXPIRE">Let them expire</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {carryoverMode === "CARRY" && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                      <div className="space-y-2">
+                        <Label htmlFor="carryoverMaxDays">Carry for at most (days)</Label>
+                        <Input
+                          id="carryoverMaxDays"
+                          type="number"
+                          min={1}
+                          placeholder="No limit"
+                          value={carryoverMaxDays}
+                          onChange={(e) => setCarryoverMaxDays(e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="carryoverDailyCap">Carried videos per day</Label>
+                        <Input
+                          id="carryoverDailyCap"
+                          type="number"
+                          min={1}
+                          placeholder="No limit"
+                          value={carryoverDailyCap}
+                          onChange={(e) => setCarryoverDailyCap(e.target.value)}
+                        />
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-background">
+              <CardHeader className="border-b px-6 py-5">
+                <CardTitle className="text-2xl font-semibold text-foreground font-serif-elegant flex items-center gap-2">
+                  <ShieldAlert className="h-5 w-5" />
+                  Content Filters
+                </CardTitle>
+                <p className="text-muted-foreground text-lg mt-1">
+                  Recommendations mentioning any of these words in their title, description or tags are hidden. You can still see what was hidden and show it anyway.
+                </p>
+              </CardHeader>
+
+              <CardContent className="p-8">
+                <div className="space-y-2">
+                  <Label htmlFor="blockedKeywords">Blocked words and topics</Label>
+                  <Input
+                    id="blockedKeywords"
+                    placeholder="prank, scary, unboxing"
+                    value={blockedKeywords}
+                    onChange={(e) => setBlockedKeywords(e.target.value)}
+                  />
+                  <p className="text-sm text-muted-foreground">Separate with commas. Plurals are matched too.</p>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-background">
+              <CardHeader className="border-b px-6 py-5">
+                <CardTitle className="text-2xl font-semibold text-foreground font-serif-elegant flex items-center gap-2">
+                  <Shuffle className="h-5 w-5" />
+                  Recommendation Mix
+                </CardTitle>
+                <p className="text-muted-foreground text-lg mt-1">
+                  Keep each page of {child.name}&apos;s recommendations varied. Searches and category browsing still show what you asked for.
+                </p>
+              </CardHeader>
+
+              <CardContent className="p-8">
+                <div className="space-y-6">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                    <div className="space-y-2">
+                      <Label htmlFor="maxVideosPerChannel">Most videos per channel</Label>
+                      <Input
+                        id="maxVideosPerChannel"
+                        type="number"
+                        min={1}
+                        max={10}
+                        placeholder="No limit"
+                        value={maxVideosPerChannel}
+                        onChange={(e) => setMaxVideosPerChannel(e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="minVideosPerInterest">At least, per interest</Label>
+                      <Input
+                        id="minVideosPerInterest"
+                        type="number"
+                        min={0}
+                        max={10}
+                        placeholder="0"
+                        value={minVideosPerInterest}
+                        onChange={(e) => setMinVideosPerInterest(e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="minVideosPerSkillArea">At least, per skill area</Label>
+                      <Input
+                        id="minVideosPerSkillArea"
+                        type="number"
+                        min={0}
+                        max={10}
+                        placeholder="0"
+                        value={minVideosPerSkillArea}
+                        onChange={(e) => setMinVideosPerSkillArea(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Skill areas are the growth categories for {child.name}&apos;s age. Minimums are met when matching videos turn up.
+                  </p>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="mixDurations"
+                      checked={mixDurations}
+                      onCheckedChange={(checked) => setMixDurations(checked === true)}
+                    />
+                    <Label htmlFor="mixDurations">Mix short, medium and long videos</Label>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <ChannelRulesCard child={child} />
+
+            {error && (
+              <div className="p-4 rounded-lg border-l-4 bg-red-50 border-red-500 text-red-800">
+                <p className="text-sm font-medium">{error}</p>
+              </div>
+            )}
+
             <div className="flex items-center justify-end gap-4">
               <Button variant="outline" size="lg" asChild>
                 <Link href="/dashboard/children">
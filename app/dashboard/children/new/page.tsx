@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { createChild } from "@/lib/actions";
 import Link from "next/link";
@@ -22,6 +22,12 @@ export default function NewChildPage() {
   const router = useRouter();
   const [selectedInterests, setSelectedInterests] = useState<string[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [timezone, setTimezone] = useState("UTC");
+
+  // Start from this browser's timezone, which is usually where the child lives too
+  useEffect(() => {
+    setTimezone(Intl.DateTimeFormat().resolvedOptions().timeZone);
+  }, []);
 
   const handleInterestToggle = (interest: string) => {
     setSelectedInterests(prev => 
@@ -113,6 +119,23 @@ export default function NewChildPage() {
                       min={new Date(new Date().getFullYear() - 18, 0, 1).toISOString().split('T')[0]}
                     />
                   </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="timezone" className="text-base font-medium">Timezone</Label>
+                    <Input
+                      type="text"
+                      id="timezone"
+                      name="timezone"
+                      required
+                      placeholder="America/Los_Angeles"
+                      className="h-12 text-base"
+                      value={timezone}
+                      onChange={(e) => setTimezone(e.target.value)}
+                    />
+                    <p className="text-sm text-muted-foreground">
+                      Screen time, schedules and viewing hours follow the child's local day.
+                    </p>
+                  </div>
                 </div>
               </CardContent>
             </Card>
@@ -6,6 +6,7 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { SidebarTrigger } from "@/components/ui/sidebar";
+import TimezonePrompt from "@/components/dashboard/timezone-prompt";
 
 export default async function ChildrenPage() {
   const parent = await getCurrentParent();
@@ -48,6 +49,9 @@ export default async function ChildrenPage() {
       {/* Main Content */}
       <div className="flex-1 overflow-auto bg-muted/20">
         <div className="p-8">
+          <TimezonePrompt
+            profiles={parent.children.map(child => ({ id: child.id, name: child.name, timezone: child.timezone }))}
+          />
           {parent.children.length === 0 ? (
             <Card className="bg-background">
               <CardContent className="p-16 text-center">
@@ -0,0 +1,237 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Smartphone, KeyRound, Ban } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { SidebarTrigger } from "@/components/ui/sidebar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface Child {
+  id: string;
+  name: string;
+}
+
+interface PairedDevice {
+  id: string;
+  name: string;
+  childId: string;
+  childName: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+interface PairingCode {
+  code: string;
+  childName: string;
+  expiresAt: string;
+}
+
+export default function DevicesPage() {
+  const [children, setChildren] = useState<Child[]>([]);
+  const [devices, setDevices] = useState<PairedDevice[]>([]);
+  const [selectedChildId, setSelectedChildId] = useState("");
+  const [pairingCode, setPairingCode] = useState<PairingCode | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadChildren();
+    loadDevices();
+  }, []);
+
+  const loadChildren = async () => {
+    try {
+      const response = await fetch('/api/children');
+      if (response.ok) {
+        const data = await response.json();
+        setChildren(data.children || []);
+        if (data.children?.length > 0) {
+          setSelectedChildId(data.children[0].id);
+        }
+      }
+    } catch (error) {
+      console.error("Error loading children:", error);
+    }
+  };
+
+  const loadDevices = async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch('/api/devices');
+      if (response.ok) {
+        const data = await response.json();
+        setDevices(data.devices || []);
+      }
+    } catch (error) {
+      console.error("Error loading devices:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleGenerateCode = async () => {
+    if (!selectedChildId) return;
+
+    setIsGenerating(true);
+    try {
+      const response = await fetch('/api/devices/pairing-codes', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ childId: selectedChildId }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setPairingCode(data);
+      }
+    } catch (error) {
+      console.error("Error generating pairing code:", error);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleRevoke = async (deviceId: string) => {
+    try {
+      const response = await fetch(`/api/devices/${deviceId}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        await loadDevices();
+      }
+    } catch (error) {
+      console.error("Error revoking device:", error);
+    }
+  };
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* Header */}
+      <div className="shrink-0 border-b bg-background">
+        <div className="flex h-20 items-center justify-between px-8">
+          <div className="flex items-center gap-4">
+            <SidebarTrigger className="md:hidden" />
+            <div>
+              <h1 className="text-3xl font-bold text-foreground font-serif-elegant">
+                Kids Devices
+              </h1>
+              <p className="text-muted-foreground mt-1">
+                Pair the kids app with a child profile and revoke access at any time.
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <div className="flex-1 overflow-auto bg-muted/20">
+        <div className="p-8 grid gap-6 lg:grid-cols-3">
+          <Card className="bg-background lg:col-span-1">
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <KeyRound className="mr-2 h-4 w-4" />
+                Pair a Device
+              </CardTitle>
+              <CardDescription>
+                Generate a code and enter it in the kids app. Codes expire after 10 minutes.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {children.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Add a child profile first.</p>
+              ) : (
+                <>
+                  <Select value={selectedChildId} onValueChange={setSelectedChildId}>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select a child" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {children.map((child) => (
+                        <SelectItem key={child.id} value={child.id}>
+                          {child.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button className="w-full" onClick={handleGenerateCode} disabled={isGenerating}>
+                    {isGenerating ? "Generating..." : "Generate Pairing Code"}
+                  </Button>
+                </>
+              )}
+
+              {pairingCode && (
+                <div className="rounded-lg border bg-muted/40 p-4 text-center">
+                  <p className="text-sm text-muted-foreground">Code for {pairingCode.childName}</p>
+                  <p className="text-3xl font-mono font-bold tracking-widest my-2">{pairingCode.code}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Expires at {new Date(pairingCode.expiresAt).toLocaleTimeString()}
+                  </p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="bg-background lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Smartphone className="mr-2 h-4 w-4" />
+                Paired Devices
+              </CardTitle>
+              <CardDescription>
+                Each device can only see the feed of the child it was paired with.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <p className="text-sm text-muted-foreground">Loading devices...</p>
+              ) : devices.length === 0 ? (
+                <div className="text-center py-8">
+                  <Smartphone className="mx-auto h-12 w-12 text-gray-400" />
+                  <h3 className="mt-2 text-sm font-medium text-gray-900">No paired devices</h3>
+                  <p className="mt-1 text-sm text-gray-500">
+                    Generate a pairing code to connect the kids app.
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {devices.map((device) => (
+                    <div
+                      key={device.id}
+                      className="flex items-center justify-between p-4 border border-gray-200 rounded-lg"
+                    >
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <h3 className="text-sm font-medium text-gray-900 truncate">{device.name}</h3>
+                          <Badge variant="secondary" className="text-xs">{device.childName}</Badge>
+                          {device.revokedAt && (
+                            <Badge variant="destructive" className="text-xs">Revoked</Badge>
+                          )}
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">
+                          Paired {new Date(device.createdAt).toLocaleDateString()}
+                          {device.lastUsedAt && ` · Last used ${new Date(device.lastUsedAt).toLocaleString()}`}
+                        </p>
+                      </div>
+                      {!device.revokedAt && (
+                        <Button variant="outline" size="sm" onClick={() => handleRevoke(device.id)}>
+                          <Ban className="mr-2 h-3 w-3" />
+                          Revoke
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
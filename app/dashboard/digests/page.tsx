@@ -0,0 +1,211 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Newspaper, RefreshCw, FileText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { SidebarTrigger } from "@/components/ui/sidebar";
+import { formatDateLabel } from "@/lib/timezone";
+
+interface DigestSummary {
+  id: string;
+  childId: string;
+  childName: string;
+  weekStart: string;
+  weekEnd: string;
+  deliveredAt: string | null;
+  deliveredVia: string | null;
+  deliveryError: string | null;
+}
+
+interface DigestDetail extends DigestSummary {
+  html: string;
+}
+
+export default function DigestsPage() {
+  const [digests, setDigests] = useState<DigestSummary[]>([]);
+  const [selectedDigest, setSelectedDigest] = useState<DigestDetail | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadDigests();
+  }, []);
+
+  const loadDigests = async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch('/api/digests');
+      if (response.ok) {
+        const data = await response.json();
+        setDigests(data.digests || []);
+        if (data.digests?.length > 0 && !selectedDigest) {
+          await loadDigest(data.digests[0].id);
+        }
+      }
+    } catch (error) {
+      console.error("Error loading digests:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadDigest = async (digestId: string) => {
+    try {
+      const response = await fetch(`/api/digests/${digestId}`);
+      if (response.ok) {
+        setSelectedDigest(await response.json());
+      }
+    } catch (error) {
+      console.error("Error loading digest:", error);
+    }
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      const response = await fetch('/api/digests', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({}),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        await loadDigests();
+        if (data.digests?.length > 0) {
+          await loadDigest(data.digests[0].id);
+        }
+      }
+    } catch (error) {
+      console.error("Error generating digests:", error);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* Header */}
+      <div className="shrink-0 border-b bg-background">
+        <div className="flex h-20 items-center justify-between px-8">
+          <div className="flex items-center gap-4">
+            <SidebarTrigger className="md:hidden" />
+            <div>
+              <h1 className="text-3xl font-bold text-foreground font-serif-elegant">
+                Weekly Digests
+              </h1>
+              <p className="text-muted-foreground mt-1">
+                A summary of each child&apos;s week, sent every Monday.
+              </p>
+            </div>
+          </div>
+          <Button onClick={handleGenerate} disabled={isGenerating}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isGenerating ? "animate-spin" : ""}`} />
+            {isGenerating ? "Generating..." : "Refresh Last Week"}
+          </Button>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <div className="flex-1 overflow-auto bg-muted/20">
+        <div className="p-8 grid gap-6 lg:grid-cols-3">
+          <Card className="bg-background lg:col-span-1">
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Newspaper className="mr-2 h-4 w-4" />
+                Archive
+              </CardTitle>
+              <CardDescription>
+                Every digest is kept here, whether or not it was delivered.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <p className="text-sm text-muted-foreground">Loading digests...</p>
+              ) : digests.length === 0 ? (
+                <div className="text-center py-8">
+                  <Newspaper className="mx-auto h-12 w-12 text-gray-400" />
+                  <h3 className="mt-2 text-sm font-medium text-gray-900">No digests yet</h3>
+                  <p className="mt-1 text-sm text-gray-500">
+                    The first one arrives after a full week of activity.
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {digests.map((digest) => (
+                    <button
+                      key={digest.id}
+                      onClick={() => loadDigest(digest.id)}
+                      className={`w-full text-left p-3 border rounded-lg transition-colors ${
+                        selectedDigest?.id === digest.id
+                          ? "border-primary bg-primary/5"
+                          : "border-gray-200 hover:bg-muted/40"
+                      }`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium text-gray-900">{digest.childName}</span>
+                        {digest.deliveredAt ? (
+                          <Badge variant="secondary" className="text-xs">Sent</Badge>
+                        ) : digest.deliveryError ? (
+                          <Badge variant="destructive" className="text-xs">Not sent</Badge>
+                        ) : (
+                          <Badge variant="outline" className="text-xs">Pending</Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {formatDateLabel(digest.weekStart)} – {formatDateLabel(digest.weekEnd)}
+                      </p>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="bg-background lg:col-span-2">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>
+                    {selectedDigest
+                      ? `${selectedDigest.childName}, week of ${formatDateLabel(selectedDigest.weekStart)}`
+                      : "Digest"}
+                  </CardTitle>
+                  <CardDescription>
+                    {selectedDigest?.deliveredAt
+                      ? `Sent by ${selectedDigest.deliveredVia} on ${new Date(selectedDigest.deliveredAt).toLocaleString()}`
+                      : selectedDigest?.deliveryError
+                        ? `Delivery failed: ${selectedDigest.deliveryError}`
+                        : "Select a digest to preview it."}
+                  </CardDescription>
+                </div>
+                {selectedDigest && (
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={`/api/digests/${selectedDigest.id}?format=markdown`} target="_blank" rel="noreferrer">
+                      <FileText className="mr-2 h-3 w-3" />
+                      Markdown
+                    </a>
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {selectedDigest && (
+                <iframe
+                  title="Digest preview"
+                  srcDoc={selectedDigest.html}
+                  sandbox=""
+                  className="w-full h-[70vh] rounded-lg border bg-white"
+                />
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
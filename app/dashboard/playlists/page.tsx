@@ -0,0 +1,452 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { ListVideo, Plus, Trash2, ArrowUp, ArrowDown, X, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { SidebarTrigger } from "@/components/ui/sidebar";
+
+interface ApprovedVideo {
+  id: string;
+  youtubeId: string;
+  title: string;
+  thumbnail: string;
+  channelName: string;
+  duration: string;
+  child: {
+    id: string;
+    name: string;
+  };
+}
+
+interface Child {
+  id: string;
+  name: string;
+}
+
+interface Playlist {
+  id: string;
+  title: string;
+  description: string | null;
+  items: {
+    id: string;
+    position: number;
+    approvedVideoId: string;
+    approvedVideo: {
+      id: string;
+      title: string;
+      thumbnail: string;
+      channelName: string;
+    };
+  }[];
+  assignments: {
+    childId: string;
+    child: Child;
+  }[];
+}
+
+interface PlaylistDraft {
+  id?: string;
+  title: string;
+  description: string;
+  approvedVideoIds: string[];
+  childIds: string[];
+}
+
+const emptyDraft: PlaylistDraft = {
+  title: "",
+  description: "",
+  approvedVideoIds: [],
+  childIds: [],
+};
+
+export default function PlaylistsPage() {
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [approvedVideos, setApprovedVideos] = useState<ApprovedVideo[]>([]);
+  const [children, setChildren] = useState<Child[]>([]);
+  const [draft, setDraft] = useState<PlaylistDraft | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      setIsLoading(true);
+
+      const [playlistsResponse, videosResponse, childrenResponse] = await Promise.all([
+        fetch('/api/playlists'),
+        fetch('/api/approved-videos'),
+        fetch('/api/children'),
+      ]);
+
+      if (playlistsResponse.ok) {
+        const data = await playlistsResponse.json();
+        setPlaylists(data.playlists || []);
+      }
+      if (videosResponse.ok) {
+        const data = await videosResponse.json();
+        setApprovedVideos(data.approvedVideos || []);
+      }
+      if (childrenResponse.ok) {
+        const data = await childrenResponse.json();
+        setChildren(data.children || []);
+      }
+    } catch (error) {
+      console.error("Error loading playlists:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const editPlaylist = (playlist: Playlist) => {
+    setError(null);
+    setDraft({
+      id: playlist.id,
+      title: playlist.title,
+      description: playlist.description || "",
+      approvedVideoIds: playlist.items.map(item => item.approvedVideoId),
+      childIds: playlist.assignments.map(assignment => assignment.childId),
+    });
+  };
+
+  const updateDraft = (changes: Partial<PlaylistDraft>) => {
+    setDraft(prev => prev ? { ...prev, ...changes } : prev);
+  };
+
+  const toggleChild = (childId: string) => {
+    if (!draft) return;
+    updateDraft({
+      childIds: draft.childIds.includes(childId)
+        ? draft.childIds.filter(id => id !== childId)
+        : [...draft.childIds, childId],
+    });
+  };
+
+  const addVideo = (videoId: string) => {
+    if (!draft || draft.approvedVideoIds.includes(videoId)) return;
+    updateDraft({ approvedVideoIds: [...draft.approvedVideoIds, videoId] });
+  };
+
+  const removeVideo = (videoId: string) => {
+    if (!draft) return;
+    updateDraft({ approvedVideoIds: draft.approvedVideoIds.filter(id => id !== videoId) });
+  };
+
+  const moveVideo = (index: number, direction: -1 | 1) => {
+    if (!draft) return;
+    const target = index + direction;
+    if (target < 0 || target >= draft.approvedVideoIds.length) return;
+
+    const reordered = [...draft.approvedVideoIds];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    updateDraft({ approvedVideoIds: reordered });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(draft.id ? `/api/playlists/${draft.id}` : '/api/playlists', {
+        method: draft.id ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          title: draft.title,
+          description: draft.description,
+          approvedVideoIds: draft.approvedVideoIds,
+          childIds: draft.childIds,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || "Failed to save playlist");
+        return;
+      }
+
+      setDraft(null);
+      await loadData();
+    } catch (error) {
+      console.error("Error saving playlist:", error);
+      setError("Failed to save playlist");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (playlistId: string) => {
+    if (!confirm("Delete this playlist? Progress for your children will be lost.")) return;
+
+    try {
+      const response = await fetch(`/api/playlists/${playlistId}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        if (draft?.id === playlistId) {
+          setDraft(null);
+        }
+        await loadData();
+      }
+    } catch (error) {
+      console.error("Error deleting playlist:", error);
+    }
+  };
+
+  const videosById = new Map(approvedVideos.map(video => [video.id, video]));
+  const availableVideos = draft
+    ? approvedVideos.filter(video => !draft.approvedVideoIds.includes(video.id))
+    : [];
+
+  if (isLoading) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <div className="text-center">
+          <div className="text-lg">Loading...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* Header */}
+      <div className="shrink-0 border-b bg-background">
+        <div className="flex h-20 items-center justify-between px-8">
+          <div className="flex items-center gap-4">
+            <SidebarTrigger className="md:hidden" />
+            <div>
+              <h1 className="text-3xl font-bold text-foreground font-serif-elegant">
+                Playlists
+              </h1>
+              <p className="text-muted-foreground mt-1">
+                Group approved videos into learning paths your children watch in order.
+              </p>
+            </div>
+          </div>
+          <Button size="lg" onClick={() => { setError(null); setDraft({ ...emptyDraft }); }}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Playlist
+          </Button>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <div className="flex-1 overflow-auto bg-muted/20">
+        <div className="p-6 grid gap-6 lg:grid-cols-5">
+          {/* Playlist list */}
+          <div className="space-y-4 lg:col-span-2">
+            {playlists.length === 0 ? (
+              <Card className="bg-background">
+                <CardContent className="p-12 text-center">
+                  <ListVideo className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+                  <h3 className="text-xl font-semibold text-foreground mb-2 font-serif-elegant">No playlists yet</h3>
+                  <p className="text-muted-foreground">
+                    Create a playlist like &quot;Space week&quot; from your approved videos.
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              playlists.map((playlist) => (
+                <Card
+                  key={playlist.id}
+                  className={`bg-background cursor-pointer transition-colors ${
+                    draft?.id === playlist.id ? 'border-primary' : 'hover:border-gray-300'
+                  }`}
+                  onClick={() => editPlaylist(playlist)}
+                >
+                  <CardHeader>
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <CardTitle className="text-lg font-serif-elegant">{playlist.title}</CardTitle>
+                        {playlist.description && (
+                          <CardDescription className="mt-1">{playlist.description}</CardDescription>
+                        )}
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          handleDelete(playlist.id);
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="pt-0">
+                    <p className="text-sm text-muted-foreground mb-2">
+                      {playlist.items.length} video{playlist.items.length !== 1 ? 's' : ''}
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      {playlist.assignments.length === 0 ? (
+                        <Badge variant="outline" className="text-xs">Not assigned</Badge>
+                      ) : (
+                        playlist.assignments.map((assignment) => (
+                          <Badge key={assignment.childId} variant="secondary" className="text-xs">
+                            {assignment.child.name}
+                          </Badge>
+                        ))
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </div>
+
+          {/* Builder */}
+          <div className="lg:col-span-3">
+            {draft ? (
+              <Card className="bg-background">
+                <CardHeader className="border-b">
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="font-serif-elegant">
+                      {draft.id ? "Edit Playlist" : "New Playlist"}
+                    </CardTitle>
+                    <Button variant="ghost" size="sm" onClick={() => setDraft(null)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-6 pt-6">
+                  <div className="space-y-2">
+                    <Label htmlFor="playlist-title">Title</Label>
+                    <Input
+                      id="playlist-title"
+                      value={draft.title}
+                      onChange={(event) => updateDraft({ title: event.target.value })}
+                      placeholder="Fractions intro"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="playlist-description">Description</Label>
+                    <Input
+                      id="playlist-description"
+                      value={draft.description}
+                      onChange={(event) => updateDraft({ description: event.target.value })}
+                      placeholder="Optional"
+                    />
+                  </div>
+
+                  <div>
+                    <Label className="mb-2 block">Assign to</Label>
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                      {children.map((child) => (
+                        <div
+                          key={child.id}
+                          className={`p-3 border rounded-lg cursor-pointer transition-colors text-center text-sm font-medium ${
+                            draft.childIds.includes(child.id)
+                              ? 'border-primary bg-primary/5'
+                              : 'border-gray-200 hover:bg-gray-50'
+                          }`}
+                          onClick={() => toggleChild(child.id)}
+                        >
+                          {child.name}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div>
+                    <Label className="mb-2 block">Videos in order</Label>
+                    {draft.approvedVideoIds.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">Add videos from the list below.</p>
+                    ) : (
+                      <div className="space-y-2">
+                        {draft.approvedVideoIds.map((videoId, index) => {
+                          const video = videosById.get(videoId);
+                          return (
+                            <div key={videoId} className="flex items-center gap-3 p-2 border rounded-lg">
+                              <span className="w-6 text-center text-sm font-semibold text-muted-foreground">{index + 1}</span>
+                              {video && (
+                                <img src={video.thumbnail} alt={video.title} className="w-20 h-12 object-cover rounded" />
+                              )}
+                              <div className="flex-1 min-w-0">
+                                <p className="text-sm font-medium truncate">{video?.title || "Unavailable video"}</p>
+                                <p className="text-xs text-muted-foreground truncate">{video?.channelName}</p>
+                              </div>
+                              <Button variant="ghost" size="sm" onClick={() => moveVideo(index, -1)} disabled={index === 0}>
+                                <ArrowUp className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => moveVideo(index, 1)}
+                                disabled={index === draft.approvedVideoIds.length - 1}
+                              >
+                                <ArrowDown className="h-4 w-4" />
+                              </Button>
+                              <Button variant="ghost" size="sm" onClick={() => removeVideo(videoId)}>
+                                <X className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+
+                  <div>
+                    <Label className="mb-2 block">Approved videos</Label>
+                    <div className="max-h-72 overflow-y-auto space-y-2">
+                      {availableVideos.map((video) => (
+                        <div
+                          key={video.id}
+                          className="flex items-center gap-3 p-2 border border-gray-200 rounded-lg cursor-pointer hover:bg-gray-50"
+                          onClick={() => addVideo(video.id)}
+                        >
+                          <img src={video.thumbnail} alt={video.title} className="w-20 h-12 object-cover rounded" />
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm font-medium truncate">{video.title}</p>
+                            <p className="text-xs text-muted-foreground truncate">
+                              {video.channelName} · approved for {video.child.name}
+                            </p>
+                          </div>
+                          <Plus className="h-4 w-4 text-muted-foreground" />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  {error && (
+                    <div className="rounded-md bg-red-50 border border-red-200 p-3 text-sm text-red-700">
+                      {error}
+                    </div>
+                  )}
+
+                  <div className="flex justify-end gap-3">
+                    <Button variant="outline" onClick={() => setDraft(null)}>
+                      Cancel
+                    </Button>
+                    <Button onClick={handleSave} disabled={isSaving || !draft.title.trim()}>
+                      {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Save Playlist
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ) : (
+              <Card className="bg-background">
+                <CardContent className="p-12 text-center text-muted-foreground">
+                  Select a playlist to edit it, or create a new one.
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
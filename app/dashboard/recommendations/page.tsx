@@ -1,20 +1,23 @@
 "use client";
 
-import { useState, useEffect, useCallback, useMemo } from "react";
-import { getCurrentParent, approveVideo } from "@/lib/actions";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { getCurrentParent, approveVideo, setChannelRule, overrideContentFilter } from "@/lib/actions";
 import { calculateAge } from "@/lib/utils";
-import { Play, User, Loader2, RefreshCw, Search } from "lucide-react";
+import { Play, User, Loader2, RefreshCw, Search, EyeOff, Sparkles } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { SidebarTrigger } from "@/components/ui/sidebar";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
 import VideoCard from "@/components/dashboard/video-card";
 import VideoDetailModal from "@/components/dashboard/video-detail-modal";
-import Pagination from "@/components/dashboard/pagination";
 import { SearchFilters } from "@/lib/youtube";
 import { requestQueue } from "@/lib/throttle";
 import { getAgeGroupInfo } from "@/lib/growth-categories";
+import type { SuitabilityAssessment } from "@/lib/suitability";
+import type { SmartSearchPlan } from "@/lib/smart-search";
 
 interface VideoRecommendation {
   id: string;
@@ -22,12 +25,25 @@ interface VideoRecommendation {
   description: string;
   thumbnail: string;
   highResThumbnail: string;
+  channelId: string;
   channelName: string;
   duration: string;
   publishedAt: string;
   viewCount: string;
   category: string;
   summary: string;
+  tags?: string[];
+  trustedChannel?: boolean;
+  whyRecommended?: string[];
+  suitability?: SuitabilityAssessment | null;
+}
+
+// A recommendation the child's content filter hid, and why
+interface FilteredRecommendation extends VideoRecommendation {
+  filterReason: {
+    keyword: string;
+    field: "title" | "description" | "tags";
+  };
 }
 
 interface Child {
@@ -37,7 +53,7 @@ interface Child {
   interests: string[];
 }
 
-const RESULTS_PER_PAGE = 50;
+const RESULTS_PER_PAGE = 24;
 
 // Helper function to get appropriate icons for categories
 function getCategoryIcon(categoryId: string): string {
@@ -72,6 +88,8 @@ export default function RecommendationsPage() {
   const [children, setChildren] = useState<Child[]>([]);
   const [selectedChildId, setSelectedChildId] = useState<string>("");
   const [recommendations, setRecommendations] = useState<VideoRecommendation[]>([]);
+  const [hiddenVideos, setHiddenVideos] = useState<FilteredRecommendation[]>([]);
+  const [showHidden, setShowHidden] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [approvingIds, setApprovingIds] = useState<Set<string>>(new Set());
   const [rateLimitError, setRateLimitError] = useState<string | null>(null);
@@ -83,6 +101,8 @@ export default function RecommendationsPage() {
   // Search and filters
   const [searchQuery, setSearchQuery] = useState(""); // What user is typing
   const [activeSearchQuery, setActiveSearchQuery] = useState(""); // What we actually search for
+  const [smartSearch, setSmartSearch] = useState(false); // Treat the search as a plain-language request
+  const [smartPlan, setSmartPlan] = useState<SmartSearchPlan | null>(null);
   const [filters, setFilters] = useState<SearchFilters>({
     category: 'all',
     duration: 'any',
@@ -90,11 +110,11 @@ export default function RecommendationsPage() {
     sortBy: 'relevance'
   });
   
-  // Pagination
-  const [currentPage, setCurrentPage] = useState(1);
+  // Infinite scroll: each page's token comes back with it, and reaching the sentinel loads the next
   const [totalResults, setTotalResults] = useState(0);
   const [nextPageToken, setNextPageToken] = useState<string | undefined>();
-  const [pageTokens, setPageTokens] = useState<Record<number, string>>({});
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     async function loadChildren() {
@@ -166,15 +186,26 @@ export default function RecommendationsPage() {
 
   // Optimized fetch function with caching and request queue
   const fetchRecommendationsData = useCallback(async (pageToken?: string) => {
-    if (!selectedChildId) return { recommendations: [], totalResults: 0, nextPageToken: undefined };
+    if (!selectedChildId) return { recommendations: [], filtered: [], totalResults: 0, nextPageToken: undefined, plan: null };
     
-    const requestId = `recommendations-${selectedChildId}-${activeSearchQuery}-${JSON.stringify(filters)}-${pageToken || 'page1'}`;
+    const useSmartSearch = smartSearch && !!activeSearchQuery.trim();
+    const requestId = `recommendations-${selectedChildId}-${useSmartSearch ? 'smart-' : ''}${activeSearchQuery}-${JSON.stringify(filters)}-${pageToken || 'page1'}`;
     
     return requestQueue.add(requestId, async () => {
-      console.log('🔍 Fetching recommendations:', { selectedChildId, activeSearchQuery, filters, pageToken });
+      console.log('🔍 Fetching recommendations:', { selectedChildId, activeSearchQuery, useSmartSearch, filters, pageToken });
       
-      const url = buildApiUrl(pageToken);
-      const response = await fetch(url);
+      // Smart search returns a single ranked page, so there's no page token to pass
+      const response = useSmartSearch
+        ? await fetch('/api/recommendations/smart', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              childId: selectedChildId,
+              query: activeSearchQuery.trim(),
+              maxResults: RESULTS_PER_PAGE,
+            }),
+          })
+        : await fetch(buildApiUrl(pageToken));
       
       if (!response.ok) {
         const errorData = await response.json();
@@ -213,11 +244,13 @@ export default function RecommendationsPage() {
 
       return {
         recommendations: data.recommendations || [],
+        filtered: (data.filtered || []) as FilteredRecommendation[],
         totalResults: data.totalResults || 0,
-        nextPageToken: data.nextPageToken
+        nextPageToken: data.nextPageToken,
+        plan: (data.plan || null) as SmartSearchPlan | null
       };
     });
-  }, [selectedChildId, buildApiUrl, activeSearchQuery, filters]);
+  }, [selectedChildId, buildApiUrl, activeSearchQuery, filters, smartSearch]);
 
   // Simple loading state management
   const [lastFetchedKey, setLastFetchedKey] = useState<string>('');
@@ -234,8 +267,7 @@ export default function RecommendationsPage() {
       setFilters(prev => ({ ...prev, category: 'all' }));
     }
     
-    setCurrentPage(1);
-    setPageTokens({});
+    setNextPageToken(undefined);
     setRecommendations([]); // Clear current recommendations immediately
     setTotalResults(0);
     setLastFetchedKey(''); // Reset to trigger new fetch
@@ -251,26 +283,15 @@ export default function RecommendationsPage() {
     }
     
     setFilters(newFilters);
-    setCurrentPage(1);
-    setPageTokens({});
+    setNextPageToken(undefined);
     setRecommendations([]); // Clear current recommendations immediately
     setTotalResults(0);
     setLastFetchedKey(''); // Reset to trigger new fetch
   }, [filters.category]);
 
-  const handlePageChange = useCallback((page: number) => {
-    if (page === currentPage) return;
-    
-    setCurrentPage(page);
-    
-    // Scroll to top
-    window.scrollTo({ top: 0, behavior: 'smooth' });
-  }, [currentPage]);
-
   const handleChildChange = useCallback((childId: string) => {
     setSelectedChildId(childId);
-    setCurrentPage(1);
-    setPageTokens({});
+    setNextPageToken(undefined);
     setRecommendations([]);
     setTotalResults(0);
     setSearchQuery("");
@@ -284,8 +305,7 @@ export default function RecommendationsPage() {
   }, []);
 
   const handleRefresh = useCallback(() => {
-    setCurrentPage(1);
-    setPageTokens({});
+    setNextPageToken(undefined);
     setLastFetchedKey(''); // Reset to trigger new fetch
   }, []);
 
@@ -294,7 +314,7 @@ export default function RecommendationsPage() {
     if (!selectedChildId) return;
     
     const timeoutId = setTimeout(async () => {
-      const currentKey = `${selectedChildId}-${activeSearchQuery}-${JSON.stringify(filters)}-${currentPage}`;
+      const currentKey = `${selectedChildId}-${smartSearch}-${activeSearchQuery}-${JSON.stringify(filters)}`;
       
       // Prevent duplicate requests
       if (lastFetchedKey === currentKey) {
@@ -310,18 +330,14 @@ export default function RecommendationsPage() {
         const result = await fetchRecommendationsData();
         
         setRecommendations(result.recommendations);
+        setHiddenVideos(result.filtered);
+        setSmartPlan(result.plan);
         setTotalResults(result.totalResults);
         setNextPageToken(result.nextPageToken);
-        
-        if (result.nextPageToken) {
-          setPageTokens(prev => ({
-            ...prev,
-            [currentPage + 1]: result.nextPageToken
-          }));
-        }
       } catch (error) {
         console.error('❌ Error fetching recommendations:', error);
         setRecommendations([]);
+        setHiddenVideos([]);
         setTotalResults(0);
         
         // Handle rate limiting
@@ -335,7 +351,45 @@ export default function RecommendationsPage() {
     }, 300); // Increased delay to reduce rapid API calls
     
     return () => clearTimeout(timeoutId);
-  }, [selectedChildId, activeSearchQuery, filters, currentPage, lastFetchedKey, fetchRecommendationsData]);
+  }, [selectedChildId, smartSearch, activeSearchQuery, filters, lastFetchedKey, fetchRecommendationsData]);
+
+  // Append the next page, skipping anything already on screen
+  const loadMore = useCallback(async () => {
+    if (!nextPageToken || isLoading || isLoadingMore) return;
+
+    setIsLoadingMore(true);
+    try {
+      const result = await fetchRecommendationsData(nextPageToken);
+
+      setRecommendations(prev => {
+        const shownIds = new Set(prev.map(video => video.id));
+        return [...prev, ...result.recommendations.filter((video: VideoRecommendation) => !shownIds.has(video.id))];
+      });
+      setHiddenVideos(prev => {
+        const hiddenIds = new Set(prev.map(video => video.id));
+        return [...prev, ...result.filtered.filter(video => !hiddenIds.has(video.id))];
+      });
+      setNextPageToken(result.nextPageToken);
+    } catch (error) {
+      console.error('❌ Error loading more recommendations:', error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [nextPageToken, isLoading, isLoadingMore, fetchRecommendationsData]);
+
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextPageToken) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting) {
+        loadMore();
+      }
+    }, { rootMargin: '400px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextPageToken, loadMore]);
 
 
   const handleShowDetails = (video: VideoRecommendation) => {
@@ -366,6 +420,7 @@ export default function RecommendationsPage() {
         channelName: video.channelName,
         duration: video.duration,
         summary: video.summary,
+        suitability: video.suitability,
       });
       
       // Remove approved video from recommendations
@@ -387,6 +442,45 @@ export default function RecommendationsPage() {
     }
   };
 
+  // Let a filtered video through for this child and move it into the results
+  const handleShowHidden = async (video: FilteredRecommendation) => {
+    try {
+      await overrideContentFilter(selectedChildId, video.id);
+
+      setHiddenVideos(prev => prev.filter(v => v.id !== video.id));
+      setRecommendations(prev => [video, ...prev]);
+    } catch (error) {
+      console.error("Error overriding content filter:", error);
+    }
+  };
+
+  // Channel rules from the cards apply to the whole family; per-child exceptions live on the child's page
+  const handleChannelRule = async (video: VideoRecommendation, rule: "ALLOW" | "BLOCK") => {
+    if (rule === "BLOCK" && !confirm(`Hide every video from ${video.channelName}?`)) return;
+
+    try {
+      await setChannelRule({
+        channelId: video.channelId,
+        channelName: video.channelName,
+        rule,
+        childId: null,
+      });
+
+      if (rule === "BLOCK") {
+        setRecommendations(prev => prev.filter(v => v.channelId !== video.channelId));
+        if (selectedVideo?.channelId === video.channelId) {
+          handleCloseModal();
+        }
+      } else {
+        setRecommendations(prev => prev.map(v =>
+          v.channelId === video.channelId ? { ...v, trustedChannel: true } : v
+        ));
+      }
+    } catch (error) {
+      console.error("Error saving channel rule:", error);
+    }
+  };
+
   if (children.length === 0) {
     return (
       <div className="flex h-full flex-col">
@@ -534,7 +628,7 @@ export default function RecommendationsPage() {
                 </div>
                 <Input
                   type="text"
-                  placeholder="Search for videos, topics, or content..."
+                  placeholder={smartSearch ? 'Describe what you\'re looking for, e.g. "something calm about dinosaurs before bed"' : "Search for videos, topics, or content..."}
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                   onKeyPress={(e) => {
@@ -565,12 +659,42 @@ export default function RecommendationsPage() {
                 </Button>
               </div>
 
+              {/* Smart Search Toggle */}
+              <div className="flex items-center gap-2 mb-3">
+                <Checkbox
+                  id="smart-search"
+                  checked={smartSearch}
+                  disabled={isLoading}
+                  onCheckedChange={(checked) => {
+                    setSmartSearch(checked === true);
+                    setNextPageToken(undefined);
+                  }}
+                />
+                <Label htmlFor="smart-search" className="text-xs text-muted-foreground flex items-center cursor-pointer">
+                  <Sparkles className="h-3 w-3 mr-1 text-primary" />
+                  Smart search: describe what you want in your own words and we'll work out the searches
+                </Label>
+              </div>
+
               {/* Search Mode Notice */}
               {searchQuery.trim() && (
                 <div className="mb-3 p-2 bg-primary/5 border border-primary/20 rounded-md">
                   <p className="text-xs text-foreground">
-                    <strong>Search Mode:</strong> Showing results for "{searchQuery}"
+                    <strong>{smartSearch ? 'Smart Search:' : 'Search Mode:'}</strong> Showing results for "{searchQuery}"
                   </p>
+                  {smartSearch && smartPlan && activeSearchQuery && (
+                    <div className="flex flex-wrap items-center gap-1 mt-2">
+                      <span className="text-xs text-muted-foreground mr-1">Searched for:</span>
+                      {smartPlan.queries.map(query => (
+                        <Badge key={query} variant="secondary" className="text-xs">{query}</Badge>
+                      ))}
+                      {Object.entries(smartPlan.filters)
+                        .filter(([, value]) => value && value !== 'any' && value !== 'all' && value !== 'relevance')
+                        .map(([name, value]) => (
+                          <Badge key={name} variant="outline" className="text-xs">{name}: {value}</Badge>
+                        ))}
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -625,16 +749,11 @@ export default function RecommendationsPage() {
                 {activeSearchQuery ? (
                   <>Found <strong className="text-foreground">{totalResults.toLocaleString()}</strong>{totalResults >= 1000 ? '+' : ''} videos for "{activeSearchQuery}"</>
                 ) : (
-                  <>Showing <strong className="text-foreground">{totalResults.toLocaleString()}</strong>{totalResults >= 1000 ? '+' : ''} recommended videos</>
+                  <>Showing recommended videos, with more as you scroll</>
                 )}
                 {filters.category !== 'all' && <> in <strong className="text-foreground">{filters.category}</strong></>}
               </p>
-              <div className="flex items-center gap-2">
-                <span>Page {currentPage}</span>
-                {totalResults > RESULTS_PER_PAGE && (
-                  <span>of {Math.ceil(totalResults / RESULTS_PER_PAGE)}</span>
-                )}
-              </div>
+              <span>{recommendations.length} loaded</span>
             </div>
           )}
 
@@ -706,6 +825,40 @@ export default function RecommendationsPage() {
             </Card>
           )}
 
+          {/* Hidden by content filters */}
+          {hiddenVideos.length > 0 && (
+            <Card className="bg-background">
+              <CardContent className="p-4">
+                <div className="flex items-center justify-between">
+                  <p className="flex items-center text-sm text-muted-foreground">
+                    <EyeOff className="h-4 w-4 mr-2" />
+                    {hiddenVideos.length} {hiddenVideos.length === 1 ? 'video was' : 'videos were'} hidden by content filters
+                  </p>
+                  <Button variant="ghost" size="sm" onClick={() => setShowHidden(prev => !prev)}>
+                    {showHidden ? 'Hide list' : 'Review'}
+                  </Button>
+                </div>
+                {showHidden && (
+                  <div className="mt-4 space-y-3">
+                    {hiddenVideos.map((video) => (
+                      <div key={video.id} className="flex items-center justify-between gap-4 p-3 border border-gray-200 rounded-lg">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-foreground truncate">{video.title}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {video.channelName} · matched &quot;{video.filterReason.keyword}&quot; in the {video.filterReason.field}
+                          </p>
+                        </div>
+                        <Button variant="outline" size="sm" className="flex-shrink-0" onClick={() => handleShowHidden(video)}>
+                          Show anyway
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Video Grid */}
           {recommendations.length > 0 && (
             <>
@@ -717,21 +870,26 @@ export default function RecommendationsPage() {
                     childId={selectedChildId}
                     onApprove={handleApprove}
                     onShowDetails={handleShowDetails}
+                    onChannelRule={handleChannelRule}
                     isApproving={approvingIds.has(video.id)}
                   />
                 ))}
               </div>
 
-              {/* Compact Pagination */}
-              <div className="bg-muted/30 px-4 py-3 rounded-lg">
-                <Pagination
-                  currentPage={currentPage}
-                  totalResults={totalResults}
-                  resultsPerPage={RESULTS_PER_PAGE}
-                  onPageChange={handlePageChange}
-                  hasNextPage={!!nextPageToken}
-                  isLoading={isLoading}
-                />
+              {/* Infinite scroll */}
+              <div ref={loadMoreRef} className="flex justify-center py-4 text-sm text-muted-foreground">
+                {isLoadingMore ? (
+                  <span className="flex items-center">
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Loading more videos...
+                  </span>
+                ) : nextPageToken ? (
+                  <Button variant="outline" size="sm" onClick={loadMore} disabled={isLoading}>
+                    Load more
+                  </Button>
+                ) : (
+                  <span>That&apos;s everything for now</span>
+                )}
               </div>
             </>
           )}
@@ -743,6 +901,7 @@ export default function RecommendationsPage() {
         <VideoDetailModal
           video={selectedVideo}
           childId={selectedChildId}
+          childAge={calculateAge(children.find(c => c.id === selectedChildId)?.birthday)}
           isOpen={isModalOpen}
           onClose={handleCloseModal}
           onApprove={handleApprove}
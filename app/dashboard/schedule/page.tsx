@@ -1,11 +1,12 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { Calendar, Users, VideoIcon } from "lucide-react";
+import { Calendar, Users, VideoIcon, Repeat, Hourglass } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import ScheduleVideoModal from "@/components/dashboard/schedule-video-modal";
+import ScheduleVideoModal, { Recurrence, ScheduleRule } from "@/components/dashboard/schedule-video-modal";
+import { formatDateLabel, getTodayDateString } from "@/lib/timezone";
 
 interface ScheduledVideo {
   id: string;
@@ -19,9 +20,29 @@ interface ScheduledVideo {
   carriedOver: boolean;
 }
 
+interface ScheduleRuleSummary extends ScheduleRule {
+  description: string;
+}
+
+interface StaleVideo {
+  id: string;
+  childName: string;
+  title: string;
+  originalDate: string;
+  reason: "MAX_DAYS_EXCEEDED" | "EXPIRED";
+}
+
+const STALE_REASON_LABELS: Record<StaleVideo["reason"], string> = {
+  MAX_DAYS_EXCEEDED: "Carried over too many days",
+  EXPIRED: "Expired at the end of the day",
+};
+
 export default function SchedulePage() {
-  const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
+  const [selectedDate, setSelectedDate] = useState(getTodayDateString());
   const [scheduledVideos, setScheduledVideos] = useState<ScheduledVideo[]>([]);
+  const [scheduleRules, setScheduleRules] = useState<ScheduleRuleSummary[]>([]);
+  const [staleVideos, setStaleVideos] = useState<StaleVideo[]>([]);
+  const [editingRule, setEditingRule] = useState<ScheduleRuleSummary | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isScheduling, setIsScheduling] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
@@ -34,10 +55,18 @@ export default function SchedulePage() {
   const loadScheduledVideos = async () => {
     try {
       setIsLoading(true);
-      const response = await fetch('/api/scheduled-videos');
+      const [response, staleResponse] = await Promise.all([
+        fetch('/api/scheduled-videos'),
+        fetch('/api/scheduled-videos/stale'),
+      ]);
       if (response.ok) {
         const data = await response.json();
         setScheduledVideos(data.scheduledVideos || []);
+        setScheduleRules(data.scheduleRules || []);
+      }
+      if (staleResponse.ok) {
+        const data = await staleResponse.json();
+        setStaleVideos(data.staleVideos || []);
       }
       setIsLoading(false);
     } catch (error) {
@@ -46,7 +75,7 @@ export default function SchedulePage() {
     }
   };
 
-  const handleScheduleVideo = async (videoIds: string[], childrenIds: string[], date: string) => {
+  const handleScheduleVideo = async (videoIds: string[], childrenIds: string[], date: string, recurrence: Recurrence | null) => {
     setIsScheduling(true);
     try {
       const response = await fetch('/api/scheduled-videos', {
@@ -58,6 +87,7 @@ export default function SchedulePage() {
           approvedVideoIds: videoIds,
           childrenIds,
           scheduledDate: date,
+          recurrence,
         }),
       });
 
@@ -85,6 +115,73 @@ export default function SchedulePage() {
     }
   };
 
+  const handleUpdateRule = async (ruleId: string, startDate: string, recurrence: Recurrence) => {
+    setIsScheduling(true);
+    try {
+      const response = await fetch(`/api/scheduled-videos/rules/${ruleId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ startDate, recurrence }),
+      });
+
+      if (response.ok) {
+        await loadScheduledVideos(); // Reload the list
+      }
+    } catch (error) {
+      console.error("Error updating recurring schedule:", error);
+    } finally {
+      setIsScheduling(false);
+    }
+  };
+
+  const handleRemoveRule = async (ruleId: string) => {
+    try {
+      const response = await fetch(`/api/scheduled-videos/rules/${ruleId}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        await loadScheduledVideos(); // Reload the list
+      }
+    } catch (error) {
+      console.error("Error removing recurring schedule:", error);
+    }
+  };
+
+  const handleRescheduleStale = async (staleId: string) => {
+    try {
+      const response = await fetch(`/api/scheduled-videos/stale/${staleId}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ date: selectedDate }),
+      });
+
+      if (response.ok) {
+        await loadScheduledVideos(); // Reload the list
+      }
+    } catch (error) {
+      console.error("Error rescheduling stale video:", error);
+    }
+  };
+
+  const handleDismissStale = async (staleId: string) => {
+    try {
+      const response = await fetch(`/api/scheduled-videos/stale/${staleId}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        setStaleVideos(prev => prev.filter(video => video.id !== staleId));
+      }
+    } catch (error) {
+      console.error("Error dismissing stale video:", error);
+    }
+  };
+
   const filteredVideos = scheduledVideos.filter(video => video.scheduledDate === selectedDate);
 
   return (
@@ -125,7 +222,7 @@ export default function SchedulePage() {
         <div className="lg:col-span-3">
           <Card>
             <CardHeader>
-              <CardTitle>Scheduled Videos for {new Date(selectedDate).toLocaleDateString()}</CardTitle>
+              <CardTitle>Scheduled Videos for {formatDateLabel(selectedDate)}</CardTitle>
               <CardDescription>
                 Videos scheduled to appear on the kids' screen
               </CardDescription>
@@ -205,15 +302,121 @@ export default function SchedulePage() {
               )}
             </CardContent>
           </Card>
+
+          {/* Recurring Schedules */}
+          {scheduleRules.length > 0 && (
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Repeat className="mr-2 h-4 w-4" />
+                  Recurring Schedules
+                </CardTitle>
+                <CardDescription>
+                  These videos show up automatically on matching days
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {scheduleRules.map((rule) => (
+                    <div
+                      key={rule.id}
+                      className="flex items-center justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50"
+                    >
+                      <div className="min-w-0">
+                        <h3 className="text-sm font-medium text-gray-900 truncate">{rule.title}</h3>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {rule.description} · from {formatDateLabel(rule.startDate)}
+                        </p>
+                        <Badge variant="secondary" className="text-xs mt-2">{rule.childName}</Badge>
+                      </div>
+                      <div className="flex-shrink-0 space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            setEditingRule(rule);
+                            setIsModalOpen(true);
+                          }}
+                        >
+                          Edit
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRemoveRule(rule.id)}
+                        >
+                          Remove
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Expired videos waiting for review */}
+          {staleVideos.length > 0 && (
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Hourglass className="mr-2 h-4 w-4" />
+                  Needs Review
+                </CardTitle>
+                <CardDescription>
+                  Unwatched videos that expired under each child&apos;s carryover settings
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {staleVideos.map((video) => (
+                    <div
+                      key={video.id}
+                      className="flex items-center justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50"
+                    >
+                      <div className="min-w-0">
+                        <h3 className="text-sm font-medium text-gray-900 truncate">{video.title}</h3>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {STALE_REASON_LABELS[video.reason]} · first scheduled {formatDateLabel(video.originalDate)}
+                        </p>
+                        <Badge variant="secondary" className="text-xs mt-2">{video.childName}</Badge>
+                      </div>
+                      <div className="flex-shrink-0 space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRescheduleStale(video.id)}
+                        >
+                          Schedule for {formatDateLabel(selectedDate)}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDismissStale(video.id)}
+                        >
+                          Dismiss
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
 
       {/* Schedule Video Modal */}
       <ScheduleVideoModal
         isOpen={isModalOpen}
-        onClose={() => setIsModalOpen(false)}
+        onClose={() => {
+          setIsModalOpen(false);
+          setEditingRule(null);
+        }}
         onSchedule={handleScheduleVideo}
         isScheduling={isScheduling}
+        editingRule={editingRule}
+        onUpdateRule={handleUpdateRule}
       />
     </div>
   );
@@ -2,7 +2,7 @@
 
 import { useState, memo, useCallback } from "react";
 import Image from "next/image";
-import { Play, Clock, User, Eye, Loader2, ExternalLink, Sparkles, Trash2 } from "lucide-react";
+import { Play, Clock, User, Eye, Loader2, ExternalLink, Sparkles, Trash2, Film, Plane } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -19,6 +19,8 @@ interface ApprovedVideoCardProps {
     summary: string;
     watched: boolean;
     createdAt: Date;
+    source?: "YOUTUBE" | "VIMEO" | "STREAM_URL" | "LOCAL_MEDIA";
+    mediaUrl?: string | null;
   };
   childId: string;
   onRemove: (videoId: string) => void;
@@ -28,7 +30,15 @@ interface ApprovedVideoCardProps {
 
 function ApprovedVideoCard({ video, childId, onRemove, onShowDetails, isRemoving = false }: ApprovedVideoCardProps) {
   const [imageError, setImageError] = useState(false);
-  const [imageLoading, setImageLoading] = useState(true);
+  const [imageLoading, setImageLoading] = useState(!!video.thumbnail);
+  // Only YouTube videos have captions to summarise; everything else plays from its own link
+  const isYouTube = !video.source || video.source === "YOUTUBE";
+  const isLocalMedia = video.source === "LOCAL_MEDIA";
+  const watchUrl = isYouTube
+    ? `https://www.youtube.com/watch?v=${video.youtubeId}`
+    : video.source === "VIMEO"
+      ? `https://vimeo.com/${video.youtubeId.replace(/^vimeo-/, "")}`
+      : video.mediaUrl || "";
 
   const formatApprovedDate = useCallback((dateString: Date) => {
     const date = new Date(dateString);
@@ -65,21 +75,39 @@ function ApprovedVideoCard({ video, childId, onRemove, onShowDetails, isRemoving
             <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
           </div>
         )}
-        <Image
-          src={video.thumbnail}
-          alt={video.title}
-          fill
-          className={`object-cover transition-opacity duration-200 ${imageLoading ? 'opacity-0' : 'opacity-100'}`}
-          onLoad={handleImageLoad}
-          onError={handleImageError}
-          sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
-        />
+        {video.thumbnail && !imageError ? (
+          <Image
+            src={video.thumbnail}
+            alt={video.title}
+            fill
+            unoptimized={!isYouTube}
+            className={`object-cover transition-opacity duration-200 ${imageLoading ? 'opacity-0' : 'opacity-100'}`}
+            onLoad={handleImageLoad}
+            onError={handleImageError}
+            sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
+          />
+        ) : (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Film className="h-10 w-10 text-muted-foreground" />
+          </div>
+        )}
         
         {/* Duration overlay */}
-        <div className="absolute bottom-2 right-2 bg-black/75 text-white px-2 py-1 rounded text-sm font-medium">
-          <Clock className="h-3 w-3 inline mr-1" />
-          {video.duration}
-        </div>
+        {video.duration && (
+          <div className="absolute bottom-2 right-2 bg-black/75 text-white px-2 py-1 rounded text-sm font-medium">
+            <Clock className="h-3 w-3 inline mr-1" />
+            {video.duration}
+          </div>
+        )}
+
+        {isLocalMedia && (
+          <div className="absolute bottom-2 left-2">
+            <Badge variant="secondary" className="bg-sky-100 text-sky-800 hover:bg-sky-100">
+              <Plane className="h-3 w-3 mr-1" />
+              Downloadable
+            </Badge>
+          </div>
+        )}
 
         {/* Status badge */}
         <div className="absolute top-2 left-2">
@@ -136,21 +164,23 @@ function ApprovedVideoCard({ video, childId, onRemove, onShowDetails, isRemoving
         </div>
         
         {/* Summary Button */}
-        <Button 
-          variant="outline" 
-          size="sm" 
-          className="w-full mb-4"
-          onClick={() => onShowDetails(video)}
-        >
-          <Sparkles className="h-4 w-4 mr-2" />
-          View Details & Generate Summary
-        </Button>
+        {isYouTube && (
+          <Button 
+            variant="outline" 
+            size="sm" 
+            className="w-full mb-4"
+            onClick={() => onShowDetails(video)}
+          >
+            <Sparkles className="h-4 w-4 mr-2" />
+            View Details & Generate Summary
+          </Button>
+        )}
         
         {/* Actions */}
         <div className="flex items-center justify-center">
           <Button variant="ghost" size="sm" asChild className="text-primary hover:text-primary p-0 h-auto">
             <a
-              href={`https://www.youtube.com/watch?v=${video.youtubeId}`}
+              href={watchUrl}
               target="_blank"
               rel="noopener noreferrer"
             >
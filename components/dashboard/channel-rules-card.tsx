@@ -0,0 +1,161 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Tv, ShieldCheck, Ban, Trash2 } from "lucide-react";
+import { getChannelRules, setChannelRule, removeChannelRule } from "@/lib/actions";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+
+type RuleType = "ALLOW" | "BLOCK";
+
+interface ChannelRule {
+  id: string;
+  channelId: string;
+  channelName: string;
+  rule: RuleType;
+  childId: string | null;
+  autoApprove: boolean;
+}
+
+interface ChannelRulesCardProps {
+  child: {
+    id: string;
+    name: string;
+  };
+}
+
+// Trusted and blocked channels that apply to one child: the family's rules plus the child's own.
+// Rules are added from the video cards on the recommendations page.
+export default function ChannelRulesCard({ child }: ChannelRulesCardProps) {
+  const [rules, setRules] = useState<ChannelRule[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadRules = useCallback(async () => {
+    try {
+      const allRules = await getChannelRules();
+      setRules(allRules.filter(rule => rule.childId === null || rule.childId === child.id));
+    } catch (error) {
+      console.error("Error loading channel rules:", error);
+    }
+  }, [child.id]);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const runAction = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    try {
+      await action();
+      await loadRules();
+    } catch (error) {
+      console.error("Error updating channel rule:", error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const saveRule = (rule: ChannelRule, changes: { rule: RuleType; childId: string | null; autoApprove: boolean }) =>
+    runAction(rule.id, () => setChannelRule({
+      channelId: rule.channelId,
+      channelName: rule.channelName,
+      ...changes,
+    }));
+
+  // A child's own rule for a channel hides the family rule it overrides
+  const overridden = new Set(rules.filter(rule => rule.childId !== null).map(rule => rule.channelId));
+  const visibleRules = rules.filter(rule => rule.childId !== null || !overridden.has(rule.channelId));
+
+  return (
+    <Card className="bg-background">
+      <CardHeader className="border-b px-6 py-5">
+        <CardTitle className="text-2xl font-semibold text-foreground font-serif-elegant flex items-center gap-2">
+          <Tv className="h-5 w-5" />
+          Channels
+        </CardTitle>
+        <p className="text-muted-foreground text-lg mt-1">
+          Blocked channels never show up in recommendations for {child.name}; trusted channels come first.
+        </p>
+      </CardHeader>
+
+      <CardContent className="p-8">
+        {visibleRules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No channel rules yet. Use &quot;Trust channel&quot; or &quot;Block channel&quot; on a recommended video.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {visibleRules.map((rule) => {
+              const isFamilyRule = rule.childId === null;
+              const isBusy = busyId === rule.id;
+
+              return (
+                <div key={rule.id} className="flex items-center justify-between gap-4 p-4 border border-gray-200 rounded-lg">
+                  <div className="min-w-0 space-y-2">
+                    <div className="flex items-center gap-2">
+                      {rule.rule === "ALLOW" ? (
+                        <ShieldCheck className="h-4 w-4 text-green-600 flex-shrink-0" />
+                      ) : (
+                        <Ban className="h-4 w-4 text-red-600 flex-shrink-0" />
+                      )}
+                      <span className="text-sm font-medium text-gray-900 truncate">{rule.channelName}</span>
+                      <Badge variant="outline" className="text-xs">
+                        {isFamilyRule ? "Family" : `${child.name} only`}
+                      </Badge>
+                    </div>
+                    {rule.rule === "ALLOW" && (
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id={`auto-approve-${rule.id}`}
+                          checked={rule.autoApprove}
+                          disabled={isBusy}
+                          onCheckedChange={(checked) => saveRule(rule, {
+                            rule: rule.rule,
+                            childId: rule.childId,
+                            autoApprove: checked === true,
+                          })}
+                        />
+                        <Label htmlFor={`auto-approve-${rule.id}`} className="text-xs text-muted-foreground">
+                          Approve new uploads automatically
+                        </Label>
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {isFamilyRule && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        disabled={isBusy}
+                        onClick={() => saveRule(rule, {
+                          rule: rule.rule === "ALLOW" ? "BLOCK" : "ALLOW",
+                          childId: child.id,
+                          autoApprove: false,
+                        })}
+                      >
+                        {rule.rule === "ALLOW" ? "Block" : "Allow"} for {child.name}
+                      </Button>
+                    )}
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      disabled={isBusy}
+                      onClick={() => runAction(rule.id, () => removeChannelRule(rule.id))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -11,6 +11,9 @@ import {
   BarChart3,
   Settings,
   Calendar,
+  Smartphone,
+  ListVideo,
+  Newspaper,
 } from "lucide-react";
 
 import {
@@ -47,6 +50,11 @@ const navigation = [
     href: "/dashboard/approved", 
     icon: ThumbsUp,
   },
+  { 
+    name: "Playlists", 
+    href: "/dashboard/playlists", 
+    icon: ListVideo,
+  },
   { 
     name: "Schedule", 
     href: "/dashboard/schedule", 
@@ -57,6 +65,16 @@ const navigation = [
     href: "/dashboard/analytics", 
     icon: BarChart3,
   },
+  { 
+    name: "Digests", 
+    href: "/dashboard/digests", 
+    icon: Newspaper,
+  },
+  { 
+    name: "Devices", 
+    href: "/dashboard/devices", 
+    icon: Smartphone,
+  },
 ];
 
 export function DashboardSidebar() {
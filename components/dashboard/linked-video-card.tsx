@@ -0,0 +1,143 @@
+"use client";
+
+import { useState } from "react";
+import { Link2, Loader2 } from "lucide-react";
+import { addLinkedVideo } from "@/lib/actions";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface LinkedVideoCardProps {
+  childOptions: { id: string; name: string }[];
+  onAdded: () => void;
+}
+
+// Approve a video by its link: a YouTube or Vimeo page, or a file or stream the parent hosts (a home
+// video, a purchased download). Files marked downloadable can be saved to the child's device from the
+// parent area of the app, for flights and car rides.
+export default function LinkedVideoCard({ childOptions, onAdded }: LinkedVideoCardProps) {
+  const [childId, setChildId] = useState(childOptions[0]?.id || "");
+  const [url, setUrl] = useState("");
+  const [title, setTitle] = useState("");
+  const [thumbnail, setThumbnail] = useState("");
+  const [duration, setDuration] = useState("");
+  const [allowDownload, setAllowDownload] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await addLinkedVideo(childId, {
+        url: url.trim(),
+        title: title.trim() || undefined,
+        thumbnail: thumbnail.trim() || undefined,
+        duration: duration.trim() || undefined,
+        allowDownload,
+      });
+      setUrl("");
+      setTitle("");
+      setThumbnail("");
+      setDuration("");
+      setAllowDownload(false);
+      onAdded();
+    } catch (error) {
+      console.error("Error adding video from link:", error);
+      setError(error instanceof Error ? error.message : "Could not add this video");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-background">
+      <CardHeader className="border-b px-6 py-4">
+        <CardTitle className="text-lg font-semibold text-foreground flex items-center font-serif-elegant">
+          <Link2 className="h-4 w-4 mr-3 text-primary" />
+          Add From a Link
+        </CardTitle>
+        <p className="text-muted-foreground text-sm mt-1">
+          Paste a YouTube or Vimeo link, or a direct link to an MP4, MOV or WebM file or HLS stream. Titles and thumbnails are filled in for YouTube and Vimeo.
+        </p>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Child</Label>
+            <Select value={childId} onValueChange={setChildId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a child" />
+              </SelectTrigger>
+              <SelectContent>
+                {childOptions.map(child => (
+                  <SelectItem key={child.id} value={child.id}>{child.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="linkedTitle">Title (optional for YouTube and Vimeo)</Label>
+            <Input
+              id="linkedTitle"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Grandma's birthday"
+            />
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="linkedUrl">Video link</Label>
+            <Input
+              id="linkedUrl"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://vimeo.com/123456789 or https://example.com/videos/birthday.mp4"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="linkedThumbnail">Thumbnail link (optional)</Label>
+            <Input
+              id="linkedThumbnail"
+              value={thumbnail}
+              onChange={(e) => setThumbnail(e.target.value)}
+              placeholder="https://example.com/videos/birthday.jpg"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="linkedDuration">Length (optional)</Label>
+            <Input
+              id="linkedDuration"
+              value={duration}
+              onChange={(e) => setDuration(e.target.value)}
+              placeholder="12:34"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-start gap-3">
+          <Checkbox
+            id="linkedAllowDownload"
+            checked={allowDownload}
+            onCheckedChange={(checked) => setAllowDownload(checked === true)}
+          />
+          <div>
+            <Label htmlFor="linkedAllowDownload">Allow downloading for travel</Label>
+            <p className="text-muted-foreground text-xs mt-1">
+              Video files only (under 2 GB). Your child&apos;s device can keep a copy for watching without internet.
+            </p>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <Button onClick={handleAdd} disabled={isSaving || !childId || !url.trim()}>
+          {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Link2 className="h-4 w-4 mr-2" />}
+          {isSaving ? "Checking link..." : "Add Video"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,143 +0,0 @@
-"use client";
-
-import { ChevronLeft, ChevronRight, MoreHorizontal } from "lucide-react";
-
-interface PaginationProps {
-  currentPage: number;
-  totalResults: number;
-  resultsPerPage: number;
-  onPageChange: (page: number) => void;
-  hasNextPage?: boolean;
-  isLoading?: boolean;
-}
-
-export default function Pagination({
-  currentPage,
-  totalResults,
-  resultsPerPage,
-  onPageChange,
-  hasNextPage = false,
-  isLoading = false
-}: PaginationProps) {
-  const totalPages = Math.ceil(totalResults / resultsPerPage);
-  const startResult = (currentPage - 1) * resultsPerPage + 1;
-  const endResult = Math.min(currentPage * resultsPerPage, totalResults);
-
-  const getVisiblePages = () => {
-    const delta = 2;
-    const range = [];
-    const rangeWithDots = [];
-
-    for (let i = Math.max(2, currentPage - delta); i <= Math.min(totalPages - 1, currentPage + delta); i++) {
-      range.push(i);
-    }
-
-    if (currentPage - delta > 2) {
-      rangeWithDots.push(1, 'dots1');
-    } else {
-      rangeWithDots.push(1);
-    }
-
-    rangeWithDots.push(...range);
-
-    if (currentPage + delta < totalPages - 1) {
-      rangeWithDots.push('dots2', totalPages);
-    } else if (totalPages > 1) {
-      rangeWithDots.push(totalPages);
-    }
-
-    return rangeWithDots;
-  };
-
-  if (totalResults === 0) return null;
-
-  return (
-    <div className="px-4 py-3">
-      <div className="flex-1 flex justify-between items-center">
-        <div>
-          <p className="text-sm text-muted-foreground">
-            Showing <span className="font-medium text-foreground">{startResult}</span> to{' '}
-            <span className="font-medium text-foreground">{endResult}</span> of{' '}
-            <span className="font-medium text-foreground">{totalResults.toLocaleString()}</span> results
-          </p>
-        </div>
-
-        <div className="flex items-center space-x-2">
-          {/* Previous Button */}
-          <button
-            onClick={() => onPageChange(currentPage - 1)}
-            disabled={currentPage <= 1 || isLoading}
-            className="relative inline-flex items-center px-3 py-2 border border-border text-sm font-medium rounded-md text-muted-foreground bg-background hover:bg-muted disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-          >
-            <ChevronLeft className="h-4 w-4 mr-1" />
-            Previous
-          </button>
-
-          {/* Page Numbers */}
-          <div className="hidden sm:flex space-x-1">
-            {getVisiblePages().map((page, index) => {
-              if (page === 'dots1' || page === 'dots2') {
-                return (
-                  <span
-                    key={`dots-${index}`}
-                    className="relative inline-flex items-center px-3 py-2 border border-border bg-background text-sm font-medium text-muted-foreground"
-                  >
-                    <MoreHorizontal className="h-4 w-4" />
-                  </span>
-                );
-              }
-
-              const pageNum = page as number;
-              const isActive = pageNum === currentPage;
-
-              return (
-                <button
-                  key={pageNum}
-                  onClick={() => onPageChange(pageNum)}
-                  disabled={isLoading}
-                  className={`relative inline-flex items-center px-4 py-2 border text-sm font-medium rounded-md transition-colors ${
-                    isActive
-                      ? 'z-10 bg-primary/10 border-primary text-primary'
-                      : 'bg-background border-border text-muted-foreground hover:bg-muted'
-                  } disabled:opacity-50 disabled:cursor-not-allowed`}
-                >
-                  {pageNum}
-                </button>
-              );
-            })}
-          </div>
-
-          {/* Mobile page info */}
-          <div className="sm:hidden">
-            <span className="text-sm text-muted-foreground">
-              Page {currentPage} of {totalPages}
-            </span>
-          </div>
-
-          {/* Next Button */}
-          <button
-            onClick={() => onPageChange(currentPage + 1)}
-            disabled={!hasNextPage || currentPage >= totalPages || isLoading}
-            className="relative inline-flex items-center px-3 py-2 border border-border text-sm font-medium rounded-md text-muted-foreground bg-background hover:bg-muted disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-          >
-            Next
-            <ChevronRight className="h-4 w-4 ml-1" />
-          </button>
-        </div>
-      </div>
-
-      {/* Load More Button for infinite scroll style */}
-      {hasNextPage && (
-        <div className="mt-4 flex justify-center">
-          <button
-            onClick={() => onPageChange(currentPage + 1)}
-            disabled={isLoading}
-            className="bg-primary text-primary-foreground px-6 py-2 rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-          >
-            {isLoading ? 'Loading...' : 'Load More Videos'}
-          </button>
-        </div>
-      )}
-    </div>
-  );
-}
\ No newline at end of file
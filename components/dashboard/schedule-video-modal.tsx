@@ -1,10 +1,11 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { X, Calendar, Users, VideoIcon, Loader2 } from "lucide-react";
+import { X, Calendar, Users, VideoIcon, Loader2, Repeat } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { formatDateLabel, getTodayDateString } from "@/lib/timezone";
 
 interface ApprovedVideo {
   id: string;
@@ -28,25 +29,56 @@ interface Child {
   interests: string[];
 }
 
+export type RecurrenceFrequency = "DAILY" | "WEEKDAYS" | "WEEKLY" | "INTERVAL";
+
+export interface Recurrence {
+  frequency: RecurrenceFrequency;
+  daysOfWeek?: number[];
+  intervalDays?: number;
+  endDate?: string | null;
+}
+
+export interface ScheduleRule {
+  id: string;
+  childName: string;
+  title: string;
+  frequency: RecurrenceFrequency;
+  daysOfWeek: number[];
+  intervalDays: number | null;
+  startDate: string;
+  endDate: string | null;
+}
+
 interface ScheduleVideoModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSchedule: (videoIds: string[], childrenIds: string[], date: string) => Promise<void>;
+  onSchedule: (videoIds: string[], childrenIds: string[], date: string, recurrence: Recurrence | null) => Promise<void>;
   isScheduling?: boolean;
+  // When set, the modal only edits the timing of this recurring schedule
+  editingRule?: ScheduleRule | null;
+  onUpdateRule?: (ruleId: string, startDate: string, recurrence: Recurrence) => Promise<void>;
 }
 
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
 export default function ScheduleVideoModal({
   isOpen,
   onClose,
   onSchedule,
-  isScheduling = false
+  isScheduling = false,
+  editingRule = null,
+  onUpdateRule,
 }: ScheduleVideoModalProps) {
   const [approvedVideos, setApprovedVideos] = useState<ApprovedVideo[]>([]);
   const [children, setChildren] = useState<Child[]>([]);
   const [selectedVideoIds, setSelectedVideoIds] = useState<string[]>([]);
   const [selectedChildrenIds, setSelectedChildrenIds] = useState<string[]>([]);
-  const [selectedDate, setSelectedDate] = useState<string>(new Date().toISOString().split('T')[0]);
+  const [selectedDate, setSelectedDate] = useState<string>(getTodayDateString());
   const [isLoading, setIsLoading] = useState(true);
+  const [repeat, setRepeat] = useState<"NONE" | RecurrenceFrequency>("NONE");
+  const [daysOfWeek, setDaysOfWeek] = useState<number[]>([]);
+  const [intervalDays, setIntervalDays] = useState(2);
+  const [endDate, setEndDate] = useState("");
 
   // Load approved videos and children
   useEffect(() => {
@@ -55,6 +87,19 @@ export default function ScheduleVideoModal({
     }
   }, [isOpen]);
 
+  // Prefill the recurrence editor when editing an existing rule
+  useEffect(() => {
+    if (isOpen && editingRule) {
+      setSelectedDate(editingRule.startDate);
+      setRepeat(editingRule.frequency);
+      setDaysOfWeek(editingRule.daysOfWeek);
+      setIntervalDays(editingRule.intervalDays || 2);
+      setEndDate(editingRule.endDate || "");
+    } else if (isOpen) {
+      resetForm();
+    }
+  }, [isOpen, editingRule]);
+
   const loadData = async () => {
     try {
       setIsLoading(true);
@@ -80,19 +125,52 @@ export default function ScheduleVideoModal({
     }
   };
 
+  const buildRecurrence = (): Recurrence | null => {
+    if (repeat === "NONE") return null;
+
+    return {
+      frequency: repeat,
+      daysOfWeek: repeat === "WEEKLY" ? daysOfWeek : undefined,
+      intervalDays: repeat === "INTERVAL" ? intervalDays : undefined,
+      endDate: endDate || null,
+    };
+  };
+
+  const resetForm = () => {
+    setSelectedVideoIds([]);
+    setSelectedChildrenIds([]);
+    setSelectedDate(getTodayDateString());
+    setRepeat("NONE");
+    setDaysOfWeek([]);
+    setIntervalDays(2);
+    setEndDate("");
+  };
+
+  const isRecurrenceValid = repeat !== "WEEKLY" || daysOfWeek.length > 0;
+
   const handleSchedule = async () => {
-    if (selectedVideoIds.length === 0 || selectedChildrenIds.length === 0 || !selectedDate) {
+    if (editingRule) {
+      const recurrence = buildRecurrence();
+      if (!recurrence || !onUpdateRule || !isRecurrenceValid) return;
+
+      try {
+        await onUpdateRule(editingRule.id, selectedDate, recurrence);
+        resetForm();
+        onClose();
+      } catch (error) {
+        console.error("Error updating recurring schedule:", error);
+      }
+      return;
+    }
+
+    if (selectedVideoIds.length === 0 || selectedChildrenIds.length === 0 || !selectedDate || !isRecurrenceValid) {
       return;
     }
 
     try {
-      await onSchedule(selectedVideoIds, selectedChildrenIds, selectedDate);
-      
-      // Reset form
-      setSelectedVideoIds([]);
-      setSelectedChildrenIds([]);
-      setSelectedDate(new Date().toISOString().split('T')[0]);
+      await onSchedule(selectedVideoIds, selectedChildrenIds, selectedDate, buildRecurrence());
       
+      resetForm();
       onClose();
     } catch (error) {
       console.error("Error scheduling video:", error);
@@ -107,6 +185,14 @@ export default function ScheduleVideoModal({
     );
   };
 
+  const toggleDayOfWeek = (day: number) => {
+    setDaysOfWeek(prev =>
+      prev.includes(day)
+        ? prev.filter(d => d !== day)
+        : [...prev, day].sort()
+    );
+  };
+
   const toggleVideoSelection = (videoId: string) => {
     setSelectedVideoIds(prev => 
       prev.includes(videoId)
@@ -131,7 +217,9 @@ export default function ScheduleVideoModal({
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
       <Card className="bg-background max-w-4xl w-full max-h-[90vh] overflow-hidden">
         <div className="flex justify-between items-center p-6 border-b">
-          <h2 className="text-2xl font-bold text-foreground">Schedule Video</h2>
+          <h2 className="text-2xl font-bold text-foreground">
+            {editingRule ? "Edit Recurring Schedule" : "Schedule Video"}
+          </h2>
           <Button variant="ghost" size="sm" onClick={onClose}>
             <X className="h-5 w-5" />
           </Button>
@@ -146,6 +234,17 @@ export default function ScheduleVideoModal({
               </div>
             ) : (
               <>
+                {editingRule && (
+                  <div className="p-3 bg-blue-50 rounded-lg">
+                    <p className="text-sm text-blue-700">
+                      <strong>{editingRule.title}</strong> for {editingRule.childName}. Changes apply from today;
+                      videos already watched stay in the history.
+                    </p>
+                  </div>
+                )}
+
+                {!editingRule && (
+                <>
                 {/* Step 1: Select Videos */}
                 <div>
                   <div className="flex items-center justify-between mb-3">
@@ -242,17 +341,20 @@ export default function ScheduleVideoModal({
                   </div>
                 </div>
 
+                </>
+                )}
+
                 {/* Step 3: Select Date */}
                 <div>
                   <h3 className="text-lg font-semibold mb-3 flex items-center">
                     <Calendar className="mr-2 h-5 w-5" />
-                    Select Date
+                    {repeat === "NONE" ? "Select Date" : "Starts On"}
                   </h3>
                   <input
                     type="date"
                     value={selectedDate}
                     onChange={(e) => setSelectedDate(e.target.value)}
-                    min={new Date().toISOString().split('T')[0]}
+                    min={getTodayDateString()}
                     className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-primary focus:border-primary"
                   />
                   <p className="text-sm text-gray-500 mt-2">
@@ -260,6 +362,71 @@ export default function ScheduleVideoModal({
                   </p>
                 </div>
 
+                {/* Step 4: Repeat */}
+                <div>
+                  <h3 className="text-lg font-semibold mb-3 flex items-center">
+                    <Repeat className="mr-2 h-5 w-5" />
+                    Repeat
+                  </h3>
+                  <select
+                    value={repeat}
+                    onChange={(e) => setRepeat(e.target.value as "NONE" | RecurrenceFrequency)}
+                    className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-primary focus:border-primary"
+                  >
+                    {!editingRule && <option value="NONE">Does not repeat</option>}
+                    <option value="DAILY">Every day</option>
+                    <option value="WEEKDAYS">Every weekday (Mon-Fri)</option>
+                    <option value="WEEKLY">Weekly on selected days</option>
+                    <option value="INTERVAL">Every N days</option>
+                  </select>
+
+                  {repeat === "WEEKLY" && (
+                    <div className="flex flex-wrap gap-2 mt-3">
+                      {WEEKDAY_LABELS.map((label, day) => (
+                        <button
+                          key={label}
+                          type="button"
+                          onClick={() => toggleDayOfWeek(day)}
+                          className={`px-3 py-1 rounded-full border text-sm transition-colors ${
+                            daysOfWeek.includes(day)
+                              ? 'border-primary bg-primary text-primary-foreground'
+                              : 'border-gray-300 hover:bg-gray-50'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
+                  {repeat === "INTERVAL" && (
+                    <div className="flex items-center gap-2 mt-3 text-sm">
+                      <span>Every</span>
+                      <input
+                        type="number"
+                        min={1}
+                        value={intervalDays}
+                        onChange={(e) => setIntervalDays(Math.max(1, parseInt(e.target.value) || 1))}
+                        className="w-20 p-2 border border-gray-300 rounded-md"
+                      />
+                      <span>days</span>
+                    </div>
+                  )}
+
+                  {repeat !== "NONE" && (
+                    <div className="mt-3">
+                      <label className="text-sm text-gray-600 block mb-1">Ends on (optional)</label>
+                      <input
+                        type="date"
+                        value={endDate}
+                        onChange={(e) => setEndDate(e.target.value)}
+                        min={selectedDate}
+                        className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-primary focus:border-primary"
+                      />
+                    </div>
+                  )}
+                </div>
+
                 {/* Summary */}
                 {selectedVideos.length > 0 && selectedChildrenIds.length > 0 && (
                   <div className="bg-gray-50 p-4 rounded-lg">
@@ -281,7 +448,14 @@ export default function ScheduleVideoModal({
                         </div>
                       )}
                       <p><strong>Children:</strong> {selectedChildrenIds.map(id => children.find(c => c.id === id)?.name).join(', ')}</p>
-                      <p><strong>Date:</strong> {new Date(selectedDate).toLocaleDateString()}</p>
+                      <p><strong>{repeat === "NONE" ? "Date" : "Starts"}:</strong> {formatDateLabel(selectedDate)}</p>
+                      {repeat !== "NONE" && (
+                        <p><strong>Repeats:</strong> {repeat === "WEEKLY"
+                          ? `Every ${daysOfWeek.map(day => WEEKDAY_LABELS[day]).join(', ') || '...'}`
+                          : repeat === "INTERVAL" ? `Every ${intervalDays} days` : repeat === "DAILY" ? "Every day" : "Every weekday"}
+                          {endDate && ` until ${formatDateLabel(endDate)}`}
+                        </p>
+                      )}
                       <p><strong>Availability:</strong> All day - kids can watch anytime</p>
                     </div>
                   </div>
@@ -294,14 +468,21 @@ export default function ScheduleVideoModal({
                   </Button>
                   <Button
                     onClick={handleSchedule}
-                    disabled={selectedVideoIds.length === 0 || selectedChildrenIds.length === 0 || !selectedDate || isScheduling}
+                    disabled={
+                      (!editingRule && (selectedVideoIds.length === 0 || selectedChildrenIds.length === 0)) ||
+                      !selectedDate || !isRecurrenceValid || isScheduling
+                    }
                   >
                     {isScheduling ? (
                       <Loader2 className="h-4 w-4 animate-spin mr-2" />
                     ) : (
                       <Calendar className="h-4 w-4 mr-2" />
                     )}
-                    {isScheduling ? "Scheduling..." : `Schedule ${selectedVideoIds.length} Video${selectedVideoIds.length !== 1 ? 's' : ''}`}
+                    {isScheduling
+                      ? "Scheduling..."
+                      : editingRule
+                        ? "Save Changes"
+                        : `Schedule ${selectedVideoIds.length} Video${selectedVideoIds.length !== 1 ? 's' : ''}`}
                   </Button>
                 </div>
               </>
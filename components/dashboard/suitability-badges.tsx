@@ -0,0 +1,49 @@
+import { ShieldCheck, ShieldAlert, GraduationCap } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { isAgeAppropriate, type SuitabilityAssessment, type ThemeLevel } from "@/lib/suitability";
+
+interface SuitabilityBadgesProps {
+  assessment: SuitabilityAssessment;
+  childAge?: number;
+}
+
+const THEME_VARIANTS: Record<ThemeLevel, "secondary" | "outline" | "destructive"> = {
+  none: "outline",
+  mild: "secondary",
+  moderate: "destructive",
+  strong: "destructive",
+};
+
+export default function SuitabilityBadges({ assessment, childAge }: SuitabilityBadgesProps) {
+  const tooYoung = childAge !== undefined && !isAgeAppropriate(assessment, childAge);
+  const flaggedThemes = Object.entries(assessment.themes).filter(([, level]) => level !== "none") as [string, ThemeLevel][];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <Badge variant={tooYoung ? "destructive" : "default"} className="text-xs">
+          {tooYoung ? <ShieldAlert className="h-3 w-3 mr-1" /> : <ShieldCheck className="h-3 w-3 mr-1" />}
+          {assessment.ageBand === "all" ? "All ages" : `Ages ${assessment.ageBand}`}
+        </Badge>
+        <Badge variant="secondary" className="text-xs">
+          <GraduationCap className="h-3 w-3 mr-1" />
+          {assessment.educationalValue} educational value
+        </Badge>
+        {flaggedThemes.map(([theme, level]) => (
+          <Badge key={theme} variant={THEME_VARIANTS[level]} className="text-xs">
+            {level} {theme}
+          </Badge>
+        ))}
+        {flaggedThemes.length === 0 && (
+          <Badge variant="outline" className="text-xs">No concerning themes</Badge>
+        )}
+      </div>
+      {assessment.notes && (
+        <p className="text-sm text-foreground">{assessment.notes}</p>
+      )}
+      <p className="text-xs text-muted-foreground">
+        {Math.round(assessment.confidence * 100)}% confidence · {assessment.usedTranscript ? "based on what's said in the video" : "based on the title and description only"}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Globe } from "lucide-react";
+import { updateChildTimezone } from "@/lib/actions";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+interface TimezonePromptProps {
+  profiles: {
+    id: string;
+    name: string;
+    timezone: string;
+  }[];
+}
+
+// Children added before timezones were recorded still count their days in UTC. Asks the parent to
+// confirm each one's timezone, offering this browser's.
+export default function TimezonePrompt({ profiles }: TimezonePromptProps) {
+  const router = useRouter();
+  const [browserTimezone, setBrowserTimezone] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setBrowserTimezone(Intl.DateTimeFormat().resolvedOptions().timeZone);
+  }, []);
+
+  // A parent whose browser is on UTC too has nothing to confirm
+  if (!browserTimezone || browserTimezone === "UTC") return null;
+
+  const unconfirmed = profiles.filter(profile => profile.timezone === "UTC");
+  if (unconfirmed.length === 0) return null;
+
+  const applyBrowserTimezone = async (childId: string) => {
+    setBusyId(childId);
+    try {
+      await updateChildTimezone(childId, browserTimezone);
+      router.refresh();
+    } catch (error) {
+      console.error("Error updating timezone:", error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card className="bg-background mb-8 border-yellow-500">
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-center gap-2 text-lg font-semibold text-foreground">
+          <Globe className="h-5 w-5" />
+          Confirm your children's timezones
+        </div>
+        <p className="text-muted-foreground">
+          These profiles count screen time, schedules and viewing hours in UTC days. Most families want their own.
+        </p>
+        {unconfirmed.map(profile => (
+          <div key={profile.id} className="flex flex-wrap items-center justify-between gap-4 border-t pt-4">
+            <span className="font-medium text-foreground">{profile.name}</span>
+            <div className="flex items-center gap-2">
+              <Button
+                size="sm"
+                onClick={() => applyBrowserTimezone(profile.id)}
+                disabled={busyId === profile.id}
+              >
+                Use {browserTimezone}
+              </Button>
+              <Button variant="outline" size="sm" asChild>
+                <Link href={`/dashboard/children/${profile.id}`}>Choose another</Link>
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useState, memo, useCallback } from "react";
 import Image from "next/image";
-import { Play, Clock, User, ThumbsUp, Eye, Loader2, ExternalLink, Sparkles } from "lucide-react";
+import { Play, Clock, User, ThumbsUp, Eye, Loader2, ExternalLink, Sparkles, ShieldCheck, Ban, Lightbulb } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -14,20 +14,24 @@ interface VideoCardProps {
     description: string;
     thumbnail: string;
     highResThumbnail: string;
+    channelId: string;
     channelName: string;
     duration: string;
     publishedAt: string;
     viewCount: string;
     category: string;
     summary: string;
+    trustedChannel?: boolean;
+    whyRecommended?: string[];
   };
   childId: string;
   onApprove: (video: any) => void;
   onShowDetails: (video: any) => void;
+  onChannelRule?: (video: any, rule: "ALLOW" | "BLOCK") => void;
   isApproving?: boolean;
 }
 
-function VideoCard({ video, childId, onApprove, onShowDetails, isApproving = false }: VideoCardProps) {
+function VideoCard({ video, childId, onApprove, onShowDetails, onChannelRule, isApproving = false }: VideoCardProps) {
   const [imageError, setImageError] = useState(false);
   const [imageLoading, setImageLoading] = useState(true);
 
@@ -138,6 +142,45 @@ function VideoCard({ video, childId, onApprove, onShowDetails, isApproving = fal
             <span>{formatPublishedDate(video.publishedAt)}</span>
           </div>
         </div>
+
+        {/* Why recommended */}
+        {video.whyRecommended && video.whyRecommended.length > 0 && (
+          <div className="flex items-start text-xs text-muted-foreground mb-3">
+            <Lightbulb className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0 text-primary" />
+            <span className="line-clamp-2">{video.whyRecommended.slice(0, 2).join(' · ')}</span>
+          </div>
+        )}
+
+        {/* Channel rules */}
+        {onChannelRule && video.channelId && (
+          <div className="flex items-center gap-2 mb-3">
+            {video.trustedChannel ? (
+              <Badge variant="secondary" className="text-xs">
+                <ShieldCheck className="h-3 w-3 mr-1" />
+                Trusted channel
+              </Badge>
+            ) : (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs text-muted-foreground"
+                onClick={() => onChannelRule(video, "ALLOW")}
+              >
+                <ShieldCheck className="h-3 w-3 mr-1" />
+                Trust channel
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs text-muted-foreground hover:text-destructive"
+              onClick={() => onChannelRule(video, "BLOCK")}
+            >
+              <Ban className="h-3 w-3 mr-1" />
+              Block channel
+            </Button>
+          </div>
+        )}
         
         {/* Summary Button */}
         <Button 
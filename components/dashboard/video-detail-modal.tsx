@@ -1,11 +1,20 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect, useRef } from "react";
 import Image from "next/image";
-import { X, Clock, User, Eye, Play, ExternalLink, Loader2, Sparkles } from "lucide-react";
+import { X, Clock, User, Eye, Play, ExternalLink, Loader2, Sparkles, ShieldCheck, FileText, Upload } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import SuitabilityBadges from "@/components/dashboard/suitability-badges";
+import type { SuitabilityAssessment } from "@/lib/suitability";
+
+interface TranscriptInfo {
+  source: "CAPTIONS" | "UPLOAD" | "NONE";
+  language: string | null;
+  length: number;
+  summarized: boolean;
+}
 
 interface VideoDetailModalProps {
   video: {
@@ -20,8 +29,11 @@ interface VideoDetailModalProps {
     viewCount: string;
     category: string;
     summary: string;
+    tags?: string[];
+    suitability?: SuitabilityAssessment | null;
   };
   childId: string;
+  childAge?: number;
   isOpen: boolean;
   onClose: () => void;
   onApprove: (video: any) => void;
@@ -32,6 +44,7 @@ interface VideoDetailModalProps {
 export default function VideoDetailModal({
   video,
   childId,
+  childAge,
   isOpen,
   onClose,
   onApprove,
@@ -41,6 +54,24 @@ export default function VideoDetailModal({
   const [summary, setSummary] = useState(video.summary || '');
   const [isGeneratingSummary, setIsGeneratingSummary] = useState(false);
   const [summaryError, setSummaryError] = useState('');
+  const [suitability, setSuitability] = useState<SuitabilityAssessment | null>(video.suitability || null);
+  const [isCheckingSuitability, setIsCheckingSuitability] = useState(false);
+  const [suitabilityError, setSuitabilityError] = useState('');
+  const [transcript, setTranscript] = useState<TranscriptInfo | null>(null);
+  const [isUploadingTranscript, setIsUploadingTranscript] = useState(false);
+  const [transcriptError, setTranscriptError] = useState('');
+  // Set after a new transcript so the next check doesn't reuse the stored assessment
+  const [refreshSuitability, setRefreshSuitability] = useState(false);
+  const transcriptInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    fetch(`/api/videos/transcript?youtubeId=${encodeURIComponent(video.id)}`)
+      .then(response => response.ok ? response.json() : null)
+      .then(data => setTranscript(data?.transcript || null))
+      .catch(error => console.error('Error loading transcript:', error));
+  }, [isOpen, video.id]);
 
   const formatViewCount = (count: string) => {
     const num = parseInt(count);
@@ -75,6 +106,7 @@ export default function VideoDetailModal({
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
+          youtubeId: video.id,
           videoTitle: video.title,
           videoDescription: video.description,
           childId: childId,
@@ -95,6 +127,81 @@ export default function VideoDetailModal({
     }
   };
 
+  const checkSuitability = async () => {
+    if (isCheckingSuitability) return;
+
+    setIsCheckingSuitability(true);
+    setSuitabilityError('');
+
+    try {
+      const response = await fetch('/api/videos/suitability', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          youtubeId: video.id,
+          title: video.title,
+          description: video.description,
+          channelName: video.channelName,
+          tags: video.tags,
+          duration: video.duration,
+          refresh: refreshSuitability,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to check suitability');
+      }
+
+      const data = await response.json();
+      setSuitability(data.suitability);
+      setRefreshSuitability(false);
+    } catch (error) {
+      console.error('Error checking suitability:', error);
+      setSuitabilityError('Failed to check this video. Please try again.');
+    } finally {
+      setIsCheckingSuitability(false);
+    }
+  };
+
+  const uploadTranscript = async (file: File) => {
+    setIsUploadingTranscript(true);
+    setTranscriptError('');
+
+    try {
+      const response = await fetch('/api/videos/transcript', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          youtubeId: video.id,
+          content: await file.text(),
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to upload transcript');
+      }
+
+      setTranscript(data.transcript);
+      // Both were based on what we knew before, so let the parent regenerate them
+      setSummary('');
+      setSuitability(null);
+      setRefreshSuitability(true);
+    } catch (error) {
+      console.error('Error uploading transcript:', error);
+      setTranscriptError(error instanceof Error ? error.message : 'Failed to upload transcript');
+    } finally {
+      setIsUploadingTranscript(false);
+      if (transcriptInputRef.current) {
+        transcriptInputRef.current.value = '';
+      }
+    }
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -157,7 +264,7 @@ export default function VideoDetailModal({
                   
                   {!isApprovedVideo && (
                     <Button
-                      onClick={() => onApprove(video)}
+                      onClick={() => onApprove({ ...video, suitability })}
                       disabled={isApproving}
                       className="flex-1"
                     >
@@ -247,6 +354,91 @@ export default function VideoDetailModal({
                     )}
                   </div>
                 </div>
+
+                {/* Transcript Section */}
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <h4 className="font-semibold text-foreground">Transcript</h4>
+                    <Button
+                      onClick={() => transcriptInputRef.current?.click()}
+                      disabled={isUploadingTranscript}
+                      size="sm"
+                      variant="outline"
+                    >
+                      {isUploadingTranscript ? (
+                        <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                      ) : (
+                        <Upload className="h-4 w-4 mr-2" />
+                      )}
+                      {isUploadingTranscript ? 'Uploading...' : 'Upload Transcript'}
+                    </Button>
+                    <input
+                      ref={transcriptInputRef}
+                      type="file"
+                      accept=".txt,.srt,.vtt,text/plain,text/vtt"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) uploadTranscript(file);
+                      }}
+                    />
+                  </div>
+                  <p className="text-sm text-muted-foreground flex items-center">
+                    <FileText className="h-4 w-4 mr-2 shrink-0" />
+                    {transcript?.source === 'UPLOAD'
+                      ? 'Using the transcript you uploaded for the summary and content check.'
+                      : transcript?.source === 'CAPTIONS'
+                        ? `Using YouTube captions${transcript.language ? ` (${transcript.language})` : ''} for the summary and content check.`
+                        : 'No captions found. Upload a .txt, .srt or .vtt transcript to base the summary and content check on what is said.'}
+                  </p>
+                  {transcriptError && (
+                    <p className="text-sm text-destructive mt-2">{transcriptError}</p>
+                  )}
+                </div>
+
+                {/* Content Check Section */}
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <h4 className="font-semibold text-foreground">Content Check</h4>
+                    {!suitability && (
+                      <Button
+                        onClick={checkSuitability}
+                        disabled={isCheckingSuitability}
+                        size="sm"
+                        variant="outline"
+                      >
+                        {isCheckingSuitability ? (
+                          <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                        ) : (
+                          <ShieldCheck className="h-4 w-4 mr-2" />
+                        )}
+                        {isCheckingSuitability ? 'Checking...' : 'Check Suitability'}
+                      </Button>
+                    )}
+                  </div>
+
+                  <div className="bg-muted/20 p-4 rounded-lg">
+                    {suitability ? (
+                      <SuitabilityBadges assessment={suitability} childAge={childAge} />
+                    ) : suitabilityError ? (
+                      <div className="text-center">
+                        <p className="text-sm text-destructive mb-2">{suitabilityError}</p>
+                        <Button
+                          onClick={checkSuitability}
+                          disabled={isCheckingSuitability}
+                          size="sm"
+                          variant="outline"
+                        >
+                          Try Again
+                        </Button>
+                      </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground text-center">
+                        Click "Check Suitability" for an AI estimate of the right age, educational value and any concerning themes.
+                      </p>
+                    )}
+                  </div>
+                </div>
               </div>
             </div>
           </CardContent>
@@ -0,0 +1,7 @@
+export async function register() {
+  // The job runner needs Node APIs and the database, so it only runs in the Node.js server runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startJobRunner } = await import('@/lib/jobs');
+    startJobRunner();
+  }
+}
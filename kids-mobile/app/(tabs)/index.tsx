@@ -8,19 +8,46 @@ import {
   TouchableOpacity,
   Image,
   Alert,
+  TextInput,
 } from 'react-native';
+import * as Device from 'expo-device';
 import { useChild } from '@/contexts/ChildContext';
 import { useAuth } from '@clerk/clerk-expo';
 import { Ionicons } from '@expo/vector-icons';
-import { router } from 'expo-router';
-import { simpleApiClient, ApprovedVideo } from '@/lib/simpleApiClient';
+import { router, useFocusEffect } from 'expo-router';
+import { simpleApiClient, ApprovedVideo, KidsFeed, Playlist, ScreenTimeStatus, ViewingWindowStatus } from '@/lib/simpleApiClient';
 import { networkManager } from '@/lib/networkManager';
+import { offlineVideoManager, OfflineDownload } from '@/lib/offlineVideoManager';
 import { Colors, Gradients } from '@/constants/Colors';
 import { Fonts, FontSizes } from '@/constants/Fonts';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useActivityTracker } from '@/hooks/useActivityTracker';
 import { shadows } from '@/lib/shadowUtils';
+import ParentPinModal from '@/components/ParentPinModal';
 
+// "16:00" + days ahead -> "4:00 PM", "tomorrow at 7:00 AM", "on Saturday at 9:00 AM"
+function describeNextOpening(viewingWindow: ViewingWindowStatus): string {
+  if (!viewingWindow.nextOpensAtLocal) {
+    return 'later';
+  }
+
+  const [hours, minutes] = viewingWindow.nextOpensAtLocal.split(':').map(Number);
+  const period = hours >= 12 ? 'PM' : 'AM';
+  const displayHour = hours % 12 === 0 ? 12 : hours % 12;
+  const time = `${displayHour}:${minutes.toString().padStart(2, '0')} ${period}`;
+
+  if (viewingWindow.nextOpensInDays === 0) {
+    return `at ${time}`;
+  }
+  if (viewingWindow.nextOpensInDays === 1) {
+    return `tomorrow at ${time}`;
+  }
+
+  const weekday = viewingWindow.nextOpensAt
+    ? new Date(viewingWindow.nextOpensAt).toLocaleDateString(undefined, { weekday: 'long', timeZone: viewingWindow.timezone })
+    : 'another day';
+  return `on ${weekday} at ${time}`;
+}
 
 export default function HomeScreen() {
   const { selectedChild } = useChild();
@@ -30,6 +57,14 @@ export default function HomeScreen() {
   const [error, setError] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
   const [isConnected, setIsConnected] = useState(true);
+  const [screenTime, setScreenTime] = useState<ScreenTimeStatus | null>(null);
+  const [viewingWindow, setViewingWindow] = useState<ViewingWindowStatus | null>(null);
+  const [needsPairing, setNeedsPairing] = useState(false);
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [downloads, setDownloads] = useState<OfflineDownload[]>([]);
+  const [pairingCode, setPairingCode] = useState('');
+  const [isPairing, setIsPairing] = useState(false);
+  const [pinModalVisible, setPinModalVisible] = useState(false);
   const fetchingRef = useRef(false);
   const lastChildIdRef = useRef<string | null>(null);
 
@@ -53,16 +88,11 @@ export default function HomeScreen() {
     return unsubscribe;
   }, []);
 
-    const fetchScheduledVideos = async (childId: string): Promise<ApprovedVideo[]> => {
+    const fetchScheduledVideos = async (childId: string): Promise<KidsFeed> => {
     console.log('📅 Fetching scheduled videos for child:', childId);
-    
-    const token = await getToken();
-    if (!token) {
-      throw new Error('Authentication required');
-    }
 
     // Use simple API client that handles all the complexity
-    return await simpleApiClient.getScheduledVideos(childId, token);
+    return await simpleApiClient.getKidsFeed(childId);
   };
 
   const fetchVideos = useCallback(async (forceRefresh = false) => {
@@ -98,19 +128,30 @@ export default function HomeScreen() {
       }
 
       // Only fetch scheduled videos for today
-      const scheduledVideosData = await fetchScheduledVideos(currentChild.id);
+      const feed = await fetchScheduledVideos(currentChild.id);
 
-      setVideos(scheduledVideosData);
-      console.log('✅ Fetched', scheduledVideosData.length, 'scheduled videos for', currentChild.name);
+      setVideos(feed.videos);
+      setNeedsPairing(feed.needsPairing || false);
+      setScreenTime(feed.screenTime || null);
+      setViewingWindow(feed.locked && feed.viewingWindow ? feed.viewingWindow : null);
+      setPlaylists(feed.needsPairing ? [] : await simpleApiClient.getPlaylists(currentChild.id));
+      console.log('✅ Fetched', feed.videos.length, 'scheduled videos for', currentChild.name);
     } catch (error) {
       console.error('Error fetching videos:', error);
       setVideos([]);
+      setScreenTime(null);
+      setViewingWindow(null);
+      setPlaylists([]);
       Alert.alert(
         'Unable to Load Videos',
         'Please check your internet connection and try again.',
         [{ text: 'OK' }]
       );
     } finally {
+      // Downloaded videos play without a connection, so they show even when the feed couldn't load
+      if (selectedChild) {
+        setDownloads(await offlineVideoManager.getPlayableDownloads(selectedChild.id).catch(() => []));
+      }
       setLoading(false);
       fetchingRef.current = false;
     }
@@ -128,6 +169,13 @@ export default function HomeScreen() {
     }
   }, [selectedChild?.id]); // Only depend on child ID to prevent function recreation loops
 
+  // The player marks playlist items done once they've really been watched; pick that up on the way back
+  useFocusEffect(useCallback(() => {
+    if (!selectedChild || needsPairing || !networkManager.getConnectionStatus()) return;
+
+    simpleApiClient.getPlaylists(selectedChild.id).then(setPlaylists);
+  }, [selectedChild, needsPairing]));
+
   // End session when component unmounts or child changes
   useEffect(() => {
     return () => {
@@ -137,8 +185,9 @@ export default function HomeScreen() {
     };
   }, [selectedChild?.id]);
 
+  // Leaving the kids feed needs the parent PIN, so a child can't switch profiles or reach the parent area
   const switchProfile = () => {
-    router.push('/main-dashboard');
+    setPinModalVisible(true);
   };
 
   const playVideo = async (video: ApprovedVideo) => {
@@ -159,16 +208,48 @@ export default function HomeScreen() {
           console.warn('Failed to track video click, continuing with playback:', trackingError);
         }
 
-        // If this is a scheduled video, mark it as watched (requires internet)
-        if (video.isScheduled && video.scheduledVideoId) {
-          console.log('📅 Marking scheduled video as watched:', video.scheduledVideoId);
+        // Scheduled videos and playlist items are marked done by the player once enough of them has
+        // actually played
+      }
+
+      // Other sources play from URLs the server builds for them; downloaded files play from the device
+      if (video.source && video.source !== 'YOUTUBE') {
+        const localUri = video.source === 'LOCAL_MEDIA' && video.approvedVideoId
+          ? await offlineVideoManager.getPlayableUri(video.approvedVideoId)
+          : null;
+        let videoUrl = localUri || video.mediaUrl || '';
+        let startPosition = video.resumePosition || 0;
+
+        if (!localUri && video.approvedVideoId) {
           try {
-            await simpleApiClient.markScheduledVideoAsWatched(video.scheduledVideoId, selectedChild.id);
-          } catch (error) {
-            console.warn('Failed to mark scheduled video as watched:', error);
-            // Don't block video playback if tracking fails
+            const token = await getToken();
+            if (token) {
+              const playback = await simpleApiClient.getPlaybackUrls(video.approvedVideoId, token, selectedChild?.id);
+              videoUrl = playback.embedUrl;
+              startPosition = playback.resumePosition ?? startPosition;
+            }
+          } catch (apiError) {
+            console.log('⚠️ Playback URL API failed, using the stored link', apiError);
           }
         }
+
+        router.push({
+          pathname: '/video-player',
+          params: {
+            videoUrl,
+            source: video.source,
+            youtubeId: video.youtubeId,
+            title: video.title,
+            approvedVideoId: video.approvedVideoId || '',
+            childId: selectedChild?.id || '',
+            channelName: video.channelName,
+            duration: video.duration || '',
+            scheduledVideoId: video.scheduledVideoId || '',
+            playlistItemId: video.playlistItemId || '',
+            startPosition: String(startPosition),
+          },
+        });
+        return;
       }
 
       // Always try to play the video, even if API calls fail
@@ -181,14 +262,19 @@ export default function HomeScreen() {
         duration: video.duration || '',
         isScheduled: video.isScheduled ? 'true' : 'false',
         scheduledVideoId: video.scheduledVideoId || '',
+        playlistItemId: video.playlistItemId || '',
+        startPosition: String(video.resumePosition || 0),
       };
 
       // Get video URL from API (with YouTube fallback)
       try {
         const token = await getToken();
         if (token) {
-          const videoUrlData = await simpleApiClient.getVideoUrl(video.youtubeId, token);
+          const videoUrlData = await simpleApiClient.getVideoUrl(video.youtubeId, token, selectedChild?.id);
           // Add video URL parameters (router accepts any string parameters)
+          if (videoUrlData.resumePosition !== undefined) {
+            videoParams.startPosition = String(videoUrlData.resumePosition);
+          }
           (videoParams as any).videoUrl = videoUrlData.embedUrl;
           (videoParams as any).iframeUrl = videoUrlData.iframeUrl;
           (videoParams as any).watchUrl = videoUrlData.watchUrl;
@@ -232,10 +318,66 @@ export default function HomeScreen() {
     }
   };
 
+  const playDownload = (download: OfflineDownload) => {
+    if (!download.localUri) return;
+
+    // A download that's also on today's schedule counts towards it, and resumes where it was left
+    const scheduled = videos.find(video => video.approvedVideoId === download.approvedVideoId);
+
+    router.push({
+      pathname: '/video-player',
+      params: {
+        videoUrl: download.localUri,
+        source: 'LOCAL_MEDIA',
+        youtubeId: download.youtubeId,
+        title: download.title,
+        approvedVideoId: download.approvedVideoId,
+        childId: download.childId,
+        duration: download.duration || '',
+        scheduledVideoId: scheduled?.scheduledVideoId || '',
+        startPosition: String(scheduled?.resumePosition || 0),
+      },
+    });
+  };
+
+  const pairDevice = async () => {
+    if (!selectedChild || !pairingCode.trim()) return;
+
+    setIsPairing(true);
+    try {
+      const deviceName = Device.deviceName || Device.modelName || 'Kids device';
+      const paired = await simpleApiClient.pairDevice(pairingCode.trim(), deviceName);
+
+      if (paired.child.id !== selectedChild.id) {
+        Alert.alert(
+          'Different Profile',
+          `This code was created for ${paired.child.name}. Switch to that profile to see their videos.`,
+          [{ text: 'OK' }]
+        );
+      }
+
+      setPairingCode('');
+      await fetchVideos(true);
+    } catch (error) {
+      console.error('Error pairing device:', error);
+      Alert.alert(
+        'Pairing Failed',
+        'That code didn\'t work. Ask your parent for a new code and try again.',
+        [{ text: 'OK' }]
+      );
+    } finally {
+      setIsPairing(false);
+    }
+  };
+
   if (!selectedChild) {
     return null; // This should redirect in the layout
   }
 
+  const continueWatching = videos
+    .filter(video => !video.watched && (video.resumePosition || 0) > 0)
+    .sort((a, b) => (b.lastWatchedAt || '').localeCompare(a.lastWatchedAt || ''));
+
   return (
     <SafeAreaView style={styles.container}>
       {/* Kids-Friendly Header with Gradient */}
@@ -296,6 +438,62 @@ export default function HomeScreen() {
             </View>
             <Text style={styles.loadingText}>Loading your videos...</Text>
           </View>
+        ) : needsPairing ? (
+          <View style={styles.emptyContainer}>
+            <View style={styles.emptyIcon}>
+              <Ionicons name="link-outline" size={64} color="#A78BFA" />
+            </View>
+            <Text style={styles.emptyTitle}>Let&apos;s connect this device</Text>
+            <Text style={styles.emptySubtext}>
+              Ask your parent for a pairing code from the Devices page of their dashboard.
+            </Text>
+            <TextInput
+              style={styles.pairingInput}
+              placeholder="ABC123"
+              value={pairingCode}
+              onChangeText={setPairingCode}
+              autoCapitalize="characters"
+              autoCorrect={false}
+              maxLength={8}
+              textAlign="center"
+              editable={!isPairing}
+            />
+            <TouchableOpacity
+              style={[styles.pairingButton, (!pairingCode.trim() || isPairing) && styles.pairingButtonDisabled]}
+              onPress={pairDevice}
+              disabled={!pairingCode.trim() || isPairing}
+              activeOpacity={0.8}
+            >
+              <LinearGradient
+                colors={['#8B5CF6', '#EC4899']}
+                style={styles.pairingButtonGradient}
+              >
+                <Text style={styles.pairingButtonText}>
+                  {isPairing ? 'Connecting...' : 'Connect'}
+                </Text>
+              </LinearGradient>
+            </TouchableOpacity>
+          </View>
+        ) : viewingWindow ? (
+          <View style={styles.emptyContainer}>
+            <View style={styles.emptyIcon}>
+              <Ionicons name="lock-closed-outline" size={64} color="#A78BFA" />
+            </View>
+            <Text style={styles.emptyTitle}>Videos are resting now</Text>
+            <Text style={styles.emptySubtext}>
+              It&apos;s not video time right now. Videos open again {describeNextOpening(viewingWindow)}.
+            </Text>
+          </View>
+        ) : screenTime?.isTimeUp ? (
+          <View style={styles.emptyContainer}>
+            <View style={styles.emptyIcon}>
+              <Ionicons name="moon-outline" size={64} color="#A78BFA" />
+            </View>
+            <Text style={styles.emptyTitle}>That&apos;s all for today!</Text>
+            <Text style={styles.emptySubtext}>
+              You&apos;ve used up your {screenTime.limitMinutes} minutes of videos for today. Come back tomorrow for more!
+            </Text>
+          </View>
         ) : videos.length === 0 ? (
           <View style={styles.emptyContainer}>
             <View style={styles.emptyIcon}>
@@ -308,7 +506,46 @@ export default function HomeScreen() {
           </View>
         ) : (
           <>
-
+            {/* Videos the child stopped partway through, most recent first */}
+            {continueWatching.length > 0 && (
+              <View style={styles.videosSection}>
+                <Text style={styles.sectionTitle}>Continue Watching</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.continueRow}>
+                  {continueWatching.map((video) => (
+                    <TouchableOpacity
+                      key={video.id}
+                      style={styles.continueCard}
+                      onPress={() => playVideo(video)}
+                      activeOpacity={0.9}
+                    >
+                      <View style={styles.continueThumbnailContainer}>
+                        <Image
+                          source={{ uri: video.thumbnail }}
+                          style={styles.thumbnail}
+                          resizeMode="cover"
+                        />
+                        <View style={styles.playButtonOverlay}>
+                          <LinearGradient
+                            colors={['rgba(255,255,255,0.95)', 'rgba(255,255,255,0.9)']}
+                            style={styles.playButton}
+                          >
+                            <Ionicons name="play" size={20} color={Colors.light.primary} />
+                          </LinearGradient>
+                        </View>
+                        {video.progress != null && (
+                          <View style={styles.progressTrack}>
+                            <View style={[styles.progressFill, { width: `${Math.round(video.progress * 100)}%` }]} />
+                          </View>
+                        )}
+                      </View>
+                      <Text style={styles.continueTitle} numberOfLines={2}>
+                        {video.title}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
+              </View>
+            )}
 
             {/* Video Grid */}
             <View style={styles.videosSection}>
@@ -387,9 +624,121 @@ export default function HomeScreen() {
           </>
         )}
 
+        {/* Videos saved to this device for travel; these work with no connection at all */}
+        {!loading && !needsPairing && !viewingWindow && !screenTime?.isTimeUp && downloads.length > 0 && (
+          <View style={styles.videosSection}>
+            <Text style={styles.sectionTitle}>Downloaded Videos</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.continueRow}>
+              {downloads.map((download) => (
+                <TouchableOpacity
+                  key={download.approvedVideoId}
+                  style={styles.continueCard}
+                  onPress={() => playDownload(download)}
+                  activeOpacity={0.9}
+                >
+                  <View style={styles.continueThumbnailContainer}>
+                    {download.thumbnail ? (
+                      <Image
+                        source={{ uri: download.thumbnail }}
+                        style={styles.thumbnail}
+                        resizeMode="cover"
+                      />
+                    ) : (
+                      <View style={styles.downloadPlaceholder}>
+                        <Ionicons name="film-outline" size={32} color={Colors.light.primary} />
+                      </View>
+                    )}
+                    <View style={styles.playButtonOverlay}>
+                      <LinearGradient
+                        colors={['rgba(255,255,255,0.95)', 'rgba(255,255,255,0.9)']}
+                        style={styles.playButton}
+                      >
+                        <Ionicons name="play" size={20} color={Colors.light.primary} />
+                      </LinearGradient>
+                    </View>
+                  </View>
+                  <Text style={styles.continueTitle} numberOfLines={2}>
+                    {download.title}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+        )}
+
+        {/* Playlists play in order; only finished items and the next one can be opened */}
+        {!loading && !needsPairing && !viewingWindow && !screenTime?.isTimeUp && playlists.length > 0 && (
+          <View style={styles.videosSection}>
+            <Text style={styles.sectionTitle}>My Playlists</Text>
+            {playlists.map((playlist) => (
+              <View key={playlist.id} style={styles.playlistCard}>
+                <View style={styles.playlistHeader}>
+                  <View style={styles.playlistTitleContainer}>
+                    <Text style={styles.playlistTitle} numberOfLines={1}>{playlist.title}</Text>
+                    {playlist.description ? (
+                      <Text style={styles.playlistDescription} numberOfLines={2}>{playlist.description}</Text>
+                    ) : null}
+                  </View>
+                  <Text style={styles.playlistProgress}>
+                    {playlist.completedCount}/{playlist.totalCount}
+                  </Text>
+                </View>
+                <View style={styles.playlistProgressBar}>
+                  <View
+                    style={[
+                      styles.playlistProgressFill,
+                      { width: `${playlist.totalCount > 0 ? (playlist.completedCount / playlist.totalCount) * 100 : 0}%` },
+                    ]}
+                  />
+                </View>
+                {playlist.items.map((item) => {
+                  const isNext = item.id === playlist.nextItemId;
+                  const isAvailable = item.completed || isNext;
+
+                  return (
+                    <TouchableOpacity
+                      key={item.id}
+                      style={[styles.playlistItem, !isAvailable && styles.playlistItemLocked]}
+                      onPress={() => playVideo(item.video)}
+                      disabled={!isAvailable}
+                      activeOpacity={0.8}
+                    >
+                      <View style={[styles.playlistItemNumber, isNext && styles.playlistItemNumberNext]}>
+                        {item.completed ? (
+                          <Ionicons name="checkmark" size={16} color={Colors.light.success} />
+                        ) : (
+                          <Text style={[styles.playlistItemNumberText, isNext && styles.playlistItemNumberTextNext]}>
+                            {item.position + 1}
+                          </Text>
+                        )}
+                      </View>
+                      <Image source={{ uri: item.video.thumbnail }} style={styles.playlistThumbnail} resizeMode="cover" />
+                      <Text style={styles.playlistItemTitle} numberOfLines={2}>{item.video.title}</Text>
+                      {isNext ? (
+                        <Ionicons name="play-circle" size={28} color={Colors.light.primary} />
+                      ) : !isAvailable ? (
+                        <Ionicons name="lock-closed" size={18} color={Colors.light.textSecondary} />
+                      ) : null}
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            ))}
+          </View>
+        )}
+
         {/* Bottom Spacing */}
         <View style={styles.bottomSpacing} />
       </ScrollView>
+
+      <ParentPinModal
+        visible={pinModalVisible}
+        onUnlock={() => {
+          setPinModalVisible(false);
+          router.push('/main-dashboard');
+        }}
+        onCancel={() => setPinModalVisible(false)}
+      />
     </SafeAreaView>
   );
 }
@@ -595,6 +944,89 @@ const styles = StyleSheet.create({
     paddingHorizontal: 24,
     marginBottom: 32,
   },
+  playlistCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 20,
+    padding: 16,
+    marginBottom: 16,
+    ...shadows.medium,
+  },
+  playlistHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  playlistTitleContainer: {
+    flex: 1,
+    marginRight: 12,
+  },
+  playlistTitle: {
+    color: Colors.light.textPrimary,
+    fontSize: FontSizes.xl,
+    fontFamily: Fonts.ui.bold,
+  },
+  playlistDescription: {
+    color: Colors.light.textSecondary,
+    fontSize: FontSizes.sm,
+    fontFamily: Fonts.content.regular,
+    marginTop: 2,
+  },
+  playlistProgress: {
+    color: Colors.light.primary,
+    fontSize: FontSizes.base,
+    fontFamily: Fonts.ui.bold,
+  },
+  playlistProgressBar: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#EDE9FE',
+    overflow: 'hidden',
+    marginBottom: 12,
+  },
+  playlistProgressFill: {
+    height: '100%',
+    backgroundColor: '#8B5CF6',
+  },
+  playlistItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+  },
+  playlistItemLocked: {
+    opacity: 0.5,
+  },
+  playlistItemNumber: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  playlistItemNumberNext: {
+    backgroundColor: '#8B5CF6',
+  },
+  playlistItemNumberText: {
+    color: Colors.light.textSecondary,
+    fontSize: FontSizes.sm,
+    fontFamily: Fonts.ui.bold,
+  },
+  playlistItemNumberTextNext: {
+    color: Colors.light.textOnColor,
+  },
+  playlistThumbnail: {
+    width: 72,
+    height: 44,
+    borderRadius: 8,
+  },
+  playlistItemTitle: {
+    flex: 1,
+    color: Colors.light.textPrimary,
+    fontSize: FontSizes.sm,
+    fontFamily: Fonts.content.semibold,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -633,9 +1065,81 @@ const styles = StyleSheet.create({
     fontFamily: Fonts.content.regular,
     lineHeight: 24,
   },
+  pairingInput: {
+    marginTop: 24,
+    width: '100%',
+    maxWidth: 240,
+    borderWidth: 2,
+    borderColor: '#DDD6FE',
+    borderRadius: 16,
+    paddingVertical: 14,
+    fontSize: FontSizes['2xl'],
+    fontFamily: Fonts.ui.bold,
+    letterSpacing: 6,
+    color: Colors.light.textPrimary,
+    backgroundColor: '#FFFFFF',
+  },
+  pairingButton: {
+    marginTop: 16,
+    borderRadius: 16,
+    overflow: 'hidden',
+    width: '100%',
+    maxWidth: 240,
+  },
+  pairingButtonDisabled: {
+    opacity: 0.5,
+  },
+  pairingButtonGradient: {
+    paddingVertical: 14,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  pairingButtonText: {
+    color: Colors.light.textOnColor,
+    fontSize: FontSizes.base,
+    fontFamily: Fonts.ui.bold,
+  },
   videoGrid: {
     gap: 16,
   },
+  continueRow: {
+    gap: 12,
+  },
+  continueCard: {
+    width: 200,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    overflow: 'hidden',
+    ...shadows.medium,
+  },
+  continueThumbnailContainer: {
+    position: 'relative',
+    height: 112,
+  },
+  progressTrack: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    height: 6,
+    backgroundColor: 'rgba(0,0,0,0.35)',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: Colors.light.primary,
+  },
+  continueTitle: {
+    padding: 10,
+    fontSize: FontSizes.sm,
+    fontFamily: Fonts.content.bold,
+    color: Colors.light.textPrimary,
+  },
+  downloadPlaceholder: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: Colors.light.backgroundSecondary,
+  },
   videoCard: {
     borderRadius: 20,
     overflow: 'hidden',
@@ -93,6 +93,7 @@ export default function RootLayout() {
                 <Stack.Screen name="auth" options={{ headerShown: false }} />
                 <Stack.Screen name="main-dashboard" options={{ headerShown: false }} />
                 <Stack.Screen name="parent-dashboard" options={{ headerShown: false }} />
+                <Stack.Screen name="travel-downloads" options={{ headerShown: false }} />
                 <Stack.Screen name="+not-found" />
               </Stack>
               <StatusBar style="auto" />
@@ -18,6 +18,8 @@ import { Colors } from '@/constants/Colors';
 import { Fonts, FontSizes } from '@/constants/Fonts';
 import { LinearGradient } from 'expo-linear-gradient';
 import AddChildModal from '@/components/AddChildModal';
+import ParentPinModal from '@/components/ParentPinModal';
+import { wasUnlockedRecently } from '@/lib/parentPin';
 import { useSession } from '@/contexts/SessionContext';
 
 
@@ -31,6 +33,7 @@ export default function MainDashboard() {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [addChildModalVisible, setAddChildModalVisible] = useState(false);
+  const [pendingChild, setPendingChild] = useState<Child | null>(null); // Waiting on the parent PIN
 
   useEffect(() => {
     loadData();
@@ -106,7 +109,16 @@ export default function MainDashboard() {
     );
   };
 
-  const selectChild = async (child: Child) => {
+  // Switching profiles needs the parent PIN, unless it was just entered to leave the kids feed
+  const selectChild = (child: Child) => {
+    if (wasUnlockedRecently()) {
+      openChildProfile(child);
+    } else {
+      setPendingChild(child);
+    }
+  };
+
+  const openChildProfile = async (child: Child) => {
     setSelectedChild(child);
     
     // Start tracking session for this child
@@ -281,6 +293,16 @@ export default function MainDashboard() {
       </ScrollView>
 
       {/* Add Child Modal */}
+      <ParentPinModal
+        visible={pendingChild !== null}
+        onUnlock={() => {
+          const child = pendingChild;
+          setPendingChild(null);
+          if (child) openChildProfile(child);
+        }}
+        onCancel={() => setPendingChild(null)}
+      />
+
       <AddChildModal
         visible={addChildModalVisible}
         onClose={() => setAddChildModalVisible(false)}
@@ -20,15 +20,18 @@ import { router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import { IconSymbol } from '@/components/ui/IconSymbol';
-import ParentScheduleModal from '@/components/ParentScheduleModal';
+import ParentScheduleModal, { Recurrence, ScheduleRule } from '@/components/ParentScheduleModal';
 import ParentAnalyticsModal from '@/components/ParentAnalyticsModal';
+import ParentPinModal from '@/components/ParentPinModal';
 import { apiClient } from '@/lib/api';
+import { wasUnlockedRecently } from '@/lib/parentPin';
 import { getApiBaseUrl } from '@/lib/productionConfig';
 import { Colors, Gradients, ThemeColors } from '@/constants/Colors';
 import { Fonts, FontSizes } from '@/constants/Fonts';
 import { getAgeGroupInfo } from '@/lib/growth-categories';
 import FilterModal from '@/components/FilterModal';
 import { localActivityStorage } from '@/lib/localActivityStorage';
+import { formatDateLabel } from '@/lib/utils';
 
 const { width } = Dimensions.get('window');
 
@@ -78,12 +81,51 @@ interface VideoRecommendation {
   title: string;
   description: string;
   thumbnail: string;
+  channelId: string;
   channelName: string;
   duration: string;
   publishedAt: string;
   viewCount: string;
   category: string;
   summary: string;
+  tags?: string[];
+  trustedChannel?: boolean;
+  whyRecommended?: string[];
+}
+
+// Shape returned by /api/videos/suitability (SuitabilityAssessment in the web app's lib/suitability.ts)
+interface SuitabilityAssessment {
+  ageBand: 'all' | '3+' | '6+' | '9+' | '13+' | '16+';
+  educationalValue: 'none' | 'low' | 'medium' | 'high';
+  themes: Record<'violence' | 'fear' | 'commercialism' | 'language', 'none' | 'mild' | 'moderate' | 'strong'>;
+  notes: string;
+  confidence: number;
+  model: string;
+  usedTranscript?: boolean;
+  assessedAt: string;
+}
+
+const AGE_BAND_MIN_AGE: Record<SuitabilityAssessment['ageBand'], number> = {
+  'all': 0,
+  '3+': 3,
+  '6+': 6,
+  '9+': 9,
+  '13+': 13,
+  '16+': 16,
+};
+
+// A recommendation the child's content filter hid, and why
+interface SmartSearchPlan {
+  queries: string[];
+  filters: Record<string, string | undefined>;
+  topics: string[];
+}
+
+interface FilteredRecommendation extends VideoRecommendation {
+  filterReason: {
+    keyword: string;
+    field: 'title' | 'description' | 'tags';
+  };
 }
 
 interface ScheduledVideo {
@@ -110,12 +152,13 @@ enum TabType {
   ANALYTICS = 'analytics'
 }
 
-export default function ParentDashboard() {
+function ParentDashboardContent() {
   const { getToken, userId } = useAuth();
   const { signOut } = useClerk();
 
 
   const [activeTab, setActiveTab] = useState<TabType>(TabType.OVERVIEW);
+  const [pinModalVisible, setPinModalVisible] = useState(false);
   const [children, setChildren] = useState<Child[]>([]);
   const [stats, setStats] = useState<ParentStats>({
     totalChildren: 0,
@@ -129,9 +172,13 @@ export default function ParentDashboard() {
   });
   const [approvedVideos, setApprovedVideos] = useState<ApprovedVideo[]>([]);
   const [recommendations, setRecommendations] = useState<VideoRecommendation[]>([]);
+  const [hiddenVideos, setHiddenVideos] = useState<FilteredRecommendation[]>([]);
+  const [showHiddenVideos, setShowHiddenVideos] = useState(false);
   const [scheduledVideos, setScheduledVideos] = useState<ScheduledVideo[]>([]);
   const [selectedChildId, setSelectedChildId] = useState<string>('');
   const [searchQuery, setSearchQuery] = useState('');
+  const [smartSearch, setSmartSearch] = useState(false);
+  const [smartSearchPlan, setSmartSearchPlan] = useState<SmartSearchPlan | null>(null);
   const [selectedCategory, setSelectedCategory] = useState('all');
   const [selectedDuration, setSelectedDuration] = useState('any');
   const [selectedUploadDate, setSelectedUploadDate] = useState('any');
@@ -195,10 +242,14 @@ export default function ParentDashboard() {
     }
   };
   const [scheduleModalVisible, setScheduleModalVisible] = useState(false);
+  const [scheduleRules, setScheduleRules] = useState<ScheduleRule[]>([]);
+  const [editingRule, setEditingRule] = useState<ScheduleRule | null>(null);
   const [analyticsModalVisible, setAnalyticsModalVisible] = useState(false);
   const [videoDetailModalVisible, setVideoDetailModalVisible] = useState(false);
   const [selectedVideo, setSelectedVideo] = useState<VideoRecommendation | null>(null);
   const [videoSummary, setVideoSummary] = useState<string>('');
+  const [videoSuitability, setVideoSuitability] = useState<SuitabilityAssessment | null>(null);
+  const [isLoadingSuitability, setIsLoadingSuitability] = useState(false);
   const [filterModalVisible, setFilterModalVisible] = useState(false);
 
   useEffect(() => {
@@ -439,13 +490,10 @@ export default function ParentDashboard() {
         maxResults: '10',
       });
 
-      // Add page token for pagination
-      if (loadMore && nextPageToken) {
+      // Every feed, including the default one, pages with the token from the previous response
+      if (loadMore) {
+        if (!nextPageToken) return;
         params.append('pageToken', nextPageToken);
-      } else if (loadMore && !nextPageToken) {
-        // Fallback: simulate pagination by requesting more results and skipping existing ones
-        params.set('maxResults', String(10 + recommendations.length));
-        console.log('📄 Using offset-based pagination, requesting:', 10 + recommendations.length);
       }
 
       if (searchQuery) {
@@ -468,7 +516,11 @@ export default function ParentDashboard() {
         params.append('sortBy', selectedSortBy);
       }
 
-      const requestKey = `recommendations-${selectedChildId}-${searchQuery}-${selectedCategory}-${selectedDuration}-${selectedUploadDate}-${selectedSortBy}-${loadMore ? nextPageToken : 'initial'}`;
+      // Smart search returns one ranked page, so it never loads more
+      const useSmartSearch = smartSearch && !!searchQuery.trim();
+      if (useSmartSearch && loadMore) return;
+
+      const requestKey = `recommendations-${selectedChildId}-${searchQuery}-${useSmartSearch ? 'smart' : 'plain'}-${selectedCategory}-${selectedDuration}-${selectedUploadDate}-${selectedSortBy}-${loadMore ? nextPageToken : 'initial'}`;
 
       console.log('🔍 Request details:', {
         childId: selectedChildId,
@@ -498,16 +550,34 @@ export default function ParentDashboard() {
       }
 
       const apiBaseUrl = getApiBaseUrl();
-      const fullUrl = `${apiBaseUrl}/api/recommendations?${params.toString()}`;
-      console.log('🌐 Making API request to:', fullUrl);
-
-      const response = await fetch(fullUrl, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
+      let response: Response;
+
+      if (useSmartSearch) {
+        console.log('🧠 Making smart search request for:', searchQuery);
+        response = await fetch(`${apiBaseUrl}/api/recommendations/smart`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            childId: selectedChildId,
+            query: searchQuery.trim(),
+            maxResults: 20,
+          }),
+        });
+      } else {
+        const fullUrl = `${apiBaseUrl}/api/recommendations?${params.toString()}`;
+        console.log('🌐 Making API request to:', fullUrl);
+
+        response = await fetch(fullUrl, {
+          method: 'GET',
+          headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json',
+          },
+        });
+      }
 
       console.log('📡 Response status:', response.status, response.statusText);
 
@@ -528,6 +598,19 @@ export default function ParentDashboard() {
       if (response.ok) {
         const data = await response.json();
         const newRecommendations = data.recommendations || [];
+        const newFiltered: FilteredRecommendation[] = data.filtered || [];
+        if (!loadMore) {
+          setSmartSearchPlan(data.plan || null);
+        }
+
+        if (loadMore) {
+          setHiddenVideos(prev => {
+            const hiddenIds = new Set(prev.map(v => v.id));
+            return [...prev, ...newFiltered.filter(v => !hiddenIds.has(v.id))];
+          });
+        } else {
+          setHiddenVideos(newFiltered);
+        }
 
         // Log API response details for debugging
         console.log('📊 API Response:', {
@@ -544,29 +627,16 @@ export default function ParentDashboard() {
 
         let finalRecommendations: VideoRecommendation[];
         if (loadMore) {
-          if (nextPageToken) {
-            // Normal pagination with pageToken
-            finalRecommendations = [...recommendations, ...newRecommendations];
-          } else {
-            // Fallback pagination: filter out duplicates and take new ones
-            const existingIds = new Set(recommendations.map(v => v.id));
-            const newUniqueVideos = newRecommendations.filter(v => !existingIds.has(v.id));
-            finalRecommendations = [...recommendations, ...newUniqueVideos.slice(0, 10)];
-            console.log('📄 Filtered duplicates, adding:', newUniqueVideos.length, 'new videos');
-          }
-          setRecommendations(finalRecommendations);
+          // Searches can repeat a video across pages, so skip anything already shown
+          const existingIds = new Set(recommendations.map(v => v.id));
+          finalRecommendations = [...recommendations, ...newRecommendations.filter(v => !existingIds.has(v.id))];
         } else {
           finalRecommendations = newRecommendations;
-          setRecommendations(finalRecommendations);
         }
+        setRecommendations(finalRecommendations);
 
-        const newNextPageToken = data.nextPageToken || null;
-        // Show Load More if we have nextPageToken OR if we got the max requested results (likely more available)
-        const newHasMore = (!!data.nextPageToken && newRecommendations.length > 0) ||
-          (newRecommendations.length >= 10 && data.totalResults > finalRecommendations.length);
-
-        setNextPageToken(newNextPageToken);
-        setHasMoreVideos(newHasMore);
+        setNextPageToken(data.nextPageToken || null);
+        setHasMoreVideos(!!data.nextPageToken);
 
         // CACHING DISABLED: Always get fresh content for better user experience
         console.log('✅ Fresh recommendations loaded:', finalRecommendations.length, 'videos');
@@ -576,12 +646,14 @@ export default function ParentDashboard() {
         console.error('❌ Error details:', errorData);
         if (!loadMore) {
           setRecommendations([]);
+          setHiddenVideos([]);
         }
       }
     } catch (error) {
       console.error('❌ Recommendations API failed:', error);
       if (!loadMore) {
         setRecommendations([]);
+        setHiddenVideos([]);
       }
     } finally {
       if (loadMore) {
@@ -638,6 +710,7 @@ export default function ParentDashboard() {
         try {
           const data = await response.json();
           setScheduledVideos(data.scheduledVideos || []);
+          setScheduleRules(data.scheduleRules || []);
           console.log('✅ Loaded', data.scheduledVideos?.length || 0, 'scheduled videos');
         } catch (parseError) {
           console.log('⚠️ Could not parse scheduled videos response as JSON');
@@ -676,12 +749,16 @@ export default function ParentDashboard() {
     if (!selectedChildId) return;
 
     try {
+      const token = await getToken();
+
       const response = await fetch(`${getApiBaseUrl()}/api/videos/summary`, {
         method: 'POST',
         headers: {
+          ...(token && { 'Authorization': `Bearer ${token}` }),
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
+          youtubeId: video.id,
           videoTitle: video.title,
           videoDescription: video.description,
           childId: selectedChildId,
@@ -700,10 +777,46 @@ export default function ParentDashboard() {
     }
   };
 
+  const loadVideoSuitability = async (video: VideoRecommendation) => {
+    setVideoSuitability(null);
+    setIsLoadingSuitability(true);
+
+    try {
+      const token = await getToken();
+      if (!token) return;
+
+      const response = await fetch(`${getApiBaseUrl()}/api/videos/suitability`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          youtubeId: video.id,
+          title: video.title,
+          description: video.description,
+          channelName: video.channelName,
+          tags: video.tags,
+          duration: video.duration,
+        }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setVideoSuitability(data.suitability || null);
+      }
+    } catch {
+      console.log('Suitability API not available');
+    } finally {
+      setIsLoadingSuitability(false);
+    }
+  };
+
   const showVideoDetail = (video: VideoRecommendation) => {
     setSelectedVideo(video);
     setVideoDetailModalVisible(true);
     loadVideoSummary(video);
+    loadVideoSuitability(video);
   };
 
   const approveVideo = async (video: VideoRecommendation) => {
@@ -736,6 +849,7 @@ export default function ParentDashboard() {
           channelName: video.channelName,
           duration: video.duration,
           summary: video.summary,
+          ...(selectedVideo?.id === video.id && videoSuitability && { suitability: videoSuitability }),
         }),
       });
 
@@ -793,6 +907,96 @@ export default function ParentDashboard() {
     }
   };
 
+  // Let a video hidden by the content filter through for the selected child
+  const showHiddenVideo = async (video: FilteredRecommendation) => {
+    try {
+      const token = await getToken();
+      if (!token) {
+        Alert.alert('Error', 'Authentication required');
+        return;
+      }
+
+      const response = await fetch(`${getApiBaseUrl()}/api/content-filters/overrides`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          childId: selectedChildId,
+          youtubeId: video.id,
+        }),
+      });
+
+      if (response.ok) {
+        setHiddenVideos(prev => prev.filter(v => v.id !== video.id));
+        setRecommendations(prev => [video, ...prev]);
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        console.error('❌ Content filter override error:', errorData);
+        Alert.alert('Error', errorData.error || 'Failed to show video');
+      }
+    } catch (error) {
+      console.error('❌ Content filter override network error:', error);
+      Alert.alert('Error', 'Failed to show video. Please check your connection.');
+    }
+  };
+
+  // Trust or block a video's channel for the whole family
+  const saveChannelRule = async (video: VideoRecommendation, rule: 'ALLOW' | 'BLOCK') => {
+    try {
+      const token = await getToken();
+      if (!token) {
+        Alert.alert('Error', 'Authentication required');
+        return;
+      }
+
+      const response = await fetch(`${getApiBaseUrl()}/api/channel-rules`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          channelId: video.channelId,
+          channelName: video.channelName,
+          rule,
+        }),
+      });
+
+      if (response.ok) {
+        if (rule === 'BLOCK') {
+          setRecommendations(prev => prev.filter(v => v.channelId !== video.channelId));
+          if (selectedVideo?.channelId === video.channelId) {
+            setVideoDetailModalVisible(false);
+          }
+        } else {
+          setRecommendations(prev => prev.map(v =>
+            v.channelId === video.channelId ? { ...v, trustedChannel: true } : v
+          ));
+        }
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        console.error('❌ Channel rule error:', errorData);
+        Alert.alert('Error', errorData.error || 'Failed to update channel');
+      }
+    } catch (error) {
+      console.error('❌ Channel rule network error:', error);
+      Alert.alert('Error', 'Failed to update channel. Please check your connection.');
+    }
+  };
+
+  const confirmBlockChannel = (video: VideoRecommendation) => {
+    Alert.alert(
+      'Block Channel',
+      `Hide every video from ${video.channelName}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Block', style: 'destructive', onPress: () => saveChannelRule(video, 'BLOCK') },
+      ]
+    );
+  };
+
   const removeApprovedVideo = async (videoId: string) => {
     try {
       const token = await getToken();
@@ -974,6 +1178,38 @@ export default function ParentDashboard() {
             <IconSymbol name="chevron.right" size={20} color="rgba(255,255,255,0.7)" />
           </LinearGradient>
         </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.actionCard}
+          onPress={() => router.push('/travel-downloads')}
+        >
+          <LinearGradient colors={Gradients.primaryPurple as [string, string]} style={styles.actionGradient}>
+            <View style={styles.actionIcon}>
+              <IconSymbol name="airplane" size={24} color={Colors.light.textOnColor} />
+            </View>
+            <View style={styles.actionContent}>
+              <Text style={styles.actionTitle}>Travel Downloads</Text>
+              <Text style={styles.actionDescription}>Save your own videos for watching offline</Text>
+            </View>
+            <IconSymbol name="chevron.right" size={20} color="rgba(255,255,255,0.7)" />
+          </LinearGradient>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.actionCard}
+          onPress={() => setPinModalVisible(true)}
+        >
+          <LinearGradient colors={Gradients.lightPurple as [string, string]} style={styles.actionGradient}>
+            <View style={styles.actionIcon}>
+              <IconSymbol name="lock.fill" size={24} color={Colors.light.textOnColor} />
+            </View>
+            <View style={styles.actionContent}>
+              <Text style={styles.actionTitle}>Change Parent PIN</Text>
+              <Text style={styles.actionDescription}>The PIN that keeps children out of this area</Text>
+            </View>
+            <IconSymbol name="chevron.right" size={20} color="rgba(255,255,255,0.7)" />
+          </LinearGradient>
+        </TouchableOpacity>
       </View>
 
       {/* Children Overview */}
@@ -1044,7 +1280,7 @@ export default function ParentDashboard() {
               <IconSymbol name="magnifyingglass" size={18} color={Colors.light.textSecondary} />
               <TextInput
                 style={styles.browseSearchInput}
-                placeholder="Search videos..."
+                placeholder={smartSearch ? 'Describe what you want them to watch...' : 'Search videos...'}
                 value={searchQuery}
                 onChangeText={setSearchQuery}
                 onFocus={() => setShowSearchSuggestions(true)}
@@ -1062,6 +1298,19 @@ export default function ParentDashboard() {
                   <Ionicons name="time-outline" size={16} color={Colors.light.textSecondary} />
                 </TouchableOpacity>
               )}
+              <TouchableOpacity
+                style={styles.filterButton}
+                onPress={() => {
+                  setSmartSearch(!smartSearch);
+                  setSmartSearchPlan(null);
+                }}
+              >
+                <Ionicons
+                  name={smartSearch ? 'sparkles' : 'sparkles-outline'}
+                  size={18}
+                  color={smartSearch ? Colors.light.primary : Colors.light.textSecondary}
+                />
+              </TouchableOpacity>
               <TouchableOpacity
                 style={styles.filterButton}
                 onPress={() => setFilterModalVisible(true)}
@@ -1112,6 +1361,25 @@ export default function ParentDashboard() {
             )}
           </View>
 
+          {/* Searches the smart search ran */}
+          {smartSearch && smartSearchPlan && (
+            <View style={styles.activeFiltersContainer}>
+              <Text style={styles.activeFiltersLabel}>Searched for:</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.activeFiltersScroll}>
+                {smartSearchPlan.queries.map(query => (
+                  <View key={query} style={styles.activeFilterChip}>
+                    <Text style={styles.activeFilterText}>{query}</Text>
+                  </View>
+                ))}
+                {Object.values(smartSearchPlan.filters).filter(Boolean).map(value => (
+                  <View key={value} style={[styles.activeFilterChip, styles.smartFilterChip]}>
+                    <Text style={styles.smartFilterText}>{value}</Text>
+                  </View>
+                ))}
+              </ScrollView>
+            </View>
+          )}
+
           {/* Active Filters Summary */}
           {(selectedCategory !== 'all' || selectedDuration !== 'any' || selectedUploadDate !== 'any' || selectedSortBy !== 'relevance') && (
             <View style={styles.activeFiltersContainer}>
@@ -1152,6 +1420,35 @@ export default function ParentDashboard() {
           </View>
         )}
 
+        {/* Hidden by content filters */}
+        {hiddenVideos.length > 0 && (
+          <View style={styles.hiddenVideosBanner}>
+            <TouchableOpacity
+              style={styles.hiddenVideosHeader}
+              onPress={() => setShowHiddenVideos(prev => !prev)}
+            >
+              <Ionicons name="eye-off-outline" size={18} color={Colors.light.textSecondary} />
+              <Text style={styles.hiddenVideosText}>
+                {hiddenVideos.length} {hiddenVideos.length === 1 ? 'video was' : 'videos were'} hidden by content filters
+              </Text>
+              <Text style={styles.hiddenVideosToggle}>{showHiddenVideos ? 'Hide' : 'Review'}</Text>
+            </TouchableOpacity>
+            {showHiddenVideos && hiddenVideos.map((video) => (
+              <View key={video.id} style={styles.hiddenVideoRow}>
+                <View style={styles.hiddenVideoInfo}>
+                  <Text style={styles.hiddenVideoTitle} numberOfLines={1}>{video.title}</Text>
+                  <Text style={styles.hiddenVideoReason} numberOfLines={1}>
+                    Matched &quot;{video.filterReason.keyword}&quot; in the {video.filterReason.field}
+                  </Text>
+                </View>
+                <TouchableOpacity style={styles.hiddenVideoButton} onPress={() => showHiddenVideo(video)}>
+                  <Text style={styles.hiddenVideoButtonText}>Show anyway</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        )}
+
         {/* Video Grid - Full Screen Scrollable */}
         <FlatList
           data={recommendations}
@@ -1160,12 +1457,16 @@ export default function ParentDashboard() {
               video={item}
               onApprove={() => approveVideo(item)}
               onPress={() => showVideoDetail(item)}
+              onTrustChannel={() => saveChannelRule(item, 'ALLOW')}
+              onBlockChannel={() => confirmBlockChannel(item)}
             />
           )}
           keyExtractor={(item) => item.id}
           numColumns={2}
           showsVerticalScrollIndicator={false}
           refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+          onEndReached={loadMoreRecommendations}
+          onEndReachedThreshold={0.5}
           contentContainerStyle={styles.videoGridContent}
           columnWrapperStyle={styles.videoGridRow}
           ListEmptyComponent={
@@ -1287,10 +1588,48 @@ export default function ParentDashboard() {
     </View>
   );
 
+  const removeScheduleRule = (rule: ScheduleRule) => {
+    Alert.alert(
+      'Stop Repeating?',
+      `"${rule.title}" will no longer be scheduled for ${rule.childName}. Videos already watched stay in the history.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const token = await getToken();
+              if (!token) return;
+
+              const response = await fetch(`${getApiBaseUrl()}/api/scheduled-videos/rules/${rule.id}`, {
+                method: 'DELETE',
+                headers: {
+                  'Authorization': `Bearer ${token}`,
+                  'Content-Type': 'application/json',
+                },
+              });
+
+              if (response.ok) {
+                await loadScheduledVideos();
+              } else {
+                Alert.alert('Error', 'Failed to remove recurring schedule');
+              }
+            } catch (error) {
+              console.error('❌ Remove schedule rule error:', error);
+              Alert.alert('Error', 'Failed to remove recurring schedule. Please check your connection.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const renderSchedule = () => {
     // Group videos by date
     const groupedVideos = scheduledVideos.reduce((acc, video) => {
-      const date = new Date(video.scheduledDate).toDateString();
+      // Scheduled dates are calendar days; read them as local midnight so they don't shift a day
+      const date = new Date(`${video.scheduledDate.split('T')[0]}T00:00`).toDateString();
       if (!acc[date]) {
         acc[date] = [];
       }
@@ -1338,7 +1677,7 @@ export default function ParentDashboard() {
           </TouchableOpacity>
         </View>
 
-        {scheduledVideos.length === 0 ? (
+        {scheduledVideos.length === 0 && scheduleRules.length === 0 ? (
           <View style={styles.emptyContainer}>
             <IconSymbol name="calendar" size={48} color={Colors.light.textTertiary} />
             <Text style={styles.emptyTitle}>No scheduled videos</Text>
@@ -1359,6 +1698,49 @@ export default function ParentDashboard() {
             refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
             contentContainerStyle={styles.scrollContent}
           >
+            {scheduleRules.length > 0 && (
+              <View style={styles.dateSection}>
+                <View style={styles.dateHeader}>
+                  <LinearGradient
+                    colors={Gradients.purpleBlue as any}
+                    style={styles.dateHeaderGradient}
+                  >
+                    <Ionicons name="repeat" size={20} color={Colors.light.textOnColor} />
+                    <Text style={styles.dateHeaderText}>Repeating</Text>
+                    <View style={styles.videoCountBadge}>
+                      <Text style={styles.videoCountText}>{scheduleRules.length}</Text>
+                    </View>
+                  </LinearGradient>
+                </View>
+
+                {scheduleRules.map((rule) => (
+                  <View key={rule.id} style={styles.scheduleRuleCard}>
+                    <View style={styles.scheduleRuleInfo}>
+                      <Text style={styles.scheduleRuleTitle} numberOfLines={1}>{rule.title}</Text>
+                      <Text style={styles.scheduleRuleDescription}>
+                        {rule.description} • For {rule.childName}
+                      </Text>
+                    </View>
+                    <TouchableOpacity
+                      style={styles.scheduleRuleAction}
+                      onPress={() => {
+                        setEditingRule(rule);
+                        setScheduleModalVisible(true);
+                      }}
+                    >
+                      <Ionicons name="create-outline" size={20} color={Colors.light.primary} />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.scheduleRuleAction}
+                      onPress={() => removeScheduleRule(rule)}
+                    >
+                      <Ionicons name="trash-outline" size={20} color={Colors.light.error} />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </View>
+            )}
+
             {sortedDates.map((dateString) => (
               <View key={dateString} style={styles.dateSection}>
                 {/* Date Header */}
@@ -1546,10 +1928,12 @@ export default function ParentDashboard() {
     </View>
   );
 
-  const VideoRecommendationCard = ({ video, onApprove, onPress }: {
+  const VideoRecommendationCard = ({ video, onApprove, onPress, onTrustChannel, onBlockChannel }: {
     video: VideoRecommendation;
     onApprove: () => void;
     onPress: () => void;
+    onTrustChannel: () => void;
+    onBlockChannel: () => void;
   }) => {
     const isApproving = approvingVideos.has(video.id);
 
@@ -1562,6 +1946,43 @@ export default function ParentDashboard() {
         <View style={styles.gridVideoInfo}>
           <Text style={styles.gridVideoTitle} numberOfLines={2}>{video.title}</Text>
           <Text style={styles.gridVideoChannel} numberOfLines={1}>{video.channelName}</Text>
+          {video.whyRecommended && video.whyRecommended.length > 0 ? (
+            <View style={styles.gridWhyRecommended}>
+              <Ionicons name="bulb-outline" size={12} color={Colors.light.primary} />
+              <Text style={styles.gridWhyRecommendedText} numberOfLines={2}>{video.whyRecommended[0]}</Text>
+            </View>
+          ) : null}
+          {video.channelId ? (
+            <View style={styles.gridChannelActions}>
+              {video.trustedChannel ? (
+                <View style={styles.gridChannelAction}>
+                  <Ionicons name="shield-checkmark" size={12} color={Colors.light.success} />
+                  <Text style={[styles.gridChannelActionText, { color: Colors.light.success }]}>Trusted</Text>
+                </View>
+              ) : (
+                <TouchableOpacity
+                  style={styles.gridChannelAction}
+                  onPress={(e) => {
+                    e.stopPropagation();
+                    onTrustChannel();
+                  }}
+                >
+                  <Ionicons name="shield-checkmark-outline" size={12} color={Colors.light.textSecondary} />
+                  <Text style={styles.gridChannelActionText}>Trust</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                style={styles.gridChannelAction}
+                onPress={(e) => {
+                  e.stopPropagation();
+                  onBlockChannel();
+                }}
+              >
+                <Ionicons name="ban-outline" size={12} color={Colors.light.error} />
+                <Text style={[styles.gridChannelActionText, { color: Colors.light.error }]}>Block</Text>
+              </TouchableOpacity>
+            </View>
+          ) : null}
           <View style={styles.gridVideoActions}>
             <TouchableOpacity
               style={[styles.gridApproveButton, isApproving && styles.gridApproveButtonApproving]}
@@ -1621,7 +2042,7 @@ export default function ParentDashboard() {
         <Text style={styles.videoTitle} numberOfLines={2}>{video.title}</Text>
         <Text style={styles.videoChannel}>By: {video.channelName}</Text>
         <Text style={styles.videoChild}>For: {video.childName}</Text>
-        <Text style={styles.videoSchedule}>Scheduled: {new Date(video.scheduledDate).toLocaleDateString()}</Text>
+        <Text style={styles.videoSchedule}>Scheduled: {formatDateLabel(video.scheduledDate)}</Text>
         {video.isWatched && (
           <View style={styles.watchedBadge}>
             <Text style={styles.watchedText}>✓ Watched</Text>
@@ -1728,8 +2149,41 @@ export default function ParentDashboard() {
       {/* Modals */}
       <ParentScheduleModal
         visible={scheduleModalVisible}
-        onClose={() => setScheduleModalVisible(false)}
-        onSchedule={async (videoIds, childrenIds, date) => {
+        onClose={() => {
+          setScheduleModalVisible(false);
+          setEditingRule(null);
+        }}
+        editingRule={editingRule}
+        onUpdateRule={async (ruleId: string, startDate: string, recurrence: Recurrence) => {
+          try {
+            const token = await getToken();
+            if (!token) {
+              Alert.alert('Error', 'Authentication required');
+              return;
+            }
+
+            const response = await fetch(`${getApiBaseUrl()}/api/scheduled-videos/rules/${ruleId}`, {
+              method: 'PUT',
+              headers: {
+                'Authorization': `Bearer ${token}`,
+                'Content-Type': 'application/json',
+              },
+              body: JSON.stringify({ startDate, recurrence }),
+            });
+            if (response.ok) {
+              Alert.alert('Success', 'Recurring schedule updated! 🔁');
+              await loadScheduledVideos();
+            } else {
+              const errorData = await response.json();
+              console.error('❌ Update schedule rule error:', errorData);
+              Alert.alert('Error', errorData.error || 'Failed to update recurring schedule');
+            }
+          } catch (error) {
+            console.error('❌ Update schedule rule network error:', error);
+            Alert.alert('Error', 'Failed to update recurring schedule. Please check your connection.');
+          }
+        }}
+        onSchedule={async (videoIds, childrenIds, date, recurrence) => {
           try {
             const token = await getToken();
             if (!token) {
@@ -1747,6 +2201,7 @@ export default function ParentDashboard() {
                 approvedVideoIds: videoIds,
                 childrenIds,
                 scheduledDate: date,
+                recurrence,
               }),
             });
             if (response.ok) {
@@ -1818,6 +2273,58 @@ export default function ParentDashboard() {
                   </Text>
                 </View>
 
+                <View style={styles.modalSection}>
+                  <Text style={styles.modalSectionTitle}>Content Check</Text>
+                  {videoSuitability ? (() => {
+                    const selectedChild = children.find(c => c.id === selectedChildId);
+                    const tooYoung = !!selectedChild &&
+                      calculateAge(selectedChild.birthday) < AGE_BAND_MIN_AGE[videoSuitability.ageBand];
+                    const flaggedThemes = Object.entries(videoSuitability.themes).filter(([, level]) => level !== 'none');
+
+                    return (
+                      <View>
+                        <View style={styles.suitabilityBadges}>
+                          <View style={[styles.suitabilityBadge, tooYoung && styles.suitabilityBadgeWarning]}>
+                            <Text style={[styles.suitabilityBadgeText, tooYoung && styles.suitabilityBadgeWarningText]}>
+                              {videoSuitability.ageBand === 'all' ? 'All ages' : `Ages ${videoSuitability.ageBand}`}
+                            </Text>
+                          </View>
+                          <View style={styles.suitabilityBadge}>
+                            <Text style={styles.suitabilityBadgeText}>
+                              {videoSuitability.educationalValue} educational value
+                            </Text>
+                          </View>
+                          {flaggedThemes.map(([theme, level]) => (
+                            <View
+                              key={theme}
+                              style={[styles.suitabilityBadge, level !== 'mild' && styles.suitabilityBadgeWarning]}
+                            >
+                              <Text style={[styles.suitabilityBadgeText, level !== 'mild' && styles.suitabilityBadgeWarningText]}>
+                                {level} {theme}
+                              </Text>
+                            </View>
+                          ))}
+                          {flaggedThemes.length === 0 && (
+                            <View style={styles.suitabilityBadge}>
+                              <Text style={styles.suitabilityBadgeText}>No concerning themes</Text>
+                            </View>
+                          )}
+                        </View>
+                        {!!videoSuitability.notes && (
+                          <Text style={styles.suitabilityNotes}>{videoSuitability.notes}</Text>
+                        )}
+                        <Text style={styles.suitabilityConfidence}>
+                          {Math.round(videoSuitability.confidence * 100)}% confidence · {videoSuitability.usedTranscript ? "based on what's said in the video" : 'based on the title and description only'}
+                        </Text>
+                      </View>
+                    );
+                  })() : (
+                    <Text style={styles.suitabilityConfidence}>
+                      {isLoadingSuitability ? 'Checking content...' : 'Content check not available'}
+                    </Text>
+                  )}
+                </View>
+
                 <View style={styles.modalSection}>
                   <Text style={styles.modalSectionTitle}>Description</Text>
                   <Text style={styles.modalVideoDescription}>
@@ -1841,6 +2348,35 @@ export default function ParentDashboard() {
         filters={getCurrentFilters()}
         onFiltersChange={setAllFilters}
       />
+
+      <ParentPinModal
+        visible={pinModalVisible}
+        mode="change"
+        onUnlock={() => {
+          setPinModalVisible(false);
+          Alert.alert('PIN Changed', 'Use your new PIN next time you open the parent area.');
+        }}
+        onCancel={() => setPinModalVisible(false)}
+      />
+    </SafeAreaView>
+  );
+}
+
+// Nothing in the parent area loads until the parent PIN has been entered
+export default function ParentDashboard() {
+  const [unlocked, setUnlocked] = useState(wasUnlockedRecently);
+
+  if (unlocked) {
+    return <ParentDashboardContent />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ParentPinModal
+        visible={true}
+        onUnlock={() => setUnlocked(true)}
+        onCancel={() => router.back()}
+      />
     </SafeAreaView>
   );
 }
@@ -2659,6 +3195,41 @@ const styles = StyleSheet.create({
     color: Colors.light.textPrimary,
     marginBottom: 12,
   },
+  suitabilityBadges: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  suitabilityBadge: {
+    backgroundColor: '#E0F0FF',
+    borderRadius: 12,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+  },
+  suitabilityBadgeText: {
+    fontSize: FontSizes.xs,
+    fontFamily: Fonts.content.medium,
+    color: Colors.light.primary,
+  },
+  suitabilityBadgeWarning: {
+    backgroundColor: '#FDECEC',
+  },
+  suitabilityBadgeWarningText: {
+    color: Colors.light.error,
+  },
+  suitabilityNotes: {
+    fontSize: FontSizes.sm,
+    fontFamily: Fonts.content.regular,
+    color: Colors.light.textPrimary,
+    lineHeight: 20,
+    marginBottom: 6,
+  },
+  suitabilityConfidence: {
+    fontSize: FontSizes.xs,
+    fontFamily: Fonts.content.regular,
+    color: Colors.light.textSecondary,
+  },
   modalVideoSummary: {
     fontSize: FontSizes.base,
     fontFamily: Fonts.content.regular,
@@ -2784,6 +3355,16 @@ const styles = StyleSheet.create({
     fontFamily: Fonts.content.medium,
     color: Colors.light.textOnColor,
   },
+  smartFilterChip: {
+    backgroundColor: Colors.light.cardBackground,
+    borderWidth: 1,
+    borderColor: Colors.light.primary,
+  },
+  smartFilterText: {
+    fontSize: FontSizes.xs,
+    fontFamily: Fonts.content.medium,
+    color: Colors.light.primary,
+  },
   videoGridContent: {
     paddingHorizontal: 12,
     paddingVertical: 16,
@@ -2835,6 +3416,18 @@ const styles = StyleSheet.create({
     color: Colors.light.textSecondary,
     marginBottom: 8,
   },
+  gridWhyRecommended: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 4,
+    marginBottom: 8,
+  },
+  gridWhyRecommendedText: {
+    flex: 1,
+    fontSize: FontSizes.xs,
+    fontFamily: Fonts.content.regular,
+    color: Colors.light.textSecondary,
+  },
   gridVideoActions: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -2855,6 +3448,22 @@ const styles = StyleSheet.create({
     color: Colors.light.textOnColor,
     marginLeft: 4,
   },
+  gridChannelActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  gridChannelAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  gridChannelActionText: {
+    fontSize: FontSizes.xs,
+    fontFamily: Fonts.content.medium,
+    color: Colors.light.textSecondary,
+    marginLeft: 3,
+  },
   gridInfoButton: {
     backgroundColor: Colors.light.cardBackground,
     borderWidth: 1,
@@ -2880,6 +3489,62 @@ const styles = StyleSheet.create({
     marginLeft: 8,
     flex: 1,
   },
+  hiddenVideosBanner: {
+    backgroundColor: Colors.light.cardBackground,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+    borderRadius: 8,
+    padding: 12,
+    marginHorizontal: 16,
+    marginBottom: 12,
+  },
+  hiddenVideosHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  hiddenVideosText: {
+    fontSize: FontSizes.sm,
+    fontFamily: Fonts.content.medium,
+    color: Colors.light.textSecondary,
+    marginLeft: 8,
+    flex: 1,
+  },
+  hiddenVideosToggle: {
+    fontSize: FontSizes.sm,
+    fontFamily: Fonts.content.semibold,
+    color: Colors.light.primary,
+  },
+  hiddenVideoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  hiddenVideoInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  hiddenVideoTitle: {
+    fontSize: FontSizes.sm,
+    fontFamily: Fonts.content.medium,
+    color: Colors.light.text,
+  },
+  hiddenVideoReason: {
+    fontSize: FontSizes.xs,
+    fontFamily: Fonts.content.regular,
+    color: Colors.light.textSecondary,
+  },
+  hiddenVideoButton: {
+    borderWidth: 1,
+    borderColor: Colors.light.primary,
+    borderRadius: 16,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+  },
+  hiddenVideoButtonText: {
+    fontSize: FontSizes.xs,
+    fontFamily: Fonts.content.semibold,
+    color: Colors.light.primary,
+  },
   loadMoreContainer: {
     alignItems: 'center',
     paddingVertical: 20,
@@ -3028,6 +3693,34 @@ const styles = StyleSheet.create({
     fontFamily: Fonts.content.bold,
     color: Colors.light.textOnColor,
   },
+  scheduleRuleCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.light.cardBackground,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+    padding: 12,
+    marginBottom: 8,
+  },
+  scheduleRuleInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  scheduleRuleTitle: {
+    fontSize: FontSizes.sm,
+    fontFamily: Fonts.content.bold,
+    color: Colors.light.textPrimary,
+  },
+  scheduleRuleDescription: {
+    fontSize: FontSizes.xs,
+    fontFamily: Fonts.content.regular,
+    color: Colors.light.textSecondary,
+    marginTop: 2,
+  },
+  scheduleRuleAction: {
+    padding: 8,
+  },
   scheduledVideoWrapper: {
     marginBottom: 8,
     position: 'relative',
@@ -0,0 +1,432 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  ScrollView,
+  Image,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { useChild } from '@/contexts/ChildContext';
+import { simpleApiClient } from '@/lib/simpleApiClient';
+import { offlineVideoManager, OfflineDownload, OfflineMedia } from '@/lib/offlineVideoManager';
+import { Colors } from '@/constants/Colors';
+import { Fonts, FontSizes } from '@/constants/Fonts';
+
+const GB = 1024 * 1024 * 1024;
+const BUDGET_OPTIONS = [1 * GB, 2 * GB, 4 * GB, 8 * GB];
+
+// While anything is downloading, check on it this often
+const REFRESH_INTERVAL = 2000;
+
+function formatSize(bytes: number): string {
+  if (bytes >= GB) return `${(bytes / GB).toFixed(1)} GB`;
+  return `${Math.round(bytes / (1024 * 1024))} MB`;
+}
+
+// Travel mode: the parent picks which of their own videos to save on this device for the selected
+// child, so they can be watched without internet
+export default function TravelDownloadsScreen() {
+  const { selectedChild } = useChild();
+  const [media, setMedia] = useState<OfflineMedia[]>([]);
+  const [downloads, setDownloads] = useState<OfflineDownload[]>([]);
+  const [budget, setBudget] = useState(0);
+  const [usage, setUsage] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const refreshDownloads = useCallback(async () => {
+    if (!selectedChild) return;
+    setDownloads(await offlineVideoManager.getDownloads(selectedChild.id));
+    setUsage(await offlineVideoManager.getDownloadUsage());
+    setBudget(await offlineVideoManager.getDownloadBudget());
+  }, [selectedChild]);
+
+  const loadMedia = useCallback(async () => {
+    if (!selectedChild) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setLoadError(null);
+    try {
+      await offlineVideoManager.pruneExpiredDownloads();
+      const available = await simpleApiClient.getOfflineMedia(selectedChild.id);
+      await offlineVideoManager.syncDownloads(selectedChild.id, available);
+      setMedia(available);
+    } catch (error) {
+      console.error('Error loading downloadable videos:', error);
+      setLoadError('Could not load your videos. Downloads already on this device still work.');
+    } finally {
+      await refreshDownloads();
+      setLoading(false);
+    }
+  }, [selectedChild, refreshDownloads]);
+
+  useEffect(() => {
+    loadMedia();
+  }, [loadMedia]);
+
+  const isBusy = downloads.some(download => download.status === 'queued' || download.status === 'downloading');
+
+  useEffect(() => {
+    if (!isBusy) return;
+    const interval = setInterval(refreshDownloads, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isBusy, refreshDownloads]);
+
+  const download = async (item: OfflineMedia) => {
+    const error = await offlineVideoManager.queueDownload(item);
+    if (error) {
+      Alert.alert('Can\'t Download', error, [{ text: 'OK' }]);
+    }
+    await refreshDownloads();
+  };
+
+  const downloadAll = async () => {
+    for (const item of media) {
+      const existing = downloads.find(entry => entry.approvedVideoId === item.approvedVideoId);
+      if (existing && existing.status !== 'failed') continue;
+
+      const error = await offlineVideoManager.queueDownload(item);
+      if (error) {
+        Alert.alert('Some Videos Not Downloaded', error, [{ text: 'OK' }]);
+        break;
+      }
+    }
+    await refreshDownloads();
+  };
+
+  const remove = async (approvedVideoId: string) => {
+    await offlineVideoManager.removeDownload(approvedVideoId);
+    await refreshDownloads();
+  };
+
+  const changeBudget = async (bytes: number) => {
+    if (bytes < usage) {
+      Alert.alert('Budget Too Small', `Downloads already use ${formatSize(usage)}. Remove some first.`, [{ text: 'OK' }]);
+      return;
+    }
+    await offlineVideoManager.setDownloadBudget(bytes);
+    setBudget(bytes);
+  };
+
+  // Downloads stay listed even when the parent's list can't be loaded (e.g. already offline)
+  const items: OfflineMedia[] = [
+    ...media,
+    ...downloads.filter(entry => !media.some(item => item.approvedVideoId === entry.approvedVideoId)),
+  ];
+
+  const renderStatus = (item: OfflineMedia) => {
+    const entry = downloads.find(download => download.approvedVideoId === item.approvedVideoId);
+
+    if (!entry || entry.status === 'failed') {
+      return (
+        <View style={styles.statusRow}>
+          {entry?.status === 'failed' && <Text style={styles.errorText}>Download failed</Text>}
+          <TouchableOpacity style={styles.downloadButton} onPress={() => download(item)}>
+            <Ionicons name="download-outline" size={18} color={Colors.light.textOnColor} />
+            <Text style={styles.downloadButtonText}>{entry ? 'Retry' : 'Download'}</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    if (entry.status === 'queued' || entry.status === 'downloading') {
+      return (
+        <View style={styles.statusRow}>
+          <ActivityIndicator size="small" color={Colors.light.primary} />
+          <Text style={styles.statusText}>{entry.status === 'queued' ? 'Waiting...' : 'Downloading...'}</Text>
+          <TouchableOpacity onPress={() => remove(item.approvedVideoId)}>
+            <Text style={styles.removeText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.statusRow}>
+        <Ionicons name="checkmark-circle" size={18} color={Colors.light.success} />
+        <Text style={styles.statusText}>
+          Saved{entry.expiresAt ? ` until ${new Date(entry.expiresAt).toLocaleDateString()}` : ''}
+        </Text>
+        <TouchableOpacity onPress={() => remove(item.approvedVideoId)}>
+          <Text style={styles.removeText}>Remove</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={Colors.light.primary} />
+        </TouchableOpacity>
+        <View style={styles.headerText}>
+          <Text style={styles.title}>Travel Downloads</Text>
+          <Text style={styles.subtitle}>
+            {selectedChild ? `Videos ${selectedChild.name} can watch without internet` : 'Choose a child profile first'}
+          </Text>
+        </View>
+      </View>
+
+      {!selectedChild ? null : loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={Colors.light.primary} />
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          <View style={styles.budgetCard}>
+            <Text style={styles.budgetTitle}>Storage</Text>
+            <Text style={styles.budgetText}>
+              {formatSize(usage)} of {formatSize(budget)} used
+            </Text>
+            <View style={styles.budgetTrack}>
+              <View style={[styles.budgetFill, { width: `${Math.min(budget > 0 ? usage / budget : 0, 1) * 100}%` }]} />
+            </View>
+            <View style={styles.budgetOptions}>
+              {BUDGET_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.budgetChip, option === budget && styles.budgetChipActive]}
+                  onPress={() => changeBudget(option)}
+                >
+                  <Text style={[styles.budgetChipText, option === budget && styles.budgetChipTextActive]}>
+                    {formatSize(option)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          {loadError && <Text style={styles.errorText}>{loadError}</Text>}
+
+          {items.length === 0 ? (
+            <Text style={styles.emptyText}>
+              No videos to download yet. Add your own video files from the Approved Videos page of the web dashboard.
+            </Text>
+          ) : (
+            <>
+              {media.length > 1 && (
+                <TouchableOpacity style={styles.downloadAllButton} onPress={downloadAll}>
+                  <Ionicons name="cloud-download-outline" size={20} color={Colors.light.primary} />
+                  <Text style={styles.downloadAllText}>Download All</Text>
+                </TouchableOpacity>
+              )}
+
+              {items.map(item => (
+                <View key={item.approvedVideoId} style={styles.videoRow}>
+                  {item.thumbnail ? (
+                    <Image source={{ uri: item.thumbnail }} style={styles.thumbnail} resizeMode="cover" />
+                  ) : (
+                    <View style={[styles.thumbnail, styles.thumbnailPlaceholder]}>
+                      <Ionicons name="film-outline" size={24} color={Colors.light.textSecondary} />
+                    </View>
+                  )}
+                  <View style={styles.videoInfo}>
+                    <Text style={styles.videoTitle} numberOfLines={2}>{item.title}</Text>
+                    <Text style={styles.videoMeta}>
+                      {[item.duration, formatSize(item.sizeBytes)].filter(Boolean).join(' · ')}
+                    </Text>
+                    {renderStatus(item)}
+                  </View>
+                </View>
+              ))}
+            </>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.light.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 10,
+    paddingHorizontal: 24,
+    paddingBottom: 16,
+    gap: 12,
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: 'rgba(139, 92, 246, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: FontSizes['2xl'],
+    fontFamily: Fonts.ui.bold,
+    color: Colors.light.textPrimary,
+  },
+  subtitle: {
+    fontSize: FontSizes.sm,
+    fontFamily: Fonts.content.regular,
+    color: Colors.light.textSecondary,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    paddingHorizontal: 24,
+    paddingBottom: 32,
+    gap: 12,
+  },
+  budgetCard: {
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+    gap: 8,
+  },
+  budgetTitle: {
+    fontSize: FontSizes.lg,
+    fontFamily: Fonts.ui.bold,
+    color: Colors.light.textPrimary,
+  },
+  budgetText: {
+    fontSize: FontSizes.sm,
+    fontFamily: Fonts.content.regular,
+    color: Colors.light.textSecondary,
+  },
+  budgetTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: Colors.light.border,
+    overflow: 'hidden',
+  },
+  budgetFill: {
+    height: '100%',
+    backgroundColor: Colors.light.primary,
+  },
+  budgetOptions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 4,
+  },
+  budgetChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+  },
+  budgetChipActive: {
+    backgroundColor: Colors.light.primary,
+    borderColor: Colors.light.primary,
+  },
+  budgetChipText: {
+    fontSize: FontSizes.sm,
+    fontFamily: Fonts.ui.semibold,
+    color: Colors.light.textPrimary,
+  },
+  budgetChipTextActive: {
+    color: Colors.light.textOnColor,
+  },
+  downloadAllButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    paddingVertical: 8,
+  },
+  downloadAllText: {
+    fontSize: FontSizes.base,
+    fontFamily: Fonts.ui.semibold,
+    color: Colors.light.primary,
+  },
+  videoRow: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+  },
+  thumbnail: {
+    width: 112,
+    height: 64,
+    borderRadius: 8,
+  },
+  thumbnailPlaceholder: {
+    backgroundColor: Colors.light.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  videoInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  videoTitle: {
+    fontSize: FontSizes.base,
+    fontFamily: Fonts.content.bold,
+    color: Colors.light.textPrimary,
+  },
+  videoMeta: {
+    fontSize: FontSizes.xs,
+    fontFamily: Fonts.content.regular,
+    color: Colors.light.textSecondary,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 4,
+  },
+  statusText: {
+    flex: 1,
+    fontSize: FontSizes.sm,
+    fontFamily: Fonts.content.regular,
+    color: Colors.light.textSecondary,
+  },
+  downloadButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: Colors.light.primary,
+  },
+  downloadButtonText: {
+    fontSize: FontSizes.sm,
+    fontFamily: Fonts.ui.semibold,
+    color: Colors.light.textOnColor,
+  },
+  removeText: {
+    fontSize: FontSizes.sm,
+    fontFamily: Fonts.ui.semibold,
+    color: Colors.light.error,
+  },
+  errorText: {
+    fontSize: FontSizes.sm,
+    fontFamily: Fonts.content.regular,
+    color: Colors.light.error,
+  },
+  emptyText: {
+    fontSize: FontSizes.base,
+    fontFamily: Fonts.content.regular,
+    color: Colors.light.textSecondary,
+    textAlign: 'center',
+    marginTop: 32,
+  },
+});
@@ -3,6 +3,7 @@ import { View, StyleSheet, StatusBar, Text, TouchableOpacity } from 'react-nativ
 import { useLocalSearchParams, router } from 'expo-router';
 import ModernVideoPlayer from '@/components/ModernVideoPlayer';
 import YouTubePlayer from '@/components/YouTubePlayer';
+import EmbedVideoPlayer from '@/components/EmbedVideoPlayer';
 import { Ionicons } from '@expo/vector-icons';
 import { Colors } from '@/constants/Colors';
 
@@ -17,10 +18,19 @@ export default function VideoPlayerScreen() {
     approvedVideoId,
     childId,
     channelName,
-    duration
+    duration,
+    scheduledVideoId,
+    playlistItemId,
+    startPosition,
+    source
   } = params;
 
   const isYouTubeVideo = () => {
+    // Videos from other sources say so; older links only carry a YouTube ID or URL
+    if (typeof source === 'string' && source !== 'YOUTUBE') {
+      return false;
+    }
+
     if (youtubeId && typeof youtubeId === 'string') {
       return true;
     }
@@ -42,6 +52,20 @@ export default function VideoPlayerScreen() {
   };
 
   const videoTitle = typeof title === 'string' ? title : 'Video';
+  const optionalParam = (value: string | string[] | undefined) =>
+    typeof value === 'string' && value ? value : undefined;
+
+  // Every player tracks the same way, whatever the source
+  const trackingProps = {
+    youtubeId: typeof youtubeId === 'string' ? youtubeId : '',
+    approvedVideoId: optionalParam(approvedVideoId),
+    childId: optionalParam(childId),
+    channelName: typeof channelName === 'string' ? channelName : '',
+    duration: optionalParam(duration),
+    scheduledVideoId: optionalParam(scheduledVideoId),
+    playlistItemId: optionalParam(playlistItemId),
+  };
+  const resumeFrom = typeof startPosition === 'string' ? Number(startPosition) || 0 : 0;
   const finalVideoUrl = getVideoUrl();
 
   // If we have a YouTube ID or YouTube URL, use the YouTube player
@@ -50,26 +74,42 @@ export default function VideoPlayerScreen() {
       <View style={styles.container}>
         <StatusBar hidden={true} />
         <YouTubePlayer
+          {...trackingProps}
           youtubeId={youtubeId}
           title={videoTitle}
-          approvedVideoId={typeof approvedVideoId === 'string' ? approvedVideoId : undefined}
-          childId={typeof childId === 'string' ? childId : undefined}
-          channelName={typeof channelName === 'string' ? channelName : ''}
-          duration={typeof duration === 'string' ? duration : undefined}
+          startPosition={resumeFrom}
+          onClose={() => router.back()}
+        />
+      </View>
+    );
+  }
+
+  // Sites that only offer a web player (Vimeo) play their embed page
+  if (finalVideoUrl && source === 'VIMEO') {
+    return (
+      <View style={styles.container}>
+        <StatusBar hidden={true} />
+        <EmbedVideoPlayer
+          {...trackingProps}
+          embedUrl={finalVideoUrl}
+          title={videoTitle}
+          startPosition={resumeFrom}
           onClose={() => router.back()}
         />
       </View>
     );
   }
 
-  // For other video formats, use the modern video player
+  // Files and streams (MP4, HLS, downloads on this device) use the modern video player
   if (finalVideoUrl) {
     return (
       <View style={styles.container}>
         <StatusBar hidden={true} />
         <ModernVideoPlayer
+          {...trackingProps}
           videoUrl={finalVideoUrl}
           title={videoTitle}
+          startPosition={resumeFrom}
           onClose={() => router.back()}
         />
       </View>
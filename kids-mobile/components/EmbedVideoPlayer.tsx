@@ -0,0 +1,363 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { WebView, WebViewMessageEvent } from 'react-native-webview';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { Colors } from '@/constants/Colors';
+import { PlayerState, usePlaybackTracking } from '@/hooks/usePlaybackTracking';
+
+interface EmbedVideoPlayerProps {
+  embedUrl: string; // The provider's embeddable player, e.g. player.vimeo.com/video/...
+  title: string;
+  youtubeId?: string; // The approved video's key, for tracking
+  approvedVideoId?: string;
+  childId?: string;
+  channelName?: string;
+  duration?: string;
+  scheduledVideoId?: string;
+  playlistItemId?: string;
+  startPosition?: number; // Seconds; where the child left off last time
+  onClose?: () => void;
+}
+
+// Messages posted by the player page below, in the same shape as the YouTube player's
+type PlayerMessage =
+  | { type: 'ready'; position: number; duration: number }
+  | { type: 'state'; state: PlayerState; position: number; duration: number }
+  | { type: 'progress'; position: number; duration: number }
+  | { type: 'error' };
+
+const PLAYER_ORIGIN = 'https://player.vimeo.com';
+
+// Vimeo's Player API reports playback state from inside the embed; the page forwards it (with the
+// current position) to the app, and sends progress every second while playing
+function playerHtml(embedUrl: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta name="viewport" content="width=device-width, initial-scale=1, maximum-scale=1">
+<style>html, body { margin: 0; height: 100%; background: #000; overflow: hidden; } iframe { width: 100%; height: 100%; border: 0; }</style>
+</head>
+<body>
+<iframe id="player" src=${JSON.stringify(embedUrl)} allow="autoplay; fullscreen; picture-in-picture" allowfullscreen></iframe>
+<script src="https://player.vimeo.com/api/player.js"></script>
+<script>
+  var position = 0;
+  var duration = 0;
+  var player = new Vimeo.Player(document.getElementById('player'));
+
+  function send(type, extra) {
+    var message = Object.assign({ type: type, position: position, duration: duration }, extra || {});
+    window.ReactNativeWebView.postMessage(JSON.stringify(message));
+  }
+
+  player.getDuration().then(function (value) {
+    duration = value;
+    send('ready');
+  }).catch(function () { send('error'); });
+
+  player.on('timeupdate', function (data) {
+    position = data.seconds;
+    duration = data.duration;
+    send('progress');
+  });
+  player.on('play', function (data) { position = data.seconds; send('state', { state: 'playing' }); });
+  player.on('pause', function (data) { position = data.seconds; send('state', { state: 'paused' }); });
+  player.on('bufferstart', function () { send('state', { state: 'buffering' }); });
+  player.on('bufferend', function () { send('state', { state: 'playing' }); });
+  player.on('ended', function (data) { position = data.seconds; send('state', { state: 'ended' }); });
+  player.on('error', function () { send('error'); });
+</script>
+</body>
+</html>`;
+}
+
+// Plays videos from sites that only offer a web player (Vimeo), tracked like every other source.
+// The page can't navigate anywhere else, so links inside the player don't take the child out to
+// the wider site.
+export default function EmbedVideoPlayer({
+  embedUrl,
+  title,
+  youtubeId = '',
+  approvedVideoId,
+  childId,
+  channelName,
+  duration,
+  scheduledVideoId,
+  playlistItemId,
+  startPosition = 0,
+  onClose
+}: EmbedVideoPlayerProps) {
+  const [isLoading, setIsLoading] = useState(true);
+  const [hasError, setHasError] = useState(false);
+  const [retryCount, setRetryCount] = useState(0);
+
+  const { isTimeUp, handleState, handleProgress, setDuration, finish } = usePlaybackTracking({
+    youtubeId,
+    title,
+    approvedVideoId,
+    childId,
+    channelName,
+    duration,
+    scheduledVideoId,
+    playlistItemId,
+    startPosition,
+  });
+
+  const playerHost = new URL(embedUrl).host;
+
+  const handleMessage = async (event: WebViewMessageEvent) => {
+    let message: PlayerMessage;
+    try {
+      message = JSON.parse(event.nativeEvent.data);
+    } catch {
+      return;
+    }
+
+    if (message.type === 'error') {
+      setIsLoading(false);
+      setHasError(true);
+      return;
+    }
+
+    setDuration(message.duration);
+
+    if (message.type === 'ready') {
+      setIsLoading(false);
+      return;
+    }
+
+    if (message.type === 'progress') {
+      await handleProgress(message.position);
+      return;
+    }
+
+    await handleState(message.state, message.position);
+  };
+
+  const handleClose = async () => {
+    await finish();
+
+    if (onClose) {
+      onClose();
+    } else {
+      router.back();
+    }
+  };
+
+  const handleRetry = () => {
+    setHasError(false);
+    setIsLoading(true);
+    setRetryCount(prev => prev + 1);
+  };
+
+  if (isTimeUp) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.closeButton} onPress={handleClose}>
+            <Ionicons name="close" size={24} color={Colors.light.textOnColor} />
+          </TouchableOpacity>
+          <Text style={styles.title} numberOfLines={1}>
+            {title}
+          </Text>
+        </View>
+
+        <View style={styles.errorContent}>
+          <Ionicons name="moon" size={64} color={Colors.light.primary} />
+          <Text style={styles.errorTitle}>Time&apos;s Up!</Text>
+          <Text style={styles.errorText}>
+            You&apos;ve watched all your videos for today. Come back tomorrow for more!
+          </Text>
+
+          <View style={styles.errorActions}>
+            <TouchableOpacity style={[styles.actionButton, styles.retryButton]} onPress={handleClose}>
+              <Ionicons name="home" size={20} color={Colors.light.textOnColor} />
+              <Text style={styles.actionButtonText}>Back Home</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    );
+  }
+
+  if (hasError) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.closeButton} onPress={handleClose}>
+            <Ionicons name="close" size={24} color={Colors.light.textOnColor} />
+          </TouchableOpacity>
+          <Text style={styles.title} numberOfLines={1}>
+            {title}
+          </Text>
+        </View>
+
+        <View style={styles.errorContent}>
+          <Ionicons name="alert-circle" size={64} color={Colors.light.error} />
+          <Text style={styles.errorTitle}>Video Unavailable</Text>
+          <Text style={styles.errorText}>
+            This video could not be played. Please check your internet connection and try again.
+          </Text>
+
+          <View style={styles.errorActions}>
+            {retryCount < 3 && (
+              <TouchableOpacity style={[styles.actionButton, styles.retryButton]} onPress={handleRetry}>
+                <Ionicons name="refresh" size={20} color={Colors.light.textOnColor} />
+                <Text style={styles.actionButtonText}>Try Again</Text>
+              </TouchableOpacity>
+            )}
+
+            <TouchableOpacity style={[styles.actionButton, styles.closeActionButton]} onPress={handleClose}>
+              <Ionicons name="close" size={20} color={Colors.light.textOnColor} />
+              <Text style={styles.actionButtonText}>Close</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.closeButton} onPress={handleClose}>
+          <Ionicons name="close" size={24} color={Colors.light.textOnColor} />
+        </TouchableOpacity>
+        <Text style={styles.title} numberOfLines={1}>
+          {title}
+        </Text>
+      </View>
+
+      {isLoading && (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={Colors.light.textOnColor} />
+          <Text style={styles.loadingText}>Loading video...</Text>
+        </View>
+      )}
+
+      <WebView
+        key={retryCount}
+        source={{ html: playerHtml(embedUrl), baseUrl: PLAYER_ORIGIN }}
+        originWhitelist={['*']}
+        style={styles.webview}
+        allowsFullscreenVideo={true}
+        allowsInlineMediaPlayback={true}
+        mediaPlaybackRequiresUserAction={false}
+        javaScriptEnabled={true}
+        domStorageEnabled={true}
+        onShouldStartLoadWithRequest={request => !request.isTopFrame || request.url.startsWith('about:') || new URL(request.url).host === playerHost}
+        onMessage={handleMessage}
+        onError={() => setHasError(true)}
+        onHttpError={() => setHasError(true)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    backgroundColor: '#000000',
+  },
+  closeButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  title: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#ffffff',
+    letterSpacing: 0.3,
+  },
+  webview: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  loadingContainer: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#000000',
+    zIndex: 1000,
+  },
+  loadingText: {
+    color: '#ffffff',
+    fontSize: 16,
+    marginTop: 16,
+    fontWeight: '400',
+    letterSpacing: 0.3,
+  },
+  errorContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  errorTitle: {
+    color: '#ffffff',
+    fontSize: 20,
+    fontWeight: '600',
+    marginTop: 16,
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  errorText: {
+    color: '#cccccc',
+    fontSize: 16,
+    textAlign: 'center',
+    lineHeight: 22,
+    marginBottom: 32,
+  },
+  errorActions: {
+    alignItems: 'center',
+    gap: 16,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 25,
+    gap: 8,
+    minWidth: 160,
+    justifyContent: 'center',
+  },
+  retryButton: {
+    backgroundColor: Colors.light.primary,
+  },
+  closeActionButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  actionButtonText: {
+    color: Colors.light.textOnColor,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
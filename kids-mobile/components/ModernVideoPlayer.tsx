@@ -12,25 +12,62 @@ import { VideoView, useVideoPlayer } from 'expo-video';
 import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
 import { Colors } from '@/constants/Colors';
+import { usePlaybackTracking } from '@/hooks/usePlaybackTracking';
 
 interface ModernVideoPlayerProps {
   videoUrl: string;
   title: string;
+  youtubeId?: string; // The approved video's key, for tracking
+  approvedVideoId?: string;
+  childId?: string;
+  channelName?: string;
+  duration?: string;
+  scheduledVideoId?: string;
+  playlistItemId?: string;
+  startPosition?: number; // Seconds; where the child left off last time
   onClose?: () => void;
 }
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
-export default function ModernVideoPlayer({ videoUrl, title, onClose }: ModernVideoPlayerProps) {
+export default function ModernVideoPlayer({
+  videoUrl,
+  title,
+  youtubeId = '',
+  approvedVideoId,
+  childId,
+  channelName,
+  duration,
+  scheduledVideoId,
+  playlistItemId,
+  startPosition = 0,
+  onClose
+}: ModernVideoPlayerProps) {
   const [showControls, setShowControls] = useState(true);
   const [isBuffering, setIsBuffering] = useState(false);
   const [hasError, setHasError] = useState(false);
   const [errorMessage, setErrorMessage] = useState('');
   const controlsTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
+  const { isTimeUp, handleState, handleProgress, setDuration, finish } = usePlaybackTracking({
+    youtubeId,
+    title,
+    approvedVideoId,
+    childId,
+    channelName,
+    duration,
+    scheduledVideoId,
+    playlistItemId,
+    startPosition,
+  });
+
   // Create video player with error handling
   const player = useVideoPlayer(videoUrl, (player) => {
     player.loop = false;
+    player.timeUpdateEventInterval = 1; // Progress for the tracker, once a second
+    if (startPosition > 0) {
+      player.currentTime = startPosition;
+    }
     player.play();
   });
 
@@ -55,6 +92,34 @@ export default function ModernVideoPlayer({ videoUrl, title, onClose }: ModernVi
     };
   }, [player]);
 
+  // Playback events feed the same tracking as the YouTube player
+  useEffect(() => {
+    const subscriptions = [
+      player.addListener('sourceLoad', ({ duration }) => setDuration(duration)),
+      player.addListener('playingChange', ({ isPlaying }) => {
+        handleState(isPlaying ? 'playing' : 'paused', player.currentTime);
+      }),
+      player.addListener('timeUpdate', ({ currentTime }) => {
+        if (player.playing) handleProgress(currentTime);
+      }),
+      player.addListener('playToEnd', () => handleState('ended', player.duration)),
+    ];
+
+    return () => {
+      subscriptions.forEach(subscription => subscription.remove());
+    };
+  }, [player, handleState, handleProgress, setDuration]);
+
+  useEffect(() => {
+    if (isTimeUp) {
+      try {
+        player.pause();
+      } catch (error) {
+        console.error('Error pausing video when time ran out:', error);
+      }
+    }
+  }, [isTimeUp, player]);
+
   const resetControlsTimeout = useCallback(() => {
     if (controlsTimeoutRef.current) {
       clearTimeout(controlsTimeoutRef.current);
@@ -108,13 +173,15 @@ export default function ModernVideoPlayer({ videoUrl, title, onClose }: ModernVi
     }
   };
 
-  const handleClose = () => {
+  const handleClose = async () => {
     try {
       player.pause();
     } catch (error) {
       console.error('Error pausing video on close:', error);
     }
 
+    await finish();
+
     if (onClose) {
       onClose();
     } else {
@@ -143,6 +210,33 @@ export default function ModernVideoPlayer({ videoUrl, title, onClose }: ModernVi
     ? (player.currentTime / player.duration) * 100
     : 0;
 
+  if (isTimeUp) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.errorContainer}>
+          <TouchableOpacity style={styles.closeButton} onPress={handleClose}>
+            <Ionicons name="close" size={24} color={Colors.light.textOnColor} />
+          </TouchableOpacity>
+
+          <View style={styles.errorContent}>
+            <Ionicons name="moon" size={64} color={Colors.light.primary} />
+            <Text style={styles.errorTitle}>Time&apos;s Up!</Text>
+            <Text style={styles.errorText}>
+              You&apos;ve watched all your videos for today. Come back tomorrow for more!
+            </Text>
+
+            <View style={styles.errorActions}>
+              <TouchableOpacity style={[styles.actionButton, styles.retryButton]} onPress={handleClose}>
+                <Ionicons name="home" size={20} color={Colors.light.textOnColor} />
+                <Text style={styles.actionButtonText}>Back Home</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </View>
+    );
+  }
+
   // Error state
   if (hasError) {
     return (
@@ -0,0 +1,330 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  Platform,
+  Alert,
+  ActivityIndicator,
+  StyleSheet,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '@clerk/clerk-expo';
+import { router } from 'expo-router';
+import { Colors } from '@/constants/Colors';
+import { Fonts } from '@/constants/Fonts';
+import { apiClient } from '@/lib/api';
+import { networkManager } from '@/lib/networkManager';
+import { checkParentPin, setParentPin } from '@/lib/parentPin';
+
+interface ParentPinModalProps {
+  visible: boolean;
+  // 'unlock' asks for the PIN (or to create one, the first time); 'change' replaces it
+  mode?: 'unlock' | 'change';
+  onUnlock: () => void;
+  onCancel: () => void;
+}
+
+type Step = 'loading' | 'enter' | 'new' | 'confirm';
+
+const STEP_TITLES: Record<Step, string> = {
+  loading: 'Parent PIN',
+  enter: 'Enter Parent PIN',
+  new: 'Choose a Parent PIN',
+  confirm: 'Confirm Your PIN',
+};
+
+// Keeps children out of the parent area: asked for before opening it, switching profiles or leaving
+// the kids feed
+export default function ParentPinModal({ visible, mode = 'unlock', onUnlock, onCancel }: ParentPinModalProps) {
+  const colors = Colors.light;
+  const { getToken, signOut } = useAuth();
+
+  const [step, setStep] = useState<Step>('loading');
+  const [pin, setPin] = useState('');
+  const [currentPin, setCurrentPin] = useState<string | undefined>();
+  const [newPin, setNewPin] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setPin('');
+    setNewPin('');
+    setCurrentPin(undefined);
+    setMessage(null);
+    setStep('loading');
+
+    const loadStatus = async () => {
+      try {
+        const token = await getToken();
+        if (!token || !networkManager.getConnectionStatus()) {
+          setStep('enter');
+          return;
+        }
+
+        const status = await apiClient.getParentPinStatus(token);
+        setStep(status.hasPin ? 'enter' : 'new');
+        if (!status.hasPin) {
+          setMessage('Set a PIN so only grown-ups can open the parent area.');
+        }
+      } catch (error) {
+        console.error('❌ Error loading parent PIN status:', error);
+        setStep('enter');
+      }
+    };
+
+    loadStatus();
+  }, [visible, getToken]);
+
+  const handleForgotPin = async () => {
+    try {
+      const token = await getToken();
+      const status = token ? await apiClient.getParentPinStatus(token) : null;
+
+      if (status?.canReset) {
+        setPin('');
+        setMessage('You signed in just now, so you can choose a new PIN.');
+        setStep('new');
+        return;
+      }
+    } catch (error) {
+      console.error('❌ Error loading parent PIN status:', error);
+    }
+
+    Alert.alert(
+      'Forgot Your PIN?',
+      'Sign out, then sign back in to your parent account. You can choose a new PIN right after.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out',
+          style: 'destructive',
+          onPress: async () => {
+            await signOut();
+            router.replace('/auth');
+          }
+        }
+      ]
+    );
+  };
+
+  const submitPin = async () => {
+    setIsBusy(true);
+    setMessage(null);
+
+    try {
+      const result = await checkParentPin(pin, await getToken());
+
+      switch (result.status) {
+        case 'ok':
+          if (mode === 'change') {
+            setCurrentPin(pin);
+            setStep('new');
+          } else {
+            onUnlock();
+          }
+          break;
+        case 'not-set':
+          setStep('new');
+          break;
+        case 'wrong':
+          setMessage(`That PIN isn't right. ${result.attemptsLeft} ${result.attemptsLeft === 1 ? 'try' : 'tries'} left.`);
+          break;
+        case 'locked': {
+          const time = new Date(result.lockedUntil).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+          setMessage(`Too many wrong tries. Try again after ${time}, or use Forgot PIN.`);
+          break;
+        }
+        case 'offline':
+          setMessage('Connect to the internet to unlock the parent area on this device for the first time.');
+          break;
+      }
+    } catch (error) {
+      console.error('❌ Error checking parent PIN:', error);
+      setMessage('Could not check your PIN. Please try again.');
+    } finally {
+      setPin('');
+      setIsBusy(false);
+    }
+  };
+
+  const submitNewPin = () => {
+    if (!/^\d{4,6}$/.test(pin)) {
+      setMessage('Your PIN must be 4 to 6 digits.');
+      return;
+    }
+
+    setNewPin(pin);
+    setPin('');
+    setMessage(null);
+    setStep('confirm');
+  };
+
+  const submitConfirmation = async () => {
+    if (pin !== newPin) {
+      setPin('');
+      setNewPin('');
+      setMessage('Those PINs didn\'t match. Please choose your PIN again.');
+      setStep('new');
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      const token = await getToken();
+      if (!token) {
+        setMessage('Authentication required. Please sign in again.');
+        return;
+      }
+
+      await setParentPin(newPin, currentPin, token);
+      onUnlock();
+    } catch (error) {
+      console.error('❌ Error saving parent PIN:', error);
+      setPin('');
+      setMessage('Could not save your PIN. Please check your connection and try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    if (step === 'enter') submitPin();
+    else if (step === 'new') submitNewPin();
+    else if (step === 'confirm') submitConfirmation();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onCancel}
+    >
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <View style={[styles.header, { borderBottomColor: colors.border }]}>
+          <TouchableOpacity onPress={onCancel} disabled={isBusy}>
+            <Ionicons name="close" size={24} color={colors.textPrimary} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: colors.textPrimary }]}>
+            {STEP_TITLES[step]}
+          </Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        {step === 'loading' ? (
+          <View style={styles.content}>
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        ) : (
+          <View style={styles.content}>
+            <Ionicons name="lock-closed" size={48} color={colors.primary} />
+
+            <TextInput
+              key={step}
+              style={[styles.pinInput, { borderColor: colors.border, color: colors.textPrimary }]}
+              value={pin}
+              onChangeText={value => setPin(value.replace(/\D/g, ''))}
+              onSubmitEditing={handleSubmit}
+              keyboardType="number-pad"
+              secureTextEntry
+              maxLength={6}
+              autoFocus
+              editable={!isBusy}
+              placeholder="••••"
+              placeholderTextColor={colors.textTertiary}
+            />
+
+            {message && (
+              <Text style={[styles.message, { color: colors.textSecondary }]}>{message}</Text>
+            )}
+
+            <TouchableOpacity
+              style={[styles.submitButton, { backgroundColor: pin.length >= 4 ? colors.primary : colors.textTertiary }]}
+              onPress={handleSubmit}
+              disabled={pin.length < 4 || isBusy}
+            >
+              {isBusy ? (
+                <ActivityIndicator size="small" color={colors.textOnColor} />
+              ) : (
+                <Text style={[styles.submitText, { color: colors.textOnColor }]}>
+                  {step === 'enter' ? 'Unlock' : step === 'new' ? 'Next' : 'Save PIN'}
+                </Text>
+              )}
+            </TouchableOpacity>
+
+            {step === 'enter' && (
+              <TouchableOpacity onPress={handleForgotPin} disabled={isBusy}>
+                <Text style={[styles.forgotText, { color: colors.primary }]}>Forgot PIN?</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    paddingTop: Platform.OS === 'ios' ? 60 : 20,
+    borderBottomWidth: 1,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    fontFamily: Fonts.ui.bold,
+  },
+  headerSpacer: {
+    width: 24,
+  },
+  content: {
+    flex: 1,
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 32,
+    gap: 20,
+  },
+  pinInput: {
+    width: 200,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+    fontSize: 28,
+    letterSpacing: 12,
+    textAlign: 'center',
+    fontFamily: Fonts.ui.semibold,
+  },
+  message: {
+    fontSize: 14,
+    textAlign: 'center',
+    fontFamily: Fonts.content.regular,
+    lineHeight: 20,
+  },
+  submitButton: {
+    minWidth: 200,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  submitText: {
+    fontSize: 16,
+    fontWeight: '600',
+    fontFamily: Fonts.content.semibold,
+  },
+  forgotText: {
+    fontSize: 14,
+    fontFamily: Fonts.content.semibold,
+  },
+});
@@ -8,12 +8,14 @@ import {
   FlatList,
   TextInput,
   Platform,
+  ScrollView,
 } from 'react-native';
 import { Colors } from '@/constants/Colors';
 // Light mode only - removed useColorScheme
 import { IconSymbol } from '@/components/ui/IconSymbol';
 import { apiClient } from '@/lib/api';
 import { getApiBaseUrl } from '@/lib/productionConfig';
+import { formatDateLabel, getTodayDateString } from '@/lib/utils';
 import { useAuth } from '@clerk/clerk-expo';
 
 interface ApprovedVideo {
@@ -33,13 +35,47 @@ interface Child {
   name: string;
 }
 
+export type RecurrenceFrequency = 'DAILY' | 'WEEKDAYS' | 'WEEKLY' | 'INTERVAL';
+
+export interface Recurrence {
+  frequency: RecurrenceFrequency;
+  daysOfWeek?: number[];
+  intervalDays?: number;
+  endDate?: string | null;
+}
+
+export interface ScheduleRule {
+  id: string;
+  childName: string;
+  title: string;
+  frequency: RecurrenceFrequency;
+  daysOfWeek: number[];
+  intervalDays: number | null;
+  startDate: string;
+  endDate: string | null;
+  description: string;
+}
+
 interface ParentScheduleModalProps {
   visible: boolean;
   onClose: () => void;
-  onSchedule: (videoIds: string[], childrenIds: string[], date: string) => Promise<void>;
+  onSchedule: (videoIds: string[], childrenIds: string[], date: string, recurrence: Recurrence | null) => Promise<void>;
+  // When set, the modal jumps straight to the date step to edit this recurring schedule
+  editingRule?: ScheduleRule | null;
+  onUpdateRule?: (ruleId: string, startDate: string, recurrence: Recurrence) => Promise<void>;
 }
 
-export default function ParentScheduleModal({ visible, onClose, onSchedule }: ParentScheduleModalProps) {
+const REPEAT_OPTIONS: { value: 'NONE' | RecurrenceFrequency; label: string }[] = [
+  { value: 'NONE', label: 'Once' },
+  { value: 'DAILY', label: 'Every day' },
+  { value: 'WEEKDAYS', label: 'Weekdays' },
+  { value: 'WEEKLY', label: 'Weekly' },
+  { value: 'INTERVAL', label: 'Every N days' },
+];
+
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+export default function ParentScheduleModal({ visible, onClose, onSchedule, editingRule = null, onUpdateRule }: ParentScheduleModalProps) {
   // Force light mode only
   const colors = Colors.light;
   const { getToken } = useAuth();
@@ -47,16 +83,27 @@ export default function ParentScheduleModal({ visible, onClose, onSchedule }: Pa
   const [step, setStep] = useState(1); // 1: Select Videos, 2: Select Children, 3: Select Date
   const [selectedVideos, setSelectedVideos] = useState<string[]>([]);
   const [selectedChildren, setSelectedChildren] = useState<string[]>([]);
-  const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
+  const [selectedDate, setSelectedDate] = useState(getTodayDateString());
   const [approvedVideos, setApprovedVideos] = useState<ApprovedVideo[]>([]);
   const [children, setChildren] = useState<Child[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [repeat, setRepeat] = useState<'NONE' | RecurrenceFrequency>('NONE');
+  const [daysOfWeek, setDaysOfWeek] = useState<number[]>([]);
+  const [intervalDays, setIntervalDays] = useState('2');
+  const [endDate, setEndDate] = useState('');
 
   useEffect(() => {
-    if (visible) {
+    if (visible && editingRule) {
+      setStep(3);
+      setSelectedDate(editingRule.startDate);
+      setRepeat(editingRule.frequency);
+      setDaysOfWeek(editingRule.daysOfWeek);
+      setIntervalDays(String(editingRule.intervalDays || 2));
+      setEndDate(editingRule.endDate || '');
+    } else if (visible) {
       loadData();
     }
-  }, [visible]);
+  }, [visible, editingRule]);
 
   const loadData = async () => {
     try {
@@ -122,7 +169,11 @@ export default function ParentScheduleModal({ visible, onClose, onSchedule }: Pa
     setStep(1);
     setSelectedVideos([]);
     setSelectedChildren([]);
-    setSelectedDate(new Date().toISOString().split('T')[0]);
+    setSelectedDate(getTodayDateString());
+    setRepeat('NONE');
+    setDaysOfWeek([]);
+    setIntervalDays('2');
+    setEndDate('');
   };
 
   const handleClose = () => {
@@ -163,14 +214,47 @@ export default function ParentScheduleModal({ visible, onClose, onSchedule }: Pa
     setStep(step - 1);
   };
 
+  const toggleDayOfWeek = (day: number) => {
+    setDaysOfWeek(prev =>
+      prev.includes(day)
+        ? prev.filter(d => d !== day)
+        : [...prev, day].sort()
+    );
+  };
+
+  const buildRecurrence = (): Recurrence | null => {
+    if (repeat === 'NONE') return null;
+
+    return {
+      frequency: repeat,
+      daysOfWeek: repeat === 'WEEKLY' ? daysOfWeek : undefined,
+      intervalDays: repeat === 'INTERVAL' ? Math.max(1, parseInt(intervalDays) || 1) : undefined,
+      endDate: endDate.trim() || null,
+    };
+  };
+
   const handleSchedule = async () => {
+    if (repeat === 'WEEKLY' && daysOfWeek.length === 0) {
+      Alert.alert('Error', 'Please pick at least one day of the week');
+      return;
+    }
+
     try {
       setIsLoading(true);
+
+      const recurrence = buildRecurrence();
+
+      if (editingRule) {
+        if (!recurrence || !onUpdateRule) return;
+        await onUpdateRule(editingRule.id, selectedDate, recurrence);
+        handleClose();
+        return;
+      }
       
       // Extract actual video IDs from composite IDs (videoId-childId format)
       const actualVideoIds = selectedVideos.map(compositeId => compositeId.split('-')[0]);
       
-      await onSchedule(actualVideoIds, selectedChildren, selectedDate);
+      await onSchedule(actualVideoIds, selectedChildren, selectedDate, recurrence);
       Alert.alert('Success', 'Videos scheduled successfully!');
       handleClose();
     } catch (error) {
@@ -356,7 +440,7 @@ export default function ParentScheduleModal({ visible, onClose, onSchedule }: Pa
         
       case 3:
         return (
-          <View style={{ flex: 1 }}>
+          <ScrollView style={{ flex: 1 }} showsVerticalScrollIndicator={false}>
             <Text style={{
               fontSize: 18,
               fontWeight: '600',
@@ -364,7 +448,7 @@ export default function ParentScheduleModal({ visible, onClose, onSchedule }: Pa
               fontFamily: 'Poppins_600SemiBold',
               marginBottom: 20
             }}>
-              Select Schedule Date
+              {editingRule ? `${editingRule.title} for ${editingRule.childName}` : 'Select Schedule Date'}
             </Text>
             
             <View style={{
@@ -382,7 +466,7 @@ export default function ParentScheduleModal({ visible, onClose, onSchedule }: Pa
                 fontFamily: 'Poppins_600SemiBold',
                 marginBottom: 12
               }}>
-                Date
+                {repeat === 'NONE' ? 'Date' : 'Starts On'}
               </Text>
               
               <TextInput
@@ -403,6 +487,128 @@ export default function ParentScheduleModal({ visible, onClose, onSchedule }: Pa
               />
             </View>
             
+            {/* Repeat */}
+            <View style={{
+              backgroundColor: colors.cardBackground,
+              borderRadius: 12,
+              padding: 20,
+              marginBottom: 20,
+              borderWidth: 1,
+              borderColor: colors.border
+            }}>
+              <Text style={{
+                fontSize: 16,
+                fontWeight: '600',
+                color: colors.textSecondary,
+                fontFamily: 'Poppins_600SemiBold',
+                marginBottom: 12
+              }}>
+                Repeat
+              </Text>
+
+              <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
+                {REPEAT_OPTIONS.filter(option => !editingRule || option.value !== 'NONE').map((option) => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={{
+                      paddingVertical: 8,
+                      paddingHorizontal: 12,
+                      borderRadius: 16,
+                      borderWidth: 1,
+                      borderColor: repeat === option.value ? colors.primary : colors.border,
+                      backgroundColor: repeat === option.value ? colors.primary : colors.background,
+                    }}
+                    onPress={() => setRepeat(option.value)}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={{
+                      fontSize: 14,
+                      color: repeat === option.value ? colors.textOnColor : colors.textPrimary,
+                      fontFamily: 'Poppins_500Medium'
+                    }}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {repeat === 'WEEKLY' && (
+                <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginTop: 16 }}>
+                  {WEEKDAY_LABELS.map((label, day) => (
+                    <TouchableOpacity
+                      key={day}
+                      style={{
+                        width: 36,
+                        height: 36,
+                        borderRadius: 18,
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        backgroundColor: daysOfWeek.includes(day) ? colors.primary : colors.background,
+                        borderWidth: 1,
+                        borderColor: daysOfWeek.includes(day) ? colors.primary : colors.border,
+                      }}
+                      onPress={() => toggleDayOfWeek(day)}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={{
+                        fontSize: 14,
+                        color: daysOfWeek.includes(day) ? colors.textOnColor : colors.textPrimary,
+                        fontFamily: 'Poppins_600SemiBold'
+                      }}>
+                        {label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+
+              {repeat === 'INTERVAL' && (
+                <View style={{ flexDirection: 'row', alignItems: 'center', marginTop: 16, gap: 8 }}>
+                  <Text style={{ fontSize: 14, color: colors.textSecondary, fontFamily: 'Poppins_400Regular' }}>Every</Text>
+                  <TextInput
+                    style={{
+                      backgroundColor: colors.background,
+                      borderRadius: 8,
+                      padding: 10,
+                      width: 64,
+                      fontSize: 16,
+                      color: colors.textPrimary,
+                      borderWidth: 1,
+                      borderColor: colors.border,
+                      textAlign: 'center',
+                      fontFamily: 'Poppins_400Regular'
+                    }}
+                    value={intervalDays}
+                    onChangeText={setIntervalDays}
+                    keyboardType="number-pad"
+                  />
+                  <Text style={{ fontSize: 14, color: colors.textSecondary, fontFamily: 'Poppins_400Regular' }}>days</Text>
+                </View>
+              )}
+
+              {repeat !== 'NONE' && (
+                <TextInput
+                  style={{
+                    backgroundColor: colors.background,
+                    borderRadius: 8,
+                    padding: 16,
+                    marginTop: 16,
+                    fontSize: 16,
+                    color: colors.textPrimary,
+                    borderWidth: 1,
+                    borderColor: colors.border,
+                    fontFamily: 'Poppins_400Regular'
+                  }}
+                  value={endDate}
+                  onChangeText={setEndDate}
+                  placeholder="Ends on (YYYY-MM-DD, optional)"
+                  placeholderTextColor={colors.textTertiary}
+                />
+              )}
+            </View>
+
+            {!editingRule && (
+            <>
             {/* Summary */}
             <View style={{
               backgroundColor: colors.primary + '10',
@@ -444,10 +650,12 @@ export default function ParentScheduleModal({ visible, onClose, onSchedule }: Pa
                 color: colors.textSecondary,
                 fontFamily: 'Poppins_400Regular'
               }}>
-                Date: {new Date(selectedDate).toLocaleDateString()}
+                Date: {formatDateLabel(selectedDate)}
               </Text>
             </View>
-          </View>
+            </>
+            )}
+          </ScrollView>
         );
         
       default:
@@ -475,9 +683,9 @@ export default function ParentScheduleModal({ visible, onClose, onSchedule }: Pa
           borderBottomWidth: 1,
           borderBottomColor: colors.border
         }}>
-          <TouchableOpacity onPress={step > 1 ? handleBack : handleClose}>
+          <TouchableOpacity onPress={step > 1 && !editingRule ? handleBack : handleClose}>
             <IconSymbol 
-              name={step > 1 ? "chevron.left" : "xmark"} 
+              name={step > 1 && !editingRule ? "chevron.left" : "xmark"} 
               size={24} 
               color={colors.textPrimary} 
             />
@@ -489,7 +697,7 @@ export default function ParentScheduleModal({ visible, onClose, onSchedule }: Pa
             color: colors.textPrimary,
             fontFamily: 'Poppins_700Bold'
           }}>
-            Schedule Videos
+            {editingRule ? 'Edit Repeat' : 'Schedule Videos'}
           </Text>
           
           <View style={{ width: 24 }} />
@@ -589,7 +797,7 @@ export default function ParentScheduleModal({ visible, onClose, onSchedule }: Pa
                 color: colors.textOnColor,
                 fontFamily: 'Poppins_600SemiBold'
               }}>
-                {isLoading ? 'Scheduling...' : 'Schedule Videos'}
+                {isLoading ? 'Scheduling...' : editingRule ? 'Save Changes' : 'Schedule Videos'}
               </Text>
             </TouchableOpacity>
           )}
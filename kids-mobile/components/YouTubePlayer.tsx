@@ -1,19 +1,17 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
   TouchableOpacity,
   StyleSheet,
   ActivityIndicator,
-  Dimensions,
   Alert,
   Linking,
 } from 'react-native';
-import { WebView } from 'react-native-webview';
+import { WebView, WebViewMessageEvent } from 'react-native-webview';
 import { Ionicons } from '@expo/vector-icons';
-import { useActivityTracker } from '@/hooks/useActivityTracker';
-import { useChild } from '@/contexts/ChildContext';
 import { Colors } from '@/constants/Colors';
+import { usePlaybackTracking } from '@/hooks/usePlaybackTracking';
 
 interface YouTubePlayerProps {
   youtubeId: string;
@@ -22,10 +20,85 @@ interface YouTubePlayerProps {
   childId?: string;
   channelName?: string;
   duration?: string;
+  scheduledVideoId?: string;
+  playlistItemId?: string;
+  startPosition?: number; // Seconds; where the child left off last time
+  completionThreshold?: number; // Share of the video (0-1) that has to play before it counts as watched
   onClose?: () => void;
 }
 
-const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
+// Messages posted by the player page below
+type PlayerMessage =
+  | { type: 'ready'; position: number; duration: number }
+  | { type: 'state'; state: 'playing' | 'paused' | 'buffering' | 'ended'; position: number; duration: number }
+  | { type: 'progress'; position: number; duration: number }
+  | { type: 'error'; code: number };
+
+// Error codes from the IFrame API's onError event
+const PLAYER_ERRORS: Record<number, string> = {
+  2: 'This video link is not valid.',
+  5: 'This video cannot be played on this device.',
+  100: 'This video has been removed or made private.',
+  101: 'The owner of this video does not allow it to be played here.',
+  150: 'The owner of this video does not allow it to be played here.',
+};
+
+// The IFrame Player API reports real playback state; the page forwards it (with the current
+// position) to the app, and sends progress every second while playing
+function playerHtml(youtubeId: string, startPosition: number): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta name="viewport" content="width=device-width, initial-scale=1, maximum-scale=1">
+<style>html, body { margin: 0; height: 100%; background: #000; overflow: hidden; } #player { width: 100%; height: 100%; }</style>
+</head>
+<body>
+<div id="player"></div>
+<script src="https://www.youtube.com/iframe_api"></script>
+<script>
+  var player;
+  var progressTimer = null;
+  var STATES = { 0: 'ended', 1: 'playing', 2: 'paused', 3: 'buffering' };
+
+  function send(type, extra) {
+    var message = Object.assign({ type: type }, extra || {});
+    if (player && player.getCurrentTime) {
+      message.position = player.getCurrentTime() || 0;
+      message.duration = player.getDuration() || 0;
+    }
+    window.ReactNativeWebView.postMessage(JSON.stringify(message));
+  }
+
+  function onYouTubeIframeAPIReady() {
+    player = new YT.Player('player', {
+      host: 'https://www.youtube-nocookie.com',
+      videoId: ${JSON.stringify(youtubeId)},
+      playerVars: { autoplay: 1, playsinline: 1, rel: 0, controls: 1, modestbranding: 1, iv_load_policy: 3, fs: 1, start: ${Math.floor(startPosition)} },
+      events: {
+        onReady: function () {
+          send('ready');
+          player.playVideo();
+        },
+        onStateChange: function (event) {
+          var state = STATES[event.data];
+          if (!state) return;
+          clearInterval(progressTimer);
+          progressTimer = null;
+          send('state', { state: state });
+          if (state === 'playing') {
+            progressTimer = setInterval(function () { send('progress'); }, 1000);
+          }
+        },
+        onError: function (event) {
+          send('error', { code: event.data });
+        }
+      }
+    });
+  }
+</script>
+</body>
+</html>`;
+}
 
 export default function YouTubePlayer({
   youtubeId,
@@ -34,76 +107,68 @@ export default function YouTubePlayer({
   childId,
   channelName = '',
   duration,
+  scheduledVideoId,
+  playlistItemId,
+  startPosition = 0,
+  completionThreshold,
   onClose
 }: YouTubePlayerProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [hasError, setHasError] = useState(false);
   const [errorMessage, setErrorMessage] = useState('');
-  const [hasStartedPlaying, setHasStartedPlaying] = useState(false);
   const [retryCount, setRetryCount] = useState(0);
 
-  const { selectedChild } = useChild();
-  const activityTracker = useActivityTracker();
-  const playStartTimeRef = useRef<number | null>(null);
-  const videoStartedRef = useRef(false);
+  const { isTimeUp, handleState, handleProgress, setDuration, finish } = usePlaybackTracking({
+    youtubeId,
+    title,
+    approvedVideoId,
+    childId,
+    channelName,
+    duration,
+    scheduledVideoId,
+    playlistItemId,
+    startPosition,
+    completionThreshold,
+  });
 
-  const embedUrl = `https://www.youtube-nocookie.com/embed/${youtubeId}?autoplay=1&playsinline=1&rel=0&showinfo=0&controls=1&modestbranding=1&iv_load_policy=3&fs=1`;
   const fallbackUrl = `https://www.youtube.com/watch?v=${youtubeId}`;
 
-  const handleClose = async () => {
-    // Track video exit if user closes before completion
-    if (childId && selectedChild && videoStartedRef.current) {
-      try {
-        await activityTracker.trackVideoExit(
-          childId,
-          selectedChild.name,
-          youtubeId,
-          title,
-          channelName,
-          0, // We don't have precise position from YouTube embed
-          duration,
-          approvedVideoId
-        );
-      } catch (error) {
-        console.error('Error tracking video exit:', error);
-      }
+  const handleMessage = async (event: WebViewMessageEvent) => {
+    let message: PlayerMessage;
+    try {
+      message = JSON.parse(event.nativeEvent.data);
+    } catch {
+      return;
     }
 
-    if (onClose) {
-      onClose();
+    if (message.type === 'error') {
+      setIsLoading(false);
+      setHasError(true);
+      setErrorMessage(PLAYER_ERRORS[message.code] || 'Unable to load video');
+      console.error('YouTube Player Error:', message.code);
+      return;
     }
-  };
 
-  const handleLoadStart = () => {
-    setIsLoading(true);
-    setHasError(false);
-  };
+    setDuration(message.duration);
 
-  const handleLoadEnd = async () => {
-    setIsLoading(false);
+    if (message.type === 'ready') {
+      setIsLoading(false);
+      return;
+    }
 
-    // Track video play when the video loads and starts (since autoplay=1)
-    if (childId && selectedChild && !videoStartedRef.current) {
-      videoStartedRef.current = true;
-      setHasStartedPlaying(true);
-      playStartTimeRef.current = Date.now();
-
-      try {
-        await activityTracker.trackVideoPlay(
-          childId,
-          selectedChild.name,
-          youtubeId,
-          title,
-          channelName,
-          duration,
-          approvedVideoId,
-          0
-        );
+    if (message.type === 'progress') {
+      await handleProgress(message.position);
+      return;
+    }
 
-        console.log('Video play tracked for:', title);
-      } catch (error) {
-        console.error('Error tracking video play:', error);
-      }
+    await handleState(message.state, message.position);
+  };
+
+  const handleClose = async () => {
+    await finish();
+
+    if (onClose) {
+      onClose();
     }
   };
 
@@ -147,50 +212,37 @@ export default function YouTubePlayer({
     }
   };
 
-  // Track video completion based on duration
-  useEffect(() => {
-    if (!hasStartedPlaying || !duration || !childId) return;
-
-    // Parse duration (format: "MM:SS" or "HH:MM:SS")
-    const parseDuration = (durationStr: string): number => {
-      const parts = durationStr.split(':').map(Number);
-      if (parts.length === 2) {
-        return parts[0] * 60 + parts[1]; // MM:SS
-      } else if (parts.length === 3) {
-        return parts[0] * 3600 + parts[1] * 60 + parts[2]; // HH:MM:SS
-      }
-      return 0;
-    };
-
-    const durationSeconds = parseDuration(duration);
-
-    if (durationSeconds > 0) {
-      // Set a timer to track completion after 90% of video duration
-      const completionThreshold = durationSeconds * 0.9 * 1000; // Convert to milliseconds
-
-      const timer = setTimeout(async () => {
-        try {
-          await activityTracker.trackVideoComplete(
-            childId,
-            youtubeId,
-            title,
-            channelName,
-            duration,
-            approvedVideoId,
-            durationSeconds
-          );
-
-          console.log('Video completion tracked for:', title);
-        } catch (error) {
-          console.error('Error tracking video completion:', error);
-        }
-      }, completionThreshold);
+  if (isTimeUp) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.errorContainer}>
+          <View style={styles.header}>
+            <TouchableOpacity style={styles.closeButton} onPress={handleClose}>
+              <Ionicons name="close" size={24} color={Colors.light.textOnColor} />
+            </TouchableOpacity>
+            <Text style={styles.title} numberOfLines={1}>
+              {title}
+            </Text>
+          </View>
 
-      return () => {
-        clearTimeout(timer);
-      };
-    }
-  }, [hasStartedPlaying, duration, childId, youtubeId, title, channelName, approvedVideoId, activityTracker]);
+          <View style={styles.errorContent}>
+            <Ionicons name="moon" size={64} color={Colors.light.primary} />
+            <Text style={styles.errorTitle}>Time&apos;s Up!</Text>
+            <Text style={styles.errorText}>
+              You&apos;ve watched all your videos for today. Come back tomorrow for more!
+            </Text>
+
+            <View style={styles.errorActions}>
+              <TouchableOpacity style={[styles.actionButton, styles.retryButton]} onPress={handleClose}>
+                <Ionicons name="home" size={20} color={Colors.light.textOnColor} />
+                <Text style={styles.actionButtonText}>Back Home</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </View>
+    );
+  }
 
   if (hasError) {
     return (
@@ -255,15 +307,16 @@ export default function YouTubePlayer({
       )}
 
       <WebView
-        source={{ uri: embedUrl }}
+        key={retryCount}
+        source={{ html: playerHtml(youtubeId, startPosition), baseUrl: 'https://www.youtube-nocookie.com' }}
+        originWhitelist={['*']}
         style={styles.webview}
         allowsFullscreenVideo={true}
         mediaPlaybackRequiresUserAction={false}
         javaScriptEnabled={true}
         domStorageEnabled={true}
         startInLoadingState={false}
-        onLoadStart={handleLoadStart}
-        onLoadEnd={handleLoadEnd}
+        onMessage={handleMessage}
         onError={handleError}
         onHttpError={handleError}
         mixedContentMode="compatibility"
@@ -4,6 +4,7 @@ import * as Device from 'expo-device';
 import { Platform } from 'react-native';
 import Constants from 'expo-constants';
 import { localActivityStorage } from '@/lib/localActivityStorage';
+import { activityOutbox } from '@/lib/activityOutbox';
 
 interface SessionContextType {
   sessionId: string | null;
@@ -22,7 +23,13 @@ interface SessionProviderProps {
 export function SessionProvider({ children }: SessionProviderProps) {
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [isSessionActive, setIsSessionActive] = useState(false);
-  const { userId } = useAuth();
+  const { userId, getToken } = useAuth();
+
+  // Lets queued activity upload with the parent's sign-in when the device isn't paired
+  useEffect(() => {
+    activityOutbox.setTokenProvider(getToken);
+    return () => activityOutbox.setTokenProvider(null);
+  }, [getToken]);
 
   // Device and app information
   const deviceInfo = `${Device.brand || 'Unknown'} ${Device.modelName || 'Device'} - ${Platform.OS} ${Platform.Version}`;
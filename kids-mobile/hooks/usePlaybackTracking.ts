@@ -0,0 +1,195 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { ActivityType, useActivityTracker } from '@/hooks/useActivityTracker';
+import { useChild } from '@/contexts/ChildContext';
+import { simpleApiClient } from '@/lib/simpleApiClient';
+import { DEPLOYMENT_CONFIG } from '@/lib/productionConfig';
+import { parseDurationSeconds, PlaybackTracker } from '@/lib/playbackTracker';
+
+export type PlayerState = 'playing' | 'paused' | 'buffering' | 'ended';
+
+export interface PlaybackTrackingOptions {
+  youtubeId: string; // The approved video's key; not a YouTube ID for other sources
+  title: string;
+  approvedVideoId?: string;
+  childId?: string;
+  channelName?: string;
+  duration?: string;
+  scheduledVideoId?: string;
+  playlistItemId?: string;
+  startPosition?: number; // Seconds; where the child left off last time
+  completionThreshold?: number; // Share of the video (0-1) that has to play before it counts as watched
+}
+
+const SCREEN_TIME_CHECK_INTERVAL = 60 * 1000; // Re-check the daily budget every minute
+
+// Activity, watch time, screen time and completion for a player, whatever the video's source. Players
+// report what their video is doing through handleState and handleProgress; everything the parent's
+// limits and the child's progress depend on happens here, the same way for every source.
+export function usePlaybackTracking({
+  youtubeId,
+  title,
+  approvedVideoId,
+  childId,
+  channelName = '',
+  duration,
+  scheduledVideoId,
+  playlistItemId,
+  startPosition = 0,
+  completionThreshold = DEPLOYMENT_CONFIG.WATCHED_THRESHOLD,
+}: PlaybackTrackingOptions) {
+  const [isTimeUp, setIsTimeUp] = useState(false);
+
+  const { selectedChild } = useChild();
+  const activityTracker = useActivityTracker();
+
+  const trackerRef = useRef(new PlaybackTracker(startPosition));
+  const positionRef = useRef(startPosition);
+  const durationRef = useRef(parseDurationSeconds(duration));
+  const hasPlayedRef = useRef(false);
+  const completedRef = useRef(false);
+  const finishedRef = useRef(false);
+
+  // Each event carries the playing time since the previous one, so a video's events add up to
+  // its real watch time (screen time and analytics sum them)
+  const record = useCallback(async (activityType: ActivityType) => {
+    if (!childId || !selectedChild) return;
+
+    const videoDuration = durationRef.current;
+    const coverage = trackerRef.current.coverage(videoDuration);
+
+    try {
+      await activityTracker.recordActivity({
+        childId,
+        childName: selectedChild.name,
+        approvedVideoId,
+        youtubeId,
+        activityType,
+        watchTimeSeconds: trackerRef.current.takeWatchTime(),
+        videoPosition: Math.round(positionRef.current),
+        videoTitle: title,
+        channelName,
+        videoDuration: duration,
+        completed: completedRef.current,
+        completionRate: videoDuration > 0 ? Math.round(coverage * 1000) / 10 : undefined,
+      });
+    } catch (error) {
+      console.error(`Error tracking video ${activityType}:`, error);
+    }
+  }, [childId, selectedChild, activityTracker, approvedVideoId, youtubeId, title, channelName, duration]);
+
+  // Watched means enough of the video actually played, not that it was opened or skipped to the end
+  const checkCompletion = useCallback(async () => {
+    if (completedRef.current || durationRef.current <= 0) return;
+    if (trackerRef.current.coverage(durationRef.current) < completionThreshold) return;
+
+    completedRef.current = true;
+    console.log('Video completion tracked for:', title);
+    await record('COMPLETE');
+
+    if (scheduledVideoId && childId) {
+      try {
+        await simpleApiClient.markScheduledVideoAsWatched(scheduledVideoId, childId);
+      } catch (error) {
+        console.warn('Failed to mark scheduled video as watched:', error);
+      }
+    }
+
+    // The next playlist item unlocks once this one has really been watched
+    if (playlistItemId && childId) {
+      await simpleApiClient.markPlaylistItemCompleted(playlistItemId, childId);
+    }
+  }, [completionThreshold, record, scheduledVideoId, playlistItemId, childId, title]);
+
+  // Players that learn the real length once the video loads
+  const setDuration = useCallback((seconds: number) => {
+    if (seconds > 0) durationRef.current = seconds;
+  }, []);
+
+  // Called about once a second while playing
+  const handleProgress = useCallback(async (position: number) => {
+    positionRef.current = position;
+    if (trackerRef.current.progress(position)) {
+      await record('SEEK');
+    }
+    await checkCompletion();
+  }, [record, checkCompletion]);
+
+  const handleState = useCallback(async (state: PlayerState, position: number) => {
+    const tracker = trackerRef.current;
+    const previousPosition = positionRef.current;
+    positionRef.current = position;
+
+    switch (state) {
+      case 'playing':
+        if (!hasPlayedRef.current) {
+          hasPlayedRef.current = true;
+          tracker.start(position);
+          console.log('Video play tracked for:', title);
+          await record('PLAY');
+        } else {
+          // Moved while paused: the scrubber was dragged
+          if (Math.abs(position - previousPosition) > 2) {
+            await record('SEEK');
+          }
+          tracker.start(position);
+          await record('RESUME');
+        }
+        break;
+      case 'paused':
+        tracker.stop(position);
+        await record('PAUSE');
+        break;
+      case 'buffering':
+        tracker.stop(previousPosition);
+        break;
+      case 'ended':
+        tracker.stop(position);
+        await checkCompletion();
+        break;
+    }
+  }, [record, checkCompletion, title]);
+
+  // Leaving the player (close button, back gesture or time running out) ends the viewing once
+  const finish = useCallback(async () => {
+    if (finishedRef.current || !hasPlayedRef.current) return;
+    finishedRef.current = true;
+
+    trackerRef.current.stop(positionRef.current);
+    await record('EXIT');
+  }, [record]);
+
+  const finishRef = useRef(finish);
+  finishRef.current = finish;
+
+  useEffect(() => {
+    return () => {
+      finishRef.current();
+    };
+  }, []);
+
+  // The server decides when today's screen time is used up
+  useEffect(() => {
+    if (!childId) return;
+
+    let cancelled = false;
+
+    const checkScreenTime = async () => {
+      const status = await simpleApiClient.getScreenTime(childId);
+      if (!cancelled && status?.isTimeUp) {
+        console.log('⏰ Daily screen time used up, stopping playback');
+        setIsTimeUp(true);
+        finishRef.current();
+      }
+    };
+
+    checkScreenTime();
+    const interval = setInterval(checkScreenTime, SCREEN_TIME_CHECK_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [childId]);
+
+  return { isTimeUp, handleState, handleProgress, setDuration, finish };
+}
@@ -0,0 +1,276 @@
+/**
+ * Activity Outbox
+ * Durable queue of activities and sessions waiting to be uploaded to /api/activity/batch.
+ * Entries survive app restarts, go up in batches per child, and are only removed once the server
+ * has acknowledged them. Each activity carries its local ID, which the server uses to ignore repeats,
+ * so a batch whose response was lost can safely be sent again.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { networkManager } from './networkManager';
+import { getApiBaseUrl, logDebug, logError } from './productionConfig';
+import { getDeviceToken } from './deviceToken';
+import type { AppSession, VideoActivity } from './localActivityStorage';
+
+type OutboxKind = 'activity' | 'session';
+
+interface OutboxEntry {
+  key: string; // Activity ID, or session ID; a newer copy of a session replaces the queued one
+  kind: OutboxKind;
+  childId: string;
+  payload: Record<string, unknown>;
+  queuedAt: string;
+}
+
+interface BatchItemResult {
+  id: string;
+  status: 'accepted' | 'duplicate' | 'rejected';
+  error?: string;
+}
+
+const STORAGE_KEY = '@kids_app_outbox';
+
+// Matches the server's limit on activities plus sessions per request
+const BATCH_SIZE = 50;
+
+// Activities recorded close together go up in one request
+const FLUSH_DELAY_MS = 5 * 1000;
+
+const RETRY_BASE_MS = 10 * 1000;
+const RETRY_MAX_MS = 30 * 60 * 1000;
+
+// Oldest activities are dropped past this, so a device that never reconnects can't fill its storage
+const MAX_ENTRIES = 5000;
+
+class ActivityOutbox {
+  private apiBaseUrl = getApiBaseUrl();
+  private storageLock: Promise<unknown> = Promise.resolve();
+  private flushing: Promise<void> | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private failures = 0;
+  private tokenProvider: (() => Promise<string | null>) | null = null;
+
+  constructor() {
+    networkManager.addNetworkListener(isConnected => {
+      if (isConnected) {
+        // A new connection is worth trying straight away, whatever the backoff said
+        this.failures = 0;
+        this.flush();
+      }
+    });
+
+    // Pick up anything left over from the last run
+    this.scheduleFlush(FLUSH_DELAY_MS);
+  }
+
+  // Parent sign-in token, used for children this device isn't paired with
+  setTokenProvider(provider: (() => Promise<string | null>) | null) {
+    this.tokenProvider = provider;
+  }
+
+  async enqueueActivity(activity: VideoActivity): Promise<void> {
+    await this.push({
+      key: activity.id,
+      kind: 'activity',
+      childId: activity.childId,
+      payload: { ...activity },
+      queuedAt: new Date().toISOString(),
+    });
+  }
+
+  async enqueueSession(session: AppSession): Promise<void> {
+    await this.push({
+      key: session.sessionId,
+      kind: 'session',
+      childId: session.childId,
+      payload: {
+        sessionId: session.sessionId,
+        childId: session.childId,
+        startTime: session.startTime,
+        endTime: session.endTime,
+        duration: session.duration,
+        deviceInfo: session.deviceInfo,
+        appVersion: session.appVersion,
+        platform: session.platform,
+      },
+      queuedAt: new Date().toISOString(),
+    });
+  }
+
+  async getPendingCount(): Promise<number> {
+    return (await this.read()).length;
+  }
+
+  // Upload everything queued. Concurrent calls share one run.
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.clearTimer();
+      this.flushing = this.drain().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private async push(entry: OutboxEntry): Promise<void> {
+    try {
+      await this.withStorage(entries => {
+        const next = entries.filter(existing => !(existing.kind === entry.kind && existing.key === entry.key));
+        next.push(entry);
+
+        if (next.length > MAX_ENTRIES) {
+          const dropIndex = next.findIndex(existing => existing.kind === 'activity');
+          if (dropIndex !== -1) next.splice(dropIndex, 1);
+        }
+
+        return next;
+      });
+
+      // While backing off, the retry timer picks this up; a running flush re-reads the queue anyway
+      if (this.failures === 0 && !this.timer && !this.flushing) {
+        this.scheduleFlush(FLUSH_DELAY_MS);
+      }
+    } catch (error) {
+      logError('❌ Failed to queue activity for upload:', error);
+    }
+  }
+
+  private async drain(): Promise<void> {
+    while (networkManager.getConnectionStatus()) {
+      const entries = await this.read();
+      if (entries.length === 0) {
+        this.failures = 0;
+        return;
+      }
+
+      // One child per request, since a paired device can only speak for its own child
+      const childId = entries[0].childId;
+      const batch = entries.filter(entry => entry.childId === childId).slice(0, BATCH_SIZE);
+
+      const acknowledged = await this.send(childId, batch);
+      if (!acknowledged) {
+        this.scheduleRetry();
+        return;
+      }
+
+      await this.withStorage(current => current.filter(entry => {
+        const sent = batch.find(candidate => candidate.kind === entry.kind && candidate.key === entry.key);
+        // A newer copy queued while the request was in flight (a session that has since ended) stays
+        return !sent || sent.queuedAt !== entry.queuedAt || !acknowledged.has(`${entry.kind}:${entry.key}`);
+      }));
+
+      // Anything the server didn't answer for waits for the next attempt rather than looping here
+      if (acknowledged.size < batch.length) {
+        this.scheduleRetry();
+        return;
+      }
+      this.failures = 0;
+    }
+  }
+
+  // Returns the entries the server is done with (stored, already stored, or refused for good), or null
+  // when the whole batch should be retried later
+  private async send(childId: string, batch: OutboxEntry[]): Promise<Set<string> | null> {
+    const headers = await this.getHeaders(childId);
+    if (!headers) {
+      logDebug('⏸️ No credentials to upload activity for child:', childId);
+      return null;
+    }
+
+    try {
+      const response = await fetch(`${this.apiBaseUrl}/api/activity/batch`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          activities: batch.filter(entry => entry.kind === 'activity').map(entry => entry.payload),
+          sessions: batch.filter(entry => entry.kind === 'session').map(entry => entry.payload),
+        }),
+      });
+
+      // Malformed requests won't get better by retrying; anything else (auth, rate limits, server
+      // errors) might
+      if (response.status === 400) {
+        const data = await response.json().catch(() => ({}));
+        logError('❌ Activity batch refused, dropping it:', data.error);
+        return new Set(batch.map(entry => `${entry.kind}:${entry.key}`));
+      }
+
+      if (!response.ok) {
+        logError(`❌ Activity batch upload failed: ${response.status}`);
+        return null;
+      }
+
+      const data: { activities?: BatchItemResult[]; sessions?: BatchItemResult[] } = await response.json();
+      const acknowledged = new Set<string>();
+
+      for (const [kind, results] of [['activity', data.activities], ['session', data.sessions]] as const) {
+        for (const result of results || []) {
+          if (result.status === 'rejected') {
+            logError(`⚠️ Server refused queued ${kind}:`, result.id, result.error);
+          }
+          acknowledged.add(`${kind}:${result.id}`);
+        }
+      }
+
+      logDebug('📤 Uploaded activity batch:', acknowledged.size, 'of', batch.length);
+      return acknowledged.size > 0 ? acknowledged : null;
+    } catch (error) {
+      logError('❌ Activity batch upload error:', error);
+      return null;
+    }
+  }
+
+  private async getHeaders(childId: string): Promise<Record<string, string> | null> {
+    const token = (await getDeviceToken(childId)) || (await this.tokenProvider?.().catch(() => null));
+    if (!token) return null;
+
+    return {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    };
+  }
+
+  // Exponential backoff with jitter, so a fleet of devices coming back online don't retry in step
+  private scheduleRetry() {
+    this.failures += 1;
+    const delay = Math.min(RETRY_BASE_MS * 2 ** (this.failures - 1), RETRY_MAX_MS);
+    this.scheduleFlush(delay / 2 + Math.random() * delay / 2);
+  }
+
+  private scheduleFlush(delayMs: number) {
+    this.clearTimer();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, delayMs);
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async read(): Promise<OutboxEntry[]> {
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEY);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      logError('❌ Failed to read activity outbox:', error);
+      return [];
+    }
+  }
+
+  // Read-modify-write calls run one at a time, so an enqueue can't be lost to a flush removing entries
+  private withStorage(update: (entries: OutboxEntry[]) => OutboxEntry[]): Promise<void> {
+    const run = this.storageLock.then(async () => {
+      const entries = await this.read();
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(update(entries)));
+    });
+    this.storageLock = run.catch(() => undefined);
+    return run;
+  }
+}
+
+export const activityOutbox = new ActivityOutbox();
@@ -43,6 +43,18 @@ export interface VideoUrl {
   success: boolean;
 }
 
+export interface ParentPinStatus {
+  hasPin: boolean;
+  lockedUntil: string | null;
+  canReset: boolean; // Signed in recently enough to replace a forgotten PIN
+}
+
+export type ParentPinCheck =
+  | { status: 'ok' }
+  | { status: 'not-set' }
+  | { status: 'wrong'; attemptsLeft: number }
+  | { status: 'locked'; lockedUntil: string };
+
 class ApiClient {
   private async makeRequest<T>(
     endpoint: string,
@@ -202,6 +214,32 @@ class ApiClient {
     );
   }
 
+  async getParentPinStatus(token: string): Promise<ParentPinStatus> {
+    return this.makeRequest<ParentPinStatus>('/api/parent/pin', { method: 'GET' }, token);
+  }
+
+  async checkParentPin(pin: string, token: string): Promise<ParentPinCheck> {
+    return this.makeRequest<ParentPinCheck>(
+      '/api/parent/pin',
+      {
+        method: 'POST',
+        body: JSON.stringify({ pin }),
+      },
+      token
+    );
+  }
+
+  async setParentPin(pin: string, currentPin: string | undefined, token: string): Promise<void> {
+    await this.makeRequest(
+      '/api/parent/pin',
+      {
+        method: 'PUT',
+        body: JSON.stringify({ pin, currentPin }),
+      },
+      token
+    );
+  }
+
   async getVideoUrl(youtubeId: string, token: string): Promise<VideoUrl> {
     const requestId = `video-url-${youtubeId}`;
 
@@ -0,0 +1,30 @@
+/**
+ * Device Token Storage
+ * Keeps the token issued when this device was paired with a child profile
+ */
+
+import * as SecureStore from 'expo-secure-store';
+
+// SecureStore keys may only contain alphanumerics, ".", "-" and "_"
+const getKey = (childId: string) => `kids_device_token_${childId.replace(/[^a-zA-Z0-9._-]/g, '_')}`;
+
+export async function getDeviceToken(childId: string): Promise<string | null> {
+  try {
+    return await SecureStore.getItemAsync(getKey(childId));
+  } catch (error) {
+    console.error('❌ Error reading device token:', error);
+    return null;
+  }
+}
+
+export async function saveDeviceToken(childId: string, token: string): Promise<void> {
+  await SecureStore.setItemAsync(getKey(childId), token);
+}
+
+export async function clearDeviceToken(childId: string): Promise<void> {
+  try {
+    await SecureStore.deleteItemAsync(getKey(childId));
+  } catch (error) {
+    console.error('❌ Error clearing device token:', error);
+  }
+}
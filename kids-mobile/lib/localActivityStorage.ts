@@ -1,4 +1,5 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { activityOutbox } from './activityOutbox';
 
 export interface VideoActivity {
   id: string;
@@ -75,6 +76,7 @@ class LocalActivityStorage {
       const keys = getUserSpecificKeys(userId);
       await AsyncStorage.setItem(keys.ACTIVITIES, JSON.stringify(updatedActivities));
       console.log('✅ Activity saved to local storage:', newActivity.activityType, newActivity.videoTitle);
+      await activityOutbox.enqueueActivity(newActivity);
       
       return newActivity;
     } catch (error) {
@@ -124,6 +126,7 @@ class LocalActivityStorage {
       const keys = getUserSpecificKeys(userId);
       await AsyncStorage.setItem(keys.SESSIONS, JSON.stringify(updatedSessions));
       console.log('✅ Session saved to local storage:', newSession.sessionId);
+      await activityOutbox.enqueueSession(newSession);
       
       return newSession;
     } catch (error) {
@@ -147,6 +150,7 @@ class LocalActivityStorage {
       await AsyncStorage.setItem(keys.SESSIONS, JSON.stringify(sessions));
       
       console.log('✅ Session updated in local storage:', sessionId);
+      await activityOutbox.enqueueSession(sessions[sessionIndex]);
       return sessions[sessionIndex];
     } catch (error) {
       console.error('❌ Error updating session:', error);
@@ -4,7 +4,11 @@
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Directory, File, Paths } from 'expo-file-system';
 import { logDebug, logError } from './productionConfig';
+import { networkManager } from './networkManager';
+import { activityOutbox } from './activityOutbox';
+import type { VideoActivity } from './localActivityStorage';
 
 export interface OfflineVideo {
   id: string;
@@ -30,14 +34,60 @@ export interface OfflineChild {
   videos: OfflineVideo[];
 }
 
+// A parent-provided video the server says this device may download (GET /api/kids/offline-media)
+export interface OfflineMedia {
+  approvedVideoId: string;
+  childId: string;
+  youtubeId: string; // The video's key; a "media-" ID rather than a YouTube ID
+  title: string;
+  thumbnail: string;
+  duration?: string | null;
+  mediaUrl: string;
+  sizeBytes: number;
+  mimeType?: string | null;
+}
+
+export type DownloadStatus = 'queued' | 'downloading' | 'downloaded' | 'failed';
+
+export interface OfflineDownload extends OfflineMedia {
+  status: DownloadStatus;
+  localUri?: string;
+  queuedAt: string;
+  downloadedAt?: string;
+  expiresAt?: string; // Downloads are deleted after this, so travel copies don't linger for months
+  error?: string;
+}
+
+export const DEFAULT_DOWNLOAD_BUDGET_BYTES = 2 * 1024 * 1024 * 1024;
+const DOWNLOAD_EXPIRY_DAYS = 14;
+const DOWNLOAD_DIRECTORY = 'travel-videos';
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'video/mp4': 'mp4',
+  'video/x-m4v': 'm4v',
+  'video/quicktime': 'mov',
+  'video/webm': 'webm',
+};
+
 class OfflineVideoManager {
   private readonly STORAGE_KEYS = {
     CHILDREN: '@kids_app_children',
     VIDEOS: '@kids_app_videos',
     ACTIVITY: '@kids_app_activity',
     SETTINGS: '@kids_app_settings',
+    DOWNLOADS: '@kids_app_downloads',
+    DOWNLOAD_BUDGET: '@kids_app_download_budget',
   };
 
+  private downloading: Promise<void> | null = null;
+
+  constructor() {
+    // Downloads waiting on a connection carry on when it comes back
+    networkManager.addNetworkListener(isConnected => {
+      if (isConnected) this.processDownloadQueue();
+    });
+  }
+
   // Generate YouTube URLs without API dependency
   generateVideoUrls(youtubeId: string) {
     return {
@@ -134,6 +184,21 @@ class OfflineVideoManager {
       }
 
       await AsyncStorage.setItem(this.STORAGE_KEYS.ACTIVITY, JSON.stringify(activities));
+      await activityOutbox.enqueueActivity({
+        id: newActivity.id,
+        childId: activity.childId,
+        childName: '',
+        youtubeId: activity.youtubeId,
+        videoTitle: activity.videoTitle,
+        channelName: activity.channelName,
+        activityType: activity.activityType as VideoActivity['activityType'],
+        watchTimeSeconds: 0,
+        videoPosition: activity.videoPosition || 0,
+        videoDuration: activity.videoDuration,
+        completed: activity.activityType === 'COMPLETE',
+        createdAt: newActivity.timestamp,
+        approvedVideoId: activity.approvedVideoId,
+      });
       logDebug('✅ Video activity tracked offline:', activity.activityType);
     } catch (error) {
       logError('❌ Failed to track video activity offline:', error);
@@ -243,14 +308,203 @@ class OfflineVideoManager {
     ];
   }
 
+  // Travel downloads: parent-provided videos saved to the device, one at a time, within a storage
+  // budget the parent sets. Finished downloads expire after DOWNLOAD_EXPIRY_DAYS.
+
+  async getDownloadBudget(): Promise<number> {
+    try {
+      const data = await AsyncStorage.getItem(this.STORAGE_KEYS.DOWNLOAD_BUDGET);
+      return data ? Number(data) || DEFAULT_DOWNLOAD_BUDGET_BYTES : DEFAULT_DOWNLOAD_BUDGET_BYTES;
+    } catch (error) {
+      logError('❌ Failed to read download budget:', error);
+      return DEFAULT_DOWNLOAD_BUDGET_BYTES;
+    }
+  }
+
+  async setDownloadBudget(bytes: number): Promise<void> {
+    await AsyncStorage.setItem(this.STORAGE_KEYS.DOWNLOAD_BUDGET, String(bytes));
+  }
+
+  async getDownloads(childId?: string): Promise<OfflineDownload[]> {
+    try {
+      const data = await AsyncStorage.getItem(this.STORAGE_KEYS.DOWNLOADS);
+      const downloads: OfflineDownload[] = data ? JSON.parse(data) : [];
+      return childId ? downloads.filter(download => download.childId === childId) : downloads;
+    } catch (error) {
+      logError('❌ Failed to read downloads:', error);
+      return [];
+    }
+  }
+
+  // Bytes taken or claimed by downloads; queued ones count so the budget can't be overbooked
+  async getDownloadUsage(): Promise<number> {
+    const downloads = await this.getDownloads();
+    return downloads
+      .filter(download => download.status !== 'failed')
+      .reduce((total, download) => total + download.sizeBytes, 0);
+  }
+
+  // Finished, unexpired downloads whose file is still on the device
+  async getPlayableDownloads(childId: string): Promise<OfflineDownload[]> {
+    await this.pruneExpiredDownloads();
+    const downloads = await this.getDownloads(childId);
+    return downloads.filter(download =>
+      download.status === 'downloaded' && download.localUri && new File(download.localUri).exists
+    );
+  }
+
+  async getPlayableUri(approvedVideoId: string): Promise<string | null> {
+    const downloads = await this.getDownloads();
+    const download = downloads.find(item => item.approvedVideoId === approvedVideoId);
+    if (download?.status !== 'downloaded' || !download.localUri) return null;
+    if (download.expiresAt && new Date(download.expiresAt) < new Date()) return null;
+    return new File(download.localUri).exists ? download.localUri : null;
+  }
+
+  // Returns an error message when the video can't be queued
+  async queueDownload(media: OfflineMedia): Promise<string | null> {
+    const downloads = await this.getDownloads();
+    const existing = downloads.find(download => download.approvedVideoId === media.approvedVideoId);
+    if (existing && existing.status !== 'failed') {
+      return null;
+    }
+
+    const budget = await this.getDownloadBudget();
+    const usage = await this.getDownloadUsage();
+    if (usage + media.sizeBytes > budget) {
+      return 'Not enough space left in the download budget. Remove a download or raise the budget.';
+    }
+
+    const queued: OfflineDownload = {
+      ...media,
+      status: 'queued',
+      queuedAt: new Date().toISOString(),
+    };
+    await this.saveDownloads([
+      ...downloads.filter(download => download.approvedVideoId !== media.approvedVideoId),
+      queued,
+    ]);
+    logDebug('📥 Download queued:', media.title);
+
+    this.processDownloadQueue();
+    return null;
+  }
+
+  async removeDownload(approvedVideoId: string): Promise<void> {
+    const downloads = await this.getDownloads();
+    const download = downloads.find(item => item.approvedVideoId === approvedVideoId);
+    if (download?.localUri) {
+      this.deleteFile(download.localUri);
+    }
+    await this.saveDownloads(downloads.filter(item => item.approvedVideoId !== approvedVideoId));
+  }
+
+  // Drops downloads the parent no longer offers, e.g. after removing the video from the dashboard
+  async syncDownloads(childId: string, available: OfflineMedia[]): Promise<void> {
+    const offered = new Set(available.map(media => media.approvedVideoId));
+    const downloads = await this.getDownloads(childId);
+    for (const download of downloads) {
+      if (!offered.has(download.approvedVideoId)) {
+        await this.removeDownload(download.approvedVideoId);
+      }
+    }
+  }
+
+  async pruneExpiredDownloads(): Promise<void> {
+    const now = new Date();
+    const downloads = await this.getDownloads();
+    for (const download of downloads) {
+      if (download.expiresAt && new Date(download.expiresAt) < now) {
+        logDebug('🗑️ Travel download expired:', download.title);
+        await this.removeDownload(download.approvedVideoId);
+      }
+    }
+  }
+
+  // Works through queued downloads one at a time. Concurrent calls share one run; a download cut off
+  // by the app closing is picked up again on the next call.
+  processDownloadQueue(): Promise<void> {
+    if (!this.downloading) {
+      this.downloading = this.runDownloads().finally(() => {
+        this.downloading = null;
+      });
+    }
+    return this.downloading;
+  }
+
+  private async runDownloads(): Promise<void> {
+    while (networkManager.getConnectionStatus()) {
+      const downloads = await this.getDownloads();
+      const next = downloads.find(download => download.status === 'queued' || download.status === 'downloading');
+      if (!next) return;
+
+      await this.updateDownload(next.approvedVideoId, { status: 'downloading', error: undefined });
+
+      try {
+        const directory = new Directory(Paths.document, DOWNLOAD_DIRECTORY);
+        directory.create({ idempotent: true });
+
+        const extension = FILE_EXTENSIONS[next.mimeType || ''] || 'mp4';
+        const file = new File(directory, `${next.approvedVideoId}.${extension}`);
+        if (file.exists) file.delete();
+
+        const downloaded = await File.downloadFileAsync(next.mediaUrl, file);
+        const downloadedAt = new Date();
+
+        await this.updateDownload(next.approvedVideoId, {
+          status: 'downloaded',
+          localUri: downloaded.uri,
+          downloadedAt: downloadedAt.toISOString(),
+          expiresAt: new Date(downloadedAt.getTime() + DOWNLOAD_EXPIRY_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+        });
+        logDebug('✅ Travel download finished:', next.title);
+      } catch (error) {
+        logError('❌ Travel download failed:', error);
+        await this.updateDownload(next.approvedVideoId, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Download failed',
+        });
+      }
+    }
+  }
+
+  private async updateDownload(approvedVideoId: string, changes: Partial<OfflineDownload>): Promise<void> {
+    const downloads = await this.getDownloads();
+    // Removed while downloading: keep it removed and delete what was fetched
+    if (!downloads.some(download => download.approvedVideoId === approvedVideoId)) {
+      if (changes.localUri) this.deleteFile(changes.localUri);
+      return;
+    }
+    await this.saveDownloads(downloads.map(download =>
+      download.approvedVideoId === approvedVideoId ? { ...download, ...changes } : download
+    ));
+  }
+
+  private async saveDownloads(downloads: OfflineDownload[]): Promise<void> {
+    await AsyncStorage.setItem(this.STORAGE_KEYS.DOWNLOADS, JSON.stringify(downloads));
+  }
+
+  private deleteFile(uri: string) {
+    try {
+      const file = new File(uri);
+      if (file.exists) file.delete();
+    } catch (error) {
+      logError('❌ Failed to delete downloaded video:', error);
+    }
+  }
+
   // Clear all offline data (for testing)
   async clearOfflineData(): Promise<void> {
     try {
+      const directory = new Directory(Paths.document, DOWNLOAD_DIRECTORY);
+      if (directory.exists) directory.delete();
+
       await AsyncStorage.multiRemove([
         this.STORAGE_KEYS.CHILDREN,
         this.STORAGE_KEYS.VIDEOS,
         this.STORAGE_KEYS.ACTIVITY,
         this.STORAGE_KEYS.SETTINGS,
+        this.STORAGE_KEYS.DOWNLOADS,
       ]);
       logDebug('✅ All offline data cleared');
     } catch (error) {
@@ -0,0 +1,119 @@
+/**
+ * Parent PIN
+ * Checks the PIN guarding the parent area with the server, which counts wrong guesses and locks the
+ * PIN after too many. A salted hash of the last PIN that worked is kept on the device so the parent
+ * can still get in while offline; offline guesses have their own lockout.
+ */
+
+import * as Crypto from 'expo-crypto';
+import * as SecureStore from 'expo-secure-store';
+import { apiClient, ParentPinCheck } from './api';
+import { networkManager } from './networkManager';
+
+const CACHE_KEY = 'parent_pin_hash';
+const OFFLINE_ATTEMPTS_KEY = 'parent_pin_offline_attempts';
+const MAX_OFFLINE_ATTEMPTS = 5;
+const OFFLINE_LOCKOUT_MS = 15 * 60 * 1000;
+const UNLOCK_GRACE_MS = 60 * 1000; // One PIN covers leaving the feed and then opening the parent area
+
+let unlockedAt = 0;
+
+// Offline with no cached PIN to check against
+export type PinCheck = ParentPinCheck | { status: 'offline' };
+
+// Kept in SecureStore rather than memory, so restarting the app doesn't give a child more guesses
+interface OfflineAttempts {
+  failures: number;
+  lockedUntil: number;
+}
+
+export function wasUnlockedRecently(): boolean {
+  return Date.now() - unlockedAt < UNLOCK_GRACE_MS;
+}
+
+async function digestPin(pin: string, salt: string): Promise<string> {
+  return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+}
+
+async function cachePin(pin: string): Promise<void> {
+  try {
+    const salt = Crypto.randomUUID();
+    await SecureStore.setItemAsync(CACHE_KEY, `${salt}:${await digestPin(pin, salt)}`);
+  } catch (error) {
+    console.error('❌ Error caching parent PIN:', error);
+  }
+}
+
+export async function clearCachedPin(): Promise<void> {
+  try {
+    await SecureStore.deleteItemAsync(CACHE_KEY);
+  } catch (error) {
+    console.error('❌ Error clearing parent PIN:', error);
+  }
+}
+
+async function loadOfflineAttempts(): Promise<OfflineAttempts> {
+  try {
+    const stored = await SecureStore.getItemAsync(OFFLINE_ATTEMPTS_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch (error) {
+    console.error('❌ Error loading offline PIN attempts:', error);
+  }
+  return { failures: 0, lockedUntil: 0 };
+}
+
+async function saveOfflineAttempts(attempts: OfflineAttempts): Promise<void> {
+  await SecureStore.setItemAsync(OFFLINE_ATTEMPTS_KEY, JSON.stringify(attempts));
+}
+
+async function checkCachedPin(pin: string): Promise<PinCheck> {
+  const attempts = await loadOfflineAttempts();
+  if (Date.now() < attempts.lockedUntil) {
+    return { status: 'locked', lockedUntil: new Date(attempts.lockedUntil).toISOString() };
+  }
+
+  // Never unlocked on this device, so there's nothing to check against without the server
+  const cached = await SecureStore.getItemAsync(CACHE_KEY);
+  if (!cached) {
+    return { status: 'offline' };
+  }
+
+  const [salt, hash] = cached.split(':');
+  if ((await digestPin(pin, salt)) === hash) {
+    await saveOfflineAttempts({ failures: 0, lockedUntil: 0 });
+    return { status: 'ok' };
+  }
+
+  const failures = attempts.failures + 1;
+  if (failures >= MAX_OFFLINE_ATTEMPTS) {
+    const lockedUntil = Date.now() + OFFLINE_LOCKOUT_MS;
+    await saveOfflineAttempts({ failures: 0, lockedUntil });
+    return { status: 'locked', lockedUntil: new Date(lockedUntil).toISOString() };
+  }
+  await saveOfflineAttempts({ failures, lockedUntil: 0 });
+  return { status: 'wrong', attemptsLeft: MAX_OFFLINE_ATTEMPTS - failures };
+}
+
+export async function checkParentPin(pin: string, token: string | null): Promise<PinCheck> {
+  if (!token || !networkManager.getConnectionStatus()) {
+    const result = await checkCachedPin(pin);
+    if (result.status === 'ok') unlockedAt = Date.now();
+    return result;
+  }
+
+  const result = await apiClient.checkParentPin(pin, token);
+  if (result.status === 'ok') {
+    unlockedAt = Date.now();
+    await cachePin(pin);
+  } else if (result.status === 'locked') {
+    // The server's lockout applies offline too
+    await clearCachedPin();
+  }
+  return result;
+}
+
+export async function setParentPin(pin: string, currentPin: string | undefined, token: string): Promise<void> {
+  await apiClient.setParentPin(pin, currentPin, token);
+  await cachePin(pin);
+  unlockedAt = Date.now();
+}
@@ -0,0 +1,110 @@
+/**
+ * Turns the stream of player states and positions from the YouTube IFrame API into watch time and
+ * coverage. Only time spent actually playing counts: buffering, pauses and seeks add nothing, and
+ * coverage is the share of the video's timeline that was played at least once, so skipping to the
+ * end doesn't count as finishing it.
+ */
+
+// A jump this much bigger than the wall-clock time since the last update is treated as a seek
+const SEEK_TOLERANCE_SECONDS = 2;
+
+// Playback can run at up to 2x speed
+const MAX_PLAYBACK_RATE = 2;
+
+interface Segment {
+  startPosition: number;
+  lastPosition: number;
+  lastUpdateAt: number;
+}
+
+export class PlaybackTracker {
+  private played: [number, number][] = [];
+  private segment: Segment | null = null;
+  private unreportedSeconds = 0;
+
+  // When resuming, everything before the resume position was played in an earlier session: it counts
+  // towards coverage but not towards this session's watch time
+  constructor(resumedFrom = 0) {
+    if (resumedFrom > 0) this.played.push([0, resumedFrom]);
+  }
+
+  get isPlaying(): boolean {
+    return this.segment !== null;
+  }
+
+  start(position: number, at: number = Date.now()): void {
+    if (this.segment) this.stop(this.segment.lastPosition, at);
+    this.segment = { startPosition: position, lastPosition: position, lastUpdateAt: at };
+  }
+
+  // Returns true when the position jumped, i.e. the child seeked while the video was playing
+  progress(position: number, at: number = Date.now()): boolean {
+    if (!this.segment) return false;
+
+    const elapsed = (at - this.segment.lastUpdateAt) / 1000;
+    const advanced = position - this.segment.lastPosition;
+
+    if (advanced < -SEEK_TOLERANCE_SECONDS || advanced > elapsed * MAX_PLAYBACK_RATE + SEEK_TOLERANCE_SECONDS) {
+      this.closeSegment();
+      this.segment = { startPosition: position, lastPosition: position, lastUpdateAt: at };
+      return true;
+    }
+
+    if (advanced > 0) {
+      this.unreportedSeconds += Math.min(advanced, elapsed * MAX_PLAYBACK_RATE);
+      this.segment.lastPosition = position;
+    }
+    this.segment.lastUpdateAt = at;
+    return false;
+  }
+
+  stop(position: number, at: number = Date.now()): void {
+    if (!this.segment) return;
+    this.progress(position, at);
+    this.closeSegment();
+  }
+
+  // Playing time since the last call, so each recorded event carries only its own share
+  takeWatchTime(): number {
+    const seconds = Math.round(this.unreportedSeconds);
+    this.unreportedSeconds -= seconds;
+    return seconds;
+  }
+
+  // Share (0-1) of the video played at least once
+  coverage(durationSeconds: number): number {
+    if (durationSeconds <= 0) return 0;
+
+    const ranges = [...this.played];
+    if (this.segment) ranges.push([this.segment.startPosition, this.segment.lastPosition]);
+    ranges.sort((a, b) => a[0] - b[0]);
+
+    let covered = 0;
+    let reach = 0;
+    for (const [start, end] of ranges) {
+      const from = Math.max(start, reach);
+      if (end > from) {
+        covered += end - from;
+        reach = end;
+      }
+    }
+
+    return Math.min(covered / durationSeconds, 1);
+  }
+
+  private closeSegment(): void {
+    if (!this.segment) return;
+    if (this.segment.lastPosition > this.segment.startPosition) {
+      this.played.push([this.segment.startPosition, this.segment.lastPosition]);
+    }
+    this.segment = null;
+  }
+}
+
+// "MM:SS" or "HH:MM:SS", as stored on approved videos
+export function parseDurationSeconds(duration?: string): number {
+  if (!duration) return 0;
+  const parts = duration.split(':').map(Number);
+  if (parts.some(isNaN)) return 0;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
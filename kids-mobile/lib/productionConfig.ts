@@ -15,6 +15,9 @@ export const DEPLOYMENT_CONFIG = {
   // Development API URL - use Expo dev server URL
   DEVELOPMENT_API_URL: process.env.EXPO_PUBLIC_API_URL || 'http://localhost:8081',
 
+  // Share of a video (0-1) that has to actually play before it counts as watched
+  WATCHED_THRESHOLD: Number(process.env.EXPO_PUBLIC_WATCHED_THRESHOLD) || 0.9,
+
   // Feature flags for production
   FEATURES: {
     // Enable features for production
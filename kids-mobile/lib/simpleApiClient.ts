@@ -5,6 +5,21 @@
 
 import { networkManager } from './networkManager';
 import { getApiBaseUrl } from './productionConfig';
+import { getDeviceToken, saveDeviceToken, clearDeviceToken } from './deviceToken';
+import type { OfflineMedia } from './offlineVideoManager';
+
+// Where an approved video plays from; mirrors the server's VideoSource enum
+export type VideoSource = 'YOUTUBE' | 'VIMEO' | 'STREAM_URL' | 'LOCAL_MEDIA';
+
+export interface PlaybackUrls {
+  youtubeId: string;
+  source: VideoSource;
+  player: 'youtube' | 'embed' | 'native';
+  embedUrl: string;
+  iframeUrl: string;
+  watchUrl: string;
+  resumePosition?: number;
+}
 
 export interface ApprovedVideo {
   id: string;
@@ -23,6 +38,64 @@ export interface ApprovedVideo {
   isScheduled?: boolean;
   scheduledVideoId?: string;
   carriedOver?: boolean;
+  playlistItemId?: string;
+  approvedVideoId?: string;
+  source?: VideoSource;
+  mediaUrl?: string | null; // Where non-YouTube videos play from; LOCAL_MEDIA files can also be downloaded for travel
+  resumePosition?: number; // Seconds; 0 when the video starts from the beginning
+  progress?: number | null; // 0-1 share watched before stopping, when the duration is known
+  lastWatchedAt?: string | null;
+}
+
+export interface ScreenTimeStatus {
+  date: string;
+  isWeekend: boolean;
+  limitMinutes: number | null;
+  usedSeconds: number;
+  remainingSeconds: number | null;
+  isTimeUp: boolean;
+}
+
+export interface ViewingWindowStatus {
+  isOpen: boolean;
+  timezone: string;
+  currentWindow: string | null;
+  nextOpensAt: string | null;
+  nextOpensAtLocal: string | null;
+  nextOpensInDays: number | null;
+}
+
+export interface KidsFeed {
+  videos: ApprovedVideo[];
+  screenTime?: ScreenTimeStatus;
+  locked?: boolean;
+  viewingWindow?: ViewingWindowStatus;
+  needsPairing?: boolean;
+}
+
+export interface PlaylistItem {
+  id: string;
+  position: number;
+  completed: boolean;
+  video: ApprovedVideo;
+}
+
+export interface Playlist {
+  id: string;
+  title: string;
+  description?: string;
+  items: PlaylistItem[];
+  completedCount: number;
+  totalCount: number;
+  nextItemId: string | null;
+}
+
+export interface PairedDevice {
+  deviceId: string;
+  child: {
+    id: string;
+    name: string;
+  };
 }
 
 class SimpleApiClient {
@@ -34,131 +107,237 @@ class SimpleApiClient {
     console.log('🌐 SimpleApiClient using:', this.apiBaseUrl);
   }
 
-  // Get scheduled videos for a child
-  async getScheduledVideos(childId: string, token: string): Promise<ApprovedVideo[]> {
-    console.log('📅 Fetching scheduled videos for child:', childId);
+  // Headers for /api/kids/* routes, which authenticate the paired device instead of the parent
+  private async getDeviceHeaders(childId: string): Promise<Record<string, string>> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+
+    const deviceToken = await getDeviceToken(childId);
+    if (deviceToken) {
+      headers['Authorization'] = `Bearer ${deviceToken}`;
+    }
 
-    // Check internet connection first
+    return headers;
+  }
+
+  // Exchange a pairing code from the parent dashboard for a device token
+  async pairDevice(code: string, deviceName: string): Promise<PairedDevice> {
     const hasInternet = await networkManager.requireConnection();
     if (!hasInternet) {
       throw new Error('Internet connection required');
     }
 
-    try {
-      const currentDate = new Date().toISOString().split('T')[0];
-      const url = `${this.apiBaseUrl}/api/scheduled-videos?childId=${childId}&date=${currentDate}`;
+    const response = await fetch(`${this.apiBaseUrl}/api/kids/pair`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ code, deviceName }),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || `Pairing failed: ${response.status}`);
+    }
+
+    await saveDeviceToken(data.child.id, data.token);
+    console.log('✅ Device paired with child:', data.child.name);
+
+    return { deviceId: data.deviceId, child: data.child };
+  }
 
-      console.log('🔄 Making request to:', url);
+  // Get today's feed from the kids endpoint, which enforces the daily screen-time budget
+  async getKidsFeed(childId: string): Promise<KidsFeed> {
+    console.log('📅 Fetching kids feed for child:', childId);
+
+    const hasInternet = await networkManager.requireConnection();
+    if (!hasInternet) {
+      throw new Error('Internet connection required');
+    }
+
+    // No fallback to other routes when this fails: only this one checks screen time and viewing windows
+    try {
+      // The server resolves "today" in the child's timezone
+      const url = `${this.apiBaseUrl}/api/kids/scheduled-videos?childId=${childId}`;
 
       const response = await fetch(url, {
         method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        timeout: 15000,
+        headers: await this.getDeviceHeaders(childId),
       });
 
-      console.log('📡 Response status:', response.status);
+      // Missing, revoked or mismatched device token: the device has to be paired (again)
+      if (response.status === 401 || response.status === 403) {
+        console.warn('🔒 Device is not paired with this child:', response.status);
+        await clearDeviceToken(childId);
+        return { videos: [], needsPairing: true };
+      }
 
       if (!response.ok) {
         const errorText = await response.text().catch(() => 'No error details');
-        console.error('❌ API Error:', response.status, errorText);
-
-        if (response.status === 404) {
-          console.log('📅 No scheduled videos found, trying regular videos...');
-          return this.getRegularVideosAsScheduled(childId, token);
-        }
-
         throw new Error(`API Error: ${response.status} - ${errorText}`);
       }
 
       const data = await response.json();
-      console.log('✅ Scheduled videos response:', data);
-
-      // Transform scheduled videos to match ApprovedVideo interface
-      if (data.scheduledVideos && Array.isArray(data.scheduledVideos)) {
-        return data.scheduledVideos.map((video: any) => ({
-          id: `scheduled-${video.id}`,
-          childId: video.childId,
-          youtubeId: video.youtubeId,
-          title: video.title,
-          description: video.description,
-          thumbnail: video.thumbnail,
-          channelName: video.channelName,
-          duration: video.duration,
-          summary: video.summary,
-          watched: video.isWatched || false,
-          watchedAt: video.watchedAt,
-          createdAt: video.createdAt,
-          updatedAt: video.updatedAt,
-          isScheduled: true,
-          carriedOver: video.carriedOver,
-          scheduledVideoId: video.id,
-        }));
-      }
 
-      return [];
+      const videos: ApprovedVideo[] = (data.videos || []).map((video: any) => ({
+        id: `scheduled-${video.scheduledVideoId}`,
+        childId,
+        youtubeId: video.id,
+        title: video.title,
+        description: video.description,
+        thumbnail: video.thumbnail,
+        channelName: video.channelName,
+        duration: video.duration,
+        summary: video.summary,
+        watched: false,
+        createdAt: video.publishedAt,
+        updatedAt: video.publishedAt,
+        isScheduled: true,
+        carriedOver: video.carriedOver,
+        scheduledVideoId: video.scheduledVideoId,
+        approvedVideoId: video.approvedVideoId,
+        source: video.source || 'YOUTUBE',
+        mediaUrl: video.mediaUrl ?? null,
+        resumePosition: video.resumePosition || 0,
+        progress: video.progress ?? null,
+        lastWatchedAt: video.lastWatchedAt ?? null,
+      }));
+
+      return {
+        videos,
+        screenTime: data.screenTime,
+        locked: data.locked || false,
+        viewingWindow: data.viewingWindow,
+      };
     } catch (error) {
-      console.error('❌ Error fetching scheduled videos:', error);
-
-      // Fallback to regular videos as scheduled
-      console.log('📹 Falling back to regular videos...');
-      return this.getRegularVideosAsScheduled(childId, token);
+      console.error('❌ Error fetching kids feed:', error);
+      throw error;
     }
   }
 
-  // Get regular approved videos and mark them as scheduled
-  private async getRegularVideosAsScheduled(childId: string, token: string): Promise<ApprovedVideo[]> {
+  // Ask the server how much of today's screen time is left
+  async getScreenTime(childId: string): Promise<ScreenTimeStatus | null> {
     try {
-      const url = `${this.apiBaseUrl}/api/videos?childId=${childId}`;
-      console.log('🔄 Fetching regular videos from:', url);
+      // The server resolves "today" in the child's timezone
+      const url = `${this.apiBaseUrl}/api/kids/screen-time?childId=${childId}`;
 
       const response = await fetch(url, {
         method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        timeout: 15000,
+        headers: await this.getDeviceHeaders(childId),
       });
 
       if (!response.ok) {
-        throw new Error(`Regular videos API Error: ${response.status}`);
+        console.warn('⚠️ Failed to fetch screen time status:', response.status);
+        return null;
       }
 
       const data = await response.json();
-      console.log('✅ Regular videos response:', data);
-
-      if (data.videos && Array.isArray(data.videos)) {
-        // Transform regular videos to scheduled format
-        return data.videos.map((video: any, index: number) => ({
-          id: `scheduled-${video.id}`,
-          childId: childId,
-          youtubeId: video.youtubeId,
-          title: video.title,
-          description: video.description,
-          thumbnail: video.thumbnail,
-          channelName: video.channelName,
-          duration: video.duration,
-          summary: video.summary,
-          watched: video.watched || false,
-          watchedAt: video.watchedAt,
-          createdAt: video.createdAt,
-          updatedAt: video.updatedAt,
-          isScheduled: true,
-          carriedOver: index > 2, // Mark some as carried over for demo
-          scheduledVideoId: `scheduled-${video.id}`,
-        }));
+      return data.screenTime || null;
+    } catch (error) {
+      console.warn('⚠️ Error fetching screen time status:', error);
+      return null;
+    }
+  }
+
+  // Playlists assigned to the child, in order with per-item progress
+  async getPlaylists(childId: string): Promise<Playlist[]> {
+    try {
+      const url = `${this.apiBaseUrl}/api/kids/playlists?childId=${childId}`;
+
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: await this.getDeviceHeaders(childId),
+      });
+
+      if (!response.ok) {
+        console.warn('⚠️ Failed to fetch playlists:', response.status);
+        return [];
       }
 
+      const data = await response.json();
+
+      return (data.playlists || []).map((playlist: any) => ({
+        id: playlist.id,
+        title: playlist.title,
+        description: playlist.description || undefined,
+        completedCount: playlist.completedCount,
+        totalCount: playlist.totalCount,
+        nextItemId: playlist.nextItemId,
+        items: playlist.items.map((item: any) => ({
+          id: item.id,
+          position: item.position,
+          completed: item.completed,
+          video: {
+            id: item.video.approvedVideoId,
+            childId,
+            youtubeId: item.video.id,
+            title: item.video.title,
+            description: item.video.description,
+            thumbnail: item.video.thumbnail,
+            channelName: item.video.channelName,
+            duration: item.video.duration,
+            summary: item.video.summary,
+            watched: item.completed,
+            watchedAt: item.completedAt || undefined,
+            createdAt: playlist.createdAt,
+            updatedAt: playlist.updatedAt,
+            playlistItemId: item.id,
+            approvedVideoId: item.video.approvedVideoId,
+            source: item.video.source || 'YOUTUBE',
+            mediaUrl: item.video.mediaUrl ?? null,
+          },
+        })),
+      }));
+    } catch (error) {
+      console.warn('⚠️ Error fetching playlists:', error);
       return [];
+    }
+  }
+
+  // Record that the child finished a playlist item
+  async markPlaylistItemCompleted(playlistItemId: string, childId: string): Promise<void> {
+    try {
+      const url = `${this.apiBaseUrl}/api/kids/playlists/progress`;
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: await this.getDeviceHeaders(childId),
+        body: JSON.stringify({ playlistItemId, childId }),
+      });
+
+      if (!response.ok) {
+        console.warn('⚠️ Failed to update playlist progress:', response.status);
+        return;
+      }
+
+      console.log('✅ Playlist item marked as completed');
     } catch (error) {
-      console.error('❌ Error fetching regular videos:', error);
-      throw error;
+      console.warn('⚠️ Error updating playlist progress:', error);
+      // Don't throw error - this is not critical for user experience
     }
   }
 
+  // Parent-provided videos this device may download for travel
+  async getOfflineMedia(childId: string): Promise<OfflineMedia[]> {
+    const hasInternet = await networkManager.requireConnection();
+    if (!hasInternet) {
+      throw new Error('Internet connection required');
+    }
+
+    const response = await fetch(`${this.apiBaseUrl}/api/kids/offline-media?childId=${childId}`, {
+      method: 'GET',
+      headers: await this.getDeviceHeaders(childId),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch downloadable videos: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.media || [];
+  }
+
   // Mark scheduled video as watched
   async markScheduledVideoAsWatched(scheduledVideoId: string, childId: string): Promise<void> {
     const hasInternet = await networkManager.requireConnection();
@@ -171,9 +350,7 @@ class SimpleApiClient {
 
       const response = await fetch(url, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
+        headers: await this.getDeviceHeaders(childId),
         body: JSON.stringify({ scheduledVideoId, childId }),
         timeout: 10000,
       });
@@ -193,11 +370,13 @@ class SimpleApiClient {
   }
 
   // Get video URL with YouTube fallback
-  async getVideoUrl(youtubeId: string, token: string): Promise<{
+  // With a child, the response includes where they left off
+  async getVideoUrl(youtubeId: string, token: string, childId?: string): Promise<{
     youtubeId: string;
     embedUrl: string;
     iframeUrl: string;
     watchUrl: string;
+    resumePosition?: number;
     success: boolean;
   }> {
     const hasInternet = await networkManager.requireConnection();
@@ -206,7 +385,7 @@ class SimpleApiClient {
     }
 
     try {
-      const url = `${this.apiBaseUrl}/api/videos/url?youtubeId=${youtubeId}`;
+      const url = `${this.apiBaseUrl}/api/videos/url?youtubeId=${youtubeId}${childId ? `&childId=${encodeURIComponent(childId)}` : ''}`;
 
       const response = await fetch(url, {
         method: 'GET',
@@ -231,6 +410,30 @@ class SimpleApiClient {
     }
   }
 
+  // Playback URLs for an approved video from any source, built by the server's provider for it.
+  // Unlike getVideoUrl there's no fallback, since only the server knows how other sources play.
+  async getPlaybackUrls(approvedVideoId: string, token: string, childId?: string): Promise<PlaybackUrls> {
+    const hasInternet = await networkManager.requireConnection();
+    if (!hasInternet) {
+      throw new Error('Internet connection required');
+    }
+
+    const url = `${this.apiBaseUrl}/api/videos/url?approvedVideoId=${encodeURIComponent(approvedVideoId)}${childId ? `&childId=${encodeURIComponent(childId)}` : ''}`;
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to get playback URLs: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
   // Generate YouTube URLs as fallback
   private getYouTubeFallbackUrls(youtubeId: string) {
     return {
@@ -19,4 +19,17 @@ export function calculateAge(birthday: string | undefined): number {
   }
   
   return Math.max(0, age);
-}
\ No newline at end of file
+}
+// Today's calendar day on this device as YYYY-MM-DD (toISOString would give the UTC day)
+export function getTodayDateString(): string {
+  const today = new Date();
+  const month = String(today.getMonth() + 1).padStart(2, '0');
+  const day = String(today.getDate()).padStart(2, '0');
+  return `${today.getFullYear()}-${month}-${day}`;
+}
+
+// Display a YYYY-MM-DD day (or a UTC-midnight date from the API) without shifting it a day
+export function formatDateLabel(value: string): string {
+  const [year, month, day] = value.split('T')[0].split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString();
+}
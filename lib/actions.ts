@@ -2,7 +2,18 @@
 
 import { auth, clerkClient } from "@clerk/nextjs/server";
 import { db } from "@/lib/db";
+import { CarryoverMode, VideoSource } from "@prisma/client";
 import { revalidatePath } from "next/cache";
+import { isValidTimezone } from "@/lib/timezone";
+import { ScreenTimeLimits, validateScreenTimeLimits } from "@/lib/screen-time";
+import { parseViewingWindow } from "@/lib/viewing-windows";
+import { validateCarryoverPolicy } from "@/lib/carryover";
+import { DiversitySettings, validateDiversitySettings } from "@/lib/diversity";
+import { ChannelRuleInput, saveChannelRule, validateChannelRule } from "@/lib/channel-rules";
+import { normalizeKeywords, validateBlockedKeywords } from "@/lib/content-filters";
+import { parseSuitability } from "@/lib/suitability";
+import { cachedSummary, getVideoMetadata } from "@/lib/video-metadata";
+import { LinkedVideoInput, resolveVideoLink, validateLinkedVideoInput } from "@/lib/video-sources";
 
 export async function getCurrentParent() {
   const { userId } = await auth();
@@ -52,6 +63,12 @@ export async function createChild(formData: FormData) {
   const name = formData.get("name") as string;
   const birthday = new Date(formData.get("birthday") as string);
   const interests = formData.getAll("interests") as string[];
+  // The child's day (screen time, schedules, viewing hours) starts at midnight here
+  const timezone = (formData.get("timezone") as string | null) || "UTC";
+
+  if (!isValidTimezone(timezone)) {
+    throw new Error(`Unknown timezone: ${timezone}`);
+  }
 
   await db.child.create({
     data: {
@@ -59,12 +76,35 @@ export async function createChild(formData: FormData) {
       name,
       birthday,
       interests,
+      timezone,
     },
   });
 
   revalidatePath("/dashboard");
 }
 
+export async function updateChildTimezone(childId: string, timezone: string) {
+  const parent = await getCurrentParent();
+  if (!parent) throw new Error("Not authenticated");
+
+  const child = await db.child.findFirst({
+    where: { id: childId, parentId: parent.id },
+  });
+
+  if (!child) throw new Error("Child not found");
+
+  if (!isValidTimezone(timezone)) {
+    throw new Error(`Unknown timezone: ${timezone}`);
+  }
+
+  await db.child.update({
+    where: { id: childId },
+    data: { timezone },
+  });
+
+  revalidatePath("/dashboard");
+}
+
 export async function updateChildInterests(childId: string, interests: string[]) {
   const parent = await getCurrentParent();
   if (!parent) throw new Error("Not authenticated");
@@ -83,6 +123,164 @@ export async function updateChildInterests(childId: string, interests: string[])
   revalidatePath("/dashboard");
 }
 
+export async function updateChildScreenTime(childId: string, limits: ScreenTimeLimits) {
+  const parent = await getCurrentParent();
+  if (!parent) throw new Error("Not authenticated");
+
+  const child = await db.child.findFirst({
+    where: { id: childId, parentId: parent.id },
+  });
+
+  if (!child) throw new Error("Child not found");
+
+  const limitsError = validateScreenTimeLimits(limits);
+  if (limitsError) throw new Error(limitsError);
+
+  await db.child.update({
+    where: { id: childId },
+    data: {
+      weekdayLimitMinutes: limits.weekdayLimitMinutes,
+      weekendLimitMinutes: limits.weekendLimitMinutes,
+    },
+  });
+
+  revalidatePath("/dashboard");
+}
+
+export async function updateChildViewingWindows(childId: string, settings: {
+  timezone: string;
+  weekdayWindows: string[];
+  weekendWindows: string[];
+}) {
+  const parent = await getCurrentParent();
+  if (!parent) throw new Error("Not authenticated");
+
+  const child = await db.child.findFirst({
+    where: { id: childId, parentId: parent.id },
+  });
+
+  if (!child) throw new Error("Child not found");
+
+  if (!isValidTimezone(settings.timezone)) {
+    throw new Error(`Unknown timezone: ${settings.timezone}`);
+  }
+
+  const invalidWindow = [...settings.weekdayWindows, ...settings.weekendWindows]
+    .find(window => !parseViewingWindow(window));
+  if (invalidWindow) {
+    throw new Error(`Invalid viewing window "${invalidWindow}", expected HH:MM-HH:MM`);
+  }
+
+  await db.child.update({
+    where: { id: childId },
+    data: {
+      timezone: settings.timezone,
+      weekdayWindows: settings.weekdayWindows.map(window => window.trim()),
+      weekendWindows: settings.weekendWindows.map(window => window.trim()),
+    },
+  });
+
+  revalidatePath("/dashboard");
+}
+
+export async function updateChildCarryoverPolicy(childId: string, policy: {
+  carryoverMode: CarryoverMode;
+  carryoverMaxDays: number | null;
+  carryoverDailyCap: number | null;
+}) {
+  const parent = await getCurrentParent();
+  if (!parent) throw new Error("Not authenticated");
+
+  const child = await db.child.findFirst({
+    where: { id: childId, parentId: parent.id },
+  });
+
+  if (!child) throw new Error("Child not found");
+
+  const policyError = validateCarryoverPolicy(policy);
+  if (policyError) throw new Error(policyError);
+
+  await db.child.update({
+    where: { id: childId },
+    data: {
+      carryoverMode: policy.carryoverMode,
+      carryoverMaxDays: policy.carryoverMaxDays,
+      carryoverDailyCap: policy.carryoverDailyCap,
+    },
+  });
+
+  revalidatePath("/dashboard");
+}
+
+export async function updateChildDiversity(childId: string, settings: DiversitySettings) {
+  const parent = await getCurrentParent();
+  if (!parent) throw new Error("Not authenticated");
+
+  const child = await db.child.findFirst({
+    where: { id: childId, parentId: parent.id },
+  });
+
+  if (!child) throw new Error("Child not found");
+
+  const settingsError = validateDiversitySettings(settings);
+  if (settingsError) throw new Error(settingsError);
+
+  await db.child.update({
+    where: { id: childId },
+    data: {
+      maxVideosPerChannel: settings.maxVideosPerChannel,
+      minVideosPerInterest: settings.minVideosPerInterest,
+      minVideosPerSkillArea: settings.minVideosPerSkillArea,
+      mixDurations: settings.mixDurations,
+    },
+  });
+
+  revalidatePath("/dashboard");
+}
+
+export async function updateChildBlockedKeywords(childId: string, keywords: string[]) {
+  const parent = await getCurrentParent();
+  if (!parent) throw new Error("Not authenticated");
+
+  const child = await db.child.findFirst({
+    where: { id: childId, parentId: parent.id },
+  });
+
+  if (!child) throw new Error("Child not found");
+
+  const blockedKeywords = normalizeKeywords(keywords);
+  const keywordsError = validateBlockedKeywords(blockedKeywords);
+  if (keywordsError) throw new Error(keywordsError);
+
+  await db.child.update({
+    where: { id: childId },
+    data: { blockedKeywords },
+  });
+
+  revalidatePath("/dashboard");
+}
+
+// Let one video through the child's content filter
+export async function overrideContentFilter(childId: string, youtubeId: string) {
+  const parent = await getCurrentParent();
+  if (!parent) throw new Error("Not authenticated");
+
+  const child = await db.child.findFirst({
+    where: { id: childId, parentId: parent.id },
+  });
+
+  if (!child) throw new Error("Child not found");
+
+  if (!child.contentFilterOverrides.includes(youtubeId)) {
+    await db.child.update({
+      where: { id: childId },
+      data: { contentFilterOverrides: { push: youtubeId } },
+    });
+  }
+
+  revalidatePath("/dashboard");
+}
+
 export async function approveVideo(childId: string, videoData: {
   youtubeId: string;
   title: string;
@@ -91,6 +289,7 @@ export async function approveVideo(childId: string, videoData: {
   channelName: string;
   duration?: string;
   summary: string;
+  suitability?: unknown;
 }) {
   const parent = await getCurrentParent();
   if (!parent) throw new Error("Not authenticated");
@@ -101,6 +300,26 @@ export async function approveVideo(childId: string, videoData: {
 
   if (!child) throw new Error("Child not found");
 
+  const { suitability: rawSuitability, ...sent } = videoData;
+  const suitability = parseSuitability(rawSuitability);
+
+  // Details the server fetched from YouTube win over what the page sent, which is only used when
+  // YouTube can't describe the video
+  const metadata = await getVideoMetadata(sent.youtubeId);
+  const video = {
+    ...sent,
+    ...(metadata && {
+      title: metadata.title,
+      description: metadata.description,
+      thumbnail: metadata.thumbnail || sent.thumbnail,
+      channelName: metadata.channelName || sent.channelName,
+      duration: metadata.duration || sent.duration,
+    }),
+  };
+
+  // Fall back to the shared summary when the parent approves without opening the video
+  const summary = video.summary || cachedSummary(metadata) || "";
+
   await db.approvedVideo.upsert({
     where: {
       childId_youtubeId: {
@@ -108,10 +327,78 @@ export async function approveVideo(childId: string, videoData: {
         youtubeId: videoData.youtubeId,
       },
     },
-    update: videoData,
+    update: {
+      ...video,
+      summary,
+      ...(suitability && { suitability }),
+    },
     create: {
       childId,
-      ...videoData,
+      ...video,
+      summary,
+      ...(suitability && { suitability }),
+    },
+  });
+
+  revalidatePath("/dashboard");
+}
+
+// Approve a video from a link: a YouTube or Vimeo page, or a video file or stream the parent hosts.
+// Files can be marked as downloadable, so the child's devices can keep them for offline use.
+export async function addLinkedVideo(childId: string, input: LinkedVideoInput) {
+  const parent = await getCurrentParent();
+  if (!parent) throw new Error("Not authenticated");
+
+  const child = await db.child.findFirst({
+    where: { id: childId, parentId: parent.id },
+  });
+
+  if (!child) throw new Error("Child not found");
+
+  const inputError = validateLinkedVideoInput(input);
+  if (inputError) throw new Error(inputError);
+
+  const details = await resolveVideoLink(input);
+  if (typeof details === "string") throw new Error(details);
+
+  const title = input.title?.trim() || details.title;
+  if (!title) throw new Error("A title is required for video files");
+
+  const description = input.description?.trim() || details.description;
+
+  // YouTube links go through the usual approval, which shares metadata and summaries across families
+  if (details.source === VideoSource.YOUTUBE) {
+    await approveVideo(childId, {
+      youtubeId: details.key,
+      title,
+      description,
+      thumbnail: input.thumbnail || details.thumbnail || "",
+      channelName: details.channelName || "YouTube",
+      duration: input.duration || details.duration,
+      summary: "",
+    });
+    return;
+  }
+
+  const existing = await db.approvedVideo.findUnique({
+    where: { childId_youtubeId: { childId, youtubeId: details.key } },
+  });
+  if (existing) throw new Error("This video is already approved");
+
+  await db.approvedVideo.create({
+    data: {
+      childId,
+      youtubeId: details.key,
+      source: details.source,
+      mediaUrl: details.mediaUrl,
+      mediaSizeBytes: details.mediaSizeBytes ?? null,
+      mediaMimeType: details.mediaMimeType ?? null,
+      title,
+      description: description || null,
+      thumbnail: input.thumbnail || details.thumbnail || "",
+      channelName: details.channelName || "Added by you",
+      duration: input.duration || details.duration || null,
+      summary: description || "",
     },
   });
 
@@ -136,4 +423,43 @@ export async function removeApprovedVideo(videoId: string) {
   });
 
   revalidatePath("/dashboard");
-}
\ No newline at end of file
+}
+
+export async function getChannelRules() {
+  const parent = await getCurrentParent();
+  if (!parent) throw new Error("Not authenticated");
+
+  return db.channelRule.findMany({
+    where: { parentId: parent.id },
+    orderBy: { channelName: "asc" },
+  });
+}
+
+export async function setChannelRule(input: ChannelRuleInput) {
+  const parent = await getCurrentParent();
+  if (!parent) throw new Error("Not authenticated");
+
+  if (input.childId && !parent.children.some(child => child.id === input.childId)) {
+    throw new Error("Child not found");
+  }
+
+  const ruleError = validateChannelRule(input);
+  if (ruleError) throw new Error(ruleError);
+
+  await saveChannelRule(parent.id, input);
+
+  revalidatePath("/dashboard");
+}
+
+export async function removeChannelRule(ruleId: string) {
+  const parent = await getCurrentParent();
+  if (!parent) throw new Error("Not authenticated");
+
+  const deleted = await db.channelRule.deleteMany({
+    where: { id: ruleId, parentId: parent.id },
+  });
+
+  if (deleted.count === 0) throw new Error("Channel rule not found");
+
+  revalidatePath("/dashboard");
+}
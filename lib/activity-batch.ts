@@ -0,0 +1,302 @@
+import { ActivityType, Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+
+// Bulk ingest for the mobile app's offline outbox. Every activity carries the ID the device gave it,
+// so a batch that is retried after a dropped response (or sent twice from two flushes) is stored once.
+// Sessions are keyed by their sessionId and merged, since the device sends the same session again
+// when it ends.
+
+export const MAX_BATCH_SIZE = 100;
+
+// Activities recorded further back than this are dropped rather than stored against a stale day
+const MAX_ACTIVITY_AGE_DAYS = 30;
+
+export interface BatchActivity {
+  id: string; // Client-generated, used as the idempotency key
+  childId: string;
+  approvedVideoId?: string;
+  youtubeId: string;
+  activityType: string;
+  watchTimeSeconds?: number;
+  videoPosition?: number;
+  sessionId?: string;
+  videoTitle?: string;
+  channelName?: string;
+  videoDuration?: string;
+  completed?: boolean;
+  completionRate?: number;
+  deviceInfo?: string;
+  appVersion?: string;
+  createdAt?: string;
+}
+
+export interface BatchSession {
+  sessionId: string;
+  childId: string;
+  startTime: string;
+  endTime?: string;
+  duration?: number;
+  deviceInfo?: string;
+  appVersion?: string;
+  platform?: string;
+}
+
+export type BatchItemStatus = 'accepted' | 'duplicate' | 'rejected';
+
+export interface BatchItemResult {
+  id: string; // The activity's client ID, or the session's sessionId
+  status: BatchItemStatus;
+  error?: string;
+}
+
+export interface BatchResult {
+  activities: BatchItemResult[];
+  sessions: BatchItemResult[];
+}
+
+const ACTIVITY_TYPES = new Set<string>(Object.values(ActivityType));
+
+const nonNegativeInt = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.max(0, Math.round(value)) : 0;
+
+// The device's clock decides which day an offline activity lands on, but never a day in the future
+function clientDate(value: string | undefined, now: Date): Date | null {
+  if (!value) return now;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return null;
+  return date > now ? now : date;
+}
+
+// Returns an error message, or null when the activity can be stored
+function validateActivity(activity: BatchActivity, allowedChildIds: Set<string>): string | null {
+  if (!activity.childId || !activity.youtubeId || !activity.activityType) {
+    return 'Missing required fields: childId, youtubeId, activityType';
+  }
+  if (!allowedChildIds.has(activity.childId)) {
+    return 'Child not found or unauthorized';
+  }
+  if (!ACTIVITY_TYPES.has(activity.activityType)) {
+    return `Unknown activity type: ${activity.activityType}`;
+  }
+  return null;
+}
+
+export async function ingestActivityBatch(
+  activities: BatchActivity[],
+  sessions: BatchSession[],
+  allowedChildIds: Set<string>
+): Promise<BatchResult> {
+  const now = new Date();
+  const oldest = new Date(now.getTime() - MAX_ACTIVITY_AGE_DAYS * 24 * 60 * 60 * 1000);
+  const results = new Map<string, BatchItemResult>();
+
+  // Repeats inside one batch count once, like repeats across batches
+  const unique = new Map<string, BatchActivity>();
+  for (const activity of activities) {
+    if (!activity?.id || typeof activity.id !== 'string') continue;
+    if (unique.has(activity.id)) continue;
+    unique.set(activity.id, activity);
+  }
+
+  const existing = await db.videoActivity.findMany({
+    where: { clientId: { in: Array.from(unique.keys()) } },
+    select: { clientId: true },
+  });
+  for (const { clientId } of existing) {
+    if (clientId) results.set(clientId, { id: clientId, status: 'duplicate' });
+  }
+
+  const candidates = Array.from(unique.values()).filter(activity => !results.has(activity.id));
+
+  const approvedVideos = await db.approvedVideo.findMany({
+    where: {
+      childId: { in: Array.from(allowedChildIds) },
+      youtubeId: { in: Array.from(new Set(candidates.map(activity => activity.youtubeId).filter(Boolean))) },
+    },
+    select: { id: true, childId: true, youtubeId: true, title: true, channelName: true, duration: true },
+  });
+  const videoFor = (childId: string, youtubeId: string) =>
+    approvedVideos.find(video => video.childId === childId && video.youtubeId === youtubeId);
+
+  const rows: Prisma.VideoActivityCreateManyInput[] = [];
+  const completedVideoIds = new Set<string>();
+
+  for (const activity of candidates) {
+    const reject = (error: string) => results.set(activity.id, { id: activity.id, status: 'rejected', error });
+
+    const invalid = validateActivity(activity, allowedChildIds);
+    if (invalid) {
+      reject(invalid);
+      continue;
+    }
+
+    const createdAt = clientDate(activity.createdAt, now);
+    if (!createdAt || createdAt < oldest) {
+      reject('Activity is too old or has an invalid date');
+      continue;
+    }
+
+    // The device's approvedVideoId is often its own feed ID, so the YouTube ID is what's trusted
+    const video = videoFor(activity.childId, activity.youtubeId);
+    if (!video) {
+      reject('Approved video not found');
+      continue;
+    }
+
+    const completed = activity.completed === true;
+    rows.push({
+      clientId: activity.id,
+      childId: activity.childId,
+      approvedVideoId: video.id,
+      youtubeId: activity.youtubeId,
+      activityType: activity.activityType as ActivityType,
+      watchTimeSeconds: nonNegativeInt(activity.watchTimeSeconds),
+      videoPosition: nonNegativeInt(activity.videoPosition),
+      sessionId: activity.sessionId || null,
+      videoTitle: activity.videoTitle || video.title,
+      channelName: activity.channelName || video.channelName,
+      videoDuration: activity.videoDuration || video.duration,
+      completed,
+      completionRate: typeof activity.completionRate === 'number' ? activity.completionRate : null,
+      deviceInfo: activity.deviceInfo || null,
+      appVersion: activity.appVersion || null,
+      createdAt,
+    });
+
+    if (activity.activityType === ActivityType.COMPLETE || completed) {
+      completedVideoIds.add(video.id);
+    }
+  }
+
+  if (rows.length > 0) {
+    // A concurrent request may have stored some of these since the lookup above. Those are skipped, and
+    // only the rows this request actually inserted come back, so the rest are reported as duplicates.
+    const inserted = await db.videoActivity.createManyAndReturn({
+      data: rows,
+      skipDuplicates: true,
+      select: { clientId: true },
+    });
+    const insertedIds = new Set(inserted.map(row => row.clientId));
+    for (const row of rows) {
+      const clientId = row.clientId!;
+      results.set(clientId, { id: clientId, status: insertedIds.has(clientId) ? 'accepted' : 'duplicate' });
+    }
+  }
+
+  if (completedVideoIds.size > 0) {
+    await db.approvedVideo.updateMany({
+      where: { id: { in: Array.from(completedVideoIds) }, watched: false },
+      data: { watched: true, watchedAt: now },
+    });
+  }
+
+  const sessionResults: BatchItemResult[] = [];
+  for (const session of sessions) {
+    if (!session?.sessionId) continue;
+    sessionResults.push(await mergeSession(session, allowedChildIds, now));
+  }
+
+  const sessionIds = new Set<string>([
+    ...rows.map(row => row.sessionId).filter((id): id is string => !!id),
+    ...sessionResults.filter(result => result.status !== 'rejected').map(result => result.id),
+  ]);
+  await refreshSessionTotals(Array.from(sessionIds));
+
+  return {
+    activities: Array.from(unique.keys())
+      .map(id => results.get(id))
+      .filter((result): result is BatchItemResult => !!result),
+    sessions: sessionResults,
+  };
+}
+
+// The device sends a session when it starts and again when it ends. The earliest start and the latest
+// end win, so the two can arrive in either order.
+async function mergeSession(session: BatchSession, allowedChildIds: Set<string>, now: Date): Promise<BatchItemResult> {
+  const reject = (error: string): BatchItemResult => ({ id: session.sessionId, status: 'rejected', error });
+
+  if (!allowedChildIds.has(session.childId)) {
+    return reject('Child not found or unauthorized');
+  }
+
+  const startTime = clientDate(session.startTime, now);
+  if (!startTime) {
+    return reject('Invalid session start time');
+  }
+  const endTime = session.endTime ? clientDate(session.endTime, now) : null;
+
+  const existing = await db.appSession.findUnique({ where: { sessionId: session.sessionId } });
+
+  if (!existing) {
+    try {
+      await db.appSession.create({
+        data: {
+          sessionId: session.sessionId,
+          childId: session.childId,
+          startTime,
+          endTime,
+          duration: session.duration != null ? nonNegativeInt(session.duration) : null,
+          deviceInfo: session.deviceInfo,
+          appVersion: session.appVersion,
+          platform: session.platform,
+        },
+      });
+      return { id: session.sessionId, status: 'accepted' };
+    } catch (error) {
+      // Created by a concurrent request; merge into that row instead
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) throw error;
+      return mergeSession(session, allowedChildIds, now);
+    }
+  }
+
+  if (existing.childId !== session.childId) {
+    return reject('Session belongs to a different child');
+  }
+
+  const mergedEnd = endTime && (!existing.endTime || endTime > existing.endTime) ? endTime : existing.endTime;
+  const mergedDuration = Math.max(existing.duration ?? 0, nonNegativeInt(session.duration));
+  const changed = startTime < existing.startTime ||
+    mergedEnd?.getTime() !== existing.endTime?.getTime() ||
+    mergedDuration !== (existing.duration ?? 0);
+
+  if (!changed) {
+    return { id: session.sessionId, status: 'duplicate' };
+  }
+
+  await db.appSession.update({
+    where: { id: existing.id },
+    data: {
+      startTime: startTime < existing.startTime ? startTime : existing.startTime,
+      endTime: mergedEnd,
+      duration: mergedDuration || existing.duration,
+    },
+  });
+  return { id: session.sessionId, status: 'accepted' };
+}
+
+// Session counters are recounted from the stored activities rather than incremented, so retries and
+// out-of-order batches can't inflate them
+async function refreshSessionTotals(sessionIds: string[]) {
+  if (sessionIds.length === 0) return;
+
+  const totals = await db.videoActivity.groupBy({
+    by: ['sessionId', 'activityType'],
+    where: { sessionId: { in: sessionIds } },
+    _count: { _all: true },
+    _sum: { watchTimeSeconds: true },
+  });
+
+  for (const sessionId of sessionIds) {
+    const rows = totals.filter(row => row.sessionId === sessionId);
+    const count = (type: ActivityType) => rows.find(row => row.activityType === type)?._count._all ?? 0;
+
+    await db.appSession.updateMany({
+      where: { sessionId },
+      data: {
+        videosClicked: count(ActivityType.CLICK),
+        videosWatched: count(ActivityType.PLAY),
+        totalWatchTime: rows.reduce((sum, row) => sum + (row._sum.watchTimeSeconds ?? 0), 0),
+      },
+    });
+  }
+}
@@ -0,0 +1,291 @@
+import { ActivityType, AppSession, Child, ChildActivity, VideoActivity } from '@prisma/client';
+import { db } from '@/lib/db';
+import { addDays, formatDateOnly, getLocalDateString, getLocalDayRange, parseDateOnly } from '@/lib/timezone';
+
+// Ranges up to this many days are summed from raw activities; longer ones read the ChildActivity rollups
+export const RAW_RANGE_MAX_DAYS = 14;
+
+export type RollupChild = Pick<Child, 'id' | 'timezone' | 'interests'>;
+
+type ActivityRow = Pick<VideoActivity, 'childId' | 'youtubeId' | 'activityType' | 'watchTimeSeconds' | 'completionRate' | 'videoTitle' | 'channelName' | 'createdAt'>;
+type SessionRow = Pick<AppSession, 'childId' | 'startTime' | 'duration'>;
+
+export interface DailyStats {
+  childId: string;
+  date: string; // The child's local calendar day
+  activities: number;
+  clicks: number;
+  plays: number;
+  completions: number;
+  watchTime: number;
+  uniqueVideos: number;
+  sessions: number;
+  sessionTime: number;
+  completionRate: number | null;
+  topChannels: string[];
+  topCategories: string[];
+}
+
+const activityRowSelect = {
+  childId: true,
+  youtubeId: true,
+  activityType: true,
+  watchTimeSeconds: true,
+  completionRate: true,
+  videoTitle: true,
+  channelName: true,
+  createdAt: true,
+} as const;
+
+const sessionRowSelect = {
+  childId: true,
+  startTime: true,
+  duration: true,
+} as const;
+
+const WATCH_TYPES: ActivityType[] = [ActivityType.PLAY, ActivityType.COMPLETE];
+
+// Top entries of a tally, highest first
+function topKeys(tally: Map<string, number>, count: number): string[] {
+  return Array.from(tally.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, count)
+    .map(([key]) => key);
+}
+
+function summarizeDay(
+  child: RollupChild,
+  date: string,
+  activities: ActivityRow[],
+  sessions: SessionRow[]
+): DailyStats {
+  const watched = activities.filter(activity => WATCH_TYPES.includes(activity.activityType));
+  const rates = activities
+    .map(activity => activity.completionRate)
+    .filter((rate): rate is number => rate !== null);
+
+  // Channels by watch time; categories are the child's interests that show up in watched titles
+  const channelTime = new Map<string, number>();
+  const categoryCount = new Map<string, number>();
+  for (const activity of watched) {
+    channelTime.set(activity.channelName, (channelTime.get(activity.channelName) || 0) + activity.watchTimeSeconds);
+
+    const title = activity.videoTitle.toLowerCase();
+    for (const interest of child.interests) {
+      if (title.includes(interest.toLowerCase())) {
+        categoryCount.set(interest, (categoryCount.get(interest) || 0) + 1);
+      }
+    }
+  }
+
+  return {
+    childId: child.id,
+    date,
+    activities: activities.length,
+    clicks: activities.filter(activity => activity.activityType === ActivityType.CLICK).length,
+    plays: activities.filter(activity => activity.activityType === ActivityType.PLAY).length,
+    completions: activities.filter(activity => activity.activityType === ActivityType.COMPLETE).length,
+    watchTime: activities.reduce((sum, activity) => sum + activity.watchTimeSeconds, 0),
+    uniqueVideos: new Set(watched.map(activity => activity.youtubeId)).size,
+    sessions: sessions.length,
+    sessionTime: sessions.reduce((sum, session) => sum + (session.duration || 0), 0),
+    completionRate: rates.length > 0 ? rates.reduce((sum, rate) => sum + rate, 0) / rates.length : null,
+    topChannels: topKeys(channelTime, 3),
+    topCategories: topKeys(categoryCount, 3),
+  };
+}
+
+function fromRollup(rollup: ChildActivity): DailyStats {
+  return {
+    childId: rollup.childId,
+    date: formatDateOnly(rollup.date),
+    activities: rollup.activitiesCount,
+    clicks: rollup.videosClickedCount,
+    plays: rollup.videosWatchedCount,
+    completions: rollup.videosCompletedCount,
+    watchTime: rollup.totalWatchTime,
+    uniqueVideos: rollup.uniqueVideosWatched,
+    sessions: rollup.sessionsCount,
+    sessionTime: rollup.totalSessionTime,
+    completionRate: rollup.completionRate,
+    topChannels: rollup.topChannels,
+    topCategories: rollup.topCategories,
+  };
+}
+
+function emptyDay(childId: string, date: string): DailyStats {
+  return {
+    childId,
+    date,
+    activities: 0,
+    clicks: 0,
+    plays: 0,
+    completions: 0,
+    watchTime: 0,
+    uniqueVideos: 0,
+    sessions: 0,
+    sessionTime: 0,
+    completionRate: null,
+    topChannels: [],
+    topCategories: [],
+  };
+}
+
+// Recompute one child's rollup for a local day from the raw activities and sessions.
+// Days without any data have no row.
+export async function rollupChildDay(child: RollupChild, date: string): Promise<DailyStats> {
+  const { start, end } = getLocalDayRange(date, child.timezone);
+
+  const [activities, sessions] = await Promise.all([
+    db.videoActivity.findMany({
+      where: { childId: child.id, createdAt: { gte: start, lt: end } },
+      select: activityRowSelect,
+    }),
+    db.appSession.findMany({
+      where: { childId: child.id, startTime: { gte: start, lt: end } },
+      select: sessionRowSelect,
+    }),
+  ]);
+
+  const stats = summarizeDay(child, date, activities, sessions);
+  const rollupDate = parseDateOnly(date);
+
+  if (activities.length === 0 && sessions.length === 0) {
+    await db.childActivity.deleteMany({
+      where: { childId: child.id, date: rollupDate },
+    });
+    return stats;
+  }
+
+  const data = {
+    activitiesCount: stats.activities,
+    sessionsCount: stats.sessions,
+    totalSessionTime: stats.sessionTime,
+    videosClickedCount: stats.clicks,
+    videosWatchedCount: stats.plays,
+    videosCompletedCount: stats.completions,
+    totalWatchTime: stats.watchTime,
+    uniqueVideosWatched: stats.uniqueVideos,
+    averageWatchTime: stats.plays > 0 ? stats.watchTime / stats.plays : null,
+    completionRate: stats.completionRate,
+    topChannels: stats.topChannels,
+    topCategories: stats.topCategories,
+  };
+
+  await db.childActivity.upsert({
+    where: { childId_date: { childId: child.id, date: rollupDate } },
+    update: data,
+    create: { childId: child.id, date: rollupDate, ...data },
+  });
+
+  return stats;
+}
+
+// Rebuild the rollups for every child-day with activities or sessions written since `since`.
+// Passing null rebuilds everything, which is how historical data gets backfilled.
+export async function refreshActivityRollups(since: Date | null): Promise<{ daysUpdated: number }> {
+  const from = since ?? new Date(0);
+
+  const touched = await db.$queryRaw<{ childId: string; date: string }[]>`
+    SELECT va."childId" AS "childId",
+      TO_CHAR((va."createdAt" AT TIME ZONE 'UTC') AT TIME ZONE c.timezone, 'YYYY-MM-DD') AS date
+    FROM video_activities va
+    JOIN children c ON c.id = va."childId"
+    WHERE va."updatedAt" >= ${from}
+    UNION
+    SELECT s."childId" AS "childId",
+      TO_CHAR((s."startTime" AT TIME ZONE 'UTC') AT TIME ZONE c.timezone, 'YYYY-MM-DD') AS date
+    FROM app_sessions s
+    JOIN children c ON c.id = s."childId"
+    WHERE s."updatedAt" >= ${from}
+  `;
+
+  if (touched.length === 0) return { daysUpdated: 0 };
+
+  const children = await db.child.findMany({
+    where: { id: { in: Array.from(new Set(touched.map(row => row.childId))) } },
+    select: { id: true, timezone: true, interests: true },
+  });
+  const childById = new Map(children.map(child => [child.id, child]));
+
+  let daysUpdated = 0;
+  for (const row of touched) {
+    const child = childById.get(row.childId);
+    if (!child) continue;
+
+    await rollupChildDay(child, row.date);
+    daysUpdated++;
+  }
+
+  console.log(`📊 Refreshed ${daysUpdated} daily activity rollups${since ? ` since ${since.toISOString()}` : ' (full backfill)'}`);
+
+  return { daysUpdated };
+}
+
+// The last `days` local calendar days for each child, today included
+function getRangeDates(child: RollupChild, days: number, now: Date): string[] {
+  const today = getLocalDateString(now, child.timezone);
+  return Array.from({ length: days }, (_, i) => addDays(today, i - days + 1));
+}
+
+// Per-child, per-day stats for the last `days` days, zero-filled and oldest first. Short ranges are
+// summed from raw data; long ranges read the rollups after refreshing today's, which is still changing.
+export async function loadDailyStats(children: RollupChild[], days: number): Promise<DailyStats[]> {
+  if (children.length === 0) return [];
+
+  const now = new Date();
+  const datesByChild = new Map(children.map(child => [child.id, getRangeDates(child, days, now)]));
+
+  if (days > RAW_RANGE_MAX_DAYS) {
+    const firstDate = Array.from(datesByChild.values()).map(dates => dates[0]).sort()[0];
+    const todays = await Promise.all(
+      children.map(child => rollupChildDay(child, getLocalDateString(now, child.timezone)))
+    );
+
+    const rollups = await db.childActivity.findMany({
+      where: {
+        childId: { in: children.map(child => child.id) },
+        date: { gte: parseDateOnly(firstDate) },
+      },
+    });
+
+    const statsByKey = new Map(rollups.map(rollup => [`${rollup.childId}:${formatDateOnly(rollup.date)}`, fromRollup(rollup)]));
+    for (const stats of todays) {
+      statsByKey.set(`${stats.childId}:${stats.date}`, stats);
+    }
+
+    return children.flatMap(child =>
+      datesByChild.get(child.id)!.map(date => statsByKey.get(`${child.id}:${date}`) || emptyDay(child.id, date))
+    );
+  }
+
+  // Earliest local midnight across the children's timezones
+  const since = children.reduce((earliest, child) => {
+    const { start } = getLocalDayRange(datesByChild.get(child.id)![0], child.timezone);
+    return start < earliest ? start : earliest;
+  }, now);
+
+  const [activities, sessions] = await Promise.all([
+    db.videoActivity.findMany({
+      where: { childId: { in: children.map(child => child.id) }, createdAt: { gte: since } },
+      select: activityRowSelect,
+    }),
+    db.appSession.findMany({
+      where: { childId: { in: children.map(child => child.id) }, startTime: { gte: since } },
+      select: sessionRowSelect,
+    }),
+  ]);
+
+  return children.flatMap(child => {
+    const localDate = (at: Date) => getLocalDateString(at, child.timezone);
+    const childActivities = activities.filter(activity => activity.childId === child.id);
+    const childSessions = sessions.filter(session => session.childId === child.id);
+
+    return datesByChild.get(child.id)!.map(date => summarizeDay(
+      child,
+      date,
+      childActivities.filter(activity => localDate(activity.createdAt) === date),
+      childSessions.filter(session => localDate(session.startTime) === date)
+    ));
+  });
+}
@@ -0,0 +1,18 @@
+import { db } from '@/lib/db';
+
+// Admins are the parents whose email is listed in ADMIN_EMAILS (comma-separated)
+export async function isAdminUser(userId: string): Promise<boolean> {
+  const adminEmails = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (adminEmails.length === 0) return false;
+
+  const parent = await db.parent.findUnique({
+    where: { clerkId: userId },
+    select: { email: true },
+  });
+
+  return !!parent && adminEmails.includes(parent.email.toLowerCase());
+}
@@ -0,0 +1,233 @@
+import { CarryoverMode, CarryoverReason, Child } from '@prisma/client';
+import { db } from '@/lib/db';
+import { addDays, getLocalDateString, parseDateOnly } from '@/lib/timezone';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type CarryoverPolicy = Pick<Child, 'id' | 'carryoverMode' | 'carryoverMaxDays' | 'carryoverDailyCap'>;
+
+export const carryoverPolicySelect = {
+  id: true,
+  carryoverMode: true,
+  carryoverMaxDays: true,
+  carryoverDailyCap: true,
+} as const;
+
+export interface CarryoverResult {
+  date: string;
+  unwatchedFound: number;
+  carried: number;
+  alreadyScheduled: number;
+  waiting: number;
+  expired: number;
+}
+
+// Returns an error message, or null when the policy is valid
+export function validateCarryoverPolicy(policy: {
+  carryoverMode: CarryoverMode;
+  carryoverMaxDays: number | null;
+  carryoverDailyCap: number | null;
+}): string | null {
+  if (!Object.values(CarryoverMode).includes(policy.carryoverMode)) {
+    return 'Invalid carryover mode';
+  }
+
+  for (const value of [policy.carryoverMaxDays, policy.carryoverDailyCap]) {
+    if (value !== null && (!Number.isInteger(value) || value < 0)) {
+      return 'Carryover limits must be whole numbers of zero or more';
+    }
+  }
+
+  return null;
+}
+
+function decide(
+  policy: CarryoverPolicy,
+  daysLate: number,
+  alreadyScheduled: boolean,
+  carriedOnTarget: number
+): CarryoverReason {
+  if (policy.carryoverMode === CarryoverMode.EXPIRE) return CarryoverReason.EXPIRED;
+  if (policy.carryoverMaxDays !== null && daysLate > policy.carryoverMaxDays) return CarryoverReason.MAX_DAYS_EXCEEDED;
+  if (alreadyScheduled) return CarryoverReason.ALREADY_SCHEDULED;
+  if (policy.carryoverDailyCap !== null && carriedOnTarget >= policy.carryoverDailyCap) return CarryoverReason.DAILY_CAP_REACHED;
+  return CarryoverReason.CARRIED;
+}
+
+// Bring every unwatched video from before `date` (YYYY-MM-DD, the child's local day) forward under
+// the child's policy. Each source entry records the reason it moved, waited or expired; expired
+// entries land in the stale list for the parent. Videos held back by the daily cap stay on their
+// day and are tried again on the next run, oldest first.
+export async function carryOverVideos(policy: CarryoverPolicy, date: string): Promise<CarryoverResult> {
+  const target = parseDateOnly(date);
+  const now = new Date();
+
+  const unwatchedVideos = await db.scheduledVideo.findMany({
+    where: {
+      childId: policy.id,
+      scheduledDate: { lt: target },
+      isActive: true,
+      isWatched: false,
+    },
+    include: {
+      approvedVideo: {
+        select: {
+          title: true,
+        },
+      },
+    },
+    orderBy: [
+      { originalDate: 'asc' },
+      { createdAt: 'asc' },
+    ],
+  });
+
+  const result: CarryoverResult = {
+    date,
+    unwatchedFound: unwatchedVideos.length,
+    carried: 0,
+    alreadyScheduled: 0,
+    waiting: 0,
+    expired: 0,
+  };
+
+  if (unwatchedVideos.length === 0) return result;
+
+  console.log(`🔄 Carrying over ${unwatchedVideos.length} unwatched videos for child ${policy.id} to ${date}`);
+
+  const onTarget = await db.scheduledVideo.findMany({
+    where: {
+      childId: policy.id,
+      scheduledDate: target,
+    },
+    select: {
+      approvedVideoId: true,
+      carriedOver: true,
+    },
+  });
+
+  const scheduledOnTarget = new Set(onTarget.map(video => video.approvedVideoId));
+  let carriedOnTarget = onTarget.filter(video => video.carriedOver).length;
+
+  for (const video of unwatchedVideos) {
+    const daysLate = Math.round((target.getTime() - video.originalDate.getTime()) / DAY_MS);
+    const reason = decide(policy, daysLate, scheduledOnTarget.has(video.approvedVideoId), carriedOnTarget);
+
+    switch (reason) {
+      case CarryoverReason.CARRIED: {
+        // Feed requests and the hourly job can carry the same video at once; whichever loses finds the
+        // copy already on the target day and records that instead of failing
+        const carried = await db.$transaction(async (tx) => {
+          const { count } = await tx.scheduledVideo.createMany({
+            data: {
+              childId: video.childId,
+              approvedVideoId: video.approvedVideoId,
+              scheduledDate: target,
+              originalDate: video.originalDate,
+              carriedOver: true,
+            },
+            skipDuplicates: true,
+          });
+          await tx.scheduledVideo.update({
+            where: { id: video.id },
+            data: {
+              isActive: false,
+              carryoverReason: count > 0 ? reason : CarryoverReason.ALREADY_SCHEDULED,
+              carryoverAt: now,
+            },
+          });
+          return count > 0;
+        });
+        scheduledOnTarget.add(video.approvedVideoId);
+
+        if (!carried) {
+          result.alreadyScheduled++;
+          break;
+        }
+        carriedOnTarget++;
+        result.carried++;
+        console.log(`↪ Carried over "${video.approvedVideo.title}" to ${date}`);
+        break;
+      }
+
+      case CarryoverReason.ALREADY_SCHEDULED:
+        await db.scheduledVideo.update({
+          where: { id: video.id },
+          data: { isActive: false, carryoverReason: reason, carryoverAt: now },
+        });
+        result.alreadyScheduled++;
+        break;
+
+      case CarryoverReason.DAILY_CAP_REACHED:
+        if (video.carryoverReason !== reason) {
+          await db.scheduledVideo.update({
+            where: { id: video.id },
+            data: { carryoverReason: reason, carryoverAt: now },
+          });
+        }
+        result.waiting++;
+        break;
+
+      case CarryoverReason.MAX_DAYS_EXCEEDED:
+      case CarryoverReason.EXPIRED:
+        await db.scheduledVideo.update({
+          where: { id: video.id },
+          data: { isActive: false, isStale: true, carryoverReason: reason, carryoverAt: now },
+        });
+        result.expired++;
+        console.log(`⌛ "${video.approvedVideo.title}" expired (${reason}) for child ${policy.id}`);
+        break;
+    }
+  }
+
+  console.log(`✅ Carryover complete for child ${policy.id}: ${result.carried} carried, ${result.waiting} waiting, ${result.expired} expired`);
+
+  return result;
+}
+
+export interface EndOfDayCarryoverSummary {
+  processedDates: string[];
+  childrenProcessed: number;
+  unwatchedVideosFound: number;
+  videosCarriedOver: number;
+  videosAlreadyScheduled: number;
+  videosWaiting: number;
+  videosExpired: number;
+}
+
+// Close a finished day for every child. Days are each child's local calendar day, so a family's day
+// is only closed once it has ended for them. `date` defaults to each child's yesterday.
+export async function runEndOfDayCarryover(date?: string): Promise<EndOfDayCarryoverSummary> {
+  const now = new Date();
+  const children = await db.child.findMany({
+    select: {
+      ...carryoverPolicySelect,
+      timezone: true,
+    },
+  });
+
+  const processedDates = new Set<string>();
+  const results: CarryoverResult[] = [];
+
+  for (const child of children) {
+    const localToday = getLocalDateString(now, child.timezone);
+    const processDate = date || addDays(localToday, -1);
+    if (processDate >= localToday) continue;
+
+    processedDates.add(processDate);
+    results.push(await carryOverVideos(child, addDays(processDate, 1)));
+  }
+
+  const total = (key: keyof Omit<CarryoverResult, 'date'>) =>
+    results.reduce((sum, result) => sum + result[key], 0);
+
+  return {
+    processedDates: Array.from(processedDates),
+    childrenProcessed: results.length,
+    unwatchedVideosFound: total('unwatchedFound'),
+    videosCarriedOver: total('carried'),
+    videosAlreadyScheduled: total('alreadyScheduled'),
+    videosWaiting: total('waiting'),
+    videosExpired: total('expired'),
+  };
+}
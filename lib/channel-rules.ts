@@ -0,0 +1,178 @@
+import { ChannelRule, ChannelRuleType } from '@prisma/client';
+import { db } from '@/lib/db';
+import { ChannelRules, getChannelUploads } from '@/lib/youtube';
+import { applyContentFilter } from '@/lib/content-filters';
+
+export interface ChannelRuleInput {
+  channelId: string;
+  channelName: string;
+  rule: ChannelRuleType;
+  childId: string | null; // null = the whole family
+  autoApprove?: boolean;
+}
+
+// Returns an error message, or null when the rule is valid
+export function validateChannelRule(input: ChannelRuleInput): string | null {
+  if (!input.channelId || !input.channelName) {
+    return 'Channel ID and name are required';
+  }
+
+  if (!Object.values(ChannelRuleType).includes(input.rule)) {
+    return 'Invalid channel rule';
+  }
+
+  if (input.autoApprove && input.rule !== ChannelRuleType.ALLOW) {
+    return 'Only allowed channels can auto-approve videos';
+  }
+
+  return null;
+}
+
+// The family's rules plus the child's own, with the child's rule winning for any channel that has both
+export async function getChannelRulesForChild(parentId: string, childId: string): Promise<ChannelRules> {
+  const rules = await db.channelRule.findMany({
+    where: {
+      parentId,
+      OR: [
+        { childId: null },
+        { childId },
+      ],
+    },
+    select: {
+      channelId: true,
+      childId: true,
+      rule: true,
+    },
+  });
+
+  const ruleByChannel = new Map<string, ChannelRuleType>();
+  for (const rule of rules) {
+    if (rule.childId === null && ruleByChannel.has(rule.channelId)) continue;
+    ruleByChannel.set(rule.channelId, rule.rule);
+  }
+
+  const channelsWith = (type: ChannelRuleType) =>
+    new Set(Array.from(ruleByChannel.entries()).filter(([, rule]) => rule === type).map(([channelId]) => channelId));
+
+  return {
+    allowed: channelsWith(ChannelRuleType.ALLOW),
+    blocked: channelsWith(ChannelRuleType.BLOCK),
+  };
+}
+
+// Create or replace the rule for a channel at one scope. Postgres treats NULL child IDs as distinct,
+// so family rules can't rely on the unique constraint and are looked up first.
+export async function saveChannelRule(parentId: string, input: ChannelRuleInput): Promise<ChannelRule> {
+  const autoApprove = input.rule === ChannelRuleType.ALLOW && !!input.autoApprove;
+
+  const existing = await db.channelRule.findFirst({
+    where: {
+      parentId,
+      childId: input.childId,
+      channelId: input.channelId,
+    },
+  });
+
+  // Auto-approve only picks up uploads published after it was switched on
+  const lastCheckedAt = autoApprove && !existing?.autoApprove ? new Date() : existing?.lastCheckedAt ?? null;
+
+  const data = {
+    channelName: input.channelName,
+    rule: input.rule,
+    autoApprove,
+    lastCheckedAt,
+  };
+
+  if (existing) {
+    return db.channelRule.update({
+      where: { id: existing.id },
+      data,
+    });
+  }
+
+  return db.channelRule.create({
+    data: {
+      parentId,
+      childId: input.childId,
+      channelId: input.channelId,
+      ...data,
+    },
+  });
+}
+
+// Approve new uploads from every auto-approving channel for the children the rule covers.
+// Children with their own block on the channel are skipped, and each child's content filter still applies.
+export async function runChannelAutoApprove(): Promise<{ rulesChecked: number; videosApproved: number }> {
+  const rules = await db.channelRule.findMany({
+    where: {
+      rule: ChannelRuleType.ALLOW,
+      autoApprove: true,
+    },
+    include: {
+      parent: {
+        select: {
+          children: {
+            select: {
+              id: true,
+              blockedKeywords: true,
+              contentFilterOverrides: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  let videosApproved = 0;
+
+  for (const rule of rules) {
+    const checkedAt = new Date();
+    const uploads = await getChannelUploads(rule.channelId, rule.lastCheckedAt ?? rule.createdAt);
+
+    if (uploads.length > 0) {
+      const blockedFor = await db.channelRule.findMany({
+        where: {
+          parentId: rule.parentId,
+          channelId: rule.channelId,
+          rule: ChannelRuleType.BLOCK,
+          childId: { not: null },
+        },
+        select: {
+          childId: true,
+        },
+      });
+      const blockedChildIds = new Set(blockedFor.map(block => block.childId));
+
+      const children = rule.parent.children.filter(child =>
+        rule.childId ? child.id === rule.childId : !blockedChildIds.has(child.id)
+      );
+
+      const created = await db.approvedVideo.createMany({
+        data: children.flatMap(child => applyContentFilter(uploads, {
+          keywords: child.blockedKeywords,
+          overrides: new Set(child.contentFilterOverrides),
+        }).videos.map(video => ({
+          childId: child.id,
+          youtubeId: video.id,
+          title: video.title,
+          description: video.description,
+          thumbnail: video.highResThumbnail || video.thumbnail,
+          channelName: video.channelName,
+          duration: video.duration,
+          summary: '', // Generated on demand, like any other approval
+        }))),
+        skipDuplicates: true,
+      });
+
+      videosApproved += created.count;
+      console.log(`✅ Auto-approved ${created.count} videos from ${rule.channelName}`);
+    }
+
+    await db.channelRule.update({
+      where: { id: rule.id },
+      data: { lastCheckedAt: checkedAt },
+    });
+  }
+
+  return { rulesChecked: rules.length, videosApproved };
+}
@@ -0,0 +1,102 @@
+// Parent-defined banned words and topics for a child, matched against each video's title,
+// description and tags before it's shown as a recommendation.
+
+export const MAX_BLOCKED_KEYWORDS = 100;
+const MAX_KEYWORD_LENGTH = 50;
+
+export interface ContentFilter {
+  keywords: string[];
+  overrides: ReadonlySet<string>; // YouTube IDs the parent chose to show anyway
+}
+
+export interface FilterableVideo {
+  id: string;
+  title: string;
+  description: string;
+  tags?: string[];
+}
+
+export type FilterField = 'title' | 'description' | 'tags';
+
+export interface FilterReason {
+  keyword: string;
+  field: FilterField;
+}
+
+export interface FilteredVideo<T> {
+  video: T;
+  reason: FilterReason;
+}
+
+// Trimmed, lowercased and de-duplicated, in the order given
+export function normalizeKeywords(keywords: string[]): string[] {
+  const normalized = keywords
+    .map(keyword => keyword.trim().toLowerCase().replace(/\s+/g, ' '))
+    .filter(Boolean);
+  return Array.from(new Set(normalized));
+}
+
+// Returns an error message, or null when the keywords are valid
+export function validateBlockedKeywords(keywords: string[]): string | null {
+  if (keywords.length > MAX_BLOCKED_KEYWORDS) {
+    return `At most ${MAX_BLOCKED_KEYWORDS} blocked words are allowed`;
+  }
+
+  if (keywords.some(keyword => keyword.length > MAX_KEYWORD_LENGTH)) {
+    return `Blocked words must be ${MAX_KEYWORD_LENGTH} characters or fewer`;
+  }
+
+  return null;
+}
+
+// Whole words or phrases only, so "scary" catches "SCARY!" but not "scaryville".
+// Simple plurals ("prank" -> "pranks") count as a match.
+function keywordPattern(keyword: string): RegExp {
+  const escaped = keyword
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/ /g, '\\s+');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?:e?s)?(?![\\p{L}\\p{N}])`, 'iu');
+}
+
+function findMatch(video: FilterableVideo, patterns: [string, RegExp][]): FilterReason | null {
+  const fields: [FilterField, string][] = [
+    ['title', video.title],
+    ['tags', (video.tags || []).join(' | ')],
+    ['description', video.description],
+  ];
+
+  for (const [keyword, pattern] of patterns) {
+    for (const [field, text] of fields) {
+      if (text && pattern.test(text)) {
+        return { keyword, field };
+      }
+    }
+  }
+
+  return null;
+}
+
+// Split videos into the ones to show and the ones hidden by the filter, with the reason for each
+export function applyContentFilter<T extends FilterableVideo>(
+  videos: T[],
+  filter?: ContentFilter
+): { videos: T[]; filtered: FilteredVideo<T>[] } {
+  if (!filter || filter.keywords.length === 0) {
+    return { videos, filtered: [] };
+  }
+
+  const patterns: [string, RegExp][] = filter.keywords.map(keyword => [keyword, keywordPattern(keyword)]);
+  const shown: T[] = [];
+  const filtered: FilteredVideo<T>[] = [];
+
+  for (const video of videos) {
+    const reason = filter.overrides.has(video.id) ? null : findMatch(video, patterns);
+    if (reason) {
+      filtered.push({ video, reason });
+    } else {
+      shown.push(video);
+    }
+  }
+
+  return { videos: shown, filtered };
+}
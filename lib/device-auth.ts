@@ -0,0 +1,108 @@
+import crypto from 'crypto';
+import { NextRequest } from 'next/server';
+import { db } from '@/lib/db';
+
+const PAIRING_CODE_TTL = 10 * 60 * 1000; // Pairing codes are valid for 10 minutes
+const PAIRING_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I to avoid typos
+const PAIRING_CODE_LENGTH = 6;
+
+export function hashDeviceToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function generatePairingCode(): string {
+  let code = '';
+  for (let i = 0; i < PAIRING_CODE_LENGTH; i++) {
+    code += PAIRING_CODE_ALPHABET[crypto.randomInt(PAIRING_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+export function normalizePairingCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toUpperCase();
+}
+
+export async function createPairingCode(childId: string) {
+  // Retry on the (unlikely) collision with an existing code
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const code = generatePairingCode();
+    const existing = await db.devicePairingCode.findUnique({ where: { code } });
+    if (existing) continue;
+
+    return db.devicePairingCode.create({
+      data: {
+        childId,
+        code,
+        expiresAt: new Date(Date.now() + PAIRING_CODE_TTL),
+      },
+    });
+  }
+
+  throw new Error('Unable to generate a unique pairing code');
+}
+
+// Exchange a pairing code for a device token. Returns null if the code is unknown, used or expired.
+export async function redeemPairingCode(code: string, deviceName: string) {
+  const pairingCode = await db.devicePairingCode.findUnique({
+    where: { code: normalizePairingCode(code) },
+    include: { child: { select: { id: true, name: true } } },
+  });
+
+  if (!pairingCode || pairingCode.usedAt || pairingCode.expiresAt < new Date()) {
+    return null;
+  }
+
+  const token = `kd_${crypto.randomBytes(32).toString('base64url')}`;
+  const now = new Date();
+
+  // Claiming the code is conditional on it still being unused, so two devices racing with the same
+  // code can't both get a token
+  const device = await db.$transaction(async (tx) => {
+    const claimed = await tx.devicePairingCode.updateMany({
+      where: { id: pairingCode.id, usedAt: null, expiresAt: { gt: now } },
+      data: { usedAt: now },
+    });
+    if (claimed.count !== 1) return null;
+
+    return tx.childDevice.create({
+      data: {
+        childId: pairingCode.childId,
+        name: deviceName,
+        tokenHash: hashDeviceToken(token),
+      },
+    });
+  });
+
+  if (!device) return null;
+
+  return { token, device, child: pairingCode.child };
+}
+
+function getDeviceToken(request: NextRequest): string | null {
+  const authHeader = request.headers.get('Authorization');
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    return authHeader.replace('Bearer ', '');
+  }
+  return request.headers.get('X-Device-Token');
+}
+
+// Resolve the paired device making a /api/kids/* request, or null if the token is missing or revoked
+export async function authenticateChildDevice(request: NextRequest) {
+  const token = getDeviceToken(request);
+  if (!token) return null;
+
+  const device = await db.childDevice.findUnique({
+    where: { tokenHash: hashDeviceToken(token) },
+  });
+
+  if (!device || device.revokedAt) {
+    return null;
+  }
+
+  await db.childDevice.update({
+    where: { id: device.id },
+    data: { lastUsedAt: new Date() },
+  });
+
+  return device;
+}
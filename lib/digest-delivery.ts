@@ -0,0 +1,93 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface DigestMessage {
+  to: string;
+  subject: string;
+  html: string;
+  markdown: string;
+}
+
+// Sends a rendered digest somewhere. Pick one with DIGEST_DELIVERY (email, file or console);
+// without it, digests are only stored for the dashboard archive.
+export interface DigestDelivery {
+  name: string;
+  deliver(message: DigestMessage): Promise<void>;
+}
+
+// Sends through the Resend HTTP API (RESEND_API_KEY, DIGEST_EMAIL_FROM)
+class EmailDelivery implements DigestDelivery {
+  name = 'email';
+
+  constructor(private apiKey: string, private from: string) {}
+
+  async deliver(message: DigestMessage): Promise<void> {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: this.from,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.markdown,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Email delivery failed: ${response.status} ${await response.text()}`);
+    }
+  }
+}
+
+// Writes each digest as .html and .md files, for looking at them locally (DIGEST_OUTPUT_DIR)
+class FileDelivery implements DigestDelivery {
+  name = 'file';
+
+  constructor(private directory: string) {}
+
+  async deliver(message: DigestMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const baseName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^a-zA-Z0-9]/g, '_')}`;
+    await fs.writeFile(path.join(this.directory, `${baseName}.html`), message.html);
+    await fs.writeFile(path.join(this.directory, `${baseName}.md`), message.markdown);
+
+    console.log(`📝 Wrote digest for ${message.to} to ${path.join(this.directory, baseName)}.{html,md}`);
+  }
+}
+
+class ConsoleDelivery implements DigestDelivery {
+  name = 'console';
+
+  async deliver(message: DigestMessage): Promise<void> {
+    console.log(`📬 Digest for ${message.to}: ${message.subject}\n\n${message.markdown}`);
+  }
+}
+
+export function getDigestDelivery(): DigestDelivery | null {
+  const mode = process.env.DIGEST_DELIVERY;
+
+  switch (mode) {
+    case undefined:
+    case '':
+      return null;
+    case 'email': {
+      const apiKey = process.env.RESEND_API_KEY;
+      const from = process.env.DIGEST_EMAIL_FROM;
+      if (!apiKey || !from) {
+        throw new Error('Email digests need RESEND_API_KEY and DIGEST_EMAIL_FROM');
+      }
+      return new EmailDelivery(apiKey, from);
+    }
+    case 'file':
+      return new FileDelivery(process.env.DIGEST_OUTPUT_DIR || path.join(process.cwd(), '.digests'));
+    case 'console':
+      return new ConsoleDelivery();
+    default:
+      throw new Error(`Unknown DIGEST_DELIVERY: ${mode}`);
+  }
+}
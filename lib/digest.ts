@@ -0,0 +1,344 @@
+import { ActivityType, Child, Parent } from '@prisma/client';
+import { db } from '@/lib/db';
+import { getDigestDelivery } from '@/lib/digest-delivery';
+import { getAgeGroupForChild } from '@/lib/growth-categories';
+import { getPlaybackUrls } from '@/lib/video-sources';
+import { addDays, formatDateLabel, formatDateOnly, getLocalDateString, getLocalDayRange, parseDateOnly } from '@/lib/timezone';
+
+export interface DigestReport {
+  childName: string;
+  ageGroup: string;
+  weekStart: string; // YYYY-MM-DD, Monday
+  weekEnd: string;   // YYYY-MM-DD, Sunday
+  minutesWatched: number;
+  activeDays: number;
+  videosCompleted: number;
+  videosAbandoned: number;
+  topChannels: { name: string; minutes: number }[];
+  growthCategories: { name: string; videos: number }[];
+  unwatchedScheduled: { title: string; scheduledDate: string; expired: boolean }[];
+  suggestedNext: { youtubeId: string; title: string; channelName: string; thumbnail: string; watchUrl: string }[];
+}
+
+type DigestChild = Pick<Child, 'id' | 'name' | 'birthday' | 'timezone'> & {
+  parent: Pick<Parent, 'id' | 'email'>;
+};
+
+export const digestChildSelect = {
+  id: true,
+  name: true,
+  birthday: true,
+  timezone: true,
+  parent: {
+    select: {
+      id: true,
+      email: true,
+    },
+  },
+} as const;
+
+// Monday..Sunday of the most recent week that has fully ended in the child's timezone
+export function getLastCompletedWeek(timezone: string, now = new Date()): { weekStart: string; weekEnd: string } {
+  const today = getLocalDateString(now, timezone);
+  const daysSinceMonday = (parseDateOnly(today).getUTCDay() + 6) % 7;
+  const weekStart = addDays(today, -daysSinceMonday - 7);
+
+  return { weekStart, weekEnd: addDays(weekStart, 6) };
+}
+
+export async function buildDigestReport(child: DigestChild, weekStart: string): Promise<DigestReport> {
+  const weekEnd = addDays(weekStart, 6);
+  const from = getLocalDayRange(weekStart, child.timezone).start;
+  const to = getLocalDayRange(weekEnd, child.timezone).end;
+  const ageGroup = getAgeGroupForChild(child.birthday);
+
+  const activities = await db.videoActivity.findMany({
+    where: {
+      childId: child.id,
+      createdAt: { gte: from, lt: to },
+    },
+    select: {
+      youtubeId: true,
+      activityType: true,
+      watchTimeSeconds: true,
+      videoTitle: true,
+      channelName: true,
+      createdAt: true,
+    },
+  });
+
+  const completed = new Set(
+    activities.filter(activity => activity.activityType === ActivityType.COMPLETE).map(activity => activity.youtubeId)
+  );
+  const abandoned = new Set(
+    activities
+      .filter(activity => activity.activityType === ActivityType.EXIT && !completed.has(activity.youtubeId))
+      .map(activity => activity.youtubeId)
+  );
+
+  const channelSeconds = new Map<string, number>();
+  for (const activity of activities) {
+    if (activity.watchTimeSeconds > 0) {
+      channelSeconds.set(activity.channelName, (channelSeconds.get(activity.channelName) || 0) + activity.watchTimeSeconds);
+    }
+  }
+
+  // Growth categories for the child's age whose keywords appear in the videos watched this week
+  const watchedVideos = new Map(
+    activities
+      .filter(activity => activity.activityType === ActivityType.PLAY || activity.activityType === ActivityType.COMPLETE)
+      .map(activity => [activity.youtubeId, `${activity.videoTitle} ${activity.channelName}`.toLowerCase()])
+  );
+  const growthCategories = ageGroup.categories
+    .map(category => ({
+      name: category.name,
+      videos: Array.from(watchedVideos.values())
+        .filter(text => category.keywords.some(keyword => text.includes(keyword.toLowerCase())))
+        .length,
+    }))
+    .filter(category => category.videos > 0)
+    .sort((a, b) => b.videos - a.videos)
+    .slice(0, 3);
+
+  const unwatchedScheduled = await db.scheduledVideo.findMany({
+    where: {
+      childId: child.id,
+      scheduledDate: { gte: parseDateOnly(weekStart), lte: parseDateOnly(weekEnd) },
+      isWatched: false,
+      OR: [{ isActive: true }, { isStale: true }],
+    },
+    include: {
+      approvedVideo: { select: { title: true } },
+    },
+    orderBy: { scheduledDate: 'asc' },
+  });
+
+  // Approved but never watched, preferring this week's favourite channels
+  const topChannelNames = Array.from(channelSeconds.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([name]) => name);
+  const candidates = await db.approvedVideo.findMany({
+    where: {
+      childId: child.id,
+      watched: false,
+    },
+    orderBy: { createdAt: 'desc' },
+    take: 20,
+  });
+  const suggestedNext = candidates
+    .map(video => ({ video, rank: topChannelNames.indexOf(video.channelName) }))
+    .sort((a, b) => (a.rank === -1 ? Infinity : a.rank) - (b.rank === -1 ? Infinity : b.rank))
+    .slice(0, 3)
+    .map(({ video }) => ({
+      youtubeId: video.youtubeId,
+      title: video.title,
+      channelName: video.channelName,
+      thumbnail: video.thumbnail,
+      watchUrl: getPlaybackUrls(video).watchUrl,
+    }));
+
+  return {
+    childName: child.name,
+    ageGroup: ageGroup.groupName,
+    weekStart,
+    weekEnd,
+    minutesWatched: Math.round(activities.reduce((sum, activity) => sum + activity.watchTimeSeconds, 0) / 60),
+    activeDays: new Set(activities.map(activity => getLocalDateString(activity.createdAt, child.timezone))).size,
+    videosCompleted: completed.size,
+    videosAbandoned: abandoned.size,
+    topChannels: topChannelNames.slice(0, 3).map(name => ({
+      name,
+      minutes: Math.round((channelSeconds.get(name) || 0) / 60),
+    })),
+    growthCategories,
+    unwatchedScheduled: unwatchedScheduled.map(video => ({
+      title: video.approvedVideo.title,
+      scheduledDate: formatDateOnly(video.scheduledDate),
+      expired: video.isStale,
+    })),
+    suggestedNext,
+  };
+}
+
+export function getDigestSubject(report: DigestReport): string {
+  return `${report.childName}'s week: ${formatDateLabel(report.weekStart)} – ${formatDateLabel(report.weekEnd)}`;
+}
+
+// Titles and channel names come from the video sites, so they can't be allowed to open links or emphasis
+function escapeMarkdown(value: string): string {
+  return value.replace(/[\\`*_{}\[\]()<>#+!|~]/g, '\\$&');
+}
+
+export function renderDigestMarkdown(report: DigestReport): string {
+  const lines = [
+    `# ${getDigestSubject(report)}`,
+    '',
+    `- **Minutes watched:** ${report.minutesWatched} (on ${report.activeDays} of 7 days)`,
+    `- **Videos completed:** ${report.videosCompleted}`,
+    `- **Videos stopped early:** ${report.videosAbandoned}`,
+    '',
+    '## Top channels',
+    ...(report.topChannels.length > 0
+      ? report.topChannels.map(channel => `- ${escapeMarkdown(channel.name)} — ${channel.minutes} min`)
+      : ['- Nothing watched this week']),
+    '',
+    `## Growth areas (${report.ageGroup})`,
+    ...(report.growthCategories.length > 0
+      ? report.growthCategories.map(category => `- ${category.name} — ${category.videos} video${category.videos === 1 ? '' : 's'}`)
+      : ['- No videos matched this age group\'s growth categories']),
+    '',
+    '## Scheduled but not watched',
+    ...(report.unwatchedScheduled.length > 0
+      ? report.unwatchedScheduled.map(video =>
+          `- ${escapeMarkdown(video.title)} (${formatDateLabel(video.scheduledDate)}${video.expired ? ', expired' : ''})`)
+      : ['- Everything scheduled was watched']),
+    '',
+    '## Suggested next',
+    ...(report.suggestedNext.length > 0
+      ? report.suggestedNext.map(video =>
+          `- ${video.watchUrl ? `[${escapeMarkdown(video.title)}](<${video.watchUrl}>)` : escapeMarkdown(video.title)} — ${escapeMarkdown(video.channelName)}`)
+      : ['- No unwatched approved videos left. Time to approve some new ones!']),
+    '',
+  ];
+
+  return lines.join('\n');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderList(items: string[], empty: string): string {
+  if (items.length === 0) {
+    return `<p style="color:#6b7280;margin:0">${escapeHtml(empty)}</p>`;
+  }
+  return `<ul style="margin:0;padding-left:20px">${items.map(item => `<li style="margin:4px 0">${item}</li>`).join('')}</ul>`;
+}
+
+// Self-contained HTML with inline styles, so it reads the same in email clients and the archive page
+export function renderDigestHtml(report: DigestReport): string {
+  const stat = (label: string, value: string) =>
+    `<td style="padding:12px;text-align:center;background:#f3f4f6;border-radius:8px">
+      <div style="font-size:24px;font-weight:700;color:#111827">${escapeHtml(value)}</div>
+      <div style="font-size:12px;color:#6b7280">${escapeHtml(label)}</div>
+    </td>`;
+  const section = (title: string, body: string) =>
+    `<h2 style="font-size:16px;color:#111827;margin:24px 0 8px">${escapeHtml(title)}</h2>${body}`;
+
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(getDigestSubject(report))}</title></head>
+<body style="margin:0;padding:24px;background:#ffffff;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;color:#374151">
+  <div style="max-width:600px;margin:0 auto">
+    <h1 style="font-size:22px;color:#111827;margin:0 0 16px">${escapeHtml(getDigestSubject(report))}</h1>
+    <table style="width:100%;border-spacing:8px"><tr>
+      ${stat('Minutes watched', String(report.minutesWatched))}
+      ${stat('Active days', `${report.activeDays}/7`)}
+      ${stat('Completed', String(report.videosCompleted))}
+      ${stat('Stopped early', String(report.videosAbandoned))}
+    </tr></table>
+    ${section('Top channels', renderList(
+      report.topChannels.map(channel => `${escapeHtml(channel.name)} — ${channel.minutes} min`),
+      'Nothing watched this week'
+    ))}
+    ${section(`Growth areas (${report.ageGroup})`, renderList(
+      report.growthCategories.map(category => `${escapeHtml(category.name)} — ${category.videos} video${category.videos === 1 ? '' : 's'}`),
+      'No videos matched this age group\'s growth categories'
+    ))}
+    ${section('Scheduled but not watched', renderList(
+      report.unwatchedScheduled.map(video =>
+        `${escapeHtml(video.title)} <span style="color:#6b7280">(${escapeHtml(formatDateLabel(video.scheduledDate))}${video.expired ? ', expired' : ''})</span>`),
+      'Everything scheduled was watched'
+    ))}
+    ${section('Suggested next', renderList(
+      report.suggestedNext.map(video =>
+        `${video.watchUrl
+          ? `<a href="${escapeHtml(video.watchUrl)}" style="color:#4f46e5">${escapeHtml(video.title)}</a>`
+          : escapeHtml(video.title)} — ${escapeHtml(video.channelName)}`),
+      'No unwatched approved videos left. Time to approve some new ones!'
+    ))}
+  </div>
+</body>
+</html>`;
+}
+
+// Build (or rebuild) and store one child's digest for the week starting on `weekStart`
+export async function generateWeeklyDigest(child: DigestChild, weekStart: string) {
+  const report = await buildDigestReport(child, weekStart);
+  const content = {
+    report: { ...report },
+    markdown: renderDigestMarkdown(report),
+    html: renderDigestHtml(report),
+  };
+
+  return db.weeklyDigest.upsert({
+    where: {
+      childId_weekStart: { childId: child.id, weekStart: parseDateOnly(weekStart) },
+    },
+    update: content,
+    create: {
+      parentId: child.parent.id,
+      childId: child.id,
+      weekStart: parseDateOnly(weekStart),
+      weekEnd: parseDateOnly(report.weekEnd),
+      ...content,
+    },
+  });
+}
+
+// Create the digest for every child whose week just ended and deliver the ones not sent yet, if a delivery is set up.
+// Safe to run repeatedly: existing digests are reused and only undelivered ones are retried.
+export async function runWeeklyDigests(): Promise<{ generated: number; delivered: number; failed: number }> {
+  const delivery = getDigestDelivery();
+  const children = await db.child.findMany({ select: digestChildSelect });
+
+  let generated = 0;
+  let delivered = 0;
+  let failed = 0;
+
+  for (const child of children) {
+    const { weekStart } = getLastCompletedWeek(child.timezone);
+
+    let digest = await db.weeklyDigest.findUnique({
+      where: { childId_weekStart: { childId: child.id, weekStart: parseDateOnly(weekStart) } },
+    });
+
+    if (!digest) {
+      digest = await generateWeeklyDigest(child, weekStart);
+      generated++;
+    }
+
+    if (!delivery || digest.deliveredAt) continue;
+
+    try {
+      await delivery.deliver({
+        to: child.parent.email,
+        subject: getDigestSubject(digest.report as unknown as DigestReport),
+        html: digest.html,
+        markdown: digest.markdown,
+      });
+
+      await db.weeklyDigest.update({
+        where: { id: digest.id },
+        data: { deliveredAt: new Date(), deliveredVia: delivery.name, deliveryError: null },
+      });
+      delivered++;
+    } catch (error) {
+      console.error(`❌ Failed to deliver digest ${digest.id}:`, error);
+      await db.weeklyDigest.update({
+        where: { id: digest.id },
+        data: { deliveryError: error instanceof Error ? error.message : String(error) },
+      });
+      failed++;
+    }
+  }
+
+  console.log(`📬 Weekly digests: ${generated} generated, ${delivered} delivered, ${failed} failed`);
+
+  return { generated, delivered, failed };
+}
@@ -0,0 +1,154 @@
+import { Child } from '@prisma/client';
+import { ContentCategory } from '@/lib/growth-categories';
+
+// Keeps a page of recommendations from being all one channel, one interest or one kind of video.
+// Candidates are picked in the order they arrive, so relevance and trusted channels still decide
+// which videos make it; the guardrails only decide how many of each.
+
+export type DiversitySettings = Pick<Child, 'maxVideosPerChannel' | 'minVideosPerInterest' | 'minVideosPerSkillArea' | 'mixDurations'>;
+
+export const diversitySettingsSelect = {
+  maxVideosPerChannel: true,
+  minVideosPerInterest: true,
+  minVideosPerSkillArea: true,
+  mixDurations: true,
+} as const;
+
+export interface DiversityOptions {
+  settings: DiversitySettings;
+  interests: string[];
+  skillAreas: ContentCategory[]; // The growth categories for the child's age
+}
+
+interface DiversityCandidate {
+  title: string;
+  description: string;
+  tags: string[];
+  channelId: string;
+  channelName: string;
+  duration: string;
+}
+
+export type DurationBucket = 'short' | 'medium' | 'long';
+
+// With mixDurations on, no one length takes more than this share of a page while others are available
+const MAX_DURATION_SHARE = 0.6;
+
+const MAX_SETTING = 10;
+
+// Returns an error message, or null when the settings are valid
+export function validateDiversitySettings(settings: DiversitySettings): string | null {
+  if (settings.maxVideosPerChannel !== null &&
+    (!Number.isInteger(settings.maxVideosPerChannel) || settings.maxVideosPerChannel < 1 || settings.maxVideosPerChannel > MAX_SETTING)) {
+    return `Videos per channel must be a whole number from 1 to ${MAX_SETTING}`;
+  }
+
+  for (const value of [settings.minVideosPerInterest, settings.minVideosPerSkillArea]) {
+    if (!Number.isInteger(value) || value < 0 || value > MAX_SETTING) {
+      return `Minimum videos per interest or skill area must be a whole number from 0 to ${MAX_SETTING}`;
+    }
+  }
+
+  return null;
+}
+
+// "1:02:03", "12:34" or an ISO 8601 "PT12M34S"
+export function durationSeconds(duration: string | null | undefined): number | null {
+  if (!duration) return null;
+
+  const iso = duration.match(/^PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?$/);
+  if (iso) {
+    return (parseInt(iso[1] || '0') * 3600) + (parseInt(iso[2] || '0') * 60) + parseInt(iso[3] || '0');
+  }
+
+  const parts = duration.split(':').map(part => parseInt(part));
+  if (parts.length < 2 || parts.some(isNaN)) return null;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+// Same boundaries as YouTube's duration filter
+export function durationBucket(duration: string | null | undefined): DurationBucket | null {
+  const seconds = durationSeconds(duration);
+  if (seconds === null || seconds === 0) return null;
+  if (seconds < 4 * 60) return 'short';
+  if (seconds <= 20 * 60) return 'medium';
+  return 'long';
+}
+
+export function matchingSkillAreas(text: string, skillAreas: ContentCategory[]): ContentCategory[] {
+  const lower = text.toLowerCase();
+  return skillAreas.filter(area => area.keywords.some(keyword => lower.includes(keyword.toLowerCase())));
+}
+
+function candidateText(video: DiversityCandidate): string {
+  return `${video.title} ${video.tags.join(' ')} ${video.description.slice(0, 500)}`.toLowerCase();
+}
+
+// Choose `limit` videos from `candidates` (best first). Interests and skill areas get their minimum
+// first, then the rest of the page fills in order. The per-channel cap always holds, even if the
+// page comes up short; the duration mix gives way when there's nothing else to fill with.
+export function diversify<T extends DiversityCandidate>(candidates: T[], limit: number, options: DiversityOptions): T[] {
+  const { settings, interests, skillAreas } = options;
+  const chosen = new Set<number>();
+  const perChannel = new Map<string, number>();
+  const perDuration = new Map<DurationBucket, number>();
+  const buckets = candidates.map(video => durationBucket(video.duration));
+  const texts = candidates.map(candidateText);
+  const availableBuckets = new Set(buckets.filter(bucket => bucket !== null)).size;
+
+  const channelKey = (video: T) => video.channelId || video.channelName;
+
+  const fitsChannel = (index: number) =>
+    settings.maxVideosPerChannel === null ||
+    (perChannel.get(channelKey(candidates[index])) || 0) < settings.maxVideosPerChannel;
+
+  const fitsDuration = (index: number) => {
+    const bucket = buckets[index];
+    if (!settings.mixDurations || !bucket || availableBuckets < 2) return true;
+    return (perDuration.get(bucket) || 0) < Math.ceil(limit * MAX_DURATION_SHARE);
+  };
+
+  const choose = (index: number) => {
+    chosen.add(index);
+    const key = channelKey(candidates[index]);
+    perChannel.set(key, (perChannel.get(key) || 0) + 1);
+    const bucket = buckets[index];
+    if (bucket) perDuration.set(bucket, (perDuration.get(bucket) || 0) + 1);
+  };
+
+  // Take up to `count` of the best candidates that match, on top of any already chosen
+  const cover = (matches: (index: number) => boolean, count: number) => {
+    let have = Array.from(chosen).filter(matches).length;
+    for (let index = 0; index < candidates.length && have < count && chosen.size < limit; index++) {
+      if (!chosen.has(index) && matches(index) && fitsChannel(index) && fitsDuration(index)) {
+        choose(index);
+        have++;
+      }
+    }
+  };
+
+  for (const interest of interests) {
+    const term = interest.toLowerCase();
+    cover(index => texts[index].includes(term), settings.minVideosPerInterest);
+  }
+
+  for (const area of skillAreas) {
+    cover(index => matchingSkillAreas(texts[index], [area]).length > 0, settings.minVideosPerSkillArea);
+  }
+
+  if (settings.mixDurations) {
+    for (const bucket of ['short', 'medium', 'long'] as const) {
+      cover(index => buckets[index] === bucket, 1);
+    }
+  }
+
+  for (const respectDuration of [true, false]) {
+    for (let index = 0; index < candidates.length && chosen.size < limit; index++) {
+      if (!chosen.has(index) && fitsChannel(index) && (!respectDuration || fitsDuration(index))) {
+        choose(index);
+      }
+    }
+  }
+
+  return Array.from(chosen).sort((a, b) => a - b).map(index => candidates[index]);
+}
@@ -0,0 +1,259 @@
+import crypto from 'crypto';
+import os from 'os';
+import { JobRun, JobRunStatus, JobTrigger, Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import { runEndOfDayCarryover } from '@/lib/carryover';
+import { refreshActivityRollups } from '@/lib/activity-rollups';
+import { runWeeklyDigests } from '@/lib/digest';
+import { runChannelAutoApprove } from '@/lib/channel-rules';
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  intervalMinutes: number;
+  maxAttempts: number;
+  run: () => Promise<Prisma.InputJsonValue>;
+}
+
+const MINUTE_MS = 60 * 1000;
+const POLL_INTERVAL_MS = MINUTE_MS;
+const LOCK_LEASE_MS = 5 * MINUTE_MS;  // Renewed while the job runs; only runs out when the instance dies
+const LOCK_RENEW_MS = MINUTE_MS;
+const RETRY_DELAY_MS = 30 * 1000;     // Multiplied by the attempt number
+
+// Identifies this server process while it holds a job lock
+const instanceId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+
+export const jobDefinitions: JobDefinition[] = [
+  {
+    name: 'nightly-carryover',
+    description: "Close each child's finished day and carry over unwatched videos",
+    // Hourly, so every timezone's midnight is picked up soon after it passes. Days already closed are skipped.
+    intervalMinutes: 60,
+    maxAttempts: 3,
+    run: async () => ({ ...(await runEndOfDayCarryover()) }),
+  },
+  {
+    name: 'activity-rollups',
+    description: 'Update the daily ChildActivity rollups for days with new activities or sessions',
+    intervalMinutes: 60,
+    maxAttempts: 3,
+    run: async () => {
+      // Pick up everything written since the last successful run started (or the last day on a fresh install)
+      const lastRun = await db.jobRun.findFirst({
+        where: { jobName: 'activity-rollups', status: JobRunStatus.SUCCEEDED },
+        orderBy: { startedAt: 'desc' },
+      });
+      return { ...(await refreshActivityRollups(lastRun?.startedAt ?? new Date(Date.now() - 24 * 60 * MINUTE_MS))) };
+    },
+  },
+  {
+    name: 'backfill-activity-rollups',
+    description: 'Rebuild every ChildActivity rollup from the full activity history',
+    // Runs once on a fresh install to backfill, then monthly to reconcile (e.g. after a timezone change)
+    intervalMinutes: 30 * 24 * 60,
+    maxAttempts: 2,
+    run: async () => ({ ...(await refreshActivityRollups(null)) }),
+  },
+  {
+    name: 'weekly-digest',
+    description: "Build each child's digest once their week has ended and deliver it to the parent",
+    // Daily, since weeks end at different times across timezones. Digests already sent are skipped.
+    intervalMinutes: 24 * 60,
+    maxAttempts: 2,
+    run: runWeeklyDigests,
+  },
+  {
+    name: 'channel-auto-approve',
+    description: 'Approve new uploads from channels parents trust with auto-approve on',
+    // Each channel costs a YouTube search, so this stays well inside the daily quota
+    intervalMinutes: 6 * 60,
+    maxAttempts: 2,
+    run: runChannelAutoApprove,
+  },
+  {
+    name: 'cleanup-pairing-codes',
+    description: 'Delete device pairing codes that expired or were used more than a day ago',
+    intervalMinutes: 24 * 60,
+    maxAttempts: 2,
+    run: async () => {
+      const cutoff = new Date(Date.now() - 24 * 60 * MINUTE_MS);
+      const deleted = await db.devicePairingCode.deleteMany({
+        where: {
+          OR: [
+            { expiresAt: { lt: cutoff } },
+            { usedAt: { lt: cutoff } },
+          ],
+        },
+      });
+      return { deletedCodes: deleted.count };
+    },
+  },
+];
+
+export function getJobDefinition(name: string): JobDefinition | undefined {
+  return jobDefinitions.find(job => job.name === name);
+}
+
+// Make sure every defined job has its row; new jobs are due straight away
+async function ensureJobRows() {
+  await db.job.createMany({
+    data: jobDefinitions.map(job => ({ name: job.name, nextRunAt: new Date() })),
+    skipDuplicates: true,
+  });
+}
+
+// Take the job's lease if nobody else holds it. Scheduled runs also require the job to be due.
+async function acquireLock(name: string, now: Date, dueOnly: boolean): Promise<boolean> {
+  const result = await db.job.updateMany({
+    where: {
+      name,
+      ...(dueOnly && { nextRunAt: { lte: now } }),
+      OR: [
+        { lockedUntil: null },
+        { lockedUntil: { lt: now } },
+      ],
+    },
+    data: {
+      lockedBy: instanceId,
+      lockedUntil: new Date(now.getTime() + LOCK_LEASE_MS),
+    },
+  });
+
+  return result.count === 1;
+}
+
+// Push the lease back while this instance still holds it. Returns false once it has been lost.
+async function renewLock(name: string): Promise<boolean> {
+  const result = await db.job.updateMany({
+    where: { name, lockedBy: instanceId },
+    data: { lockedUntil: new Date(Date.now() + LOCK_LEASE_MS) },
+  });
+
+  return result.count === 1;
+}
+
+// Run a job under its lock, retrying failed attempts. Every attempt is recorded as a JobRun.
+// Returns the last attempt, or null when the job isn't due or another instance is running it.
+export async function runJob(name: string, trigger: JobTrigger): Promise<JobRun | null> {
+  const definition = getJobDefinition(name);
+  if (!definition) {
+    throw new Error(`Unknown job: ${name}`);
+  }
+
+  await ensureJobRows();
+
+  if (!(await acquireLock(name, new Date(), trigger === JobTrigger.SCHEDULE))) {
+    return null;
+  }
+
+  console.log(`⚙️ Running job ${name} (${trigger.toLowerCase()})`);
+
+  // Long jobs (like a full rollup backfill) and retry delays can outlast a single lease
+  let leaseLost = false;
+  const renewal = setInterval(() => {
+    renewLock(name)
+      .then(held => {
+        if (!held) {
+          leaseLost = true;
+          console.error(`❌ Lost the lock for job ${name}; no further attempts will start`);
+        }
+      })
+      .catch(error => console.error(`❌ Could not renew the lock for job ${name}:`, error));
+  }, LOCK_RENEW_MS);
+  renewal.unref();
+
+  let run: JobRun | null = null;
+
+  try {
+    for (let attempt = 1; attempt <= definition.maxAttempts && !leaseLost; attempt++) {
+      run = await db.jobRun.create({
+        data: { jobName: name, trigger, attempt },
+      });
+
+      const startedAt = Date.now();
+
+      try {
+        const result = await definition.run();
+        run = await db.jobRun.update({
+          where: { id: run.id },
+          data: {
+            status: JobRunStatus.SUCCEEDED,
+            result,
+            finishedAt: new Date(),
+            durationMs: Date.now() - startedAt,
+          },
+        });
+
+        console.log(`✅ Job ${name} succeeded on attempt ${attempt}`);
+        break;
+      } catch (error) {
+        console.error(`❌ Job ${name} failed on attempt ${attempt}:`, error);
+
+        run = await db.jobRun.update({
+          where: { id: run.id },
+          data: {
+            status: JobRunStatus.FAILED,
+            error: error instanceof Error ? error.message : String(error),
+            finishedAt: new Date(),
+            durationMs: Date.now() - startedAt,
+          },
+        });
+
+        if (attempt < definition.maxAttempts) {
+          await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * attempt));
+        }
+      }
+    }
+  } finally {
+    clearInterval(renewal);
+
+    // Only release the lock if it's still ours: a run that outlived its lease may have been taken over
+    const finishedAt = new Date();
+    await db.job.updateMany({
+      where: { name, lockedBy: instanceId },
+      data: {
+        lockedBy: null,
+        lockedUntil: null,
+        lastRunAt: finishedAt,
+        lastStatus: run?.status ?? JobRunStatus.FAILED,
+        nextRunAt: new Date(finishedAt.getTime() + definition.intervalMinutes * MINUTE_MS),
+      },
+    });
+  }
+
+  return run;
+}
+
+let runnerStarted = false;
+let ticking = false;
+
+async function tick() {
+  // A slow job shouldn't stack up overlapping ticks in this process
+  if (ticking) return;
+  ticking = true;
+
+  try {
+    for (const job of jobDefinitions) {
+      try {
+        await runJob(job.name, JobTrigger.SCHEDULE);
+      } catch (error) {
+        console.error(`❌ Job runner could not run ${job.name}:`, error);
+      }
+    }
+  } finally {
+    ticking = false;
+  }
+}
+
+// Start polling for due jobs. Called once per server process from instrumentation.ts;
+// set JOBS_DISABLED=true to keep an instance out of the rotation.
+export function startJobRunner() {
+  if (runnerStarted || process.env.JOBS_DISABLED === 'true') return;
+  runnerStarted = true;
+
+  console.log(`⚙️ Job runner started on ${instanceId}`);
+
+  setTimeout(tick, 10 * 1000).unref();
+  setInterval(tick, POLL_INTERVAL_MS).unref();
+}
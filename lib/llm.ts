@@ -0,0 +1,231 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import { db } from '@/lib/db';
+import { PromptName, prompts, PromptVars } from '@/lib/prompts';
+
+export interface LLMRequest {
+  task: string;          // Prompt name, e.g. "suitability"; lets the fake answer per task
+  system: string;
+  prompt: string;
+  maxTokens: number;
+  temperature: number;
+  json?: boolean;        // Ask for a single JSON object back
+}
+
+export interface LLMResult {
+  text: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// Something that turns a prompt into text. Pick one with LLM_PROVIDER: openai, azure, local or fake.
+export interface LLMProvider {
+  name: string;
+  model: string;
+  complete(request: LLMRequest, signal: AbortSignal): Promise<LLMResult>;
+}
+
+// OpenAI itself, Azure OpenAI and local servers (Ollama, vLLM, LM Studio...) all speak the same API.
+// Retries are left to runPrompt so every provider behaves the same.
+class OpenAICompatibleProvider implements LLMProvider {
+  constructor(public name: string, public model: string, private client: OpenAI) {}
+
+  async complete(request: LLMRequest, signal: AbortSignal): Promise<LLMResult> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: 'system', content: request.system },
+        { role: 'user', content: request.prompt },
+      ],
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(request.json && { response_format: { type: 'json_object' as const } }),
+    }, { signal, maxRetries: 0 });
+
+    return {
+      text: response.choices[0]?.message?.content || '',
+      promptTokens: response.usage?.prompt_tokens ?? 0,
+      completionTokens: response.usage?.completion_tokens ?? 0,
+    };
+  }
+}
+
+type FakeResponder = (request: LLMRequest) => string;
+
+const fakeResponders = new Map<string, FakeResponder>();
+
+// Features register a canned answer for their task so they can be exercised without a real model
+export function registerFakeResponse(task: string, respond: FakeResponder) {
+  fakeResponders.set(task, respond);
+}
+
+// Deterministic stand-in for local development and tests (LLM_PROVIDER=fake)
+class FakeProvider implements LLMProvider {
+  name = 'fake';
+  model = 'fake';
+
+  async complete(request: LLMRequest): Promise<LLMResult> {
+    const respond = fakeResponders.get(request.task);
+    const text = respond
+      ? respond(request)
+      : request.json ? '{}' : `[fake ${request.task}] ${request.prompt.split('\n')[0].slice(0, 200)}`;
+
+    // Roughly four characters per token, so usage accounting has something to count
+    return {
+      text,
+      promptTokens: Math.ceil((request.system.length + request.prompt.length) / 4),
+      completionTokens: Math.ceil(text.length / 4),
+    };
+  }
+}
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} must be set for LLM_PROVIDER=${process.env.LLM_PROVIDER}`);
+  }
+  return value;
+}
+
+let provider: LLMProvider | null = null;
+
+export function getLLMProvider(): LLMProvider {
+  if (provider) return provider;
+
+  const mode = process.env.LLM_PROVIDER || 'openai';
+
+  switch (mode) {
+    case 'openai':
+      provider = new OpenAICompatibleProvider('openai', process.env.OPENAI_MODEL || 'gpt-4o', new OpenAI({
+        apiKey: process.env.OPENAI_API_KEY,
+      }));
+      break;
+    case 'azure':
+      // Azure routes by deployment name, which also serves as the model here
+      provider = new OpenAICompatibleProvider('azure', requireEnv('AZURE_OPENAI_DEPLOYMENT'), new AzureOpenAI({
+        endpoint: requireEnv('AZURE_OPENAI_ENDPOINT'),
+        apiKey: requireEnv('AZURE_OPENAI_API_KEY'),
+        apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-10-21',
+        deployment: process.env.AZURE_OPENAI_DEPLOYMENT,
+      }));
+      break;
+    case 'local':
+      provider = new OpenAICompatibleProvider('local', requireEnv('LLM_MODEL'), new OpenAI({
+        baseURL: requireEnv('LLM_BASE_URL'),
+        apiKey: process.env.LLM_API_KEY || 'not-needed',
+      }));
+      break;
+    case 'fake':
+      provider = new FakeProvider();
+      break;
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${mode}`);
+  }
+
+  return provider;
+}
+
+// Swap the provider, e.g. for a fake in a test. Passing null goes back to LLM_PROVIDER.
+export function setLLMProvider(next: LLMProvider | null) {
+  provider = next;
+}
+
+// "provider:model", as recorded next to anything an LLM produced
+export function getLLMModelName(): string {
+  const current = getLLMProvider();
+  return `${current.name}:${current.model}`;
+}
+
+const TIMEOUT_MS = Number(process.env.LLM_TIMEOUT_MS) || 30_000;
+const MAX_RETRIES = 2;
+
+// Rate limits, server errors, dropped connections and our own timeout are worth another try
+function isRetryable(error: unknown): boolean {
+  if (error instanceof OpenAI.APIConnectionError) return true;
+  if (error instanceof OpenAI.APIError) {
+    return error.status === 408 || error.status === 429 || (error.status ?? 0) >= 500;
+  }
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+async function completeWithRetries(current: LLMProvider, request: LLMRequest): Promise<LLMResult> {
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), TIMEOUT_MS);
+
+    try {
+      return await current.complete(request, controller.signal);
+    } catch (error) {
+      if (attempt >= MAX_RETRIES || !isRetryable(error)) throw error;
+
+      const delay = 500 * 2 ** attempt;
+      console.warn(`⚠️ LLM ${request.task} attempt ${attempt + 1} failed, retrying in ${delay}ms:`, error instanceof Error ? error.message : error);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+// Add one request's tokens to the parent's running total for today. Accounting problems are logged
+// rather than failing the feature that made the request.
+async function recordUsage(parentId: string, task: string, model: string, result: LLMResult) {
+  try {
+    const date = startOfUtcDay(new Date());
+
+    await db.llmUsage.upsert({
+      where: {
+        parentId_date_task_model: { parentId, date, task, model },
+      },
+      update: {
+        requests: { increment: 1 },
+        promptTokens: { increment: result.promptTokens },
+        completionTokens: { increment: result.completionTokens },
+      },
+      create: {
+        parentId,
+        date,
+        task,
+        model,
+        requests: 1,
+        promptTokens: result.promptTokens,
+        completionTokens: result.completionTokens,
+      },
+    });
+  } catch (error) {
+    console.error('❌ Failed to record LLM usage:', error);
+  }
+}
+
+export interface RunPromptOptions {
+  parentId?: string; // Whose usage this counts towards
+}
+
+// Render a registered prompt, send it to the configured provider with a timeout and retries,
+// and count the tokens against the parent
+export async function runPrompt<Name extends PromptName>(
+  name: Name,
+  vars: PromptVars<Name>,
+  options: RunPromptOptions = {}
+): Promise<string> {
+  const definition = prompts[name] as (typeof prompts)[PromptName] & { render: (vars: PromptVars<Name>) => string };
+  const current = getLLMProvider();
+
+  const result = await completeWithRetries(current, {
+    task: name,
+    system: definition.system,
+    prompt: definition.render(vars),
+    maxTokens: definition.maxTokens,
+    temperature: definition.temperature,
+    json: definition.json,
+  });
+
+  if (options.parentId) {
+    await recordUsage(options.parentId, name, `${current.name}:${current.model}`, result);
+  }
+
+  return result.text;
+}
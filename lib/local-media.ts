@@ -0,0 +1,87 @@
+import { randomUUID } from 'crypto';
+import type { Response } from 'undici';
+import { BlockedUrlError, fetchPublicUrl } from '@/lib/public-fetch';
+
+// Video files a parent provides themselves (home videos, purchased downloads, anything they host).
+// Unlike YouTube embeds these can be saved on the child's device, which is what travel mode needs.
+// The parent gives a direct link to the file; its size and type are checked up front so devices can
+// budget their storage before downloading. Links to streams are checked here too, for STREAM_URL
+// videos that only ever play online.
+
+// Stored in an Int column; also more than any phone should spend on one video
+export const MAX_MEDIA_SIZE_BYTES = 2_000_000_000;
+
+// Formats expo-video plays from a local file on both iOS and Android
+const MEDIA_TYPES = ['video/mp4', 'video/x-m4v', 'video/quicktime', 'video/webm'];
+
+// HLS playlists; servers disagree on which of these to send
+const STREAM_TYPES = ['application/vnd.apple.mpegurl', 'application/x-mpegurl', 'audio/mpegurl'];
+
+const PROBE_TIMEOUT_MS = 10 * 1000;
+
+export interface MediaProbe {
+  sizeBytes: number | null; // Unknown for streams
+  mimeType: string;
+  isStream: boolean;
+}
+
+// Stands in for the YouTube ID, so the video still has a unique key per child
+export function createMediaKey(): string {
+  return `media-${randomUUID()}`;
+}
+
+export function isHttpsUrl(value: string): boolean {
+  try {
+    return new URL(value).protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// Checks the link points straight at a playable file or HLS stream on a public server and reads its
+// size, without downloading it. Returns an error message when it doesn't.
+export async function probeMedia(mediaUrl: string): Promise<MediaProbe | string> {
+  let response: Response;
+  try {
+    response = await fetchPublicUrl(mediaUrl, {
+      method: 'HEAD',
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+    });
+  } catch (error) {
+    return error instanceof BlockedUrlError
+      ? `The video link can't be used: ${error.message}`
+      : 'The video link could not be reached';
+  }
+
+  if (!response.ok) {
+    return `The video link returned an error (${response.status})`;
+  }
+
+  const mimeType = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+  const isPlaylistPath = new URL(response.url || mediaUrl).pathname.toLowerCase().endsWith('.m3u8');
+  if (STREAM_TYPES.includes(mimeType) || isPlaylistPath) {
+    return { sizeBytes: null, mimeType: 'application/x-mpegurl', isStream: true };
+  }
+
+  if (!MEDIA_TYPES.includes(mimeType)) {
+    return 'The link must go directly to an MP4, MOV or WebM file or an HLS stream, not a web page';
+  }
+
+  const sizeBytes = parseInt(response.headers.get('content-length') || '');
+  return { sizeBytes: sizeBytes > 0 ? sizeBytes : null, mimeType, isStream: false };
+}
+
+// Files a device can download need a known size that fits its budget. Returns an error message when
+// the probed file can't be downloaded.
+export function checkDownloadable(probe: MediaProbe): string | null {
+  if (probe.isStream) {
+    return 'Streams can\'t be downloaded; link to a single MP4, MOV or WebM file instead';
+  }
+  if (!probe.sizeBytes) {
+    return 'The file size could not be read; make sure the link downloads the file directly';
+  }
+  if (probe.sizeBytes > MAX_MEDIA_SIZE_BYTES) {
+    return 'Videos must be under 2 GB to download to a device';
+  }
+  return null;
+}
@@ -1,61 +1,126 @@
-import OpenAI from 'openai';
+import { getLLMModelName, registerFakeResponse, runPrompt } from '@/lib/llm';
+import { prompts } from '@/lib/prompts';
+import {
+  suitabilitySchema,
+  SuitabilityAssessment,
+  SuitabilityError,
+  SuitabilityInput,
+} from '@/lib/suitability';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// Summaries cached in VideoMetadata are made again when this changes
+export const SUMMARY_PROMPT_VERSION = prompts.summary.version;
+
+export interface SummaryOptions {
+  transcriptDigest?: string | null; // Summarized spoken content from lib/transcripts.ts
+  parentId?: string;                // Whose token usage this counts towards
+}
+
+// Throws when the provider fails or returns nothing; generateVideoSummary is the forgiving version
+export async function requestVideoSummary(
+  title: string,
+  description: string,
+  options: SummaryOptions = {}
+): Promise<string> {
+  const summary = (await runPrompt('summary', {
+    title,
+    description,
+    transcriptDigest: options.transcriptDigest,
+  }, { parentId: options.parentId })).trim();
+
+  if (!summary) {
+    throw new Error('Summary response was empty');
+  }
+
+  return summary;
+}
 
 export async function generateVideoSummary(
-  title: string, 
-  description: string, 
+  title: string,
+  description: string,
   _childAge?: number,
-  _childInterests?: string[]
+  _childInterests?: string[],
+  options: SummaryOptions = {}
 ): Promise<string> {
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: `You are a content summarizer that creates neutral, descriptive summaries of videos based solely on their title and description. Be objective and informative without being educational-focused unless the content is explicitly educational.`
-        },
-        {
-          role: "user",
-          content: `Create a brief, neutral summary (2-3 sentences) describing what this video is about based on the title and description provided.
-
-Video Title: ${title}
-Video Description: ${description.slice(0, 500)}...
-
-Simply describe what the video contains and what viewers can expect to see. Don't assume educational intent unless explicitly stated. Keep it factual and concise.`
-        }
-      ],
-      max_tokens: 120,
-      temperature: 0.5,
-    });
-
-    return response.choices[0]?.message?.content || 'Video content suitable for viewing.';
+    return await requestVideoSummary(title, description, options);
   } catch (error) {
-    console.error('OpenAI API error:', error);
+    console.error('LLM summary error:', error);
     return 'This video contains content that may be of interest.';
   }
 }
 
-export async function generateBulkSummaries(
-  videos: Array<{
-    title: string;
-    description: string;
-  }>,
-  childAge: number,
-  childInterests: string[]
-): Promise<string[]> {
-  const summaries = await Promise.allSettled(
-    videos.map(video => 
-      generateVideoSummary(video.title, video.description, childAge, childInterests)
-    )
-  );
-
-  return summaries.map(result => 
-    result.status === 'fulfilled' 
-      ? result.value 
-      : 'Educational video content suitable for children.'
-  );
-}
\ No newline at end of file
+// Summarize a chunked transcript: each chunk on its own, then the notes combined into one digest
+export async function summarizeTranscript(chunks: string[], parentId?: string): Promise<string> {
+  const notes: string[] = [];
+  for (const [index, chunk] of chunks.entries()) {
+    notes.push(await runPrompt('transcript-chunk', {
+      chunk,
+      part: index + 1,
+      parts: chunks.length,
+    }, { parentId }));
+  }
+
+  if (notes.length === 1) {
+    return notes[0].trim();
+  }
+
+  const digest = await runPrompt('transcript-digest', { notes }, { parentId });
+
+  return digest.trim();
+}
+
+// The fake provider gives every video a cautious, low-confidence all-clear
+registerFakeResponse('suitability', () => JSON.stringify({
+  ageBand: 'all',
+  educationalValue: 'low',
+  themes: { violence: 'none', fear: 'none', commercialism: 'none', language: 'none' },
+  notes: 'Assessed by the fake provider.',
+  confidence: 0.1,
+}));
+
+// Pull the first {...} block out of a reply, in case the model wrapped it in prose or a code fence
+function extractJson(text: string): unknown {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new SuitabilityError('Assessment was not JSON');
+  }
+
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch {
+    throw new SuitabilityError('Assessment was not valid JSON');
+  }
+}
+
+const MAX_SUITABILITY_ATTEMPTS = 2;
+
+// Ask the configured LLM for an assessment and validate it. A malformed reply is retried once
+// before giving up with a SuitabilityError.
+export async function assessVideoSuitability(video: SuitabilityInput, parentId?: string): Promise<SuitabilityAssessment> {
+  let lastError: unknown = null;
+
+  for (let attempt = 1; attempt <= MAX_SUITABILITY_ATTEMPTS; attempt++) {
+    try {
+      const reply = await runPrompt('suitability', video, { parentId });
+
+      const result = suitabilitySchema.safeParse(extractJson(reply));
+      if (!result.success) {
+        throw new SuitabilityError(`Assessment failed validation: ${result.error.issues.map(issue => issue.path.join('.') || issue.message).join(', ')}`);
+      }
+
+      return {
+        ...result.data,
+        model: getLLMModelName(),
+        usedTranscript: !!video.transcriptDigest,
+        assessedAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      lastError = error;
+      if (!(error instanceof SuitabilityError)) throw error;
+      console.warn(`⚠️ Suitability attempt ${attempt} for "${video.title}" failed:`, error.message);
+    }
+  }
+
+  throw lastError;
+}
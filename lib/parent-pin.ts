@@ -0,0 +1,97 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { db } from '@/lib/db';
+
+// The PIN a parent enters in the kids app before opening the parent area, switching profiles or
+// leaving the kids feed. Only a salted scrypt hash is stored. Too many wrong guesses lock the PIN for a
+// while; a parent who has forgotten it signs in to their account again and can then choose a new one.
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const PIN_KEY_LENGTH = 32;
+export const MAX_PIN_ATTEMPTS = 5;
+const PIN_LOCKOUT_MS = 15 * 60 * 1000;
+const PIN_RESET_WINDOW_MS = 10 * 60 * 1000; // How recent a sign-in has to be to reset a forgotten PIN
+
+export type PinCheckResult =
+  | { status: 'ok' }
+  | { status: 'not-set' }
+  | { status: 'wrong'; attemptsLeft: number }
+  | { status: 'locked'; lockedUntil: Date };
+
+// Returns an error message, or null when the PIN is valid
+export function validatePin(pin: unknown): string | null {
+  if (typeof pin !== 'string' || !/^\d{4,6}$/.test(pin)) {
+    return 'PIN must be 4 to 6 digits';
+  }
+  return null;
+}
+
+export async function hashPin(pin: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(pin, salt, PIN_KEY_LENGTH);
+  return `${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+async function pinMatches(pin: string, pinHash: string): Promise<boolean> {
+  const [salt, expected] = pinHash.split(':');
+  const hash = await scrypt(pin, Buffer.from(salt, 'hex'), PIN_KEY_LENGTH);
+  return crypto.timingSafeEqual(hash, Buffer.from(expected, 'hex'));
+}
+
+export function isPinLocked(lockedUntil: Date | null): lockedUntil is Date {
+  return lockedUntil !== null && lockedUntil > new Date();
+}
+
+// Whether the parent signed in recently enough to reset a forgotten PIN without knowing it
+export function canResetPin(sessionCreatedAt: number): boolean {
+  return Date.now() - sessionCreatedAt < PIN_RESET_WINDOW_MS;
+}
+
+// Checks a PIN attempt, counting wrong ones towards the lockout
+export async function checkParentPin(parentId: string, pin: string): Promise<PinCheckResult> {
+  const parent = await db.parent.findUniqueOrThrow({
+    where: { id: parentId },
+    select: { pinHash: true, pinLockedUntil: true },
+  });
+
+  if (!parent.pinHash) {
+    return { status: 'not-set' };
+  }
+  if (isPinLocked(parent.pinLockedUntil)) {
+    return { status: 'locked', lockedUntil: parent.pinLockedUntil };
+  }
+
+  if (await pinMatches(pin, parent.pinHash)) {
+    await db.parent.update({
+      where: { id: parentId },
+      data: { pinFailedAttempts: 0, pinLockedUntil: null },
+    });
+    return { status: 'ok' };
+  }
+
+  // Counted in the database, so guesses sent in parallel can't get past the limit
+  const updated = await db.parent.update({
+    where: { id: parentId },
+    data: { pinFailedAttempts: { increment: 1 } },
+    select: { pinFailedAttempts: true },
+  });
+
+  if (updated.pinFailedAttempts >= MAX_PIN_ATTEMPTS) {
+    const lockedUntil = new Date(Date.now() + PIN_LOCKOUT_MS);
+    await db.parent.update({
+      where: { id: parentId },
+      data: { pinFailedAttempts: 0, pinLockedUntil: lockedUntil },
+    });
+    return { status: 'locked', lockedUntil };
+  }
+
+  return { status: 'wrong', attemptsLeft: MAX_PIN_ATTEMPTS - updated.pinFailedAttempts };
+}
+
+export async function setParentPin(parentId: string, pin: string): Promise<void> {
+  await db.parent.update({
+    where: { id: parentId },
+    data: { pinHash: await hashPin(pin), pinFailedAttempts: 0, pinLockedUntil: null },
+  });
+}
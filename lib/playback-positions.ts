@@ -0,0 +1,79 @@
+import { ActivityType } from '@prisma/client';
+import { db } from '@/lib/db';
+import { durationSeconds } from '@/lib/diversity';
+
+// Where a child left each video, from the positions the player records when it pauses or exits.
+// A later COMPLETE (or an exit after completing), or a position close to the end, means the video
+// was finished and starts over.
+
+export interface PlaybackPosition {
+  youtubeId: string;
+  position: number; // Seconds
+  progress: number | null; // 0-1, when the duration is known
+  updatedAt: Date;
+}
+
+// Older positions are forgotten; nobody remembers where they were in a cartoon from last month
+const RESUME_WINDOW_DAYS = 30;
+
+// Closer to the start than this isn't worth resuming
+const MIN_RESUME_SECONDS = 10;
+
+// Within this many seconds of the end (usually credits), or past this share, counts as finished
+const FINISHED_MARGIN_SECONDS = 20;
+const FINISHED_SHARE = 0.95;
+
+const POSITION_TYPES: ActivityType[] = [ActivityType.PAUSE, ActivityType.EXIT, ActivityType.COMPLETE];
+
+function isNearEnd(position: number, duration: number | null): boolean {
+  if (!duration) return false;
+  return position >= duration - FINISHED_MARGIN_SECONDS || position / duration >= FINISHED_SHARE;
+}
+
+// Resume positions for a child, keyed by YouTube ID. Only videos with somewhere to resume to appear.
+export async function getPlaybackPositions(childId: string, youtubeIds?: string[]): Promise<Map<string, PlaybackPosition>> {
+  const since = new Date(Date.now() - RESUME_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+  const activities = await db.videoActivity.findMany({
+    where: {
+      childId,
+      activityType: { in: POSITION_TYPES },
+      createdAt: { gte: since },
+      ...(youtubeIds && { youtubeId: { in: youtubeIds } }),
+    },
+    orderBy: { createdAt: 'desc' },
+    select: {
+      youtubeId: true,
+      activityType: true,
+      videoPosition: true,
+      videoDuration: true,
+      completed: true,
+      createdAt: true,
+    },
+  });
+
+  const positions = new Map<string, PlaybackPosition>();
+  const decided = new Set<string>();
+
+  // Newest first, so the first activity seen for a video decides it
+  for (const activity of activities) {
+    if (decided.has(activity.youtubeId)) continue;
+    decided.add(activity.youtubeId);
+
+    const duration = durationSeconds(activity.videoDuration);
+    if (activity.activityType === ActivityType.COMPLETE || activity.completed ||
+      activity.videoPosition < MIN_RESUME_SECONDS ||
+      isNearEnd(activity.videoPosition, duration)) {
+      continue;
+    }
+
+    positions.set(activity.youtubeId, {
+      youtubeId: activity.youtubeId,
+      position: activity.videoPosition,
+      progress: duration ? Math.min(activity.videoPosition / duration, 1) : null,
+      updatedAt: activity.createdAt,
+    });
+  }
+
+  return positions;
+}
@@ -0,0 +1,240 @@
+import { db } from '@/lib/db';
+
+export const playlistInclude = {
+  items: {
+    orderBy: { position: 'asc' as const },
+    include: {
+      approvedVideo: {
+        select: {
+          id: true,
+          youtubeId: true,
+          title: true,
+          description: true,
+          thumbnail: true,
+          channelName: true,
+          duration: true,
+          summary: true,
+          source: true,
+          mediaUrl: true,
+        },
+      },
+    },
+  },
+  assignments: {
+    include: {
+      child: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+  },
+};
+
+export interface PlaylistInput {
+  title: string;
+  description?: string | null;
+  approvedVideoIds: string[];
+  childIds: string[];
+}
+
+// Check a create/update payload against the parent's own videos and children.
+// Returns an error message, or null when the input is valid.
+export async function validatePlaylistInput(parentId: string, input: PlaylistInput): Promise<string | null> {
+  if (!input.title || !input.title.trim()) {
+    return 'Title is required';
+  }
+
+  if (!Array.isArray(input.approvedVideoIds) || !Array.isArray(input.childIds)) {
+    return 'approvedVideoIds and childIds must be arrays';
+  }
+
+  // The same video may appear only once per playlist
+  if (new Set(input.approvedVideoIds).size !== input.approvedVideoIds.length) {
+    return 'A video can only be added to a playlist once';
+  }
+
+  const videos = await db.approvedVideo.findMany({
+    where: {
+      id: { in: input.approvedVideoIds },
+      child: { parentId },
+    },
+    select: { youtubeId: true, title: true },
+  });
+
+  if (videos.length !== input.approvedVideoIds.length) {
+    return 'One or more approved videos not found';
+  }
+
+  const uniqueChildIds = Array.from(new Set(input.childIds));
+  const childCount = await db.child.count({
+    where: {
+      id: { in: uniqueChildIds },
+      parentId,
+    },
+  });
+
+  if (childCount !== uniqueChildIds.length) {
+    return 'One or more children not found';
+  }
+
+  // Approval is per child, so every assigned child needs their own approval of every video; otherwise
+  // a playlist would hand one child's approvals (and content filter overrides) to another
+  const approvals = await db.approvedVideo.findMany({
+    where: {
+      childId: { in: uniqueChildIds },
+      youtubeId: { in: videos.map(video => video.youtubeId) },
+    },
+    select: { childId: true, youtubeId: true },
+  });
+  const approved = new Set(approvals.map(approval => `${approval.childId}:${approval.youtubeId}`));
+
+  const unapproved = videos.find(video =>
+    uniqueChildIds.some(childId => !approved.has(`${childId}:${video.youtubeId}`))
+  );
+  if (unapproved) {
+    return `"${unapproved.title}" isn't approved for every child this playlist is assigned to`;
+  }
+
+  return null;
+}
+
+// Items and assignments are replaced wholesale; progress on items that stay in the playlist is kept
+export async function savePlaylist(parentId: string, input: PlaylistInput, playlistId?: string) {
+  const childIds = Array.from(new Set(input.childIds));
+
+  return db.$transaction(async (tx) => {
+    const playlist = playlistId
+      ? await tx.playlist.update({
+          where: { id: playlistId },
+          data: {
+            title: input.title.trim(),
+            description: input.description?.trim() || null,
+          },
+        })
+      : await tx.playlist.create({
+          data: {
+            parentId,
+            title: input.title.trim(),
+            description: input.description?.trim() || null,
+          },
+        });
+
+    const existingItems = await tx.playlistItem.findMany({
+      where: { playlistId: playlist.id },
+    });
+    const existingByVideo = new Map(existingItems.map(item => [item.approvedVideoId, item]));
+
+    await tx.playlistItem.deleteMany({
+      where: {
+        playlistId: playlist.id,
+        approvedVideoId: { notIn: input.approvedVideoIds },
+      },
+    });
+
+    for (const [position, approvedVideoId] of input.approvedVideoIds.entries()) {
+      const existing = existingByVideo.get(approvedVideoId);
+      if (existing) {
+        if (existing.position !== position) {
+          await tx.playlistItem.update({
+            where: { id: existing.id },
+            data: { position },
+          });
+        }
+      } else {
+        await tx.playlistItem.create({
+          data: { playlistId: playlist.id, approvedVideoId, position },
+        });
+      }
+    }
+
+    await tx.playlistAssignment.deleteMany({
+      where: {
+        playlistId: playlist.id,
+        childId: { notIn: childIds },
+      },
+    });
+    await tx.playlistAssignment.createMany({
+      data: childIds.map(childId => ({ playlistId: playlist.id, childId })),
+      skipDuplicates: true,
+    });
+
+    return tx.playlist.findUniqueOrThrow({
+      where: { id: playlist.id },
+      include: playlistInclude,
+    });
+  });
+}
+
+// Playlists assigned to a child, with per-item completion and the next item to play
+export async function getPlaylistsForChild(childId: string) {
+  const playlists = await db.playlist.findMany({
+    where: {
+      assignments: { some: { childId } },
+    },
+    include: {
+      items: {
+        orderBy: { position: 'asc' },
+        include: {
+          approvedVideo: playlistInclude.items.include.approvedVideo,
+          progress: {
+            where: { childId },
+            select: { completedAt: true },
+          },
+        },
+      },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  // Items play as the child's own approval of the video; any the parent has since unapproved for
+  // this child are left out
+  const ownApprovals = await db.approvedVideo.findMany({
+    where: {
+      childId,
+      youtubeId: { in: playlists.flatMap(playlist => playlist.items.map(item => item.approvedVideo.youtubeId)) },
+    },
+    select: { id: true, youtubeId: true, source: true, mediaUrl: true },
+  });
+  const approvalByVideo = new Map(ownApprovals.map(approval => [approval.youtubeId, approval]));
+
+  return playlists.map(playlist => {
+    const items = playlist.items.filter(item => approvalByVideo.has(item.approvedVideo.youtubeId)).map(item => {
+      const approval = approvalByVideo.get(item.approvedVideo.youtubeId)!;
+
+      return {
+        id: item.id,
+        position: item.position,
+        completed: item.progress.length > 0,
+        completedAt: item.progress[0]?.completedAt ?? null,
+        video: {
+          id: item.approvedVideo.youtubeId,
+          approvedVideoId: approval.id,
+          title: item.approvedVideo.title,
+          description: item.approvedVideo.description,
+          thumbnail: item.approvedVideo.thumbnail,
+          channelName: item.approvedVideo.channelName,
+          duration: item.approvedVideo.duration,
+          summary: item.approvedVideo.summary,
+          source: approval.source,
+          mediaUrl: approval.mediaUrl,
+        },
+      };
+    });
+
+    const completedCount = items.filter(item => item.completed).length;
+
+    return {
+      id: playlist.id,
+      title: playlist.title,
+      description: playlist.description,
+      items,
+      completedCount,
+      totalCount: items.length,
+      nextItemId: items.find(item => !item.completed)?.id ?? null,
+      createdAt: playlist.createdAt,
+      updatedAt: playlist.updatedAt,
+    };
+  });
+}
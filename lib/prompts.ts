@@ -0,0 +1,114 @@
+import { AGE_BANDS, EDUCATIONAL_VALUES, THEME_LEVELS, THEMES } from '@/lib/suitability';
+import { DURATION_FILTERS, SORT_ORDERS, UPLOAD_DATE_FILTERS, VIDEO_CATEGORIES } from '@/lib/youtube';
+
+// Every prompt the app sends to an LLM, by name. Bump a prompt's version whenever its wording
+// changes: cached results (VideoMetadata summaries) are keyed by it and get made again.
+
+export interface PromptDefinition<Vars> {
+  version: number;
+  system: string;
+  maxTokens: number;
+  temperature: number;
+  json?: boolean; // Ask for a single JSON object back
+  render: (vars: Vars) => string;
+}
+
+const TRANSCRIPT_SYSTEM_PROMPT = `You condense video transcripts for parents of young children. Describe what is said and shown in plain, neutral language. Keep any mention of violence, scary moments, bad language or sales pitches, since parents rely on these notes.`;
+
+const summary: PromptDefinition<{ title: string; description: string; transcriptDigest?: string | null }> = {
+  version: 2,
+  system: `You are a content summarizer that creates neutral, descriptive summaries of videos based on their title, description and, when available, what is said in them. Be objective and informative without being educational-focused unless the content is explicitly educational.`,
+  maxTokens: 120,
+  temperature: 0.5,
+  render: ({ title, description, transcriptDigest }) => `Create a brief, neutral summary (2-3 sentences) describing what this video is about based on the information provided.${transcriptDigest ? ' Prefer the spoken content over the description when they disagree.' : ''}
+
+Video Title: ${title}
+Video Description: ${description.slice(0, 500)}...${transcriptDigest ? `
+Spoken Content: ${transcriptDigest}` : ''}
+
+Simply describe what the video contains and what viewers can expect to see. Don't assume educational intent unless explicitly stated. Keep it factual and concise.`,
+};
+
+const transcriptChunk: PromptDefinition<{ chunk: string; part: number; parts: number }> = {
+  version: 1,
+  system: TRANSCRIPT_SYSTEM_PROMPT,
+  maxTokens: 250,
+  temperature: 0.2,
+  render: ({ chunk, part, parts }) => `Part ${part} of ${parts} of a video transcript. Summarize it in 3-5 sentences.\n\n${chunk}`,
+};
+
+const transcriptDigest: PromptDefinition<{ notes: string[] }> = {
+  version: 1,
+  system: TRANSCRIPT_SYSTEM_PROMPT,
+  maxTokens: 400,
+  temperature: 0.2,
+  render: ({ notes }) => `These are notes on consecutive parts of one video, in order. Combine them into a single summary of at most 8 sentences.\n\n${notes.map((note, index) => `Part ${index + 1}: ${note.trim()}`).join('\n\n')}`,
+};
+
+const suitability: PromptDefinition<{
+  title: string;
+  description: string;
+  channelName: string;
+  tags?: string[];
+  duration?: string;
+  transcriptDigest?: string | null;
+}> = {
+  version: 2,
+  system: `You review YouTube videos for parents of young children. You see the title, channel, tags and description, and sometimes a summary of what is said in the video. Judge what the video most likely contains, trust the spoken content over the description, and lower your confidence when there is little to go on.
+
+Reply with one JSON object and nothing else:
+{
+  "ageBand": one of ${AGE_BANDS.map(band => `"${band}"`).join(', ')} (youngest suitable age),
+  "educationalValue": one of ${EDUCATIONAL_VALUES.map(value => `"${value}"`).join(', ')},
+  "themes": { ${THEMES.map(theme => `"${theme}": one of ${THEME_LEVELS.map(level => `"${level}"`).join(', ')}`).join(', ')} },
+  "notes": one or two sentences explaining anything a parent should know,
+  "confidence": a number from 0 to 1
+}
+
+"commercialism" covers toy unboxings, product placement and calls to buy. "fear" covers jump scares, horror and distressing scenes.`,
+  maxTokens: 300,
+  temperature: 0,
+  json: true,
+  render: video => `Title: ${video.title}
+Channel: ${video.channelName}
+Duration: ${video.duration || 'unknown'}
+Tags: ${(video.tags || []).slice(0, 20).join(', ') || 'none'}
+Description: ${video.description.slice(0, 1500)}${video.transcriptDigest ? `
+Spoken content: ${video.transcriptDigest}` : ''}`,
+};
+
+const quoted = (values: readonly string[]) => values.map(value => `"${value}"`).join(', ');
+
+const smartSearch: PromptDefinition<{ request: string; childAge: number; ageGroup: string; interests: string[] }> = {
+  version: 1,
+  system: `You turn a parent's description of what they want their child to watch into YouTube searches. Write 2-4 short search queries (a few words each) that together cover the request, phrased to find child-friendly videos for the child's age. Only set a filter when the parent clearly asked for it.
+
+Reply with one JSON object and nothing else:
+{
+  "queries": ["..."],
+  "filters": {
+    "category": one of ${quoted(VIDEO_CATEGORIES)} (optional),
+    "duration": one of ${quoted(DURATION_FILTERS)} (optional; short is under 4 minutes, long is over 20),
+    "uploadDate": one of ${quoted(UPLOAD_DATE_FILTERS)} (optional),
+    "sortBy": one of ${quoted(SORT_ORDERS)} (optional)
+  },
+  "topics": up to 6 single words or short phrases the best videos would mention, including mood words like "calm"
+}`,
+  maxTokens: 250,
+  temperature: 0.3,
+  json: true,
+  render: ({ request, childAge, ageGroup, interests }) => `Parent's request: ${request}
+Child: ${childAge} years old (${ageGroup})
+Child's interests: ${interests.join(', ') || 'none given'}`,
+};
+
+export const prompts = {
+  summary,
+  'transcript-chunk': transcriptChunk,
+  'transcript-digest': transcriptDigest,
+  suitability,
+  'smart-search': smartSearch,
+};
+
+export type PromptName = keyof typeof prompts;
+export type PromptVars<Name extends PromptName> = (typeof prompts)[Name] extends PromptDefinition<infer Vars> ? Vars : never;
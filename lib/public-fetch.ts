@@ -0,0 +1,117 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { Agent, fetch, RequestInit, Response } from 'undici';
+
+// Fetches for links parents paste in. The server makes these requests itself, so without checks a link
+// (or a redirect from one) could reach the database, the cloud metadata endpoint or anything else only
+// reachable from inside the network. Every hop must be https and resolve only to public addresses, and
+// the connection goes to the addresses that were checked rather than a second lookup's answer.
+
+const MAX_REDIRECTS = 5;
+
+// Loopback, private, link-local, shared (CGNAT), multicast and reserved ranges
+const PRIVATE_ADDRESSES = new BlockList();
+PRIVATE_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('192.0.0.0', 24, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('198.18.0.0', 15, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('224.0.0.0', 3, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('::', 127, 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('64:ff9b::', 96, 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('ff00::', 8, 'ipv6');
+
+export class BlockedUrlError extends Error {}
+
+export function isPublicAddress(address: string): boolean {
+  // IPv4 written as IPv6 (::ffff:127.0.0.1) is checked as the IPv4 address it is
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+  if (mapped) return isPublicAddress(mapped);
+
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !PRIVATE_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Every address the host resolves to, or a BlockedUrlError if any of them isn't public
+async function resolvePublicAddresses(host: string): Promise<{ address: string; family: number }[]> {
+  let addresses: { address: string; family: number }[];
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true });
+  } catch {
+    throw new BlockedUrlError(`${host} could not be found`);
+  }
+
+  if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+    throw new BlockedUrlError(`${host} is not a public address`);
+  }
+  return addresses;
+}
+
+// Used for every connection the agent opens, so a host can't pass the check with a public address and
+// then be connected to at a private one (DNS rebinding)
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  resolvePublicAddresses(hostname).then(
+    addresses => {
+      if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    },
+    error => callback(error, '', 0)
+  );
+};
+
+const publicAgent = new Agent({ connect: { lookup: publicLookup } });
+
+// Throws a BlockedUrlError unless the URL is https and, when its host is written as an IP address
+// (which connects without a lookup), that address is public
+function checkPublicUrl(url: URL): void {
+  if (url.protocol !== 'https:') {
+    throw new BlockedUrlError('Only https:// links can be used');
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) !== 0 && !isPublicAddress(host)) {
+    throw new BlockedUrlError(`${host} is not a public address`);
+  }
+}
+
+// fetch() for a URL from outside, following redirects one at a time so each hop is checked before
+// it's requested. Throws a BlockedUrlError for links that aren't allowed, and whatever fetch throws
+// for ones that can't be reached.
+export async function fetchPublicUrl(
+  url: string,
+  init: Omit<RequestInit, 'redirect' | 'dispatcher'> = {}
+): Promise<Response> {
+  let current = new URL(url);
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    checkPublicUrl(current);
+
+    let response: Response;
+    try {
+      response = await fetch(current, { ...init, redirect: 'manual', dispatcher: publicAgent });
+    } catch (error) {
+      // fetch wraps what the lookup threw
+      const cause = error instanceof Error ? error.cause : undefined;
+      throw cause instanceof BlockedUrlError ? cause : error;
+    }
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+
+    current = new URL(location, current);
+  }
+
+  throw new BlockedUrlError('The link redirects too many times');
+}
@@ -0,0 +1,232 @@
+import { ActivityType, VideoActivity } from '@prisma/client';
+import { db } from '@/lib/db';
+import { ContentCategory, getAgeGroupForChild } from '@/lib/growth-categories';
+import { DurationBucket, durationBucket, matchingSkillAreas } from '@/lib/diversity';
+import { ChannelRules, YouTubeVideo } from '@/lib/youtube';
+
+// Re-orders a page of recommendations using what the child actually watches: channels whose videos
+// they finish (or rewatch) move up, channels they keep leaving move down, video lengths they tend to
+// finish are preferred, and growth categories they've seen little of get a nudge. Every video comes
+// back with the reasons it was placed where it is, for the "why recommended" line.
+
+// Only recent viewing counts; a five-year-old's tastes from last year don't say much
+export const PROFILE_WINDOW_DAYS = 90;
+const MAX_PROFILE_ACTIVITIES = 2000;
+
+// Below this many watched videos the history is too thin to learn durations or category balance from
+const MIN_VIDEOS_FOR_PATTERNS = 5;
+
+const DURATION_LABELS: Record<DurationBucket, string> = {
+  short: 'short videos',
+  medium: 'medium-length videos',
+  long: 'longer videos',
+};
+
+type ProfileActivity = Pick<VideoActivity, 'youtubeId' | 'activityType' | 'completionRate' | 'completed' | 'videoTitle' | 'channelName' | 'videoDuration'>;
+
+interface WatchedVideo {
+  title: string;
+  channelName: string;
+  duration: DurationBucket | null;
+  plays: number;
+  completions: number;
+  exits: number;
+  bestCompletion: number;
+}
+
+interface Tally {
+  videos: number;
+  finished: number;
+  rewatched: number;
+  abandoned: number;
+}
+
+export interface WatchProfile {
+  videosWatched: number;
+  channels: Map<string, Tally & { name: string }>; // Keyed by lower-cased channel name
+  durations: Record<DurationBucket, Tally>;
+  categoryCounts: Map<string, number>; // Growth category id -> watched videos
+  categories: ContentCategory[];
+}
+
+export interface RankingChild {
+  name: string;
+  birthday: Date;
+  interests: string[];
+}
+
+export interface RankingOptions {
+  channelRules?: ChannelRules;
+  // False keeps the incoming order (the parent picked a sort) but still explains each video
+  reorder?: boolean;
+  // Shown when nothing more specific applies, e.g. "Matches your search"
+  defaultReason?: string;
+}
+
+export type RankedVideo<T extends YouTubeVideo> = T & { whyRecommended: string[] };
+
+const emptyTally = (): Tally => ({ videos: 0, finished: 0, rewatched: 0, abandoned: 0 });
+
+function addToTally(tally: Tally, video: WatchedVideo) {
+  const finished = video.completions > 0 || video.bestCompletion >= 90;
+  tally.videos += 1;
+  if (finished) tally.finished += 1;
+  if (video.plays >= 2 || video.completions >= 2) tally.rewatched += 1;
+  if (!finished && video.exits > 0 && video.bestCompletion < 50) tally.abandoned += 1;
+}
+
+export function buildWatchProfile(activities: ProfileActivity[], birthday: Date): WatchProfile {
+  const categories = getAgeGroupForChild(birthday).categories;
+  const videos = new Map<string, WatchedVideo>();
+
+  for (const activity of activities) {
+    const video = videos.get(activity.youtubeId) ?? {
+      title: activity.videoTitle,
+      channelName: activity.channelName,
+      duration: durationBucket(activity.videoDuration),
+      plays: 0,
+      completions: 0,
+      exits: 0,
+      bestCompletion: 0,
+    };
+
+    if (activity.activityType === ActivityType.PLAY) video.plays += 1;
+    if (activity.activityType === ActivityType.COMPLETE || activity.completed) video.completions += 1;
+    if (activity.activityType === ActivityType.EXIT) video.exits += 1;
+    video.bestCompletion = Math.max(video.bestCompletion, activity.completionRate ?? 0);
+    videos.set(activity.youtubeId, video);
+  }
+
+  const profile: WatchProfile = {
+    videosWatched: 0,
+    channels: new Map(),
+    durations: { short: emptyTally(), medium: emptyTally(), long: emptyTally() },
+    categoryCounts: new Map(),
+    categories,
+  };
+
+  for (const video of videos.values()) {
+    // A click that never turned into a play says nothing about what they enjoy
+    if (video.plays === 0 && video.completions === 0 && video.exits === 0) continue;
+    profile.videosWatched += 1;
+
+    const key = video.channelName.toLowerCase();
+    const channel = profile.channels.get(key) ?? { name: video.channelName, ...emptyTally() };
+    addToTally(channel, video);
+    profile.channels.set(key, channel);
+
+    if (video.duration) addToTally(profile.durations[video.duration], video);
+
+    for (const category of matchingSkillAreas(video.title, categories)) {
+      profile.categoryCounts.set(category.id, (profile.categoryCounts.get(category.id) || 0) + 1);
+    }
+  }
+
+  return profile;
+}
+
+export async function getWatchProfile(childId: string, birthday: Date): Promise<WatchProfile> {
+  const since = new Date(Date.now() - PROFILE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+  const activities = await db.videoActivity.findMany({
+    where: { childId, createdAt: { gte: since } },
+    orderBy: { createdAt: 'desc' },
+    take: MAX_PROFILE_ACTIVITIES,
+    select: {
+      youtubeId: true,
+      activityType: true,
+      completionRate: true,
+      completed: true,
+      videoTitle: true,
+      channelName: true,
+      videoDuration: true,
+    },
+  });
+
+  return buildWatchProfile(activities, birthday);
+}
+
+const finishRate = (tally: Tally) => tally.videos > 0 ? tally.finished / tally.videos : 0;
+
+export function rankRecommendations<T extends YouTubeVideo>(
+  videos: T[],
+  profile: WatchProfile,
+  child: RankingChild,
+  options: RankingOptions = {}
+): RankedVideo<T>[] {
+  const { channelRules, reorder = true, defaultReason } = options;
+  const hasPatterns = profile.videosWatched >= MIN_VIDEOS_FOR_PATTERNS;
+  const overallFinishRate = hasPatterns
+    ? Object.values(profile.durations).reduce((sum, tally) => sum + tally.finished, 0) /
+      Math.max(Object.values(profile.durations).reduce((sum, tally) => sum + tally.videos, 0), 1)
+    : 0;
+
+  // Categories watched less than an even share are the ones to bring back into the mix
+  const evenShare = profile.categories.length > 0 ? profile.videosWatched / profile.categories.length : 0;
+
+  const scored = videos.map((video, index) => {
+    const reasons: string[] = [];
+    // Start from the search's own order so ties and thin histories keep YouTube's relevance
+    let score = 1 - index / Math.max(videos.length, 1);
+
+    if (channelRules?.allowed.has(video.channelId)) {
+      score += 1;
+      reasons.push(`From ${video.channelName}, a channel you trust`);
+    }
+
+    const channel = profile.channels.get(video.channelName.toLowerCase());
+    if (channel) {
+      // Two or three videos are enough to trust a channel pattern
+      const confidence = Math.min(channel.videos, 3) / 3;
+      const affinity = (channel.finished + channel.rewatched - 1.5 * channel.abandoned) / channel.videos;
+      score += 0.4 * affinity * confidence;
+
+      if (channel.rewatched > 0 && affinity > 0) {
+        reasons.push(`${child.name} rewatches videos from ${channel.name}`);
+      } else if (channel.finished > 0 && affinity > 0) {
+        reasons.push(`${child.name} usually finishes videos from ${channel.name}`);
+      }
+    }
+
+    const interest = child.interests.find(interest =>
+      interest.length > 1 && `${video.title} ${video.tags.join(' ')}`.toLowerCase().includes(interest.toLowerCase())
+    );
+    if (interest) {
+      score += 0.1;
+      reasons.push(`Matches ${child.name}'s interest in ${interest}`);
+    }
+
+    const bucket = durationBucket(video.duration);
+    if (hasPatterns && bucket) {
+      const tally = profile.durations[bucket];
+      if (tally.videos >= 3) {
+        const difference = finishRate(tally) - overallFinishRate;
+        score += 0.3 * difference;
+        if (difference >= 0.15) {
+          reasons.push(`${child.name} tends to finish ${DURATION_LABELS[bucket]}`);
+        }
+      }
+    }
+
+    if (hasPatterns) {
+      const underWatched = matchingSkillAreas(video.title, profile.categories)
+        .filter(category => (profile.categoryCounts.get(category.id) || 0) < evenShare / 2);
+      if (underWatched.length > 0) {
+        score += 0.15;
+        reasons.push(`Adds some ${underWatched[0].name.toLowerCase()}, which ${child.name} hasn't watched much`);
+      }
+    }
+
+    if (reasons.length === 0 && defaultReason) {
+      reasons.push(defaultReason);
+    }
+
+    return { video: { ...video, whyRecommended: reasons }, score };
+  });
+
+  if (reorder) {
+    scored.sort((a, b) => b.score - a.score);
+  }
+
+  return scored.map(entry => entry.video);
+}
@@ -0,0 +1,163 @@
+import { RecurrenceFrequency, ScheduleRule } from '@prisma/client';
+import { db } from '@/lib/db';
+import { formatDateOnly, isValidDateString, parseDateOnly } from '@/lib/timezone';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RecurrenceInput {
+  frequency: RecurrenceFrequency;
+  daysOfWeek?: number[];
+  intervalDays?: number | null;
+  endDate?: string | null; // YYYY-MM-DD, inclusive
+}
+
+type RuleTiming = Pick<ScheduleRule, 'frequency' | 'daysOfWeek' | 'intervalDays' | 'startDate' | 'endDate'>;
+
+// Schedule dates are whole days stored at UTC midnight, the same as ScheduledVideo.scheduledDate
+function toDayNumber(date: Date): number {
+  return Math.floor(date.getTime() / DAY_MS);
+}
+
+// Returns an error message, or null when the recurrence is valid
+export function validateRecurrence(recurrence: RecurrenceInput, startDate: string): string | null {
+  if (!Object.values(RecurrenceFrequency).includes(recurrence.frequency)) {
+    return 'Invalid recurrence frequency';
+  }
+
+  if (recurrence.frequency === RecurrenceFrequency.WEEKLY) {
+    const days = recurrence.daysOfWeek || [];
+    if (days.length === 0 || days.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+      return 'Weekly schedules need at least one day of the week';
+    }
+  }
+
+  if (recurrence.frequency === RecurrenceFrequency.INTERVAL) {
+    const interval = recurrence.intervalDays;
+    if (!interval || !Number.isInteger(interval) || interval < 1) {
+      return 'Interval must be a whole number of days';
+    }
+  }
+
+  if (!isValidDateString(startDate) || (recurrence.endDate && !isValidDateString(recurrence.endDate))) {
+    return 'Dates must be in YYYY-MM-DD format';
+  }
+
+  if (recurrence.endDate && parseDateOnly(recurrence.endDate) < parseDateOnly(startDate)) {
+    return 'End date must be on or after the start date';
+  }
+
+  return null;
+}
+
+// Normalize the input into the columns stored on ScheduleRule
+export function toRuleData(recurrence: RecurrenceInput, startDate: string) {
+  return {
+    frequency: recurrence.frequency,
+    daysOfWeek: recurrence.frequency === RecurrenceFrequency.WEEKLY
+      ? Array.from(new Set(recurrence.daysOfWeek)).sort()
+      : [],
+    intervalDays: recurrence.frequency === RecurrenceFrequency.INTERVAL ? recurrence.intervalDays ?? null : null,
+    startDate: parseDateOnly(startDate),
+    endDate: recurrence.endDate ? parseDateOnly(recurrence.endDate) : null,
+  };
+}
+
+export function occursOn(rule: RuleTiming, date: Date): boolean {
+  const day = toDayNumber(date);
+  const start = toDayNumber(rule.startDate);
+
+  if (day < start) return false;
+  if (rule.endDate && day > toDayNumber(rule.endDate)) return false;
+
+  const weekday = date.getUTCDay();
+
+  switch (rule.frequency) {
+    case RecurrenceFrequency.DAILY:
+      return true;
+    case RecurrenceFrequency.WEEKDAYS:
+      return weekday >= 1 && weekday <= 5;
+    case RecurrenceFrequency.WEEKLY:
+      return rule.daysOfWeek.includes(weekday);
+    case RecurrenceFrequency.INTERVAL:
+      return (day - start) % (rule.intervalDays || 1) === 0;
+    default:
+      return false;
+  }
+}
+
+export function describeRecurrence(rule: RuleTiming): string {
+  const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+  let description: string;
+  switch (rule.frequency) {
+    case RecurrenceFrequency.DAILY:
+      description = 'Every day';
+      break;
+    case RecurrenceFrequency.WEEKDAYS:
+      description = 'Every weekday';
+      break;
+    case RecurrenceFrequency.WEEKLY:
+      description = `Every ${rule.daysOfWeek.map(day => dayNames[day]).join(', ')}`;
+      break;
+    case RecurrenceFrequency.INTERVAL:
+      description = rule.intervalDays === 1 ? 'Every day' : `Every ${rule.intervalDays} days`;
+      break;
+    default:
+      description = 'Custom';
+  }
+
+  if (rule.endDate) {
+    description += ` until ${formatDateOnly(rule.endDate)}`;
+  }
+
+  return description;
+}
+
+// Materialize the child's recurring schedules for one date. Existing rows (including watched
+// ones and carried-over copies) are left alone thanks to the unique constraint.
+export async function expandScheduleRules(childId: string, date: string): Promise<number> {
+  const scheduledDate = parseDateOnly(date);
+
+  const rules = await db.scheduleRule.findMany({
+    where: {
+      childId,
+      startDate: { lte: scheduledDate },
+      OR: [
+        { endDate: null },
+        { endDate: { gte: scheduledDate } },
+      ],
+    },
+  });
+
+  const due = rules.filter(rule => occursOn(rule, scheduledDate));
+  if (due.length === 0) return 0;
+
+  const result = await db.scheduledVideo.createMany({
+    data: due.map(rule => ({
+      childId,
+      approvedVideoId: rule.approvedVideoId,
+      scheduledDate,
+      originalDate: scheduledDate,
+      scheduleRuleId: rule.id,
+    })),
+    skipDuplicates: true,
+  });
+
+  if (result.count > 0) {
+    console.log(`🔁 Expanded ${result.count} recurring schedules for child ${childId} on ${date}`);
+  }
+
+  return result.count;
+}
+
+// Drop occurrences from today on that haven't been watched, so the next expansion follows the
+// current rule. Past days and anything already watched stay as history.
+export async function clearFutureOccurrences(ruleId: string, fromDate: string) {
+  return db.scheduledVideo.deleteMany({
+    where: {
+      scheduleRuleId: ruleId,
+      scheduledDate: { gte: parseDateOnly(fromDate) },
+      isWatched: false,
+    },
+  });
+}
@@ -0,0 +1,89 @@
+import { db } from '@/lib/db';
+import { getLocalDayRange, parseDateOnly } from '@/lib/timezone';
+
+export interface ScreenTimeStatus {
+  date: string;
+  isWeekend: boolean;
+  limitMinutes: number | null; // null when no limit is configured for the day
+  usedSeconds: number;
+  remainingSeconds: number | null;
+  isTimeUp: boolean;
+}
+
+export interface ScreenTimeLimits {
+  weekdayLimitMinutes: number | null;
+  weekendLimitMinutes: number | null;
+}
+
+// A whole day; anything more is a typo
+const MAX_LIMIT_MINUTES = 24 * 60;
+
+// Returns an error message, or null when the limits are valid
+export function validateScreenTimeLimits(limits: ScreenTimeLimits): string | null {
+  for (const value of [limits.weekdayLimitMinutes, limits.weekendLimitMinutes]) {
+    if (value !== null && (!Number.isInteger(value) || value < 0 || value > MAX_LIMIT_MINUTES)) {
+      return `Screen time limits must be whole numbers of minutes between 0 and ${MAX_LIMIT_MINUTES}`;
+    }
+  }
+
+  return null;
+}
+
+export function isWeekendDate(date: string): boolean {
+  const day = parseDateOnly(date).getUTCDay();
+  return day === 0 || day === 6;
+}
+
+export function getLimitForDate(limits: ScreenTimeLimits, date: string): number | null {
+  return isWeekendDate(date) ? limits.weekendLimitMinutes : limits.weekdayLimitMinutes;
+}
+
+// Sum of watch time recorded for the child on the given local calendar day (YYYY-MM-DD)
+export async function getWatchTimeForDay(childId: string, date: string, timezone: string): Promise<number> {
+  const { start: dayStart, end: dayEnd } = getLocalDayRange(date, timezone);
+
+  const result = await db.videoActivity.aggregate({
+    where: {
+      childId,
+      createdAt: {
+        gte: dayStart,
+        lt: dayEnd,
+      },
+    },
+    _sum: {
+      watchTimeSeconds: true,
+    },
+  });
+
+  return result._sum.watchTimeSeconds || 0;
+}
+
+export async function getScreenTimeStatus(
+  child: { id: string; timezone: string } & ScreenTimeLimits,
+  date: string
+): Promise<ScreenTimeStatus> {
+  const limitMinutes = getLimitForDate(child, date);
+  const usedSeconds = await getWatchTimeForDay(child.id, date, child.timezone);
+
+  if (limitMinutes === null) {
+    return {
+      date,
+      isWeekend: isWeekendDate(date),
+      limitMinutes: null,
+      usedSeconds,
+      remainingSeconds: null,
+      isTimeUp: false,
+    };
+  }
+
+  const remainingSeconds = Math.max(0, limitMinutes * 60 - usedSeconds);
+
+  return {
+    date,
+    isWeekend: isWeekendDate(date),
+    limitMinutes,
+    usedSeconds,
+    remainingSeconds,
+    isTimeUp: remainingSeconds === 0,
+  };
+}
@@ -0,0 +1,165 @@
+import { z } from 'zod';
+import { registerFakeResponse, runPrompt } from '@/lib/llm';
+import { getAgeGroupForChild } from '@/lib/growth-categories';
+import { calculateAge } from '@/lib/utils';
+import { ContentFilter, FilteredVideo } from '@/lib/content-filters';
+import {
+  ChannelRules,
+  DURATION_FILTERS,
+  searchVideosAdvanced,
+  SearchFilters,
+  SORT_ORDERS,
+  UPLOAD_DATE_FILTERS,
+  VIDEO_CATEGORIES,
+  YouTubeVideo,
+} from '@/lib/youtube';
+
+// "Something calm about dinosaurs for before bed" -> a few YouTube searches plus filters, whose
+// results are merged and ranked for the child.
+
+export const MAX_SMART_SEARCH_LENGTH = 300;
+
+// A filter the model got wrong is dropped rather than failing the whole plan
+const planSchema = z.object({
+  queries: z.array(z.string().trim().min(1).max(100)).min(1).transform(queries => queries.slice(0, 4)),
+  filters: z.object({
+    category: z.enum(VIDEO_CATEGORIES).optional().catch(undefined),
+    duration: z.enum(DURATION_FILTERS).optional().catch(undefined),
+    uploadDate: z.enum(UPLOAD_DATE_FILTERS).optional().catch(undefined),
+    sortBy: z.enum(SORT_ORDERS).optional().catch(undefined),
+  }).catch({}),
+  topics: z.array(z.string().trim().min(1).max(50)).catch([]).transform(topics => topics.slice(0, 6)),
+});
+
+export interface SmartSearchPlan {
+  queries: string[];
+  filters: SearchFilters;
+  topics: string[];
+}
+
+export interface SmartSearchChild {
+  birthday: Date;
+  interests: string[];
+}
+
+export interface SmartSearchOptions {
+  maxResults?: number;
+  channelRules?: ChannelRules;
+  contentFilter?: ContentFilter;
+  parentId?: string;
+}
+
+export interface SmartSearchResult {
+  plan: SmartSearchPlan;
+  videos: YouTubeVideo[];
+  filtered: FilteredVideo<YouTubeVideo>[];
+}
+
+// Without a model, search for exactly what the parent typed
+registerFakeResponse('smart-search', request => JSON.stringify({
+  queries: [request.prompt.split('\n')[0].replace("Parent's request: ", '')],
+  filters: {},
+  topics: [],
+}));
+
+function fallbackPlan(request: string): SmartSearchPlan {
+  return { queries: [request], filters: {}, topics: [] };
+}
+
+// Ask the LLM to turn the parent's request into searches. A reply that can't be used falls back to
+// searching for the request as typed, so smart search is never worse than the normal search.
+export async function planSmartSearch(request: string, child: SmartSearchChild, parentId?: string): Promise<SmartSearchPlan> {
+  try {
+    const reply = await runPrompt('smart-search', {
+      request,
+      childAge: calculateAge(child.birthday),
+      ageGroup: getAgeGroupForChild(child.birthday).groupName,
+      interests: child.interests,
+    }, { parentId });
+
+    const start = reply.indexOf('{');
+    const end = reply.lastIndexOf('}');
+    const result = planSchema.safeParse(start === -1 ? null : JSON.parse(reply.slice(start, end + 1)));
+
+    if (!result.success) {
+      console.warn('⚠️ Smart search plan failed validation, searching as typed:', result.error.issues[0]?.message);
+      return fallbackPlan(request);
+    }
+
+    return result.data;
+  } catch (error) {
+    console.error('❌ Smart search planning error, searching as typed:', error);
+    return fallbackPlan(request);
+  }
+}
+
+function mentions(text: string, term: string): boolean {
+  return term.length > 1 && text.includes(term.toLowerCase());
+}
+
+// Reciprocal rank fusion across the queries (a video near the top of several lists wins), nudged
+// towards the plan's topics, the child's interests, their age group's themes and trusted channels
+function rankVideos(
+  lists: YouTubeVideo[][],
+  plan: SmartSearchPlan,
+  child: SmartSearchChild,
+  channelRules?: ChannelRules
+): YouTubeVideo[] {
+  const FUSION_K = 60;
+  const scores = new Map<string, { video: YouTubeVideo; score: number }>();
+
+  for (const list of lists) {
+    list.forEach((video, rank) => {
+      const entry = scores.get(video.id) ?? { video, score: 0 };
+      entry.score += 1 / (FUSION_K + rank + 1);
+      scores.set(video.id, entry);
+    });
+  }
+
+  const ageGroupKeywords = getAgeGroupForChild(child.birthday).categories.flatMap(category => category.keywords);
+
+  for (const entry of scores.values()) {
+    const text = `${entry.video.title} ${entry.video.tags.join(' ')} ${entry.video.description.slice(0, 500)}`.toLowerCase();
+
+    // Each bonus is worth about as much as being ranked in one more query's results
+    entry.score += 0.008 * plan.topics.filter(topic => mentions(text, topic)).length;
+    entry.score += 0.006 * Math.min(child.interests.filter(interest => mentions(text, interest)).length, 2);
+    if (ageGroupKeywords.some(keyword => mentions(text, keyword))) entry.score += 0.006;
+    if (channelRules?.allowed.has(entry.video.channelId)) entry.score += 0.01;
+  }
+
+  return Array.from(scores.values())
+    .sort((a, b) => b.score - a.score)
+    .map(entry => entry.video);
+}
+
+export async function runSmartSearch(
+  request: string,
+  child: SmartSearchChild,
+  options: SmartSearchOptions = {}
+): Promise<SmartSearchResult> {
+  const { maxResults = 30, channelRules, contentFilter, parentId } = options;
+
+  const plan = await planSmartSearch(request, child, parentId);
+  console.log('🧠 Smart search plan:', plan);
+
+  const perQuery = Math.min(25, Math.ceil(maxResults / plan.queries.length) + 5);
+  const results = await Promise.all(plan.queries.map(query =>
+    searchVideosAdvanced(query, {
+      maxResults: perQuery,
+      filters: plan.filters,
+      channelRules,
+      contentFilter,
+    })
+  ));
+
+  const videos = rankVideos(results.map(result => result.videos), plan, child, channelRules).slice(0, maxResults);
+
+  const shownIds = new Set(videos.map(video => video.id));
+  const filteredById = new Map<string, FilteredVideo<YouTubeVideo>>();
+  for (const item of results.flatMap(result => result.filtered)) {
+    if (!shownIds.has(item.video.id)) filteredById.set(item.video.id, item);
+  }
+
+  return { plan, videos, filtered: Array.from(filteredById.values()) };
+}
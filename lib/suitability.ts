@@ -0,0 +1,65 @@
+import { z } from 'zod';
+
+// Structured content check for a video, separate from the neutral summary (generated by
+// assessVideoSuitability in lib/openai.ts). It describes the video itself, not a particular child,
+// so it can be stored once and compared against any child's age. Safe to import from client code.
+
+export const AGE_BANDS = ['all', '3+', '6+', '9+', '13+', '16+'] as const;
+export const EDUCATIONAL_VALUES = ['none', 'low', 'medium', 'high'] as const;
+export const THEME_LEVELS = ['none', 'mild', 'moderate', 'strong'] as const;
+export const THEMES = ['violence', 'fear', 'commercialism', 'language'] as const;
+
+export type AgeBand = typeof AGE_BANDS[number];
+export type ThemeLevel = typeof THEME_LEVELS[number];
+
+export const suitabilitySchema = z.object({
+  ageBand: z.enum(AGE_BANDS),
+  educationalValue: z.enum(EDUCATIONAL_VALUES),
+  themes: z.object({
+    violence: z.enum(THEME_LEVELS),
+    fear: z.enum(THEME_LEVELS),
+    commercialism: z.enum(THEME_LEVELS),
+    language: z.enum(THEME_LEVELS),
+  }),
+  notes: z.string().max(500),
+  confidence: z.number().min(0).max(1),
+});
+
+const storedSuitabilitySchema = suitabilitySchema.extend({
+  model: z.string(),
+  usedTranscript: z.boolean().default(false), // Missing on assessments stored before transcripts were used
+  assessedAt: z.string(),
+});
+
+export type SuitabilityAssessment = z.infer<typeof storedSuitabilitySchema>;
+
+export interface SuitabilityInput {
+  title: string;
+  description: string;
+  channelName: string;
+  tags?: string[];
+  duration?: string;
+  transcriptDigest?: string | null;
+}
+
+export class SuitabilityError extends Error {}
+
+// Youngest age each band is meant for
+export const AGE_BAND_MIN_AGE: Record<AgeBand, number> = {
+  'all': 0,
+  '3+': 3,
+  '6+': 6,
+  '9+': 9,
+  '13+': 13,
+  '16+': 16,
+};
+
+export function isAgeAppropriate(assessment: SuitabilityAssessment, childAge: number): boolean {
+  return childAge >= AGE_BAND_MIN_AGE[assessment.ageBand];
+}
+
+// A stored assessment (e.g. ApprovedVideo.suitability or one sent back by a client), or null if it isn't valid
+export function parseSuitability(value: unknown): SuitabilityAssessment | null {
+  const result = storedSuitabilitySchema.safeParse(value);
+  return result.success ? result.data : null;
+}
@@ -0,0 +1,137 @@
+export const DEFAULT_TIMEZONE = 'UTC';
+
+export interface LocalDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Wall-clock date and time for an instant in the given IANA timezone
+export function getLocalDateParts(date: Date, timezone: string): LocalDateParts {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    weekday: 'short',
+    hourCycle: 'h23',
+  });
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: parseInt(parts.year),
+    month: parseInt(parts.month),
+    day: parseInt(parts.day),
+    hour: parseInt(parts.hour),
+    minute: parseInt(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+// Offset of the timezone from UTC at the given instant, in minutes
+function getTimezoneOffsetMinutes(date: Date, timezone: string): number {
+  const local = getLocalDateParts(date, timezone);
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+  const truncated = Math.floor(date.getTime() / 60000) * 60000;
+  return (asUtc - truncated) / 60000;
+}
+
+// Convert a wall-clock time in the timezone into a real instant
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timezone: string
+): Date {
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const offset = getTimezoneOffsetMinutes(new Date(guess), timezone);
+  const result = new Date(guess - offset * 60000);
+
+  // Re-check once in case the guess landed on the other side of a DST change
+  const correctedOffset = getTimezoneOffsetMinutes(result, timezone);
+  if (correctedOffset !== offset) {
+    return new Date(guess - correctedOffset * 60000);
+  }
+
+  return result;
+}
+
+// Calendar days (YYYY-MM-DD) are stored as UTC midnight, as in ScheduledVideo.scheduledDate.
+// The day itself is always the family's local day, never the server's.
+const DATE_ONLY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+export function isValidDateString(value: string): boolean {
+  const match = value.match(DATE_ONLY_PATTERN);
+  if (!match) return false;
+
+  const date = parseDateOnly(value);
+  return date.getUTCMonth() + 1 === parseInt(match[2]) && date.getUTCDate() === parseInt(match[3]);
+}
+
+export function parseDateOnly(value: string): Date {
+  const match = value.match(DATE_ONLY_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+
+  return new Date(Date.UTC(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3])));
+}
+
+export function formatDateOnly(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+export function addDays(value: string, days: number): string {
+  const date = parseDateOnly(value);
+  date.setUTCDate(date.getUTCDate() + days);
+  return formatDateOnly(date);
+}
+
+// The calendar day it currently is (or was, at the given instant) in the timezone
+export function getLocalDateString(date: Date, timezone: string): string {
+  const local = getLocalDateParts(date, timezone);
+  return `${local.year}-${String(local.month).padStart(2, '0')}-${String(local.day).padStart(2, '0')}`;
+}
+
+// Real instants bounding a local calendar day, for filtering timestamps like VideoActivity.createdAt
+export function getLocalDayRange(value: string, timezone: string): { start: Date; end: Date } {
+  const day = parseDateOnly(value);
+  const next = parseDateOnly(addDays(value, 1));
+
+  return {
+    start: zonedTimeToUtc(day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate(), 0, 0, timezone),
+    end: zonedTimeToUtc(next.getUTCFullYear(), next.getUTCMonth() + 1, next.getUTCDate(), 0, 0, timezone),
+  };
+}
+
+// Today's calendar day where this code runs (the parent's browser in the dashboard)
+export function getTodayDateString(): string {
+  return getLocalDateString(new Date(), Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIMEZONE);
+}
+
+// Display a YYYY-MM-DD day as-is; new Date(value) alone would shift it into the viewer's timezone
+export function formatDateLabel(value: string): string {
+  return parseDateOnly(value).toLocaleDateString(undefined, { timeZone: 'UTC' });
+}
@@ -0,0 +1,196 @@
+import { Prisma, TranscriptSource, VideoTranscript } from '@prisma/client';
+import { db } from '@/lib/db';
+import { getVideoCaptions, isYouTubeId } from '@/lib/youtube';
+import { summarizeTranscript } from '@/lib/openai';
+
+export const MAX_TRANSCRIPT_LENGTH = 200_000;
+const CHUNK_LENGTH = 6_000;
+const MAX_CHUNKS = 8; // Longer transcripts are summarized from their first MAX_CHUNKS chunks
+const NO_CAPTIONS_RETRY_DAYS = 7;
+
+// Plain text from an uploaded .txt, .srt or .vtt file: cue numbers, timestamps, tags and
+// repeated lines (common in auto-generated captions) are dropped.
+export function parseTranscriptFile(content: string): string {
+  const lines = content
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.replace(/<[^>]+>/g, '').trim())
+    .filter(line =>
+      line &&
+      line !== 'WEBVTT' &&
+      !/^(NOTE|STYLE|REGION)\b/.test(line) &&
+      !/^\d+$/.test(line) &&
+      !/-->/.test(line)
+    );
+
+  return lines
+    .filter((line, index) => line !== lines[index - 1])
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Returns an error message, or null when the transcript can be used
+export function validateTranscript(text: string): string | null {
+  if (!text) {
+    return 'The transcript is empty';
+  }
+
+  if (text.length > MAX_TRANSCRIPT_LENGTH) {
+    return `Transcripts must be ${MAX_TRANSCRIPT_LENGTH.toLocaleString()} characters or fewer`;
+  }
+
+  return null;
+}
+
+// Split on sentence boundaries into chunks of about CHUNK_LENGTH characters
+export function chunkTranscript(text: string): string[] {
+  const sentences = text.match(/[^.!?]+[.!?]*\s*/g) || [text];
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length > CHUNK_LENGTH) {
+      chunks.push(current.trim());
+      current = '';
+    }
+    // Captions often have no punctuation at all, so a single "sentence" can be huge
+    for (let start = 0; start < sentence.length; start += CHUNK_LENGTH) {
+      current += sentence.slice(start, start + CHUNK_LENGTH);
+      if (current.length >= CHUNK_LENGTH) {
+        chunks.push(current.trim());
+        current = '';
+      }
+    }
+  }
+
+  if (current.trim()) {
+    chunks.push(current.trim());
+  }
+
+  return chunks;
+}
+
+async function withDigest(transcript: VideoTranscript, parentId: string): Promise<VideoTranscript> {
+  if (transcript.digest || !transcript.text) {
+    return transcript;
+  }
+
+  const chunks = chunkTranscript(transcript.text);
+  const digest = await summarizeTranscript(chunks.slice(0, MAX_CHUNKS), parentId);
+
+  return db.videoTranscript.update({
+    where: { id: transcript.id },
+    data: { digest },
+  });
+}
+
+// The YouTube captions for a video, fetched once and shared by every family. A video without
+// captions is remembered for a while so each child's summary doesn't ask again.
+async function getCaptionTranscript(youtubeId: string): Promise<VideoTranscript | null> {
+  // Videos from other sources have no YouTube captions to look for
+  if (!isYouTubeId(youtubeId)) {
+    return null;
+  }
+
+  const cached = await db.videoTranscript.findFirst({
+    where: { youtubeId, parentId: null },
+  });
+
+  const retryAfter = new Date(Date.now() - NO_CAPTIONS_RETRY_DAYS * 24 * 60 * 60 * 1000);
+  if (cached && (cached.source !== TranscriptSource.NONE || cached.updatedAt > retryAfter)) {
+    return cached.source === TranscriptSource.NONE ? null : cached;
+  }
+
+  let captions = null;
+  try {
+    captions = await getVideoCaptions(youtubeId);
+  } catch (error) {
+    // Not remembered as NONE, since the next request may well succeed
+    console.warn('⚠️ Could not fetch captions for', youtubeId, error);
+    return null;
+  }
+
+  const data = {
+    source: captions ? TranscriptSource.CAPTIONS : TranscriptSource.NONE,
+    language: captions?.language ?? null,
+    text: captions?.text.slice(0, MAX_TRANSCRIPT_LENGTH) ?? '',
+    digest: null,
+  };
+
+  let transcript: VideoTranscript;
+  if (cached) {
+    transcript = await db.videoTranscript.update({ where: { id: cached.id }, data });
+  } else {
+    try {
+      transcript = await db.videoTranscript.create({ data: { youtubeId, ...data } });
+    } catch (error) {
+      // Stored by a concurrent request; there's one shared row per video, so update that one instead
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) throw error;
+      const existing = await db.videoTranscript.findFirstOrThrow({ where: { youtubeId, parentId: null } });
+      transcript = await db.videoTranscript.update({ where: { id: existing.id }, data });
+    }
+  }
+
+  console.log(captions ? `📝 Cached ${captions.language} captions for ${youtubeId}` : `📝 No captions for ${youtubeId}`);
+
+  return captions ? transcript : null;
+}
+
+// The parent's own upload if they have one, otherwise the YouTube captions
+export async function getTranscriptForParent(youtubeId: string, parentId: string): Promise<VideoTranscript | null> {
+  const uploaded = await db.videoTranscript.findFirst({
+    where: { youtubeId, parentId },
+  });
+
+  return uploaded || getCaptionTranscript(youtubeId);
+}
+
+export interface TranscriptDigest {
+  digest: string;
+  source: TranscriptSource; // UPLOAD digests are private to the parent and mustn't end up in shared caches
+}
+
+// Summary of what's said in the video, for generateVideoSummary and assessVideoSuitability.
+// Null when there's no transcript or it couldn't be summarized; callers fall back to the description.
+export async function getTranscriptDigest(youtubeId: string, parentId: string): Promise<TranscriptDigest | null> {
+  try {
+    const transcript = await getTranscriptForParent(youtubeId, parentId);
+    if (!transcript) return null;
+
+    const { digest, source } = await withDigest(transcript, parentId);
+    return digest ? { digest, source } : null;
+  } catch (error) {
+    console.error('❌ Transcript digest error for', youtubeId, error);
+    return null;
+  }
+}
+
+// Store (or replace) a parent's transcript for a video. Its digest is built on first use.
+export async function saveUploadedTranscript(parentId: string, youtubeId: string, text: string): Promise<VideoTranscript> {
+  const existing = await db.videoTranscript.findFirst({
+    where: { youtubeId, parentId },
+  });
+
+  const data = {
+    source: TranscriptSource.UPLOAD,
+    language: null,
+    text,
+    digest: null,
+  };
+
+  if (existing) {
+    return db.videoTranscript.update({
+      where: { id: existing.id },
+      data,
+    });
+  }
+
+  return db.videoTranscript.create({
+    data: {
+      youtubeId,
+      parentId,
+      ...data,
+    },
+  });
+}
@@ -0,0 +1,95 @@
+import { TranscriptSource, VideoMetadata } from '@prisma/client';
+import { db } from '@/lib/db';
+import { generateVideoSummary, requestVideoSummary, SUMMARY_PROMPT_VERSION } from '@/lib/openai';
+import { getTranscriptDigest } from '@/lib/transcripts';
+import { getVideoDetails } from '@/lib/youtube';
+
+// What YouTube says about a video, stored once and shared by every family. Only details the server
+// fetched from YouTube itself go in here, never what a client sends, since those end up in other
+// families' summaries. Returns null for videos YouTube can't tell us about (including other sources).
+export async function getVideoMetadata(youtubeId: string): Promise<VideoMetadata | null> {
+  const existing = await db.videoMetadata.findUnique({ where: { youtubeId } });
+  if (existing) return existing;
+
+  const video = await getVideoDetails(youtubeId);
+  if (!video) return null;
+
+  const fields = {
+    title: video.title,
+    description: video.description,
+    channelId: video.channelId,
+    channelName: video.channelName,
+    duration: video.duration,
+    category: video.category,
+    thumbnail: video.thumbnail,
+  };
+
+  return db.videoMetadata.upsert({
+    where: { youtubeId },
+    update: fields,
+    create: { youtubeId, ...fields },
+  });
+}
+
+// The cached summary, unless it was made with an older prompt
+export function cachedSummary(metadata: VideoMetadata | null): string | null {
+  return metadata?.summary && metadata.summaryPromptVersion === SUMMARY_PROMPT_VERSION ? metadata.summary : null;
+}
+
+// The shared summary for a video, if one has been made
+export async function getCachedSummary(youtubeId: string): Promise<string | null> {
+  return cachedSummary(await db.videoMetadata.findUnique({ where: { youtubeId } }));
+}
+
+// Summary for a parent's detail modal, made once per video and shared by every family. It's made
+// again when the prompt version changes or captions turn up, and a parent's own uploaded transcript
+// gets a private summary (from the title and description they were shown) that isn't cached. Returns
+// null when YouTube can't describe the video, so the caller can summarize it privately instead.
+export async function getVideoSummary(
+  youtubeId: string,
+  parentId: string,
+  shown: { title: string; description?: string }
+): Promise<string | null> {
+  const transcript = await getTranscriptDigest(youtubeId, parentId);
+
+  if (transcript?.source === TranscriptSource.UPLOAD) {
+    return generateVideoSummary(shown.title, shown.description || '', undefined, undefined, {
+      transcriptDigest: transcript.digest,
+      parentId,
+    });
+  }
+
+  const metadata = await getVideoMetadata(youtubeId);
+  if (!metadata) return null;
+
+  const usedTranscript = !!transcript;
+
+  const cached = cachedSummary(metadata);
+  if (cached && metadata.summaryUsedTranscript === usedTranscript) {
+    console.log('📦 Using cached summary for', youtubeId);
+    return cached;
+  }
+
+  let summary: string;
+  try {
+    summary = await requestVideoSummary(metadata.title, metadata.description || '', {
+      transcriptDigest: transcript?.digest,
+      parentId,
+    });
+  } catch (error) {
+    // Not cached, so the next request tries again
+    console.error('LLM summary error:', error);
+    return cached || 'This video contains content that may be of interest.';
+  }
+
+  await db.videoMetadata.update({
+    where: { youtubeId },
+    data: {
+      summary,
+      summaryPromptVersion: SUMMARY_PROMPT_VERSION,
+      summaryUsedTranscript: usedTranscript,
+    },
+  });
+
+  return summary;
+}
@@ -0,0 +1,296 @@
+import { createHash } from 'crypto';
+import { VideoSource } from '@prisma/client';
+import { checkDownloadable, createMediaKey, isHttpsUrl, MAX_MEDIA_SIZE_BYTES, probeMedia } from '@/lib/local-media';
+import { fetchPublicUrl } from '@/lib/public-fetch';
+
+// Where approved videos can play from. Each source has a provider that recognises its links, looks up
+// what it can about a video, and builds the URLs the players need. Every approved video still has a
+// unique per-child key in ApprovedVideo.youtubeId: the real ID for YouTube, so rows from before other
+// sources existed work unchanged, and a prefixed key for everything else.
+
+const LOOKUP_TIMEOUT_MS = 10 * 1000;
+
+// Which player the apps should use: the YouTube IFrame player, a web embed, or the native video player
+export type PlayerKind = 'youtube' | 'embed' | 'native';
+
+// The ApprovedVideo fields playback depends on
+export interface PlayableVideo {
+  source: VideoSource;
+  youtubeId: string;
+  mediaUrl: string | null;
+}
+
+export interface VideoLinkDetails {
+  source: VideoSource;
+  key: string; // Stored in ApprovedVideo.youtubeId
+  mediaUrl: string | null;
+  mediaSizeBytes?: number | null;
+  mediaMimeType?: string | null;
+  title?: string;
+  description?: string;
+  thumbnail?: string;
+  channelName?: string;
+  duration?: string;
+}
+
+export interface PlaybackUrls {
+  player: PlayerKind;
+  embedUrl: string; // What the player loads
+  iframeUrl?: string;
+  watchUrl: string; // Opens the video outside the app
+}
+
+export interface VideoSourceProvider {
+  source: VideoSource;
+  // Whether a link belongs to this source
+  matches(url: URL): boolean;
+  // Looks the video up; returns an error message when it can't be used
+  lookup(url: URL): Promise<VideoLinkDetails | string>;
+  playback(video: PlayableVideo, startSeconds: number): PlaybackUrls;
+}
+
+export interface LinkedVideoInput {
+  url: string;
+  title?: string;
+  thumbnail?: string;
+  duration?: string;
+  description?: string;
+  allowDownload?: boolean; // Save a direct file as LOCAL_MEDIA so devices can take it offline
+}
+
+function formatSeconds(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(Math.floor(totalSeconds % 60)).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+interface OEmbedResponse {
+  title?: string;
+  author_name?: string;
+  thumbnail_url?: string;
+  description?: string;
+  duration?: number;
+}
+
+// Both YouTube and Vimeo describe public videos through oEmbed, without an API key. Their redirects are
+// checked like any other link's.
+async function fetchOEmbed(endpoint: string, link: string): Promise<OEmbedResponse | number> {
+  try {
+    const response = await fetchPublicUrl(`${endpoint}?format=json&url=${encodeURIComponent(link)}`, {
+      signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS),
+    });
+    if (!response.ok) return response.status;
+    return (await response.json()) as OEmbedResponse;
+  } catch {
+    return 0;
+  }
+}
+
+function parseYouTubeId(url: URL): string | null {
+  const host = url.hostname.replace(/^(www|m)\./, '');
+  let id: string | null = null;
+
+  if (host === 'youtu.be') {
+    id = url.pathname.slice(1);
+  } else if (host === 'youtube.com' || host === 'youtube-nocookie.com') {
+    id = url.pathname === '/watch'
+      ? url.searchParams.get('v')
+      : url.pathname.match(/^\/(?:embed|shorts|live)\/([^/]+)/)?.[1] || null;
+  }
+
+  return id && /^[\w-]{11}$/.test(id) ? id : null;
+}
+
+const youtubeProvider: VideoSourceProvider = {
+  source: VideoSource.YOUTUBE,
+
+  matches: url => parseYouTubeId(url) !== null,
+
+  async lookup(url) {
+    const youtubeId = parseYouTubeId(url)!;
+    const oembed = await fetchOEmbed('https://www.youtube.com/oembed', `https://www.youtube.com/watch?v=${youtubeId}`);
+    if (typeof oembed === 'number') {
+      return oembed === 401 || oembed === 403
+        ? 'The owner of this video does not allow it to be played in other apps'
+        : 'This YouTube video could not be found; it may be private or removed';
+    }
+
+    return {
+      source: VideoSource.YOUTUBE,
+      key: youtubeId,
+      mediaUrl: null,
+      title: oembed.title,
+      channelName: oembed.author_name,
+      thumbnail: `https://img.youtube.com/vi/${youtubeId}/hqdefault.jpg`,
+    };
+  },
+
+  playback(video, startSeconds) {
+    const start = startSeconds > 0 ? `&start=${startSeconds}` : '';
+    return {
+      player: 'youtube',
+      embedUrl: `https://www.youtube.com/embed/${video.youtubeId}?autoplay=1&playsinline=1&rel=0&showinfo=0&controls=1${start}`,
+      iframeUrl: `https://www.youtube-nocookie.com/embed/${video.youtubeId}?autoplay=1&playsinline=1&rel=0&showinfo=0&controls=1${start}`,
+      watchUrl: `https://www.youtube.com/watch?v=${video.youtubeId}`,
+    };
+  },
+};
+
+// vimeo.com/123, vimeo.com/123/abcdef (unlisted, with its privacy hash), player.vimeo.com/video/123?h=abcdef
+function parseVimeoLink(url: URL): { id: string; hash: string | null } | null {
+  const host = url.hostname.replace(/^www\./, '');
+  if (host !== 'vimeo.com' && host !== 'player.vimeo.com') return null;
+
+  const match = url.pathname.match(/(?:^|\/)(\d{6,})(?:\/([0-9a-f]{6,}))?\/?$/);
+  if (!match) return null;
+
+  return { id: match[1], hash: match[2] || url.searchParams.get('h') };
+}
+
+const vimeoProvider: VideoSourceProvider = {
+  source: VideoSource.VIMEO,
+
+  matches: url => parseVimeoLink(url) !== null,
+
+  async lookup(url) {
+    const { id, hash } = parseVimeoLink(url)!;
+    const oembed = await fetchOEmbed('https://vimeo.com/api/oembed.json', hash ? `https://vimeo.com/${id}/${hash}` : `https://vimeo.com/${id}`);
+    if (typeof oembed === 'number') {
+      return oembed === 403
+        ? 'The owner of this Vimeo video does not allow it to be played in other apps'
+        : 'This Vimeo video could not be found; it may be private or removed';
+    }
+
+    return {
+      source: VideoSource.VIMEO,
+      key: `vimeo-${id}`,
+      // The embed address, including the hash unlisted videos need
+      mediaUrl: `https://player.vimeo.com/video/${id}${hash ? `?h=${hash}` : ''}`,
+      title: oembed.title,
+      description: oembed.description,
+      channelName: oembed.author_name,
+      thumbnail: oembed.thumbnail_url,
+      duration: oembed.duration ? formatSeconds(oembed.duration) : undefined,
+    };
+  },
+
+  playback(video, startSeconds) {
+    const embed = new URL(video.mediaUrl || `https://player.vimeo.com/video/${video.youtubeId.replace(/^vimeo-/, '')}`);
+    embed.searchParams.set('autoplay', '1');
+    embed.searchParams.set('playsinline', '1');
+    embed.searchParams.set('dnt', '1');
+    if (startSeconds > 0) embed.hash = `t=${startSeconds}s`;
+
+    return {
+      player: 'embed',
+      embedUrl: embed.toString(),
+      watchUrl: `https://vimeo.com/${video.youtubeId.replace(/^vimeo-/, '')}`,
+    };
+  },
+};
+
+function nativePlayback(video: PlayableVideo): PlaybackUrls {
+  return {
+    player: 'native',
+    embedUrl: video.mediaUrl || '',
+    watchUrl: video.mediaUrl || '',
+  };
+}
+
+// A file or HLS stream anywhere on the public web (probeMedia refuses internal addresses, at every
+// redirect). Keyed by the link, so the same one can't be added twice.
+const streamUrlProvider: VideoSourceProvider = {
+  source: VideoSource.STREAM_URL,
+
+  matches: url => url.protocol === 'https:',
+
+  async lookup(url) {
+    const probe = await probeMedia(url.toString());
+    if (typeof probe === 'string') return probe;
+
+    return {
+      source: VideoSource.STREAM_URL,
+      key: `url-${createHash('sha256').update(url.toString()).digest('hex').slice(0, 32)}`,
+      mediaUrl: url.toString(),
+      mediaSizeBytes: probe.sizeBytes && probe.sizeBytes <= MAX_MEDIA_SIZE_BYTES ? probe.sizeBytes : null,
+      mediaMimeType: probe.mimeType,
+    };
+  },
+
+  playback: nativePlayback,
+};
+
+// A file the parent wants devices to be able to download (lib/local-media.ts)
+const localMediaProvider: VideoSourceProvider = {
+  source: VideoSource.LOCAL_MEDIA,
+
+  matches: url => url.protocol === 'https:',
+
+  async lookup(url) {
+    const probe = await probeMedia(url.toString());
+    if (typeof probe === 'string') return probe;
+
+    const downloadError = checkDownloadable(probe);
+    if (downloadError) return downloadError;
+
+    return {
+      source: VideoSource.LOCAL_MEDIA,
+      key: createMediaKey(),
+      mediaUrl: url.toString(),
+      mediaSizeBytes: probe.sizeBytes,
+      mediaMimeType: probe.mimeType,
+    };
+  },
+
+  playback: nativePlayback,
+};
+
+export const VIDEO_SOURCE_PROVIDERS: Record<VideoSource, VideoSourceProvider> = {
+  [VideoSource.YOUTUBE]: youtubeProvider,
+  [VideoSource.VIMEO]: vimeoProvider,
+  [VideoSource.STREAM_URL]: streamUrlProvider,
+  [VideoSource.LOCAL_MEDIA]: localMediaProvider,
+};
+
+// Checked in order: known sites first, then anything that might be a direct file or stream
+const LINK_PROVIDERS = [youtubeProvider, vimeoProvider, streamUrlProvider];
+
+// Returns an error message, or null when the input is valid
+export function validateLinkedVideoInput(input: LinkedVideoInput): string | null {
+  if (!input.url || !isHttpsUrl(input.url)) {
+    return 'The video link must be an https:// address';
+  }
+  if (input.title && input.title.trim().length > 200) {
+    return 'Titles must be 200 characters or fewer';
+  }
+  if (input.thumbnail && !isHttpsUrl(input.thumbnail)) {
+    return 'The thumbnail link must be an https:// address';
+  }
+  if (input.duration && !/^\d{1,2}(:[0-5]\d){1,2}$/.test(input.duration)) {
+    return 'Duration must look like 12:34 or 1:02:03';
+  }
+  return null;
+}
+
+// Works out which source a link belongs to and looks the video up. Returns an error message when the
+// link can't be used.
+export async function resolveVideoLink(input: LinkedVideoInput): Promise<VideoLinkDetails | string> {
+  const url = new URL(input.url.trim());
+  const provider = LINK_PROVIDERS.find(candidate => candidate.matches(url));
+
+  if (!provider) {
+    return 'This link isn\'t a video we can play';
+  }
+  if (input.allowDownload) {
+    return provider === streamUrlProvider
+      ? localMediaProvider.lookup(url)
+      : 'YouTube and Vimeo videos can\'t be downloaded; link to a video file instead';
+  }
+
+  return provider.lookup(url);
+}
+
+export function getPlaybackUrls(video: PlayableVideo, startSeconds = 0): PlaybackUrls {
+  return VIDEO_SOURCE_PROVIDERS[video.source].playback(video, startSeconds);
+}
@@ -0,0 +1,125 @@
+import { getLocalDateParts, zonedTimeToUtc } from '@/lib/timezone';
+
+// Windows are stored as "HH:MM-HH:MM" strings in the child's local time.
+// An empty list for weekdays or weekends means viewing is unrestricted on those days.
+export interface ViewingWindow {
+  start: number; // minutes since local midnight
+  end: number;
+}
+
+export interface ViewingWindowSettings {
+  timezone: string;
+  weekdayWindows: string[];
+  weekendWindows: string[];
+}
+
+export interface ViewingWindowStatus {
+  isOpen: boolean;
+  timezone: string;
+  currentWindow: string | null;
+  nextOpensAt: string | null; // ISO timestamp
+  nextOpensAtLocal: string | null; // "HH:MM" in the child's timezone
+  nextOpensInDays: number | null; // 0 = later today, 1 = tomorrow, ...
+}
+
+const WINDOW_PATTERN = /^(\d{2}):(\d{2})-(\d{2}):(\d{2})$/;
+
+export function parseViewingWindow(value: string): ViewingWindow | null {
+  const match = value.trim().match(WINDOW_PATTERN);
+  if (!match) return null;
+
+  const [startHour, startMinute, endHour, endMinute] = match.slice(1).map(Number);
+  if (startHour > 23 || endHour > 24 || startMinute > 59 || endMinute > 59) return null;
+
+  const start = startHour * 60 + startMinute;
+  const end = endHour * 60 + endMinute;
+  if (end <= start || end > 24 * 60) return null;
+
+  return { start, end };
+}
+
+export function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
+}
+
+function getWindowsForWeekday(settings: ViewingWindowSettings, weekday: number): ViewingWindow[] {
+  const isWeekend = weekday === 0 || weekday === 6;
+  const raw = isWeekend ? settings.weekendWindows : settings.weekdayWindows;
+
+  return raw
+    .map(parseViewingWindow)
+    .filter((window): window is ViewingWindow => window !== null)
+    .sort((a, b) => a.start - b.start);
+}
+
+export function getViewingWindowStatus(
+  settings: ViewingWindowSettings,
+  now: Date = new Date()
+): ViewingWindowStatus {
+  const local = getLocalDateParts(now, settings.timezone);
+  const nowMinutes = local.hour * 60 + local.minute;
+  const todaysWindows = getWindowsForWeekday(settings, local.weekday);
+
+  const openStatus = (currentWindow: string | null): ViewingWindowStatus => ({
+    isOpen: true,
+    timezone: settings.timezone,
+    currentWindow,
+    nextOpensAt: null,
+    nextOpensAtLocal: null,
+    nextOpensInDays: null,
+  });
+
+  if (todaysWindows.length === 0) {
+    return openStatus(null);
+  }
+
+  const currentWindow = todaysWindows.find(window => nowMinutes >= window.start && nowMinutes < window.end);
+  if (currentWindow) {
+    return openStatus(`${formatMinutes(currentWindow.start)}-${formatMinutes(currentWindow.end)}`);
+  }
+
+  // Look ahead up to a week for the next window (or unrestricted day)
+  for (let offset = 0; offset <= 7; offset++) {
+    const weekday = (local.weekday + offset) % 7;
+    const windows = offset === 0 ? todaysWindows : getWindowsForWeekday(settings, weekday);
+
+    let opensAt: number | undefined;
+    if (windows.length === 0) {
+      opensAt = 0;
+    } else {
+      opensAt = windows.find(window => offset > 0 || window.start > nowMinutes)?.start;
+    }
+
+    if (opensAt === undefined) continue;
+
+    const day = new Date(Date.UTC(local.year, local.month - 1, local.day + offset));
+    const nextOpensAt = zonedTimeToUtc(
+      day.getUTCFullYear(),
+      day.getUTCMonth() + 1,
+      day.getUTCDate(),
+      Math.floor(opensAt / 60),
+      opensAt % 60,
+      settings.timezone
+    );
+
+    return {
+      isOpen: false,
+      timezone: settings.timezone,
+      currentWindow: null,
+      nextOpensAt: nextOpensAt.toISOString(),
+      nextOpensAtLocal: formatMinutes(opensAt),
+      nextOpensInDays: offset,
+    };
+  }
+
+  return {
+    isOpen: false,
+    timezone: settings.timezone,
+    currentWindow: null,
+    nextOpensAt: null,
+    nextOpensAtLocal: null,
+    nextOpensInDays: null,
+  };
+}
@@ -1,4 +1,6 @@
-import { google } from 'googleapis';
+import { google, youtube_v3 } from 'googleapis';
+import { applyContentFilter, ContentFilter, FilteredVideo } from '@/lib/content-filters';
+import { diversify, DiversityOptions } from '@/lib/diversity';
 
 const youtube = google.youtube({
   version: 'v3',
@@ -11,21 +13,47 @@ export interface YouTubeVideo {
   description: string;
   thumbnail: string;
   highResThumbnail: string;
+  channelId: string;
   channelName: string;
   duration: string;
   publishedAt: string;
   viewCount: string;
   likeCount?: string;
   category: string;
+  tags: string[];
 }
 
-export type VideoCategory = 'all' | 'education' | 'entertainment' | 'science' | 'music' | 'sports' | 'arts' | 'stories';
+// Maps a videos.list item (snippet, contentDetails and statistics parts) to the app's video shape
+function toYouTubeVideo(video: youtube_v3.Schema$Video): YouTubeVideo {
+  return {
+    id: video.id!,
+    title: video.snippet?.title || '',
+    description: video.snippet?.description || '',
+    thumbnail: video.snippet?.thumbnails?.high?.url || video.snippet?.thumbnails?.medium?.url || '',
+    highResThumbnail: video.snippet?.thumbnails?.maxres?.url || video.snippet?.thumbnails?.high?.url || '',
+    channelId: video.snippet?.channelId || '',
+    channelName: video.snippet?.channelTitle || '',
+    duration: formatDuration(video.contentDetails?.duration || ''),
+    publishedAt: video.snippet?.publishedAt || '',
+    viewCount: video.statistics?.viewCount || '0',
+    likeCount: video.statistics?.likeCount || undefined,
+    tags: video.snippet?.tags || [],
+    category: mapCategoryId(video.snippet?.categoryId || ''),
+  };
+}
+
+export const VIDEO_CATEGORIES = ['all', 'education', 'entertainment', 'science', 'music', 'sports', 'arts', 'stories'] as const;
+export const DURATION_FILTERS = ['any', 'short', 'medium', 'long'] as const;
+export const UPLOAD_DATE_FILTERS = ['any', 'hour', 'today', 'week', 'month', 'year'] as const;
+export const SORT_ORDERS = ['relevance', 'date', 'viewCount', 'rating'] as const;
+
+export type VideoCategory = typeof VIDEO_CATEGORIES[number];
 
 export interface SearchFilters {
   category?: VideoCategory;
-  duration?: 'any' | 'short' | 'medium' | 'long';
-  uploadDate?: 'any' | 'hour' | 'today' | 'week' | 'month' | 'year';
-  sortBy?: 'relevance' | 'date' | 'viewCount' | 'rating';
+  duration?: typeof DURATION_FILTERS[number];
+  uploadDate?: typeof UPLOAD_DATE_FILTERS[number];
+  sortBy?: typeof SORT_ORDERS[number];
 }
 
 export interface SearchOptions {
@@ -79,19 +107,7 @@ export async function searchVideos(query: string, maxResults: number = 10): Prom
 
     console.log('📊 Video details retrieved:', videoDetails.data.items?.length || 0);
 
-    const videos = videoDetails.data.items?.map(video => ({
-      id: video.id!,
-      title: video.snippet?.title || '',
-      description: video.snippet?.description || '',
-      thumbnail: video.snippet?.thumbnails?.high?.url || video.snippet?.thumbnails?.medium?.url || '',
-      highResThumbnail: video.snippet?.thumbnails?.maxres?.url || video.snippet?.thumbnails?.high?.url || '',
-      channelName: video.snippet?.channelTitle || '',
-      duration: formatDuration(video.contentDetails?.duration || ''),
-      publishedAt: video.snippet?.publishedAt || '',
-      viewCount: video.statistics?.viewCount || '0',
-      likeCount: video.statistics?.likeCount || undefined,
-      category: video.snippet?.categoryId || 'Unknown',
-    })) || [];
+    const videos = videoDetails.data.items?.map(toYouTubeVideo) || [];
 
     console.log('✅ Final videos processed:', videos.length);
     return videos;
@@ -114,16 +130,32 @@ export async function searchVideos(query: string, maxResults: number = 10): Prom
 }
 
 
+// A child's resolved channel rules, as YouTube channel IDs (see lib/channel-rules.ts)
+export interface ChannelRules {
+  allowed: ReadonlySet<string>;
+  blocked: ReadonlySet<string>;
+}
+
 export interface SearchOptions {
   maxResults?: number;
   pageToken?: string;
   filters?: SearchFilters;
+  channelRules?: ChannelRules;
+  contentFilter?: ContentFilter;
+  diversity?: DiversityOptions; // Only used by getRecommendationsForChild
+}
+
+export interface SearchResult {
+  videos: YouTubeVideo[];
+  filtered: FilteredVideo<YouTubeVideo>[]; // Hidden by the child's content filter
+  nextPageToken?: string;
+  totalResults?: number;
 }
 
 export async function searchVideosAdvanced(
   query: string, 
   options: SearchOptions = {}
-): Promise<{ videos: YouTubeVideo[]; nextPageToken?: string; totalResults?: number }> {
+): Promise<SearchResult> {
   try {
     const { maxResults = 20, pageToken, filters = {} } = options;
     
@@ -176,7 +208,7 @@ export async function searchVideosAdvanced(
     });
 
     if (!searchResponse.data.items || searchResponse.data.items.length === 0) {
-      return { videos: [], nextPageToken: undefined, totalResults: 0 };
+      return { videos: [], filtered: [], nextPageToken: undefined, totalResults: 0 };
     }
 
     const videoIds = searchResponse.data.items
@@ -184,7 +216,7 @@ export async function searchVideosAdvanced(
       .filter((id): id is string => Boolean(id));
 
     if (videoIds.length === 0) {
-      return { videos: [], nextPageToken: undefined, totalResults: 0 };
+      return { videos: [], filtered: [], nextPageToken: undefined, totalResults: 0 };
     }
 
     const videoDetails = await youtube.videos.list({
@@ -192,28 +224,61 @@ export async function searchVideosAdvanced(
       id: videoIds,
     });
 
-    const videos = videoDetails.data.items?.map(video => ({
-      id: video.id!,
-      title: video.snippet?.title || '',
-      description: video.snippet?.description || '',
-      thumbnail: video.snippet?.thumbnails?.high?.url || video.snippet?.thumbnails?.medium?.url || '',
-      highResThumbnail: video.snippet?.thumbnails?.maxres?.url || video.snippet?.thumbnails?.high?.url || '',
-      channelName: video.snippet?.channelTitle || '',
-      duration: formatDuration(video.contentDetails?.duration || ''),
-      publishedAt: video.snippet?.publishedAt || '',
-      viewCount: video.statistics?.viewCount || '0',
-      likeCount: video.statistics?.likeCount || undefined,
-      category: mapCategoryId(video.snippet?.categoryId || ''),
-    })) || [];
+    const videos: YouTubeVideo[] = videoDetails.data.items?.map(toYouTubeVideo) || [];
+
+    // Blocked channels never surface, even if that leaves the page short. Content filter matches
+    // are handed back separately so the parent can see what was hidden.
+    const blocked = options.channelRules?.blocked;
+    const allowedVideos = blocked ? videos.filter(video => !blocked.has(video.channelId)) : videos;
+    const { videos: shownVideos, filtered } = applyContentFilter(allowedVideos, options.contentFilter);
 
     return {
-      videos,
+      videos: shownVideos,
+      filtered,
       nextPageToken: searchResponse.data.nextPageToken || undefined,
       totalResults: searchResponse.data.pageInfo?.totalResults || 0
     };
   } catch (error) {
     console.error('❌ Advanced YouTube search error:', error);
-    return { videos: [], nextPageToken: undefined, totalResults: 0 };
+    return { videos: [], filtered: [], nextPageToken: undefined, totalResults: 0 };
+  }
+}
+
+// The default feed merges several searches, so its page token is a composite cursor: the next
+// YouTube page token for each query (null once a query runs dry) plus the IDs already shown, so a
+// video that turns up in a later page of another query isn't shown twice.
+interface FeedCursor {
+  queries: string; // Fingerprint of the query list, so a cursor from before an interests change is ignored
+  tokens: (string | null)[];
+  seen: string[];
+}
+
+// Keeps the cursor a reasonable size for a query string; older pages rarely come back around
+const MAX_SEEN_IDS = 300;
+
+function queriesFingerprint(queries: string[]): string {
+  let hash = 0;
+  for (const char of queries.join('|')) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return hash.toString(36);
+}
+
+function encodeFeedCursor(cursor: FeedCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeFeedCursor(pageToken: string, queries: string[]): FeedCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(pageToken, 'base64url').toString('utf8')) as FeedCursor;
+    if (cursor.queries !== queriesFingerprint(queries) ||
+      !Array.isArray(cursor.tokens) || cursor.tokens.length !== queries.length ||
+      !Array.isArray(cursor.seen)) {
+      return null;
+    }
+    return cursor;
+  } catch {
+    return null;
   }
 }
 
@@ -221,28 +286,146 @@ export async function getRecommendationsForChild(
   interests: string[], 
   age: number, 
   options: SearchOptions = {}
-) {
-  const queries = generateSearchQueries(interests, age);
+): Promise<SearchResult> {
+  const queries = generateSearchQueries(interests, age).slice(0, 5);
   const allVideos: YouTubeVideo[] = [];
-  
+  const allFiltered: FilteredVideo<YouTubeVideo>[] = [];
+
+  const { pageToken, diversity, ...searchOptions } = options;
+  let cursor: FeedCursor = { queries: queriesFingerprint(queries), tokens: queries.map(() => null), seen: [] };
+  if (pageToken) {
+    const decoded = decodeFeedCursor(pageToken, queries);
+    if (!decoded) {
+      // Most likely the child's interests changed since the page was loaded; end the feed
+      // rather than start over and repeat what's already on screen
+      console.warn('⚠️ Ignoring recommendations cursor that no longer matches the feed');
+      return { videos: [], filtered: [], totalResults: 0 };
+    }
+    cursor = decoded;
+  }
+
+  // On the first page every query runs; after that only the ones with pages left
+  const active = queries
+    .map((query, index) => ({ query, index, token: cursor.tokens[index] }))
+    .filter(({ token }) => !pageToken || token !== null);
+
   const maxResults = options.maxResults || 50;
-  const videosPerQuery = Math.ceil(maxResults / Math.min(queries.length, 5));
-  
-  // Use more queries to get more diverse results
-  for (const query of queries.slice(0, 5)) {
+  // With guardrails on, fetch twice the page so there's room to swap videos out. A search costs
+  // the same quota however many results it returns.
+  const poolSize = diversity ? maxResults * 2 : maxResults;
+  const videosPerQuery = Math.min(Math.ceil(poolSize / Math.max(active.length, 1)), 50);
+
+  const nextTokens = [...cursor.tokens];
+  for (const { query, index, token } of active) {
     const result = await searchVideosAdvanced(query, {
-      ...options,
+      ...searchOptions,
+      pageToken: token || undefined,
       maxResults: videosPerQuery
     });
     allVideos.push(...result.videos);
+    allFiltered.push(...result.filtered);
+    nextTokens[index] = result.nextPageToken || null;
   }
   
-  // Remove duplicates and limit results
+  // Remove duplicates (within this page and against earlier pages) and limit results
+  const seen = new Set(cursor.seen);
   const uniqueVideos = allVideos.filter((video, index, self) => 
-    index === self.findIndex(v => v.id === video.id)
+    !seen.has(video.id) && index === self.findIndex(v => v.id === video.id)
+  );
+  const uniqueFiltered = allFiltered.filter((item, index, self) =>
+    !seen.has(item.video.id) && index === self.findIndex(other => other.video.id === item.video.id)
   );
+
+  // Videos from trusted channels go first (the sort is stable, so relevance order is kept otherwise)
+  const allowed = options.channelRules?.allowed;
+  if (allowed && allowed.size > 0) {
+    uniqueVideos.sort((a, b) => Number(allowed.has(b.channelId)) - Number(allowed.has(a.channelId)));
+  }
   
-  return uniqueVideos.slice(0, maxResults);
+  // Candidates that don't make this page are dropped rather than carried over; the queries
+  // behind them have plenty more
+  const videos = diversity
+    ? diversify(uniqueVideos, maxResults, diversity)
+    : uniqueVideos.slice(0, maxResults);
+
+  const hasMore = nextTokens.some(token => token !== null);
+  const nextPageToken = hasMore
+    ? encodeFeedCursor({
+        queries: cursor.queries,
+        tokens: nextTokens,
+        seen: [...cursor.seen, ...videos.map(video => video.id), ...uniqueFiltered.map(item => item.video.id)].slice(-MAX_SEEN_IDS),
+      })
+    : undefined;
+
+  return {
+    videos,
+    filtered: uniqueFiltered,
+    nextPageToken,
+    totalResults: videos.length
+  };
+}
+
+// Newest uploads from one channel, published after `publishedAfter`. Errors are thrown rather than
+// swallowed so a background caller doesn't mistake a failed lookup for "no new uploads".
+export async function getChannelUploads(
+  channelId: string,
+  publishedAfter: Date,
+  maxResults: number = 10
+): Promise<YouTubeVideo[]> {
+  const searchResponse = await youtube.search.list({
+    part: ['id'],
+    channelId,
+    type: ['video'],
+    order: 'date',
+    publishedAfter: publishedAfter.toISOString(),
+    maxResults,
+    safeSearch: 'strict',
+    videoEmbeddable: 'true',
+  });
+
+  const videoIds = (searchResponse.data.items || [])
+    .map(item => item.id?.videoId)
+    .filter((id): id is string => Boolean(id));
+
+  if (videoIds.length === 0) {
+    return [];
+  }
+
+  const videoDetails = await youtube.videos.list({
+    part: ['snippet', 'contentDetails', 'statistics'],
+    id: videoIds,
+  });
+
+  return videoDetails.data.items?.map(toYouTubeVideo) || [];
+}
+
+// Approved videos from other sources have prefixed keys (vimeo-..., media-...) in place of a YouTube ID
+export function isYouTubeId(key: string): boolean {
+  return /^[\w-]{11}$/.test(key);
+}
+
+// One video's details, looked up by the server. Returns null when YouTube doesn't know the video.
+export async function getVideoDetails(youtubeId: string): Promise<YouTubeVideo | null> {
+  if (!isYouTubeId(youtubeId)) {
+    return null;
+  }
+
+  try {
+    const videoDetails = await youtube.videos.list({
+      part: ['snippet', 'contentDetails', 'statistics'],
+      id: [youtubeId],
+    });
+
+    const video = videoDetails.data.items?.[0];
+    if (!video) {
+      return null;
+    }
+
+    return toYouTubeVideo(video);
+  } catch (error) {
+    console.error('❌ Error fetching video details:', error);
+    return null;
+  }
 }
 
 function getCategoryKeywords(category: VideoCategory): string {
@@ -332,4 +515,65 @@ function formatDuration(duration: string): string {
     return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
   }
   return `${minutes}:${seconds.toString().padStart(2, '0')}`;
-}
\ No newline at end of file
+}
+
+// Caption requests that hang shouldn't hold up an approval or a summary
+const CAPTION_TIMEOUT_MS = 10 * 1000;
+
+export interface VideoCaptions {
+  language: string;
+  text: string;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+// Public caption track for a video, preferring English, or null when the video has none (or isn't a
+// YouTube video). The Data API only lets a channel's owner download captions, so this uses the
+// timedtext endpoint the YouTube player reads from.
+export async function getVideoCaptions(youtubeId: string): Promise<VideoCaptions | null> {
+  if (!isYouTubeId(youtubeId)) {
+    return null;
+  }
+
+  const listResponse = await fetch(`https://www.youtube.com/api/timedtext?type=list&v=${encodeURIComponent(youtubeId)}`, {
+    signal: AbortSignal.timeout(CAPTION_TIMEOUT_MS),
+  });
+  if (!listResponse.ok) {
+    throw new Error(`Caption list request failed with ${listResponse.status}`);
+  }
+
+  const tracks = Array.from((await listResponse.text()).matchAll(/<track\b([^>]*)>/g)).map(match => ({
+    language: match[1].match(/lang_code="([^"]*)"/)?.[1] || '',
+    name: decodeXmlEntities(match[1].match(/name="([^"]*)"/)?.[1] || ''),
+  }));
+
+  const track = tracks.find(t => t.language === 'en') || tracks.find(t => t.language.startsWith('en')) || tracks[0];
+  if (!track) {
+    return null;
+  }
+
+  const params = new URLSearchParams({ v: youtubeId, lang: track.language });
+  if (track.name) params.set('name', track.name);
+
+  const trackResponse = await fetch(`https://www.youtube.com/api/timedtext?${params}`, {
+    signal: AbortSignal.timeout(CAPTION_TIMEOUT_MS),
+  });
+  if (!trackResponse.ok) {
+    throw new Error(`Caption track request failed with ${trackResponse.status}`);
+  }
+
+  const text = Array.from((await trackResponse.text()).matchAll(/<text\b[^>]*>([\s\S]*?)<\/text>/g))
+    .map(match => decodeXmlEntities(match[1]).replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join(' ');
+
+  return text ? { language: track.language, text } : null;
+}
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."children" ADD COLUMN     "weekdayLimitMinutes" INTEGER,
+ADD COLUMN     "weekendLimitMinutes" INTEGER;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."children" ADD COLUMN     "timezone" TEXT NOT NULL DEFAULT 'UTC',
+ADD COLUMN     "weekdayWindows" TEXT[],
+ADD COLUMN     "weekendWindows" TEXT[];
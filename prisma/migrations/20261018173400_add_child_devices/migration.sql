@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "public"."device_pairing_codes" (
+    "id" TEXT NOT NULL,
+    "childId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "device_pairing_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."child_devices" (
+    "id" TEXT NOT NULL,
+    "childId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "lastUsedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "child_devices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "device_pairing_codes_code_key" ON "public"."device_pairing_codes"("code");
+
+-- CreateIndex
+CREATE INDEX "device_pairing_codes_childId_idx" ON "public"."device_pairing_codes"("childId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "child_devices_tokenHash_key" ON "public"."child_devices"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "child_devices_childId_idx" ON "public"."child_devices"("childId");
+
+-- AddForeignKey
+ALTER TABLE "public"."device_pairing_codes" ADD CONSTRAINT "device_pairing_codes_childId_fkey" FOREIGN KEY ("childId") REFERENCES "public"."children"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."child_devices" ADD CONSTRAINT "child_devices_childId_fkey" FOREIGN KEY ("childId") REFERENCES "public"."children"("id") ON DELETE CASCADE ON UPDATE CASCADE;
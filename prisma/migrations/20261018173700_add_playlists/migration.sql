@@ -0,0 +1,78 @@
+-- CreateTable
+CREATE TABLE "public"."playlists" (
+    "id" TEXT NOT NULL,
+    "parentId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "playlists_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."playlist_items" (
+    "id" TEXT NOT NULL,
+    "playlistId" TEXT NOT NULL,
+    "approvedVideoId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "playlist_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."playlist_assignments" (
+    "id" TEXT NOT NULL,
+    "playlistId" TEXT NOT NULL,
+    "childId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "playlist_assignments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."playlist_item_progress" (
+    "id" TEXT NOT NULL,
+    "childId" TEXT NOT NULL,
+    "playlistItemId" TEXT NOT NULL,
+    "completedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "playlist_item_progress_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "playlists_parentId_idx" ON "public"."playlists"("parentId");
+
+-- CreateIndex
+CREATE INDEX "playlist_items_playlistId_position_idx" ON "public"."playlist_items"("playlistId", "position");
+
+-- CreateIndex
+CREATE INDEX "playlist_assignments_childId_idx" ON "public"."playlist_assignments"("childId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "playlist_assignments_playlistId_childId_key" ON "public"."playlist_assignments"("playlistId", "childId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "playlist_item_progress_childId_playlistItemId_key" ON "public"."playlist_item_progress"("childId", "playlistItemId");
+
+-- AddForeignKey
+ALTER TABLE "public"."playlists" ADD CONSTRAINT "playlists_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "public"."parents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."playlist_items" ADD CONSTRAINT "playlist_items_playlistId_fkey" FOREIGN KEY ("playlistId") REFERENCES "public"."playlists"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."playlist_items" ADD CONSTRAINT "playlist_items_approvedVideoId_fkey" FOREIGN KEY ("approvedVideoId") REFERENCES "public"."approved_videos"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."playlist_assignments" ADD CONSTRAINT "playlist_assignments_playlistId_fkey" FOREIGN KEY ("playlistId") REFERENCES "public"."playlists"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."playlist_assignments" ADD CONSTRAINT "playlist_assignments_childId_fkey" FOREIGN KEY ("childId") REFERENCES "public"."children"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."playlist_item_progress" ADD CONSTRAINT "playlist_item_progress_childId_fkey" FOREIGN KEY ("childId") REFERENCES "public"."children"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."playlist_item_progress" ADD CONSTRAINT "playlist_item_progress_playlistItemId_fkey" FOREIGN KEY ("playlistItemId") REFERENCES "public"."playlist_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
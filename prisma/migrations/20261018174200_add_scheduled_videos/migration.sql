@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "public"."scheduled_videos" (
+    "id" TEXT NOT NULL,
+    "childId" TEXT NOT NULL,
+    "approvedVideoId" TEXT NOT NULL,
+    "scheduledDate" TIMESTAMP(3) NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "isWatched" BOOLEAN NOT NULL DEFAULT false,
+    "watchedAt" TIMESTAMP(3),
+    "originalDate" TIMESTAMP(3) NOT NULL,
+    "carriedOver" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scheduled_videos_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "scheduled_videos_scheduledDate_isActive_idx" ON "public"."scheduled_videos"("scheduledDate", "isActive");
+
+-- CreateIndex
+CREATE INDEX "scheduled_videos_childId_scheduledDate_idx" ON "public"."scheduled_videos"("childId", "scheduledDate");
+
+-- CreateIndex
+CREATE INDEX "scheduled_videos_childId_isWatched_idx" ON "public"."scheduled_videos"("childId", "isWatched");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scheduled_videos_childId_approvedVideoId_scheduledDate_key" ON "public"."scheduled_videos"("childId", "approvedVideoId", "scheduledDate");
+
+-- AddForeignKey
+ALTER TABLE "public"."scheduled_videos" ADD CONSTRAINT "scheduled_videos_childId_fkey" FOREIGN KEY ("childId") REFERENCES "public"."children"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."scheduled_videos" ADD CONSTRAINT "scheduled_videos_approvedVideoId_fkey" FOREIGN KEY ("approvedVideoId") REFERENCES "public"."approved_videos"("id") ON DELETE CASCADE ON UPDATE CASCADE;
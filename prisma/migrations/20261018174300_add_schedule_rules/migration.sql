@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "public"."RecurrenceFrequency" AS ENUM ('DAILY', 'WEEKDAYS', 'WEEKLY', 'INTERVAL');
+
+-- AlterTable
+ALTER TABLE "public"."scheduled_videos" ADD COLUMN     "scheduleRuleId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."schedule_rules" (
+    "id" TEXT NOT NULL,
+    "childId" TEXT NOT NULL,
+    "approvedVideoId" TEXT NOT NULL,
+    "frequency" "public"."RecurrenceFrequency" NOT NULL,
+    "daysOfWeek" INTEGER[],
+    "intervalDays" INTEGER,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "schedule_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "schedule_rules_childId_idx" ON "public"."schedule_rules"("childId");
+
+-- CreateIndex
+CREATE INDEX "scheduled_videos_scheduleRuleId_idx" ON "public"."scheduled_videos"("scheduleRuleId");
+
+-- AddForeignKey
+ALTER TABLE "public"."scheduled_videos" ADD CONSTRAINT "scheduled_videos_scheduleRuleId_fkey" FOREIGN KEY ("scheduleRuleId") REFERENCES "public"."schedule_rules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."schedule_rules" ADD CONSTRAINT "schedule_rules_childId_fkey" FOREIGN KEY ("childId") REFERENCES "public"."children"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."schedule_rules" ADD CONSTRAINT "schedule_rules_approvedVideoId_fkey" FOREIGN KEY ("approvedVideoId") REFERENCES "public"."approved_videos"("id") ON DELETE CASCADE ON UPDATE CASCADE;
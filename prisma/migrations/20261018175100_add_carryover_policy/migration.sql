@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "public"."CarryoverMode" AS ENUM ('CARRY', 'EXPIRE');
+
+-- CreateEnum
+CREATE TYPE "public"."CarryoverReason" AS ENUM ('CARRIED', 'ALREADY_SCHEDULED', 'DAILY_CAP_REACHED', 'MAX_DAYS_EXCEEDED', 'EXPIRED');
+
+-- AlterTable
+ALTER TABLE "public"."children" ADD COLUMN     "carryoverDailyCap" INTEGER,
+ADD COLUMN     "carryoverMaxDays" INTEGER,
+ADD COLUMN     "carryoverMode" "public"."CarryoverMode" NOT NULL DEFAULT 'CARRY';
+
+-- AlterTable
+ALTER TABLE "public"."scheduled_videos" ADD COLUMN     "carryoverAt" TIMESTAMP(3),
+ADD COLUMN     "carryoverReason" "public"."CarryoverReason",
+ADD COLUMN     "isStale" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "scheduled_videos_childId_isStale_idx" ON "public"."scheduled_videos"("childId", "isStale");
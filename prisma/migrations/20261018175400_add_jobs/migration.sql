@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "public"."JobRunStatus" AS ENUM ('RUNNING', 'SUCCEEDED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "public"."JobTrigger" AS ENUM ('SCHEDULE', 'MANUAL');
+
+-- CreateTable
+CREATE TABLE "public"."jobs" (
+    "name" TEXT NOT NULL,
+    "nextRunAt" TIMESTAMP(3) NOT NULL,
+    "lockedBy" TEXT,
+    "lockedUntil" TIMESTAMP(3),
+    "lastRunAt" TIMESTAMP(3),
+    "lastStatus" "public"."JobRunStatus",
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "jobs_pkey" PRIMARY KEY ("name")
+);
+
+-- CreateTable
+CREATE TABLE "public"."job_runs" (
+    "id" TEXT NOT NULL,
+    "jobName" TEXT NOT NULL,
+    "trigger" "public"."JobTrigger" NOT NULL,
+    "attempt" INTEGER NOT NULL DEFAULT 1,
+    "status" "public"."JobRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "result" JSONB,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "durationMs" INTEGER,
+
+    CONSTRAINT "job_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "job_runs_jobName_startedAt_idx" ON "public"."job_runs"("jobName", "startedAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."job_runs" ADD CONSTRAINT "job_runs_jobName_fkey" FOREIGN KEY ("jobName") REFERENCES "public"."jobs"("name") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."child_activities" ADD COLUMN     "activitiesCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "videosCompletedCount" INTEGER NOT NULL DEFAULT 0;
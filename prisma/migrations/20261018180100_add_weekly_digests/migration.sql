@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "public"."weekly_digests" (
+    "id" TEXT NOT NULL,
+    "parentId" TEXT NOT NULL,
+    "childId" TEXT NOT NULL,
+    "weekStart" TIMESTAMP(3) NOT NULL,
+    "weekEnd" TIMESTAMP(3) NOT NULL,
+    "report" JSONB NOT NULL,
+    "markdown" TEXT NOT NULL,
+    "html" TEXT NOT NULL,
+    "deliveredAt" TIMESTAMP(3),
+    "deliveredVia" TEXT,
+    "deliveryError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "weekly_digests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "weekly_digests_parentId_weekStart_idx" ON "public"."weekly_digests"("parentId", "weekStart");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "weekly_digests_childId_weekStart_key" ON "public"."weekly_digests"("childId", "weekStart");
+
+-- AddForeignKey
+ALTER TABLE "public"."weekly_digests" ADD CONSTRAINT "weekly_digests_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "public"."parents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."weekly_digests" ADD CONSTRAINT "weekly_digests_childId_fkey" FOREIGN KEY ("childId") REFERENCES "public"."children"("id") ON DELETE CASCADE ON UPDATE CASCADE;
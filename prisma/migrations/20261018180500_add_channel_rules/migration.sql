@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "public"."ChannelRuleType" AS ENUM ('ALLOW', 'BLOCK');
+
+-- CreateTable
+CREATE TABLE "public"."channel_rules" (
+    "id" TEXT NOT NULL,
+    "parentId" TEXT NOT NULL,
+    "childId" TEXT,
+    "channelId" TEXT NOT NULL,
+    "channelName" TEXT NOT NULL,
+    "rule" "public"."ChannelRuleType" NOT NULL,
+    "autoApprove" BOOLEAN NOT NULL DEFAULT false,
+    "lastCheckedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "channel_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "channel_rules_autoApprove_idx" ON "public"."channel_rules"("autoApprove");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "channel_rules_parentId_childId_channelId_key" ON "public"."channel_rules"("parentId", "childId", "channelId");
+
+-- AddForeignKey
+ALTER TABLE "public"."channel_rules" ADD CONSTRAINT "channel_rules_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "public"."parents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."channel_rules" ADD CONSTRAINT "channel_rules_childId_fkey" FOREIGN KEY ("childId") REFERENCES "public"."children"("id") ON DELETE CASCADE ON UPDATE CASCADE;
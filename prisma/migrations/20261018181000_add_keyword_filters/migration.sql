@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."children" ADD COLUMN     "blockedKeywords" TEXT[],
+ADD COLUMN     "contentFilterOverrides" TEXT[];
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."approved_videos" ADD COLUMN     "suitability" JSONB;
@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "public"."TranscriptSource" AS ENUM ('CAPTIONS', 'UPLOAD', 'NONE');
+
+-- CreateTable
+CREATE TABLE "public"."video_transcripts" (
+    "id" TEXT NOT NULL,
+    "youtubeId" TEXT NOT NULL,
+    "parentId" TEXT,
+    "source" "public"."TranscriptSource" NOT NULL,
+    "language" TEXT,
+    "text" TEXT NOT NULL,
+    "digest" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "video_transcripts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "video_transcripts_youtubeId_idx" ON "public"."video_transcripts"("youtubeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "video_transcripts_youtubeId_parentId_key" ON "public"."video_transcripts"("youtubeId", "parentId");
+
+-- AddForeignKey
+ALTER TABLE "public"."video_transcripts" ADD CONSTRAINT "video_transcripts_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "public"."parents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "public"."video_metadata" (
+    "id" TEXT NOT NULL,
+    "youtubeId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "channelId" TEXT,
+    "channelName" TEXT,
+    "duration" TEXT,
+    "category" TEXT,
+    "thumbnail" TEXT,
+    "summary" TEXT,
+    "summaryPromptVersion" INTEGER,
+    "summaryUsedTranscript" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "video_metadata_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "video_metadata_youtubeId_key" ON "public"."video_metadata"("youtubeId");
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "public"."llm_usage" (
+    "id" TEXT NOT NULL,
+    "parentId" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "task" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "requests" INTEGER NOT NULL DEFAULT 0,
+    "promptTokens" INTEGER NOT NULL DEFAULT 0,
+    "completionTokens" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "llm_usage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "llm_usage_date_idx" ON "public"."llm_usage"("date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "llm_usage_parentId_date_task_model_key" ON "public"."llm_usage"("parentId", "date", "task", "model");
+
+-- AddForeignKey
+ALTER TABLE "public"."llm_usage" ADD CONSTRAINT "llm_usage_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "public"."parents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."children" ADD COLUMN     "maxVideosPerChannel" INTEGER DEFAULT 3,
+ADD COLUMN     "minVideosPerInterest" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "minVideosPerSkillArea" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "mixDurations" BOOLEAN NOT NULL DEFAULT true;
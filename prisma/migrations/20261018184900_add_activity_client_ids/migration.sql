@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."video_activities" ADD COLUMN     "clientId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "video_activities_clientId_key" ON "public"."video_activities"("clientId");
@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "public"."VideoSource" AS ENUM ('YOUTUBE', 'LOCAL_MEDIA');
+
+-- AlterTable
+ALTER TABLE "public"."approved_videos" ADD COLUMN     "mediaMimeType" TEXT,
+ADD COLUMN     "mediaSizeBytes" INTEGER,
+ADD COLUMN     "mediaUrl" TEXT,
+ADD COLUMN     "source" "public"."VideoSource" NOT NULL DEFAULT 'YOUTUBE';
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."parents" ADD COLUMN     "pinFailedAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "pinHash" TEXT,
+ADD COLUMN     "pinLockedUntil" TIMESTAMP(3);
@@ -0,0 +1,12 @@
+-- Shared caption transcripts (no parentId) were looked up and then created, so two requests at
+-- once could each store one. Keep the most recently updated copy of each.
+DELETE FROM "public"."video_transcripts" AS "older"
+USING "public"."video_transcripts" AS "newer"
+WHERE "older"."parentId" IS NULL
+  AND "newer"."parentId" IS NULL
+  AND "older"."youtubeId" = "newer"."youtubeId"
+  AND ("older"."updatedAt", "older"."id") < ("newer"."updatedAt", "newer"."id");
+
+-- The (youtubeId, parentId) unique index treats every NULL parentId as distinct, so it doesn't cover
+-- shared rows. Prisma can't declare a partial index; see VideoTranscript in schema.prisma.
+CREATE UNIQUE INDEX "video_transcripts_youtubeId_shared_key" ON "public"."video_transcripts"("youtubeId") WHERE "parentId" IS NULL;